@@ -25,6 +25,6 @@ CREATE INDEX IF NOT EXISTS idx_companies_raw_data ON companies_raw USING GIN(dat
 
 COMMENT ON TABLE companies_raw IS 'Raw scraper data from n8n. All scraped fields stored in the data JSONB column. Will be processed and migrated to the empliq production DB later.';
 COMMENT ON COLUMN companies_raw.ruc IS 'RUC de SUNAT - unique identifier for each company';
-COMMENT ON COLUMN companies_raw.razon_social IS 'Company legal name from CSV';
-COMMENT ON COLUMN companies_raw.data IS 'All scraped data as JSON: website, search results, AI extraction, etc.';
-COMMENT ON COLUMN companies_raw.source IS 'Origin of the data: n8n_scraper, manual, etc.';
+COMMENT ON COLUMN companies_raw.razon_social IS 'Company legal name (SUNAT razón social). The scraper API only writes it from DatosPeru, never from the search query.';
+COMMENT ON COLUMN companies_raw.data IS 'All scraped data as JSON: website, search results, AI extraction, etc. The scraper API (persist=true) writes under the keys search, website and datosperu.';
+COMMENT ON COLUMN companies_raw.source IS 'Origin of the data: n8n_scraper, api_scraper, manual, etc.';
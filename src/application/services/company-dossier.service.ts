@@ -0,0 +1,322 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  CompanyDossier,
+  DossierField,
+  DossierSource,
+} from '../../domain/entities/company-dossier.entity';
+import { CompanyProfile } from '../../domain/entities/company-profile.entity';
+import { DatosPeruProfile } from '../../domain/entities/datos-peru-profile.entity';
+import { SearchResult } from '../../domain/entities/search-result.entity';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { CompanyProfileService } from './company-profile.service';
+import { EnrichmentService } from './enrichment.service';
+import { CompanyPersistenceService, PersistInfo } from './company-persistence.service';
+import { CacheInfo } from './result-cache.service';
+import { reconcileLeadership } from '../../shared/utils/leadership';
+import { normalizePhone, phoneKey } from '../../shared/utils/phone-number';
+
+/** Resultado completo: dossier fusionado + estado de cada flujo */
+export interface DossierResult {
+  dossier: CompanyDossier;
+  datosPeru: { found: boolean; sourceUrl: string | null; cache: CacheInfo | null; error: string | null };
+  search: {
+    attempted: boolean;
+    found: boolean;
+    website: string | null;
+    score: number;
+    strategy: string | null;
+    cache: CacheInfo | null;
+    error: string | null;
+  };
+  website: {
+    scraped: boolean;
+    url: string | null;
+    fieldsExtracted: number;
+    cache: CacheInfo | null;
+    error: string | null;
+  };
+  persistence?: PersistInfo[];
+  durationMs: number;
+}
+
+type Candidate<T> = [DossierSource, T | null | undefined];
+
+/**
+ * Dossier unificado por RUC: DatosPeru + búsqueda + scraping de la web oficial.
+ *
+ * Flujo:
+ *   1. DatosPeru por RUC → razón social, datos SUNAT, web declarada
+ *   2. Buscar web oficial (nombre indicado o razón social) pasando el RUC
+ *   3. Scraping de la web encontrada (o de la web declarada en DatosPeru)
+ *   4. Fusión campo a campo según precedencia:
+ *        identidad legal / SUNAT / ubicación → datosperu > website
+ *        descripción, cultura, nombre comercial → website > datosperu
+ *        web oficial → search > datosperu > website
+ *        teléfonos, emails, redes → unión de todas las fuentes
+ *        equipo directivo → web conciliada con los ejecutivos SUNAT por nombre
+ *
+ * Un flujo que falla no tumba el dossier: se reporta en su `error`.
+ */
+@Injectable()
+export class CompanyDossierService {
+  private readonly logger = new Logger(CompanyDossierService.name);
+
+  constructor(
+    private readonly enrichment: EnrichmentService,
+    private readonly profileService: CompanyProfileService,
+    private readonly persistence: CompanyPersistenceService,
+  ) {}
+
+  async build(
+    ruc: string,
+    options?: { name?: string; fresh?: boolean; persist?: boolean },
+  ): Promise<DossierResult> {
+    const start = Date.now();
+    this.logger.log(`📇 Dossier RUC ${ruc}${options?.name ? ` ("${options.name}")` : ''}`);
+
+    const out: Omit<DossierResult, 'dossier' | 'durationMs'> = {
+      datosPeru: { found: false, sourceUrl: null, cache: null, error: null },
+      search: {
+        attempted: false,
+        found: false,
+        website: null,
+        score: 0,
+        strategy: null,
+        cache: null,
+        error: null,
+      },
+      website: { scraped: false, url: null, fieldsExtracted: 0, cache: null, error: null },
+    };
+
+    // ═══ 1. DatosPeru (SUNAT) ═══
+    let datosPeru: DatosPeruProfile | null = null;
+    try {
+      const { profile, failure, cache } = await this.enrichment.enrichFromDatosPeru(ruc, options?.fresh);
+      datosPeru = profile;
+      out.datosPeru = {
+        found: !!profile && profile.fieldsExtracted > 0,
+        sourceUrl: profile?.sourceUrl ?? null,
+        cache,
+        error: failure && failure.code !== FailureCode.NOT_FOUND ? failure.message : null,
+      };
+    } catch (err) {
+      out.datosPeru.error = (err as Error).message;
+      this.logger.warn(`DatosPeru falló para ${ruc}: ${out.datosPeru.error}`);
+    }
+
+    // ═══ 2 + 3. Búsqueda de la web oficial + scraping ═══
+    const companyName = options?.name?.trim() || datosPeru?.nombre || null;
+    let searchEntity: { result: SearchResult | null; strategyUsed: SearchStrategy } | null = null;
+    let profile: CompanyProfile | null = null;
+
+    if (companyName) {
+      out.search.attempted = true;
+      try {
+        const res = await this.profileService.searchAndScrape(
+          companyName,
+          undefined,
+          options?.fresh,
+          ruc,
+        );
+        searchEntity = res.searchEntity;
+        const { failure, ...searchResult } = res.searchResult;
+        out.search = {
+          ...out.search,
+          ...searchResult,
+          error: failure && failure.code !== FailureCode.NOT_FOUND ? failure.message : null,
+        };
+        profile = res.profile;
+        if (profile) {
+          out.website = {
+            scraped: true,
+            url: profile.sourceUrl,
+            fieldsExtracted: profile.fieldsExtracted,
+            cache: res.profileCache,
+            error: null,
+          };
+        }
+      } catch (err) {
+        out.search.error = (err as Error).message;
+        this.logger.warn(`Búsqueda falló para "${companyName}": ${out.search.error}`);
+      }
+    }
+
+    // Sin web desde el buscador → usar la web declarada en DatosPeru
+    if (!profile && datosPeru?.web) {
+      const url = this.normalizeUrl(datosPeru.web);
+      try {
+        const res = await this.profileService.scrapeUrl(url, undefined, options?.fresh);
+        profile = res.profile;
+        out.website = {
+          scraped: true,
+          url: profile.sourceUrl,
+          fieldsExtracted: profile.fieldsExtracted,
+          cache: res.cache,
+          error: null,
+        };
+      } catch (err) {
+        out.website.url = url;
+        out.website.error = (err as Error).message;
+        this.logger.warn(`Scraping falló para ${url}: ${out.website.error}`);
+      }
+    }
+
+    // ═══ 4. Fusión ═══
+    const dossier = this.merge(ruc, datosPeru, profile, searchEntity?.result ?? null);
+    this.logger.log(`📇 Dossier ${ruc}: ${dossier.fieldsFilled} campos`);
+
+    let persistence: PersistInfo[] | undefined;
+    if (options?.persist) {
+      persistence = [];
+      if (datosPeru) persistence.push(await this.persistence.persistDatosPeru(datosPeru));
+      if (searchEntity && companyName) {
+        persistence.push(
+          await this.persistence.persistSearch(
+            ruc,
+            companyName,
+            searchEntity.result,
+            searchEntity.strategyUsed,
+          ),
+        );
+      }
+      if (profile) persistence.push(await this.persistence.persistWebsite(ruc, profile));
+    }
+
+    return { dossier, ...out, persistence, durationMs: Date.now() - start };
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Reglas de precedencia
+  // ──────────────────────────────────────────────────────────
+
+  private merge(
+    ruc: string,
+    dp: DatosPeruProfile | null,
+    web: CompanyProfile | null,
+    search: SearchResult | null,
+  ): CompanyDossier {
+    const d = new CompanyDossier(ruc);
+
+    // Identidad legal → SUNAT manda
+    d.legalName = this.pick([['datosperu', dp?.nombre], ['website', web?.originalName]]);
+    d.tradeName = this.pick([['website', web?.name], ['search', search?.cleanName]]);
+    d.description = this.pick([['website', web?.description], ['datosperu', dp?.descripcion]]);
+    d.history = this.pick([['website', web?.history]]);
+    d.foundedYear = this.pick([
+      ['website', web?.foundedYear],
+      ['datosperu', this.yearOf(dp?.fechaInicio)],
+    ]);
+
+    // Datos tributarios → solo SUNAT
+    d.status = this.pick([['datosperu', dp?.estado]]);
+    d.taxpayerType = this.pick([['datosperu', dp?.tipo]]);
+    d.ciiu = this.pick([['datosperu', dp?.ciiu]]);
+    d.industry = this.pick([['website', web?.industry], ['datosperu', dp?.sectorEconomico]]);
+
+    // Domicilio fiscal SUNAT > sede que declara la web
+    d.address = this.pick([['datosperu', dp?.direccion], ['website', web?.headquarters]]);
+    d.department = this.pick([['datosperu', dp?.departamento]]);
+    d.province = this.pick([['datosperu', dp?.provincia]]);
+    d.district = this.pick([['datosperu', dp?.distrito]]);
+    d.ubigeo = this.pick([['datosperu', dp?.ubigeo], ['website', web?.headquartersAddress?.ubigeo]]);
+
+    // Web oficial: lo que encontró el buscador > lo declarado en DatosPeru > la URL scrapeada
+    d.website = this.pick([
+      ['search', search?.found ? search.website : null],
+      ['datosperu', dp?.web ? this.normalizeUrl(dp.web) : null],
+      ['website', web?.sourceUrl],
+    ]);
+
+    // Contacto → unión
+    d.phones = this.union(
+      [['datosperu', dp?.telefonos], ['website', web?.phones]],
+      // "+51 1 219-2000" y "(01) 219-2000" son el mismo número
+      (p) => {
+        const phone = normalizePhone(p);
+        return phone ? phoneKey(phone) : p.replace(/\D/g, '');
+      },
+    );
+    d.emails = this.union([['website', web?.emails]], (e) => e.trim().toLowerCase());
+    d.socialLinks =
+      web && Object.keys(web.socialLinks).length > 0
+        ? { value: web.socialLinks, sources: ['website'] }
+        : { value: {}, sources: [] };
+    d.logoUrl = this.pick([['website', web?.logoUrl], ['datosperu', dp?.logoUrl]]);
+
+    // Cultura → solo la web
+    d.mission = this.pick([['website', web?.mission]]);
+    d.vision = this.pick([['website', web?.vision]]);
+    d.values = this.union([['website', web?.values]], (v) => v.trim().toLowerCase());
+
+    // Personas
+    d.executives = dp?.ejecutivos.length
+      ? { value: dp.ejecutivos, sources: ['datosperu'] }
+      : { value: [], sources: [] };
+    const leaders = reconcileLeadership(web?.leadership ?? [], dp?.ejecutivos ?? []);
+    d.leadership = {
+      value: leaders,
+      sources: (['website', 'datosperu'] as const).filter((s) => leaders.some((l) => l.sources.includes(s))),
+    };
+    d.employeeCount = this.pick([
+      ['datosperu', this.latestWorkers(dp)],
+      ['website', web?.employeeCount],
+    ]);
+
+    return d;
+  }
+
+  /** Primer candidato con valor, en orden de precedencia */
+  private pick<T>(candidates: Candidate<T>[]): DossierField<T | null> {
+    for (const [source, value] of candidates) {
+      if (value !== null && value !== undefined && value !== '') {
+        return { value, sources: [source] };
+      }
+    }
+    return { value: null, sources: [] };
+  }
+
+  /** Unión sin duplicados (según `keyOf`), conservando el formato del primero visto */
+  private union(
+    candidates: Candidate<string[]>[],
+    keyOf: (v: string) => string,
+  ): DossierField<string[]> {
+    const seen = new Set<string>();
+    const value: string[] = [];
+    const sources: DossierSource[] = [];
+
+    for (const [source, list] of candidates) {
+      let contributed = false;
+      for (const item of list ?? []) {
+        const key = keyOf(item);
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        value.push(item);
+        contributed = true;
+      }
+      if (contributed) sources.push(source);
+    }
+
+    return { value, sources };
+  }
+
+  /** "02/01/1986" → 1986 */
+  private yearOf(date: string | null | undefined): number | null {
+    const match = date?.match(/(\d{4})\s*$/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  /** Trabajadores en planilla del último periodo reportado */
+  private latestWorkers(dp: DatosPeruProfile | null): string | null {
+    if (!dp?.historialTrabajadores.length) return null;
+    const latest = [...dp.historialTrabajadores].sort((a, b) =>
+      b.periodo.localeCompare(a.periodo),
+    )[0];
+    return `${latest.nroTrabajadores} trabajadores (${latest.periodo})`;
+  }
+
+  private normalizeUrl(url: string): string {
+    const trimmed = url.trim();
+    return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  }
+}
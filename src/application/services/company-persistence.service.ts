@@ -0,0 +1,130 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import {
+  CompanyRawStorePort,
+  CompanyRawSource,
+  COMPANY_RAW_STORE_PORT,
+} from '../../domain/ports/company-raw-store.port';
+import { SearchResult } from '../../domain/entities/search-result.entity';
+import { CompanyProfile } from '../../domain/entities/company-profile.entity';
+import { DatosPeruProfile } from '../../domain/entities/datos-peru-profile.entity';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+
+/** Resultado de persistir en companies_raw — se incluye en la respuesta */
+export interface PersistInfo {
+  persisted: boolean;
+  ruc: string | null;
+  key: CompanyRawSource;
+  error: string | null;
+}
+
+/**
+ * Escribe los resultados de search / scrape / enrich en companies_raw,
+ * cada uno bajo su propia clave en `data`:
+ *
+ *   data.search    ← SearchResult
+ *   data.website   ← CompanyProfile
+ *   data.datosperu ← DatosPeruProfile
+ *
+ * razon_social solo la escribe DatosPeru (la razón social de SUNAT): el nombre
+ * buscado suele ser la marca y la web usa el nombre comercial.
+ *
+ * Se activa con `persist=true` en cada endpoint. Un fallo de la base de datos
+ * no rompe la respuesta: se reporta en `persistence.error`.
+ */
+@Injectable()
+export class CompanyPersistenceService {
+  private readonly logger = new Logger(CompanyPersistenceService.name);
+
+  constructor(
+    @Inject(COMPANY_RAW_STORE_PORT)
+    private readonly store: CompanyRawStorePort,
+  ) {}
+
+  /** No toca razon_social: el nombre buscado suele ser la marca, no la razón social */
+  async persistSearch(
+    ruc: string | undefined,
+    companyName: string,
+    result: SearchResult | null,
+    strategyUsed: SearchStrategy,
+  ): Promise<PersistInfo> {
+    return this.upsert(
+      ruc,
+      'search',
+      {
+        query: companyName,
+        found: result?.found ?? false,
+        website: result?.website ?? null,
+        score: result?.score ?? 0,
+        title: result?.title ?? null,
+        cleanName: result?.cleanName ?? null,
+        strategy: strategyUsed,
+        allResults: result?.allResults ?? [],
+        searchedAt: (result?.timestamp ?? new Date()).toISOString(),
+      },
+    );
+  }
+
+  /**
+   * Si no se indica RUC se usa el que se extrajo de la propia web.
+   * No toca razon_social: el nombre de la web suele ser comercial, no legal.
+   */
+  async persistWebsite(
+    ruc: string | undefined,
+    profile: CompanyProfile,
+  ): Promise<PersistInfo> {
+    return this.upsert(
+      ruc || profile.ruc || undefined,
+      'website',
+      {
+        ...this.toJson(profile),
+        fieldsExtracted: profile.fieldsExtracted,
+      },
+    );
+  }
+
+  async persistDatosPeru(profile: DatosPeruProfile): Promise<PersistInfo> {
+    return this.upsert(
+      profile.ruc,
+      'datosperu',
+      {
+        ...this.toJson(profile),
+        fieldsExtracted: profile.fieldsExtracted,
+      },
+      profile.nombre,
+    );
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private async upsert(
+    ruc: string | undefined,
+    key: CompanyRawSource,
+    value: Record<string, unknown>,
+    razonSocial?: string | null,
+  ): Promise<PersistInfo> {
+    const cleanRuc = ruc?.trim() || null;
+
+    if (!cleanRuc || !/^\d{11}$/.test(cleanRuc)) {
+      const error = cleanRuc
+        ? `RUC inválido: "${cleanRuc}" (debe tener 11 dígitos)`
+        : 'Se requiere un RUC para persistir en companies_raw';
+      this.logger.warn(`💾 No se persistió ${key}: ${error}`);
+      return { persisted: false, ruc: cleanRuc, key, error };
+    }
+
+    try {
+      await this.store.upsert(cleanRuc, key, value, razonSocial);
+      this.logger.log(`💾 companies_raw[${cleanRuc}].data.${key} actualizado`);
+      return { persisted: true, ruc: cleanRuc, key, error: null };
+    } catch (err) {
+      const error = (err as Error).message;
+      this.logger.error(`💾 Error persistiendo ${key} de RUC ${cleanRuc}: ${error}`);
+      return { persisted: false, ruc: cleanRuc, key, error };
+    }
+  }
+
+  /** JSON plano (Dates → ISO string), igual a como quedará en JSONB */
+  private toJson(entity: object): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(entity));
+  }
+}
@@ -4,8 +4,13 @@ import {
   WEBSITE_SCRAPER_PORT,
   ScrapeOptions,
 } from '../../domain/ports/website-scraper.port';
-import { CompanyProfile } from '../../domain/entities/company-profile.entity';
+import { CompanyProfile, RucCheck } from '../../domain/entities/company-profile.entity';
+import { SearchResult } from '../../domain/entities/search-result.entity';
+import { Failure } from '../../domain/entities/result.entity';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
 import { SearchOrchestratorService } from './search-orchestrator.service';
+import { ResultCacheService, CacheInfo } from './result-cache.service';
+import { checkRuc } from '../../shared/utils/ruc';
 
 /**
  * Servicio que combina búsqueda + scraping para obtener el perfil completo.
@@ -25,23 +30,33 @@ export class CompanyProfileService {
     @Inject(WEBSITE_SCRAPER_PORT)
     private readonly scraper: WebsiteScraperPort,
     private readonly searchOrchestrator: SearchOrchestratorService,
+    private readonly resultCache: ResultCacheService,
   ) {}
 
   /**
    * Scraping directo de una URL conocida.
+   * Los perfiles con datos se cachean por URL; `fresh` fuerza un nuevo scraping.
    */
-  async scrapeUrl(url: string, options?: ScrapeOptions): Promise<CompanyProfile> {
+  async scrapeUrl(
+    url: string,
+    options?: ScrapeOptions,
+    fresh?: boolean,
+  ): Promise<{ profile: CompanyProfile; cache: CacheInfo }> {
     this.logger.log(`📄 Scraping directo: ${url}`);
-    return this.scraper.scrape(url, options);
+    const { value, cache } = await this.scrapeCached(url, options, fresh);
+    return { profile: value, cache };
   }
 
   /**
    * Busca la web de una empresa y luego la scrapea.
-   * Combina los dos pasos en uno solo.
+   * Combina los dos pasos en uno solo. El RUC (si se conoce) mejora la búsqueda en directorios
+   * y se contrasta con el RUC que publica la web: un mismatch suele indicar una web equivocada.
    */
   async searchAndScrape(
     companyName: string,
     options?: ScrapeOptions,
+    fresh?: boolean,
+    ruc?: string,
   ): Promise<{
     profile: CompanyProfile | null;
     searchResult: {
@@ -49,35 +64,84 @@ export class CompanyProfileService {
       website: string | null;
       score: number;
       strategy: string;
+      cache: CacheInfo;
+      /** Por qué no se encontró web (null si se encontró) */
+      failure: Failure | null;
     };
+    /** Entidad completa de la búsqueda (para persistirla) */
+    searchEntity: { result: SearchResult | null; strategyUsed: SearchStrategy };
+    profileCache: CacheInfo | null;
+    /** Solo si se pasó el RUC y se encontró web */
+    rucCheck: RucCheck | null;
   }> {
     this.logger.log(`🔍➜🕷️ Search + Scrape: "${companyName}"`);
 
     // Paso 1: Buscar la web oficial
-    const { result, strategyUsed } = await this.searchOrchestrator.search(companyName);
+    const { result, strategyUsed, cache, failure } = await this.searchOrchestrator.search(
+      companyName,
+      undefined,
+      ruc,
+      { fresh },
+    );
 
     const searchResult = {
       found: result?.found ?? false,
       website: result?.website ?? null,
       score: result?.score ?? 0,
       strategy: strategyUsed,
+      cache,
+      failure,
     };
 
+    const searchEntity = { result, strategyUsed };
+
     if (!result?.website) {
       this.logger.warn(`❌ No se encontró web para "${companyName}"`);
-      return { profile: null, searchResult };
+      return { profile: null, searchResult, searchEntity, profileCache: null, rucCheck: null };
     }
 
     this.logger.log(`🔗 Web encontrada: ${result.website} (score: ${result.score})`);
 
     // Paso 2: Scraping de la web
-    const profile = await this.scraper.scrape(result.website, options);
+    const { value: profile, cache: profileCache } = await this.scrapeCached(
+      result.website,
+      options,
+      fresh,
+    );
 
     // Enriquecer con datos de la búsqueda
     if (!profile.name && result.title) {
       profile.name = result.title.split(/[|\-–—]/)[0].trim();
+      profile.track('name', {
+        value: profile.name,
+        sourceUrl: result.website,
+        extractor: 'searchResultTitle',
+        rule: `${strategyUsed} title`,
+        snippet: result.title,
+        confidence: 0.4,
+      });
+    }
+
+    const rucCheck = ruc ? checkRuc(ruc, profile) : null;
+    if (rucCheck?.status === 'mismatch') {
+      this.logger.warn(`⚠️ RUC ${ruc} pedido, pero ${result.website} publica ${rucCheck.found}`);
     }
 
-    return { profile, searchResult };
+    return { profile, searchResult, searchEntity, profileCache, rucCheck };
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private scrapeCached(url: string, options?: ScrapeOptions, fresh?: boolean) {
+    return this.resultCache.getOrLoad(
+      'scrape',
+      ResultCacheService.scrapeKey(url, options?.followSubpages ?? true),
+      () => this.scraper.scrape(url, options),
+      {
+        fresh,
+        revive: (snapshot) => CompanyProfile.fromSnapshot(snapshot),
+        shouldStore: (p) => p.fieldsExtracted > 0,
+      },
+    );
   }
 }
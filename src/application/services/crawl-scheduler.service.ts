@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EgressService } from './egress.service';
+import {
+  ALLOW_ALL,
+  RobotsPolicy,
+  matchRobots,
+  parseRobotsTxt,
+} from '../../shared/utils/robots-txt';
+
+/** Resultado de consultar robots.txt para una URL */
+export interface CrawlVerdict {
+  allowed: boolean;
+  /** Motivo del rechazo, p. ej. "robots.txt: Disallow /contacto" */
+  reason?: string;
+}
+
+/** Estado de cortesía por host, compartido por todos los scrapes en curso */
+interface HostState {
+  active: number;
+  queue: Array<() => void>;
+  /** Momento (epoch ms) a partir del cual puede arrancar la próxima request */
+  nextStartAt: number;
+}
+
+/**
+ * Planificador de crawling "educado" para el scraping de webs corporativas.
+ *
+ * - Descarga y cachea robots.txt por origen (TTL configurable) y respeta
+ *   Disallow / Allow y Crawl-delay
+ * - Limita las requests simultáneas por host entre TODOS los scrapes en curso
+ *   (p. ej. un batch que scrapea 20 empresas del mismo grupo en paralelo)
+ * - Espacia el inicio de requests al mismo host: max(minDelay, Crawl-delay)
+ *
+ * robots.txt inexistente (4xx) o inaccesible (red, 5xx) → se permite todo.
+ */
+@Injectable()
+export class CrawlSchedulerService {
+  private readonly logger = new Logger(CrawlSchedulerService.name);
+  private readonly respectRobots: boolean;
+  private readonly agentToken: string;
+  private readonly maxPerHost: number;
+  private readonly minDelayMs: number;
+  private readonly maxCrawlDelayMs: number;
+  private readonly robotsTtlMs: number;
+
+  private readonly robots = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+  /** Descargas de robots.txt en curso (evita pedir el mismo archivo N veces) */
+  private readonly robotsInFlight = new Map<string, Promise<RobotsPolicy>>();
+  private readonly hosts = new Map<string, HostState>();
+
+  constructor(
+    private readonly egress: EgressService,
+    private readonly config: ConfigService,
+  ) {
+    this.respectRobots = this.config.get<boolean>('scraper.crawl.respectRobots', true);
+    this.agentToken = this.config.get<string>('scraper.crawl.robotsAgent', 'empliq-scraper');
+    this.maxPerHost = Math.max(1, this.config.get<number>('scraper.crawl.maxPerHost', 2));
+    this.minDelayMs = this.config.get<number>('scraper.crawl.minDelayMs', 800);
+    this.maxCrawlDelayMs = this.config.get<number>('scraper.crawl.maxCrawlDelayMs', 10000);
+    this.robotsTtlMs = this.config.get<number>('scraper.crawl.robotsTtlSeconds', 3600) * 1000;
+  }
+
+  /**
+   * ¿Permite robots.txt visitar esta URL?
+   */
+  async check(url: string): Promise<CrawlVerdict> {
+    if (!this.respectRobots) return { allowed: true };
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false, reason: 'URL inválida' };
+    }
+
+    const policy = await this.policyFor(parsed.origin);
+    const rule = matchRobots(policy, parsed.pathname + parsed.search);
+    if (!rule || rule.allow) return { allowed: true };
+
+    return { allowed: false, reason: `robots.txt: Disallow ${rule.pattern}` };
+  }
+
+  /**
+   * Sitemaps declarados en el robots.txt del sitio (líneas "Sitemap:").
+   */
+  async sitemapsFor(url: string): Promise<string[]> {
+    try {
+      return (await this.policyFor(new URL(url).origin)).sitemaps;
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Ejecuta `task` cuando el host tiene un slot libre y ya pasó el delay de cortesía.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return task(); // el cliente HTTP se encarga de reportar la URL inválida
+    }
+
+    const host = parsed.host.toLowerCase();
+    const delayMs = await this.delayFor(parsed.origin);
+
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, queue: [], nextStartAt: 0 };
+      this.hosts.set(host, state);
+    }
+
+    // Al liberar, el slot pasa directo al primero en la cola (sin bajar `active`),
+    // así nadie que llegue entre medio puede saltarse el límite por host
+    if (state.active >= this.maxPerHost) {
+      await new Promise<void>((resolve) => state!.queue.push(resolve));
+    } else {
+      state.active++;
+    }
+
+    // Reservar el próximo turno antes de dormir: las demás requests esperan detrás
+    const now = Date.now();
+    const startAt = Math.max(now, state.nextStartAt);
+    state.nextStartAt = startAt + delayMs;
+    if (startAt > now) await this.sleep(startAt - now);
+
+    try {
+      return await task();
+    } finally {
+      const next = state.queue.shift();
+      if (next) next();
+      else if (--state.active === 0 && state.nextStartAt <= Date.now()) this.hosts.delete(host);
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // robots.txt
+  // ──────────────────────────────────────────────────────────
+
+  private async delayFor(origin: string): Promise<number> {
+    if (!this.respectRobots) return this.minDelayMs;
+
+    const { crawlDelaySec } = await this.policyFor(origin);
+    const crawlDelayMs = crawlDelaySec !== null ? crawlDelaySec * 1000 : 0;
+    return Math.max(this.minDelayMs, Math.min(crawlDelayMs, this.maxCrawlDelayMs));
+  }
+
+  private async policyFor(origin: string): Promise<RobotsPolicy> {
+    const cached = this.robots.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    let pending = this.robotsInFlight.get(origin);
+    if (!pending) {
+      pending = this.fetchPolicy(origin).finally(() => this.robotsInFlight.delete(origin));
+      this.robotsInFlight.set(origin, pending);
+    }
+    return pending;
+  }
+
+  private async fetchPolicy(origin: string): Promise<RobotsPolicy> {
+    let policy = ALLOW_ALL;
+
+    try {
+      const response = await this.egress.request('scraper', {
+        url: `${origin}/robots.txt`,
+        timeoutMs: 5000,
+        retries: 0,
+        insecureTls: true,
+        headers: { Accept: 'text/plain,*/*;q=0.8' },
+      });
+
+      if (response.status === 200) {
+        policy = parseRobotsTxt(response.body, this.agentToken);
+        this.logger.debug(
+          `🤖 robots.txt ${origin}: ${policy.rules.length} reglas` +
+            (policy.crawlDelaySec !== null ? `, Crawl-delay ${policy.crawlDelaySec}s` : ''),
+        );
+      } else {
+        this.logger.debug(`🤖 robots.txt ${origin}: HTTP ${response.status} → sin restricciones`);
+      }
+    } catch (err) {
+      this.logger.debug(`🤖 robots.txt ${origin}: ${(err as Error).message} → sin restricciones`);
+    }
+
+    this.robots.set(origin, { policy, expiresAt: Date.now() + this.robotsTtlMs });
+    return policy;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+  }
+}
@@ -1,9 +1,33 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import {
   DatosPeruEnrichmentPort,
   DATOS_PERU_ENRICHMENT_PORT,
 } from '../../domain/ports/datos-peru-enrichment.port';
 import { DatosPeruProfile } from '../../domain/entities/datos-peru-profile.entity';
+import { Failure } from '../../domain/entities/result.entity';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { ResultCacheService, CacheInfo } from './result-cache.service';
+
+/**
+ * Estado de un RUC dentro de un lote:
+ *   blocked     → no se pudo descargar tras los reintentos (Cloudflare, proxies caídos)
+ *   parse_error → la ficha llegó pero sin datos reconocibles
+ */
+export type DatosPeruBatchStatus = 'ok' | 'not_found' | 'blocked' | 'parse_error';
+
+/**
+ * Resultado de un RUC dentro de un lote.
+ */
+export interface DatosPeruBatchItem {
+  ruc: string;
+  status: DatosPeruBatchStatus;
+  profile: DatosPeruProfile | null;
+  /** Consultas a datosperu.org (0 = salió del caché) */
+  attempts: number;
+  failure: Failure | null;
+  cache: CacheInfo;
+}
 
 /**
  * Servicio de enriquecimiento de datos de empresas.
@@ -18,17 +42,127 @@ import { DatosPeruProfile } from '../../domain/entities/datos-peru-profile.entit
 @Injectable()
 export class EnrichmentService {
   private readonly logger = new Logger(EnrichmentService.name);
+  private readonly batchConcurrency: number;
+  private readonly batchRetries: number;
+  private readonly batchRetryDelayMs: number;
 
   constructor(
     @Inject(DATOS_PERU_ENRICHMENT_PORT)
     private readonly datosPeru: DatosPeruEnrichmentPort,
-  ) {}
+    private readonly resultCache: ResultCacheService,
+    private readonly config: ConfigService,
+  ) {
+    this.batchConcurrency = this.config.get<number>('scraper.datosPeruBatch.concurrency', 4);
+    this.batchRetries = this.config.get<number>('scraper.datosPeruBatch.retries', 2);
+    this.batchRetryDelayMs = this.config.get<number>('scraper.datosPeruBatch.retryDelayMs', 2000);
+  }
 
   /**
    * Enriquece datos de una empresa por su RUC desde datosperu.org.
+   * Los perfiles encontrados se cachean por RUC; `fresh` fuerza una nueva consulta.
+   * Sin perfil, `failure` dice por qué (no existe, bloqueado, error de red...).
    */
-  async enrichFromDatosPeru(ruc: string): Promise<DatosPeruProfile | null> {
+  async enrichFromDatosPeru(
+    ruc: string,
+    fresh?: boolean,
+  ): Promise<{ profile: DatosPeruProfile | null; failure: Failure | null; cache: CacheInfo }> {
     this.logger.log(`🔎 Enriqueciendo RUC ${ruc} desde DatosPeru`);
-    return this.datosPeru.enrich(ruc);
+    const { profile, failure, cache } = await this.loadCached(ruc, 0, fresh);
+    return { profile, failure, cache };
+  }
+
+  /**
+   * Enriquece un lote de RUCs con concurrencia acotada.
+   *
+   * Nunca corren más RUCs en paralelo que proxies en el pool del adaptador:
+   * cada consulta toma el siguiente proxy del round-robin, así que N workers
+   * reparten la carga entre N proxies. Solo se reintentan los fallos reintentables
+   * (bloqueo, red) con backoff exponencial; not_found y parse_error no cambian al repetir.
+   * Retorna un resultado por RUC (sin duplicados) en el orden recibido.
+   */
+  async enrichBatch(
+    rucs: string[],
+    options?: { concurrency?: number; fresh?: boolean },
+  ): Promise<DatosPeruBatchItem[]> {
+    const unique = [...new Set(rucs)];
+    const concurrency = Math.max(
+      1,
+      Math.min(options?.concurrency ?? this.batchConcurrency, this.datosPeru.maxConcurrency(), unique.length),
+    );
+    this.logger.log(`📦 DatosPeru batch: ${unique.length} RUCs, ${concurrency} en paralelo`);
+
+    const results: DatosPeruBatchItem[] = new Array(unique.length);
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < unique.length) {
+        const idx = next++;
+        results[idx] = await this.enrichWithRetries(unique[idx], options?.fresh);
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    const enriched = results.filter((r) => r.status === 'ok').length;
+    this.logger.log(`📦 DatosPeru batch: ${enriched}/${unique.length} enriquecidos`);
+    return results;
   }
+
+  // ──────────────────────────────────────────────────────────
+
+  private async enrichWithRetries(ruc: string, fresh?: boolean): Promise<DatosPeruBatchItem> {
+    const { profile, failure, cache, attempts } = await this.loadCached(ruc, this.batchRetries, fresh);
+    return { ruc, status: failure ? batchStatus(failure) : 'ok', profile, attempts, failure, cache };
+  }
+
+  /**
+   * Perfil desde el caché o datosperu.org. Los fallos reintentables (bloqueo, red)
+   * se repiten hasta `retries` veces con backoff exponencial.
+   */
+  private async loadCached(
+    ruc: string,
+    retries: number,
+    fresh?: boolean,
+  ): Promise<{ profile: DatosPeruProfile | null; failure: Failure | null; cache: CacheInfo; attempts: number }> {
+    const state = { attempts: 0, failure: null as Failure | null };
+
+    const { value, cache } = await this.resultCache.getOrLoad(
+      'datosPeru',
+      ResultCacheService.datosPeruKey(ruc),
+      async () => {
+        for (;;) {
+          state.attempts++;
+          const result = await this.datosPeru.enrich(ruc);
+          if (result.ok) {
+            state.failure = null;
+            return result.value;
+          }
+          state.failure = result.error;
+          if (!result.error.retryable || state.attempts > retries) return null;
+
+          const delay = this.batchRetryDelayMs * 2 ** (state.attempts - 1);
+          this.logger.warn(
+            `⏳ RUC ${ruc}: ${result.error.code} (intento ${state.attempts}), reintento en ${delay}ms`,
+          );
+          await this.sleep(delay);
+        }
+      },
+      {
+        fresh,
+        revive: (snapshot) => DatosPeruProfile.fromSnapshot(snapshot),
+        shouldStore: (p) => (p?.fieldsExtracted ?? 0) > 0,
+      },
+    );
+
+    return { profile: value, failure: state.failure, cache, attempts: state.attempts };
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+  }
+}
+
+/** Código de fallo → estado del lote: todo lo reintentable cuenta como bloqueado */
+function batchStatus(failure: Failure): DatosPeruBatchStatus {
+  if (failure.retryable) return 'blocked';
+  if (failure.code === FailureCode.PARSE_ERROR) return 'parse_error';
+  return 'not_found';
 }
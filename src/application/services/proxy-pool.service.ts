@@ -0,0 +1,311 @@
+import { Injectable, Inject, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HTTP_CLIENT_PORT, HttpClientPort } from '../../domain/ports/http-client.port';
+import { PROXY_POOL_STORE_PORT, ProxyPoolStorePort } from '../../domain/ports/proxy-pool-store.port';
+import { ProxyHealth, ProxySource } from '../../domain/entities/proxy-health.entity';
+import { isRedactedProxy, maskProxy, parseProxyUrl, redactProxy } from '../../shared/utils/proxy-url';
+
+/** Foto del pool para /proxies/pool */
+export interface ProxyPoolStats {
+  total: number;
+  available: number;
+  quarantined: number;
+  bySource: Record<ProxySource, number>;
+  /** Ordenados por peso (el más sano primero) */
+  proxies: ProxyHealth[];
+}
+
+/** Página de desafío de Cloudflare (el proxy llega pero no sirve) */
+const CHALLENGE = /Just a moment|cf-browser-verification|cf_chl_opt/i;
+
+/**
+ * Pool de proxies compartido (http/https CONNECT y socks4/5, con credenciales opcionales),
+ * con salud por proxy.
+ *
+ * - Cada descarga reporta éxito (con latencia) o fallo
+ * - Tras N fallos seguidos el proxy entra en cuarentena con backoff
+ *   exponencial (base, 2·base, 4·base... hasta el máximo) y sale de la rotación
+ * - El próximo proxy se sortea ponderado por salud: tasa de éxito castigada por latencia
+ * - El pool (con estadísticas y cuarentenas) se guarda en disco y se recupera al reiniciar.
+ *   Las credenciales no se guardan (redactProxy): los proxies con usuario/contraseña
+ *   solo se recuperan si siguen en scraper.proxyPool.urls
+ *
+ * refresh() descarga una lista pública, prueba los candidatos y agrega los que funcionan;
+ * los proxies con demasiados fallos seguidos se descartan. Los proxies pagos
+ * (scraper.proxyPool.urls) entran como 'manual' al cargar el pool.
+ */
+@Injectable()
+export class ProxyPool implements OnModuleDestroy {
+  private readonly logger = new Logger(ProxyPool.name);
+  private readonly quarantine: { threshold: number; baseMs: number; maxMs: number };
+  private readonly dropAfterFailures: number;
+  private readonly persistDelayMs: number;
+  private readonly listUrl: string;
+  private readonly testUrl: string;
+  private readonly maxCandidates: number;
+  private readonly manualUrls: string[];
+
+  private readonly proxies = new Map<string, ProxyHealth>();
+  private loading: Promise<void> | null = null;
+  private refreshing: Promise<{ tested: number; added: number }> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  /** Escrituras en cola (nunca dos a la vez sobre el mismo archivo) */
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    @Inject(PROXY_POOL_STORE_PORT) private readonly store: ProxyPoolStorePort,
+    @Inject(HTTP_CLIENT_PORT) private readonly http: HttpClientPort,
+    private readonly config: ConfigService,
+  ) {
+    this.quarantine = {
+      threshold: Math.max(1, this.config.get<number>('scraper.proxyPool.quarantineAfter', 2)),
+      baseMs: this.config.get<number>('scraper.proxyPool.quarantineBaseMs', 60000),
+      maxMs: this.config.get<number>('scraper.proxyPool.quarantineMaxMs', 3600000),
+    };
+    this.dropAfterFailures = this.config.get<number>('scraper.proxyPool.dropAfterFailures', 10);
+    this.persistDelayMs = this.config.get<number>('scraper.proxyPool.persistDelayMs', 5000);
+    this.listUrl = this.config.get<string>(
+      'scraper.proxyPool.listUrl',
+      'https://raw.githubusercontent.com/TheSpeedX/PROXY-List/master/socks5.txt',
+    );
+    this.testUrl = this.config.get<string>(
+      'scraper.proxyPool.testUrl',
+      'https://www.datosperu.org/buscador_empresas.php?buscar=20100047218',
+    );
+    this.maxCandidates = this.config.get<number>('scraper.proxyPool.maxCandidates', 60);
+    this.manualUrls = this.config.get<string[]>('scraper.proxyPool.urls', []);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  /**
+   * Agrega proxies que aún no estén en el pool. Retorna cuántos eran nuevos.
+   * Las URLs con esquema no soportado se ignoran.
+   */
+  async add(urls: string[], source: ProxySource): Promise<number> {
+    await this.ensureLoaded();
+    return this.insert(urls, source);
+  }
+
+  /**
+   * Próximo proxy, sorteado por peso entre los que no están en cuarentena.
+   * `exclude` evita repetir proxies dentro de los reintentos de una misma descarga.
+   * Si todos están en cuarentena, el que sale antes de ella (mejor que nada).
+   */
+  async next(exclude: ReadonlySet<string> = new Set()): Promise<string | null> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    const candidates = [...this.proxies.values()].filter((p) => !exclude.has(p.url));
+    if (candidates.length === 0) return null;
+
+    const available = candidates.filter((p) => !p.isQuarantined(now));
+    if (available.length === 0) {
+      const soonest = candidates.reduce((a, b) =>
+        a.quarantinedUntil!.getTime() <= b.quarantinedUntil!.getTime() ? a : b,
+      );
+      return soonest.url;
+    }
+
+    const total = available.reduce((sum, p) => sum + p.weight, 0);
+    let ticket = Math.random() * total;
+    for (const proxy of available) {
+      ticket -= proxy.weight;
+      if (ticket <= 0) return proxy.url;
+    }
+    return available[available.length - 1].url;
+  }
+
+  recordSuccess(url: string, latencyMs: number): void {
+    const proxy = this.proxies.get(url);
+    if (!proxy) return;
+    proxy.recordSuccess(latencyMs);
+    this.scheduleSave();
+  }
+
+  recordFailure(url: string, error: string): void {
+    const proxy = this.proxies.get(url);
+    if (!proxy) return;
+    if (proxy.recordFailure(error, this.quarantine)) {
+      this.logger.warn(
+        `🚧 Proxy ${maskProxy(url)} en cuarentena hasta ${proxy.quarantinedUntil!.toISOString()} ` +
+          `(${proxy.consecutiveFailures} fallos seguidos: ${error})`,
+      );
+    }
+    this.scheduleSave();
+  }
+
+  /** Proxies fuera de cuarentena (los que entran en la rotación) */
+  availableCount(): number {
+    const now = Date.now();
+    return [...this.proxies.values()].filter((p) => !p.isQuarantined(now)).length;
+  }
+
+  async stats(): Promise<ProxyPoolStats> {
+    await this.ensureLoaded();
+    const now = Date.now();
+    const proxies = [...this.proxies.values()].sort(
+      (a, b) => Number(a.isQuarantined(now)) - Number(b.isQuarantined(now)) || b.weight - a.weight,
+    );
+    const bySource: Record<ProxySource, number> = { seed: 0, refresh: 0, manual: 0 };
+    for (const p of proxies) bySource[p.source]++;
+    const available = proxies.filter((p) => !p.isQuarantined(now)).length;
+    return { total: proxies.length, available, quarantined: proxies.length - available, bySource, proxies };
+  }
+
+  /**
+   * Descarga la lista pública de proxies SOCKS5, prueba los candidatos nuevos
+   * contra testUrl y agrega los que funcionan. Descarta los que acumularon
+   * demasiados fallos seguidos. Una sola actualización a la vez.
+   */
+  refresh(): Promise<{ tested: number; added: number }> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /** Escribe el pool a disco ahora (si había cambios pendientes) */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private async doRefresh(): Promise<{ tested: number; added: number }> {
+    await this.ensureLoaded();
+    const dropped = this.prune();
+
+    let body: string;
+    try {
+      const response = await this.http.request({ url: this.listUrl, timeoutMs: 10000, headers: { Accept: 'text/plain' } });
+      if (response.status !== 200) throw new Error(`HTTP ${response.status}`);
+      body = response.body;
+    } catch (err) {
+      this.logger.warn(`Error descargando lista de proxies: ${(err as Error).message}`);
+      return { tested: 0, added: 0 };
+    }
+
+    const candidates = body
+      .split('\n')
+      .map((l) => l.trim())
+      .filter((l) => /^\d+\.\d+\.\d+\.\d+:\d+$/.test(l))
+      .map((l) => `socks5h://${l}`)
+      .filter((url) => !this.proxies.has(url))
+      .slice(0, this.maxCandidates); // limitar para no testear demasiados
+    if (candidates.length === 0) return { tested: 0, added: 0 };
+
+    this.logger.log(`🔄 Testeando ${candidates.length} proxies SOCKS5...`);
+    const working: string[] = [];
+    await Promise.all(
+      candidates.map(async (url) => {
+        if (await this.probe(url)) working.push(url);
+      }),
+    );
+
+    const added = await this.add(working, 'refresh');
+    this.logger.log(
+      `✅ Pool de proxies: +${added} nuevos, -${dropped} descartados → ${this.proxies.size} (${this.availableCount()} disponibles)`,
+    );
+    return { tested: candidates.length, added };
+  }
+
+  /** ¿Llega el proxy a testUrl con una página real (no el desafío de Cloudflare)? */
+  private async probe(url: string): Promise<boolean> {
+    try {
+      const response = await this.http.request({
+        url: this.testUrl,
+        proxy: url,
+        timeoutMs: 8000,
+        retries: 0,
+        insecureTls: true,
+        browserTls: true,
+      });
+      return response.status === 200 && response.body.length > 5000 && !CHALLENGE.test(response.body);
+    } catch {
+      return false;
+    }
+  }
+
+  /** Descarta los proxies con demasiados fallos seguidos. Retorna cuántos salieron */
+  private prune(): number {
+    let dropped = 0;
+    for (const [url, proxy] of this.proxies) {
+      if (proxy.consecutiveFailures >= this.dropAfterFailures) {
+        this.proxies.delete(url);
+        dropped++;
+      }
+    }
+    if (dropped > 0) this.scheduleSave();
+    return dropped;
+  }
+
+  private insert(urls: string[], source: ProxySource): number {
+    let added = 0;
+    for (const url of urls) {
+      if (this.proxies.has(url)) continue;
+      if (!parseProxyUrl(url)) {
+        this.logger.warn(`Proxy ignorado (esquema no soportado): ${maskProxy(url)}`);
+        continue;
+      }
+      this.proxies.set(url, new ProxyHealth(url, source));
+      added++;
+    }
+    if (added > 0) this.scheduleSave();
+    return added;
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.load().then((snapshots) => {
+        // Las credenciales vuelven de la config: clave guardada → URL configurada
+        const configured = new Map(this.manualUrls.map((url) => [redactProxy(url), url]));
+        let restored = 0;
+        for (const snapshot of snapshots) {
+          const url = isRedactedProxy(snapshot.url) ? configured.get(snapshot.url) : snapshot.url;
+          if (!url) continue;
+          this.proxies.set(url, ProxyHealth.fromSnapshot({ ...snapshot, url }));
+          restored++;
+        }
+        if (restored > 0) {
+          this.logger.log(`📂 Pool de proxies recuperado: ${restored} proxies`);
+        }
+        if (restored < snapshots.length) {
+          this.logger.log(`🔑 ${snapshots.length - restored} proxies con credenciales ya no configurados, descartados`);
+        }
+        const manual = this.insert(this.manualUrls, 'manual');
+        if (manual > 0) this.logger.log(`🔑 ${manual} proxies configurados agregados al pool`);
+      });
+    }
+    return this.loading;
+  }
+
+  /** Guardado diferido: agrupa los cambios de varias descargas en una escritura */
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.save();
+    }, this.persistDelayMs);
+    this.saveTimer.unref();
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      try {
+        await this.store.save(
+          [...this.proxies.values()].map((p) => ({ ...p.toSnapshot(), url: redactProxy(p.url) })),
+        );
+      } catch (err) {
+        this.logger.warn(`No se pudo guardar el pool de proxies: ${(err as Error).message}`);
+      }
+    });
+    return this.saving;
+  }
+}
@@ -1,8 +1,8 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
-import { SocksProxyAgent } from 'socks-proxy-agent';
-import * as https from 'https';
-import { DATOS_PERU_ENRICHMENT_PORT } from '../../domain/ports/datos-peru-enrichment.port';
-import type { DatosPeruHttpAdapter } from '../../infrastructure/adapters/datos-peru-http.adapter';
+import { ConfigService } from '@nestjs/config';
+import { HTTP_CLIENT_PORT, HttpClientPort } from '../../domain/ports/http-client.port';
+import { ProxyPool, ProxyPoolStats } from './proxy-pool.service';
+import { ProxyEndpoint, buildProxyUrl } from '../../shared/utils/proxy-url';
 
 const TEST_URL = 'https://www.datosperu.org';
 const TIMEOUT_MS = 12000;
@@ -12,70 +12,62 @@ export class ProxyTestService {
   private readonly logger = new Logger(ProxyTestService.name);
 
   constructor(
-    @Inject(DATOS_PERU_ENRICHMENT_PORT)
-    private readonly datosPeruAdapter: DatosPeruHttpAdapter,
+    private readonly pool: ProxyPool,
+    @Inject(HTTP_CLIENT_PORT)
+    private readonly http: HttpClientPort,
+    private readonly config: ConfigService,
   ) {}
 
   /**
-   * Test a single proxy by making a request to datosperu.org
+   * Test a single proxy (http/https CONNECT or socks4/5, with optional credentials)
+   * by making a request to datosperu.org. With `addToPool`, a working proxy joins the pool.
    */
   async testProxy(
-    ip: string,
-    port: number,
-    protocol: string,
-  ): Promise<{ success: boolean; responseMs?: number; error?: string }> {
-    const proxyUrl = `socks5h://${ip}:${port}`;
-    const start = Date.now();
+    endpoint: ProxyEndpoint,
+    addToPool = false,
+  ): Promise<{ success: boolean; responseMs?: number; error?: string; addedToPool?: boolean }> {
+    const proxyUrl = buildProxyUrl(endpoint);
+    const result = await this.probe(proxyUrl);
+    if (!addToPool) return result;
 
-    try {
-      const agent = new SocksProxyAgent(proxyUrl);
+    const addedToPool = result.success && (await this.pool.add([proxyUrl], 'manual')) > 0;
+    return { ...result, addedToPool };
+  }
 
-      const result = await new Promise<{ statusCode: number; body: string }>(
-        (resolve, reject) => {
-          const timer = setTimeout(
-            () => reject(new Error('Timeout')),
-            TIMEOUT_MS,
-          );
+  /**
+   * Get proxy pool stats (health per proxy, quarantines)
+   */
+  async getPoolStats(): Promise<ProxyPoolStats & { directMode: boolean }> {
+    const stats = await this.pool.stats();
+    return {
+      ...stats,
+      directMode: this.config.get<boolean>('scraper.datosPeru.direct', false),
+    };
+  }
+
+  /**
+   * Refresh the pool from the public proxy list
+   */
+  async refreshProxies(): Promise<{ tested: number; added: number }> {
+    return this.pool.refresh();
+  }
 
-          const req = https.get(
-            TEST_URL,
-            {
-              agent,
-              headers: {
-                'User-Agent':
-                  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                Accept:
-                  'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                'Accept-Language': 'es-PE,es;q=0.9,en;q=0.8',
-              },
-              timeout: TIMEOUT_MS,
-            },
-            (res) => {
-              let body = '';
-              res.on('data', (chunk) => (body += chunk));
-              res.on('end', () => {
-                clearTimeout(timer);
-                resolve({ statusCode: res.statusCode || 0, body });
-              });
-            },
-          );
-          req.on('error', (err) => {
-            clearTimeout(timer);
-            reject(err);
-          });
-          req.on('timeout', () => {
-            req.destroy();
-            reject(new Error('Request timeout'));
-          });
-        },
-      );
+  private async probe(proxyUrl: string): Promise<{ success: boolean; responseMs?: number; error?: string }> {
+    const start = Date.now();
 
+    try {
+      const response = await this.http.request({
+        url: TEST_URL,
+        proxy: proxyUrl,
+        timeoutMs: TIMEOUT_MS,
+        retries: 0,
+      });
       const elapsed = Date.now() - start;
 
       // Check if we got a real page (not Cloudflare challenge)
       if (
-        result.body.includes('Just a moment') ||
-        result.body.includes('cf-browser-verification')
+        response.body.includes('Just a moment') ||
+        response.body.includes('cf-browser-verification')
       ) {
         return {
           success: false,
@@ -84,14 +76,14 @@ export class ProxyTestService {
         };
       }
 
-      if (result.statusCode === 200 && result.body.length > 5000) {
+      if (response.status === 200 && response.body.length > 5000) {
         return { success: true, responseMs: elapsed };
       }
 
       return {
         success: false,
         responseMs: elapsed,
-        error: `HTTP ${result.statusCode}, body ${result.body.length} bytes`,
+        error: `HTTP ${response.status}, body ${response.body.length} bytes`,
       };
     } catch (err: any) {
       const elapsed = Date.now() - start;
@@ -102,34 +94,4 @@ export class ProxyTestService {
       };
     }
   }
-
-  /**
-   * Get current in-memory proxy pool stats from the DatosPeru adapter
-   */
-  async getPoolStats(): Promise<{
-    totalInPool: number;
-    seedCount: number;
-    directMode: boolean;
-    sampleProxies: string[];
-  }> {
-    // Access adapter internals (it's the same instance)
-    const adapter = this.datosPeruAdapter as any;
-    const proxies: string[] = adapter.proxies || [];
-    return {
-      totalInPool: proxies.length,
-      seedCount: 5,
-      directMode: adapter.directMode || false,
-      sampleProxies: proxies.slice(0, 5),
-    };
-  }
-
-  /**
-   * Trigger proxy refresh on the adapter
-   */
-  async refreshProxies(): Promise<void> {
-    const adapter = this.datosPeruAdapter as any;
-    if (typeof adapter.refreshProxies === 'function') {
-      await adapter.refreshProxies();
-    }
-  }
 }
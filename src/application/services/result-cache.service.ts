@@ -0,0 +1,133 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ResultCachePort, RESULT_CACHE_PORT } from '../../domain/ports/result-cache.port';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { cleanCompanyName } from '../../shared/utils/company-name-cleaner';
+
+/** Tipos de dato cacheados — cada uno con su propio TTL */
+export type CacheKind = 'search' | 'scrape' | 'datosPeru';
+
+/** Metadata de caché que acompaña a cada respuesta */
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  storedAt: string | null;
+  expiresAt: string | null;
+}
+
+/**
+ * Caché de resultados por RUC / nombre limpio / URL.
+ *
+ * Claves:
+ *   search:ruc:20100130204            (si hay RUC)
+ *   search:name:INTERBANK             (cleanCompanyName, si no hay RUC)
+ *   scrape:url:interbank.pe/          (host + path normalizados)
+ *   datosPeru:ruc:20100130204
+ *
+ * Solo se guardan resultados útiles (encontrado / con campos extraídos):
+ * un "no encontrado" puede ser un bloqueo temporal y no debe quedar pegado.
+ */
+@Injectable()
+export class ResultCacheService {
+  private readonly logger = new Logger(ResultCacheService.name);
+  private readonly ttlMs: Record<CacheKind, number>;
+
+  constructor(
+    @Inject(RESULT_CACHE_PORT) private readonly cache: ResultCachePort,
+    private readonly config: ConfigService,
+  ) {
+    this.ttlMs = {
+      search: this.config.get<number>('scraper.cache.ttlSeconds.search', 604800) * 1000,
+      scrape: this.config.get<number>('scraper.cache.ttlSeconds.scrape', 259200) * 1000,
+      datosPeru: this.config.get<number>('scraper.cache.ttlSeconds.datosPeru', 2592000) * 1000,
+    };
+  }
+
+  /**
+   * Retorna el valor cacheado si existe; si no, ejecuta `loader` y guarda el resultado.
+   *
+   * @param fresh Ignorar el caché (pero sí guardar el nuevo resultado)
+   * @param revive Reconstruye la entidad desde el JSON plano guardado (su snapshot)
+   * @param shouldStore Decide si el resultado merece cachearse
+   */
+  async getOrLoad<T>(
+    kind: CacheKind,
+    key: string,
+    loader: () => Promise<T>,
+    opts: {
+      fresh?: boolean;
+      revive: (snapshot: Record<string, unknown>) => T;
+      shouldStore: (value: T) => boolean;
+    },
+  ): Promise<{ value: T; cache: CacheInfo }> {
+    if (!opts.fresh) {
+      const entry = await this.safeGet(key);
+      if (entry) {
+        this.logger.log(`💾 Cache hit: ${key}`);
+        return {
+          value: opts.revive(entry.value as Record<string, unknown>),
+          cache: {
+            hit: true,
+            key,
+            storedAt: entry.storedAt.toISOString(),
+            expiresAt: entry.expiresAt.toISOString(),
+          },
+        };
+      }
+    }
+
+    const value = await loader();
+    const cache: CacheInfo = { hit: false, key, storedAt: null, expiresAt: null };
+
+    if (opts.shouldStore(value)) {
+      const ttl = this.ttlMs[kind];
+      try {
+        // JSON plano: getters y Dates se normalizan igual en todos los adaptadores
+        await this.cache.set(key, JSON.parse(JSON.stringify(value)), ttl);
+        const now = Date.now();
+        cache.storedAt = new Date(now).toISOString();
+        cache.expiresAt = new Date(now + ttl).toISOString();
+      } catch (err) {
+        this.logger.warn(`No se pudo guardar en caché ${key}: ${(err as Error).message}`);
+      }
+    }
+
+    return { value, cache };
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Claves
+  // ──────────────────────────────────────────────────────────
+
+  static searchKey(companyName: string, ruc?: string, strategy?: SearchStrategy): string {
+    const base = ruc ? `search:ruc:${ruc}` : `search:name:${cleanCompanyName(companyName)}`;
+    return strategy ? `${base}:${strategy}` : base;
+  }
+
+  static scrapeKey(url: string, followSubpages = true): string {
+    let normalized = url.trim().toLowerCase();
+    try {
+      const parsed = new URL(url);
+      normalized = parsed.hostname.toLowerCase().replace(/^www\./, '') + (parsed.pathname || '/');
+    } catch {
+      // URL inválida → usar tal cual
+    }
+    return `scrape:url:${normalized}${followSubpages ? '' : ':nosub'}`;
+  }
+
+  static datosPeruKey(ruc: string): string {
+    return `datosPeru:ruc:${ruc}`;
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  /** Un caché caído no debe tumbar la búsqueda */
+  private async safeGet(key: string) {
+    try {
+      return await this.cache.get(key);
+    } catch (err) {
+      this.logger.warn(`Error leyendo caché ${key}: ${(err as Error).message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService } from '@nestjs/core';
+import {
+  SearchEnginePort,
+  SearchEngineDescriptor,
+  SearchEngineLimits,
+  SearchEnginePhase,
+} from '../../domain/ports/search-engine.port';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+
+/**
+ * Marca un adaptador como motor de búsqueda. El registro lo descubre al iniciar
+ * el módulo — agregar un motor = nuevo adaptador con este decorador + provider.
+ *
+ *   @SearchEngine({ phase: 'direct', priority: 10, delay: { min: 2000, max: 5000 }, limits: { maxPerSession: 200 } })
+ *   export class DdgHttpAdapter implements SearchEnginePort { ... }
+ */
+export const SearchEngine = DiscoveryService.createDecorator<SearchEngineDescriptor>();
+
+/** Motor registrado + su configuración efectiva */
+export interface RegisteredEngine {
+  engine: SearchEnginePort;
+  phase: SearchEnginePhase;
+  priority: number;
+  delay: { min: number; max: number };
+  limits: SearchEngineLimits;
+}
+
+const PHASE_ORDER: SearchEnginePhase[] = ['direct', 'directory'];
+
+/**
+ * Registro de motores de búsqueda.
+ *
+ * Cada adaptador declara su fase, prioridad, delays y límites con @SearchEngine();
+ * scraper.delays.<configKey> y scraper.limits.<configKey> los sobrescriben.
+ * El orden se puede sobrescribir con SEARCH_ENGINE_PRIORITY (config)
+ * o en runtime con PUT /engines/priority.
+ * Los motores a los que les falta config (`requires`) no se registran.
+ */
+@Injectable()
+export class SearchEngineRegistry implements OnModuleInit {
+  private readonly logger = new Logger(SearchEngineRegistry.name);
+  private readonly engines = new Map<SearchStrategy, RegisteredEngine>();
+  /** Motores sin registrar por falta de config → claves faltantes */
+  private readonly unconfigured = new Map<SearchStrategy, string[]>();
+  private discovered = false;
+
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.ensureDiscovered();
+  }
+
+  /**
+   * Registra un motor a mano (los decorados se registran solos).
+   */
+  register(engine: SearchEnginePort, descriptor: SearchEngineDescriptor): void {
+    const key = descriptor.configKey;
+    const delay = key ? this.config.get<{ min: number; max: number }>(`scraper.delays.${key}`) : undefined;
+    const maxPerSession = key ? this.config.get<number>(`scraper.limits.${key}`) : undefined;
+    const limits = { ...descriptor.limits, ...(maxPerSession ? { maxPerSession } : {}) };
+
+    engine.getStatus().maxPerSession = limits.maxPerSession;
+    this.engines.set(engine.strategy, {
+      engine,
+      phase: descriptor.phase,
+      priority: descriptor.priority,
+      delay: delay ?? descriptor.delay,
+      limits,
+    });
+    this.logger.log(
+      `🔌 Motor registrado: ${engine.strategy} (${descriptor.phase}, prioridad ${descriptor.priority}, ` +
+        `máx ${limits.maxPerSession}/sesión)`,
+    );
+  }
+
+  /**
+   * Claves de config que le faltan a un motor que no se registró por eso
+   * (vacío si el motor está registrado o no existe).
+   */
+  missingConfig(strategy: SearchStrategy): string[] {
+    this.ensureDiscovered();
+    return this.unconfigured.get(strategy) ?? [];
+  }
+
+  get(strategy: SearchStrategy): SearchEnginePort | undefined {
+    this.ensureDiscovered();
+    return this.engines.get(strategy)?.engine;
+  }
+
+  /**
+   * Motores ordenados por fase (direct → directory) y prioridad.
+   */
+  list(phase?: SearchEnginePhase): RegisteredEngine[] {
+    this.ensureDiscovered();
+    return [...this.engines.values()]
+      .filter((e) => !phase || e.phase === phase)
+      .sort(
+        (a, b) =>
+          PHASE_ORDER.indexOf(a.phase) - PHASE_ORDER.indexOf(b.phase) ||
+          a.priority - b.priority,
+      );
+  }
+
+  /**
+   * Reordena los motores: los listados van primero (en ese orden) dentro de su fase,
+   * el resto conserva su orden relativo detrás. La fase de cada motor no cambia.
+   */
+  setPriorityOrder(order: SearchStrategy[]): RegisteredEngine[] {
+    this.ensureDiscovered();
+
+    const unknown = order.filter((s) => !this.engines.has(s));
+    if (unknown.length > 0) {
+      throw new Error(`Motores no registrados: ${unknown.join(', ')}`);
+    }
+
+    const rest = this.list().filter((e) => !order.includes(e.engine.strategy));
+    const ordered = [...order.map((s) => this.engines.get(s)!), ...rest];
+    ordered.forEach((entry, i) => {
+      entry.priority = (i + 1) * 10;
+    });
+
+    this.logger.log(`🔀 Nuevo orden: ${this.list().map((e) => e.engine.strategy).join(' → ')}`);
+    return this.list();
+  }
+
+  /**
+   * Delay aleatorio recomendado entre búsquedas para un motor.
+   */
+  getDelay(strategy: SearchStrategy): number {
+    this.ensureDiscovered();
+    const range = this.engines.get(strategy)?.delay ?? { min: 2000, max: 5000 };
+    return Math.floor(Math.random() * (range.max - range.min + 1)) + range.min;
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Los onModuleInit de otros providers pueden correr antes que el nuestro:
+   * descubrir en el primer uso (las instancias ya existen a esa altura).
+   */
+  private ensureDiscovered(): void {
+    if (this.discovered) return;
+    this.discovered = true;
+
+    for (const wrapper of this.discovery.getProviders({ metadataKey: SearchEngine.KEY })) {
+      const descriptor = this.discovery.getMetadataByDecorator(SearchEngine, wrapper);
+      const instance = wrapper.instance as SearchEnginePort | undefined;
+      if (!descriptor || !instance?.strategy) continue;
+
+      const missing = (descriptor.requires ?? []).filter((key) => !this.config.get(key));
+      if (missing.length > 0) {
+        this.unconfigured.set(instance.strategy, missing);
+        this.logger.log(`⏸️ Motor deshabilitado: ${instance.strategy} (falta ${missing.join(', ')})`);
+        continue;
+      }
+      this.register(instance, descriptor);
+    }
+
+    const override = this.config.get<string[]>('scraper.engines.priority', []);
+    if (override.length > 0) {
+      const known = override.filter((s): s is SearchStrategy =>
+        this.engines.has(s as SearchStrategy),
+      );
+      if (known.length !== override.length) {
+        this.logger.warn(
+          `SEARCH_ENGINE_PRIORITY contiene motores desconocidos: ${override
+            .filter((s) => !known.includes(s as SearchStrategy))
+            .join(', ')}`,
+        );
+      }
+      this.setPriorityOrder(known);
+    }
+  }
+}
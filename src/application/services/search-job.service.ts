@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { JobStorePort, JOB_STORE_PORT } from '../../domain/ports/job-store.port';
+import { SearchJob } from '../../domain/entities/search-job.entity';
+import { JobStatus, JobItemStatus } from '../../domain/enums/job-status.enum';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { SearchOrchestratorService } from './search-orchestrator.service';
+
+/**
+ * Jobs de búsqueda por lote en segundo plano.
+ *
+ * Flujo:
+ *   1. POST /jobs/search → se crea el job, se persiste y se encola → devuelve id
+ *   2. Un único worker procesa los jobs en orden (FIFO), empresa por empresa
+ *   3. Después de cada empresa el job se guarda en disco (resultados parciales)
+ *   4. Al reiniciar, los jobs queued/running se vuelven a encolar y continúan
+ *      desde la primera empresa pendiente
+ *
+ * Un solo worker a la vez: las estrategias tienen límites por sesión y
+ * correr lotes en paralelo solo acelera el rate limiting.
+ */
+@Injectable()
+export class SearchJobService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SearchJobService.name);
+
+  /** Jobs activos (en cola o corriendo) — misma instancia que usa el worker */
+  private readonly activeJobs = new Map<string, SearchJob>();
+  private readonly queue: string[] = [];
+  private workerRunning = false;
+  private shuttingDown = false;
+
+  constructor(
+    @Inject(JOB_STORE_PORT) private readonly store: JobStorePort,
+    private readonly orchestrator: SearchOrchestratorService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const jobs = await this.store.findAll();
+    const pending = jobs.filter((j) => !j.isFinished);
+
+    for (const job of pending) {
+      this.enqueue(job);
+    }
+
+    if (pending.length > 0) {
+      this.logger.log(`♻️ Reanudando ${pending.length} job(s) pendiente(s)`);
+      this.kickWorker();
+    }
+  }
+
+  onModuleDestroy(): void {
+    // El job en curso queda "running" en disco y se reanuda al arrancar
+    this.shuttingDown = true;
+  }
+
+  /**
+   * Crea un job y lo encola. Retorna inmediatamente.
+   */
+  async create(
+    companies: Array<{ ruc?: string; name: string }>,
+    strategy?: SearchStrategy,
+    delayMs?: number,
+  ): Promise<SearchJob> {
+    const job = new SearchJob({
+      id: randomUUID(),
+      companies,
+      strategy,
+      delayMs,
+    });
+
+    await this.store.save(job);
+    this.enqueue(job);
+    this.logger.log(`📥 Job ${job.id} creado: ${job.total} empresas`);
+    this.kickWorker();
+
+    return job;
+  }
+
+  async get(id: string): Promise<SearchJob | null> {
+    return this.activeJobs.get(id) ?? this.store.findById(id);
+  }
+
+  /**
+   * Cancela un job. Las empresas ya procesadas conservan su resultado.
+   * Retorna null si el job no existe.
+   */
+  async cancel(id: string): Promise<SearchJob | null> {
+    const job = await this.get(id);
+    if (!job) return null;
+
+    if (!job.isFinished) {
+      job.cancel();
+      await this.store.save(job);
+      this.activeJobs.delete(id);
+      this.logger.log(`🛑 Job ${id} cancelado (${job.processed}/${job.total} procesadas)`);
+    }
+
+    return job;
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Worker
+  // ──────────────────────────────────────────────────────────
+
+  private enqueue(job: SearchJob): void {
+    this.activeJobs.set(job.id, job);
+    this.queue.push(job.id);
+  }
+
+  private kickWorker(): void {
+    if (this.workerRunning) return;
+    this.workerRunning = true;
+
+    this.runWorker()
+      .catch((err) =>
+        this.logger.error(`Worker de jobs detenido: ${(err as Error).message}`),
+      )
+      .finally(() => {
+        this.workerRunning = false;
+      });
+  }
+
+  private async runWorker(): Promise<void> {
+    while (this.queue.length > 0 && !this.shuttingDown) {
+      const id = this.queue.shift()!;
+      const job = this.activeJobs.get(id);
+      // Cancelado mientras esperaba en cola
+      if (!job || job.isFinished) continue;
+
+      try {
+        await this.processJob(job);
+      } catch (err) {
+        // Un cancel durante el fallo manda: no pisar CANCELLED con FAILED
+        if (!job.isFinished) {
+          job.status = JobStatus.FAILED;
+          job.error = (err as Error).message;
+          job.finishedAt = new Date();
+          job.touch();
+          await this.store.save(job);
+        }
+        this.logger.error(`❌ Job ${job.id} falló: ${(err as Error).message}`);
+      }
+
+      if (job.isFinished) this.activeJobs.delete(job.id);
+    }
+  }
+
+  private async processJob(job: SearchJob): Promise<void> {
+    job.status = JobStatus.RUNNING;
+    job.startedAt = job.startedAt ?? new Date();
+    job.touch();
+    await this.store.save(job);
+
+    this.logger.log(`▶️ Job ${job.id}: ${job.pendingCount}/${job.total} pendientes`);
+
+    let idx = job.nextPendingIndex();
+    while (idx !== null) {
+      if (this.shuttingDown || job.isFinished) return;
+
+      const item = job.items[idx];
+      this.logger.log(`[Job ${job.id.slice(0, 8)} ${idx + 1}/${job.total}] "${item.company}"`);
+
+      let outcome: Awaited<ReturnType<SearchOrchestratorService['search']>> | null = null;
+      let error: string | null = null;
+      try {
+        outcome = await this.orchestrator.search(
+          item.company,
+          job.strategy ?? undefined,
+          item.ruc,
+        );
+      } catch (err) {
+        error = (err as Error).message;
+      }
+
+      // Cancelado durante la búsqueda → el resultado se descarta
+      if (job.isFinished) return;
+
+      // Bloqueos y caídas de los motores cuentan como fallo (reintentable); "no existe" no
+      if (outcome && !outcome.result && outcome.failure?.retryable) {
+        error = `[${outcome.failure.code}] ${outcome.failure.message}`;
+        outcome = null;
+      }
+
+      if (outcome) {
+        const { result, strategyUsed } = outcome;
+        item.status = JobItemStatus.DONE;
+        item.found = result?.found ?? false;
+        item.website = result?.website ?? null;
+        item.score = result?.score ?? 0;
+        item.title = result?.title ?? null;
+        item.strategyUsed = strategyUsed;
+      } else {
+        item.status = JobItemStatus.FAILED;
+        item.error = error;
+      }
+      item.finishedAt = new Date().toISOString();
+      job.touch();
+      await this.store.save(job);
+
+      idx = job.nextPendingIndex();
+      if (idx !== null) {
+        const delay =
+          job.delayMs ||
+          this.orchestrator.getDefaultDelay(
+            outcome?.strategyUsed ?? SearchStrategy.DDG_HTTP,
+          );
+        await this.sleep(delay);
+      }
+    }
+
+    // Cancelado durante el delay entre empresas
+    if (job.isFinished) return;
+
+    job.status = JobStatus.COMPLETED;
+    job.finishedAt = new Date();
+    job.touch();
+    await this.store.save(job);
+
+    this.logger.log(
+      `✅ Job ${job.id} completado: ${job.foundCount}/${job.total} encontradas`,
+    );
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+  }
+}
@@ -1,56 +1,294 @@
-import { Injectable, Inject, Logger } from '@nestjs/common';
-import { SearchEnginePort } from '../../domain/ports/search-engine.port';
-import { SearchResult } from '../../domain/entities/search-result.entity';
+import { Injectable, Logger } from '@nestjs/common';
+import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
 import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
-import {
-  SearchStrategy,
-  STRATEGY_PRIORITY,
-  DIRECTORY_STRATEGY_PRIORITY,
-} from '../../domain/enums/search-strategy.enum';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { Failure, failure } from '../../domain/entities/result.entity';
+import { ResultCacheService, CacheInfo } from './result-cache.service';
+import { SearchEngineRegistry } from './search-engine-registry.service';
+import { WebsiteVerificationService } from './website-verification.service';
+import { cleanCompanyName } from '../../shared/utils/company-name-cleaner';
+import { consensusScore, fuseRankings, FusedCandidate } from '../../shared/utils/result-fusion';
+import { asJsonObject } from '../../shared/utils/json-object';
+
+/** Resumen de una búsqueda en modo fan-out (todos los motores directos en paralelo) */
+export interface FanoutInfo {
+  engines: Array<{
+    strategy: SearchStrategy;
+    found: boolean;
+    score: number;
+    results: number;
+    /** Motivo si el motor no devolvió resultados */
+    failure: Failure | null;
+  }>;
+  candidates: FusedCandidate<SearchStrategy>[];
+}
+
+/** Lo que pasó con cada motor en una búsqueda sin resultado */
+interface EngineAttempts {
+  /** Cuántos motores llegaron a buscar */
+  ran: number;
+  /** Fallos de los motores que buscaron */
+  failures: Array<{ strategy: SearchStrategy; failure: Failure }>;
+  /** Motores que no buscaron (agotados / en cooldown) */
+  skipped: SearchStrategy[];
+}
 
 /**
  * Orquestador inteligente de estrategias de búsqueda con 2 fases:
  *
  * FASE 1 — Búsqueda directa (web propia de la empresa):
- *   DDG HTTP → Bing HTTP
+ *   motores con phase 'direct' (por defecto DDG HTTP → Bing HTTP)
  *
  * FASE 2 — Fallback a directorio (cuando no se encuentra web propia):
- *   UniversidadPeru.com (búsqueda directa por RUC/nombre, sin DDG/Bing)
+ *   motores con phase 'directory' (por defecto UniversidadPeru.com)
  *
+ * Los motores y su orden salen de SearchEngineRegistry.
  * Si se pide una estrategia específica, la usa directamente.
  * Si falla, pasa al fallback automático.
+ *
+ * Con RUC y `verify`, los mejores candidatos se verifican descargando su web
+ * (WebsiteVerificationService): los que publican el RUC o la razón social suben al tope.
+ *
+ * Sin resultado, `failure` resume los fallos de los motores que buscaron: not_found
+ * si todos respondieron sin resultados; si alguno estaba bloqueado o caído, el fallo
+ * es reintentable (un motor sano podría haberla encontrado). Los motores saltados
+ * (agotados / en cooldown) no cuentan, salvo que no haya buscado ninguno.
  */
 @Injectable()
 export class SearchOrchestratorService {
   private readonly logger = new Logger(SearchOrchestratorService.name);
-  private readonly adapters: Map<SearchStrategy, SearchEnginePort>;
 
   constructor(
-    @Inject('DDG_HTTP_ADAPTER') private ddgHttp: SearchEnginePort,
-    @Inject('BING_HTTP_ADAPTER') private bingHttp: SearchEnginePort,
-    @Inject('UNIV_PERU_HTTP_ADAPTER') private univPeruHttp: SearchEnginePort,
-  ) {
-    this.adapters = new Map<SearchStrategy, SearchEnginePort>([
-      [SearchStrategy.DDG_HTTP, ddgHttp],
-      [SearchStrategy.BING_HTTP, bingHttp],
-      [SearchStrategy.UNIV_PERU_HTTP, univPeruHttp],
-    ]);
-  }
+    private readonly registry: SearchEngineRegistry,
+    private readonly resultCache: ResultCacheService,
+    private readonly verification: WebsiteVerificationService,
+  ) {}
 
   /**
    * Busca la web oficial de una empresa.
    * Si no se especifica estrategia, usa búsqueda automática con 2 fases.
+   *
+   * Los resultados encontrados se cachean por RUC (o nombre limpio).
+   * `options.fresh` ignora el caché y vuelve a buscar en la red.
+   * `options.verify` (requiere RUC) verifica los mejores candidatos contra el RUC.
    */
   async search(
     companyName: string,
     preferredStrategy?: SearchStrategy,
     ruc?: string,
-  ): Promise<{ result: SearchResult | null; strategyUsed: SearchStrategy }> {
+    options?: { fresh?: boolean; verify?: boolean },
+  ): Promise<{
+    result: SearchResult | null;
+    strategyUsed: SearchStrategy;
+    failure: Failure | null;
+    cache: CacheInfo;
+  }> {
+    const verify = !!(options?.verify && ruc);
+    const key = `${ResultCacheService.searchKey(companyName, ruc, preferredStrategy)}${verify ? ':verified' : ''}`;
+
+    const { value, cache } = await this.resultCache.getOrLoad(
+      'search',
+      key,
+      async () => {
+        const found = await this.searchUncached(companyName, preferredStrategy, ruc);
+        return verify ? this.verifyFound(found, ruc!) : found;
+      },
+      {
+        fresh: options?.fresh,
+        revive: (snapshot) => ({
+          result: reviveResult(snapshot.result),
+          strategyUsed: snapshot.strategyUsed as SearchStrategy,
+          failure: null,
+        }),
+        shouldStore: (v) => v.result?.found ?? false,
+      },
+    );
+
+    return { ...value, cache };
+  }
+
+  /**
+   * Modo fan-out: consulta TODOS los motores directos disponibles a la vez
+   * y fusiona sus allResults con Reciprocal Rank Fusion.
+   *
+   * El consenso entre motores pesa más que el score de uno solo:
+   * el ganador es el dominio con mayor RRF, y su score recibe
+   * +CONSENSUS_BONUS por cada motor extra que lo votó.
+   * Si el ganador no alcanza "found", se prueba la fase de directorio.
+   */
+  async searchFanout(
+    companyName: string,
+    ruc?: string,
+    options?: { fresh?: boolean; verify?: boolean },
+  ): Promise<{
+    result: SearchResult | null;
+    strategyUsed: SearchStrategy;
+    failure: Failure | null;
+    fanout: FanoutInfo;
+    cache: CacheInfo;
+  }> {
+    const verify = !!(options?.verify && ruc);
+    const key = `${ResultCacheService.searchKey(companyName, ruc)}:fanout${verify ? ':verified' : ''}`;
+
+    const { value, cache } = await this.resultCache.getOrLoad(
+      'search',
+      key,
+      async () => {
+        const found = await this.fanoutUncached(companyName, ruc);
+        return verify ? this.verifyFound(found, ruc!) : found;
+      },
+      {
+        fresh: options?.fresh,
+        revive: (snapshot) => ({
+          result: reviveResult(snapshot.result),
+          strategyUsed: snapshot.strategyUsed as SearchStrategy,
+          failure: null,
+          fanout: snapshot.fanout as FanoutInfo,
+        }),
+        shouldStore: (v) => v.result?.found ?? false,
+      },
+    );
+
+    return { ...value, cache };
+  }
+
+  private async fanoutUncached(
+    companyName: string,
+    ruc?: string,
+  ): Promise<{
+    result: SearchResult | null;
+    strategyUsed: SearchStrategy;
+    failure: Failure | null;
+    fanout: FanoutInfo;
+  }> {
+    const attempts: EngineAttempts = { ran: 0, failures: [], skipped: [] };
+    const engines = this.registry
+      .list('direct')
+      .map(({ engine }) => engine)
+      .filter((engine) => {
+        if (engine.isAvailable()) return true;
+        this.logger.log(`Saltando ${engine.strategy} (no disponible)`);
+        attempts.skipped.push(engine.strategy);
+        return false;
+      });
+    attempts.ran = engines.length;
+
+    this.logger.log(
+      `🔀 Fan-out "${companyName}" en ${engines.length} motores: ${engines.map((e) => e.strategy).join(', ') || '—'}`,
+    );
+
+    const settled = await Promise.allSettled(
+      engines.map((engine) => engine.search(companyName, ruc)),
+    );
+
+    const fanout: FanoutInfo = { engines: [], candidates: [] };
+    const lists: Array<{ source: SearchStrategy; results: SearchResult['allResults'] }> = [];
+
+    settled.forEach((outcome, i) => {
+      const strategy = engines[i].strategy;
+      const searched =
+        outcome.status === 'fulfilled'
+          ? outcome.value
+          : {
+              ok: false as const,
+              error: failure(
+                FailureCode.UPSTREAM_ERROR,
+                (outcome.reason as Error)?.message ?? String(outcome.reason),
+              ),
+            };
+
+      if (!searched.ok) {
+        this.logger.warn(`${strategy} falló en fan-out: [${searched.error.code}] ${searched.error.message}`);
+        fanout.engines.push({ strategy, found: false, score: 0, results: 0, failure: searched.error });
+        attempts.failures.push({ strategy, failure: searched.error });
+        return;
+      }
+
+      const result = searched.value;
+      fanout.engines.push({
+        strategy,
+        found: result.found,
+        score: result.score,
+        results: result.allResults.length,
+        failure: null,
+      });
+      lists.push({ source: strategy, results: result.allResults });
+    });
+
+    fanout.candidates = fuseRankings(lists);
+
+    const winner = fanout.candidates[0];
+    let fused: { result: SearchResult; strategyUsed: SearchStrategy } | null = null;
+
+    if (winner) {
+      // Estrategia "responsable" = el motor que mejor lo posicionó
+      const strategyUsed = [...winner.votes].sort((a, b) => a.rank - b.rank)[0].source;
+      fused = {
+        strategyUsed,
+        result: new SearchResult({
+          company: companyName,
+          cleanName: cleanCompanyName(companyName),
+          website: winner.url,
+          score: consensusScore(winner),
+          title: winner.title || null,
+          strategy: strategyUsed,
+          allResults: fanout.candidates
+            .slice(0, 5)
+            .map((c) => new SearchResultItem(c.url, c.title, consensusScore(c))),
+        }),
+      };
+
+      this.logger.log(
+        `🔀 Fan-out ganador: ${winner.url} (${winner.votes.length} votos, score: ${fused.result.score})`,
+      );
+      if (fused.result.found) return { ...fused, failure: null, fanout };
+    }
+
+    // Sin consenso útil → fase de directorio, igual que el modo secuencial
+    const directory = await this.searchDirectories(companyName, ruc, attempts);
+    if (directory) return { ...directory, failure: null, fanout };
+
+    if (fused) return { ...fused, failure: null, fanout };
+    return {
+      result: null,
+      strategyUsed: engines[0]?.strategy ?? SearchStrategy.DDG_HTTP,
+      failure: combineFailures(companyName, attempts),
+      fanout,
+    };
+  }
+
+  /**
+   * Verificación por RUC sobre el resultado de cualquiera de los modos.
+   */
+  private async verifyFound<T extends { result: SearchResult | null }>(found: T, ruc: string): Promise<T> {
+    if (!found.result?.website) return found;
+    await this.verification.verify(found.result, ruc);
+    return found;
+  }
+
+  /**
+   * Búsqueda real en la red (sin caché).
+   */
+  private async searchUncached(
+    companyName: string,
+    preferredStrategy?: SearchStrategy,
+    ruc?: string,
+  ): Promise<{ result: SearchResult | null; strategyUsed: SearchStrategy; failure: Failure | null }> {
     if (preferredStrategy) {
-      const adapter = this.adapters.get(preferredStrategy);
+      const adapter = this.registry.get(preferredStrategy);
       if (!adapter) {
-        this.logger.warn(`Estrategia desconocida: ${preferredStrategy}`);
-        return { result: null, strategyUsed: preferredStrategy };
+        const missing = this.registry.missingConfig(preferredStrategy);
+        const message =
+          missing.length > 0
+            ? `Estrategia no configurada: ${preferredStrategy} (falta ${missing.join(', ')})`
+            : `Estrategia desconocida: ${preferredStrategy}`;
+        this.logger.warn(message);
+        return {
+          result: null,
+          strategyUsed: preferredStrategy,
+          failure: failure(FailureCode.INVALID_INPUT, message),
+        };
       }
 
       if (!adapter.isAvailable()) {
@@ -60,8 +298,10 @@ export class SearchOrchestratorService {
         return this.searchWithFallback(companyName, ruc, preferredStrategy);
       }
 
-      const result = await adapter.search(companyName, ruc);
-      return { result, strategyUsed: preferredStrategy };
+      const searched = await adapter.search(companyName, ruc);
+      return searched.ok
+        ? { result: searched.value, strategyUsed: preferredStrategy, failure: null }
+        : { result: null, strategyUsed: preferredStrategy, failure: searched.error };
     }
 
     return this.searchWithFallback(companyName, ruc);
@@ -69,8 +309,8 @@ export class SearchOrchestratorService {
 
   /**
    * Búsqueda con fallback automático en 2 fases:
-   * Fase 1: DDG → Bing (busca web propia de la empresa)
-   * Fase 2: UniversidadPeru.com (búsqueda directa en directorio)
+   * Fase 1: motores directos (busca web propia de la empresa)
+   * Fase 2: directorios (búsqueda directa por RUC/nombre)
    *
    * LÓGICA DE SCORE:
    *  - score >= 15 → Alta confianza, devolver inmediatamente
@@ -83,23 +323,28 @@ export class SearchOrchestratorService {
     companyName: string,
     ruc?: string,
     skipStrategy?: SearchStrategy,
-  ): Promise<{ result: SearchResult | null; strategyUsed: SearchStrategy }> {
+  ): Promise<{ result: SearchResult | null; strategyUsed: SearchStrategy; failure: Failure | null }> {
     // Mejor candidato de Phase 1 (puede tener score bajo)
     let phase1Best: { result: SearchResult; strategyUsed: SearchStrategy } | null =
       null;
+    const attempts: EngineAttempts = { ran: 0, failures: [], skipped: [] };
 
     // ═══ FASE 1: Búsqueda directa (web propia de la empresa) ═══
-    for (const strategy of STRATEGY_PRIORITY) {
+    for (const { engine: adapter } of this.registry.list('direct')) {
+      const strategy = adapter.strategy;
       if (strategy === skipStrategy) continue;
 
-      const adapter = this.adapters.get(strategy);
-      if (!adapter || !adapter.isAvailable()) {
+      if (!adapter.isAvailable()) {
         this.logger.log(`Saltando ${strategy} (no disponible)`);
+        attempts.skipped.push(strategy);
         continue;
       }
 
       this.logger.log(`Intentando con ${strategy}...`);
-      const result = await adapter.search(companyName, ruc);
+      attempts.ran++;
+      const searched = await adapter.search(companyName, ruc);
+      if (!searched.ok) attempts.failures.push({ strategy, failure: searched.error });
+      const result = searched.ok ? searched.value : null;
 
       if (result && result.found) {
         if (result.score >= 15) {
@@ -107,7 +352,7 @@ export class SearchOrchestratorService {
           this.logger.log(
             `✅ ${strategy} encontró con alta confianza: ${result.website} (score: ${result.score})`,
           );
-          return { result, strategyUsed: strategy };
+          return { result, strategyUsed: strategy, failure: null };
         }
 
         // Score bajo (8-14) → guardar como candidato, seguir buscando
@@ -119,7 +364,7 @@ export class SearchOrchestratorService {
         }
       } else {
         this.logger.log(
-          `${strategy} no encontró resultado, probando siguiente...`,
+          `${strategy} no encontró resultado${searched.ok ? '' : ` (${searched.error.code})`}, probando siguiente...`,
         );
       }
     }
@@ -129,46 +374,66 @@ export class SearchOrchestratorService {
       `🗂️ ${phase1Best ? `Mejor Phase 1 tiene score ${phase1Best.result.score} (baja confianza)` : 'No se encontró web propia'} para "${companyName}", probando directorio...`,
     );
 
-    for (const strategy of DIRECTORY_STRATEGY_PRIORITY) {
-      const adapter = this.adapters.get(strategy);
-      if (!adapter || !adapter.isAvailable()) {
+    const directory = await this.searchDirectories(companyName, ruc, attempts);
+    if (directory) {
+      // Si el directorio encontró algo, comparar con Phase 1 candidate
+      if (phase1Best && phase1Best.result.score > directory.result.score) {
+        this.logger.log(
+          `Phase 1 tiene mejor score (${phase1Best.result.score} > ${directory.result.score}), usando Phase 1`,
+        );
+        return { ...phase1Best, failure: null };
+      }
+      return { ...directory, failure: null };
+    }
+
+    // Si tenemos un candidato de Phase 1 (aunque con score bajo), devolverlo
+    if (phase1Best) {
+      this.logger.log(
+        `⚠️ Usando candidato Phase 1 de baja confianza: ${phase1Best.result.website} (score: ${phase1Best.result.score})`,
+      );
+      return { ...phase1Best, failure: null };
+    }
+
+    // Ninguna estrategia encontró resultado
+    const engines = this.registry.list();
+    const lastStrategy =
+      engines[engines.length - 1]?.engine.strategy ?? skipStrategy ?? SearchStrategy.DDG_HTTP;
+    return { result: null, strategyUsed: lastStrategy, failure: combineFailures(companyName, attempts) };
+  }
+
+  /**
+   * Fase 2: recorre los directorios en orden y retorna el primero que encuentre algo.
+   * Lo que pasa con cada directorio se agrega a `attempts`.
+   */
+  private async searchDirectories(
+    companyName: string,
+    ruc: string | undefined,
+    attempts: EngineAttempts,
+  ): Promise<{ result: SearchResult; strategyUsed: SearchStrategy } | null> {
+    for (const { engine: adapter } of this.registry.list('directory')) {
+      const strategy = adapter.strategy;
+      if (!adapter.isAvailable()) {
         this.logger.log(`Saltando directorio ${strategy} (no disponible)`);
+        attempts.skipped.push(strategy);
         continue;
       }
 
       this.logger.log(`Intentando directorio ${strategy}...`);
-      const result = await adapter.search(companyName, ruc);
+      attempts.ran++;
+      const searched = await adapter.search(companyName, ruc);
+      if (!searched.ok) attempts.failures.push({ strategy, failure: searched.error });
+      const result = searched.ok ? searched.value : null;
 
       if (result && result.found) {
         this.logger.log(
           `✅ Directorio ${strategy} encontró: ${result.website} (score: ${result.score})`,
         );
-        // Si el directorio encontró algo, comparar con Phase 1 candidate
-        if (phase1Best && phase1Best.result.score > result.score) {
-          this.logger.log(
-            `Phase 1 tiene mejor score (${phase1Best.result.score} > ${result.score}), usando Phase 1`,
-          );
-          return phase1Best;
-        }
         return { result, strategyUsed: strategy };
       }
 
       this.logger.log(`Directorio ${strategy} no encontró resultado...`);
     }
-
-    // Si tenemos un candidato de Phase 1 (aunque con score bajo), devolverlo
-    if (phase1Best) {
-      this.logger.log(
-        `⚠️ Usando candidato Phase 1 de baja confianza: ${phase1Best.result.website} (score: ${phase1Best.result.score})`,
-      );
-      return phase1Best;
-    }
-
-    // Ninguna estrategia encontró resultado
-    const lastStrategy =
-      DIRECTORY_STRATEGY_PRIORITY[DIRECTORY_STRATEGY_PRIORITY.length - 1] ||
-      STRATEGY_PRIORITY[STRATEGY_PRIORITY.length - 1];
-    return { result: null, strategyUsed: lastStrategy };
+    return null;
   }
 
   /**
@@ -184,6 +449,7 @@ export class SearchOrchestratorService {
       company: string;
       result: SearchResult | null;
       strategyUsed: SearchStrategy;
+      failure: Failure | null;
     }>
   > {
     const results: Array<{
@@ -191,6 +457,7 @@ export class SearchOrchestratorService {
       company: string;
       result: SearchResult | null;
       strategyUsed: SearchStrategy;
+      failure: Failure | null;
     }> = [];
 
     for (let i = 0; i < companies.length; i++) {
@@ -198,9 +465,9 @@ export class SearchOrchestratorService {
 
       this.logger.log(`[Batch ${i + 1}/${companies.length}] "${name}"`);
 
-      const { result, strategyUsed } = await this.search(name, preferredStrategy, ruc);
+      const { result, strategyUsed, failure } = await this.search(name, preferredStrategy, ruc);
 
-      results.push({ ruc, company: name, result, strategyUsed });
+      results.push({ ruc, company: name, result, strategyUsed, failure });
 
       if (i < companies.length - 1) {
         const delay = delayMs || this.getDefaultDelay(strategyUsed);
@@ -215,13 +482,7 @@ export class SearchOrchestratorService {
    * Estado de TODAS las estrategias (directas + directorios).
    */
   getAllStatuses(): StrategyStatus[] {
-    const allStrategies = [...STRATEGY_PRIORITY, ...DIRECTORY_STRATEGY_PRIORITY];
-    return allStrategies.map((strategy) => {
-      const adapter = this.adapters.get(strategy);
-      return adapter
-        ? adapter.getStatus()
-        : new StrategyStatus({ strategy, maxPerSession: 0 });
-    });
+    return this.registry.list().map(({ engine }) => engine.getStatus());
   }
 
   /**
@@ -229,27 +490,62 @@ export class SearchOrchestratorService {
    */
   resetCounters(strategy?: SearchStrategy): void {
     if (strategy) {
-      const adapter = this.adapters.get(strategy);
+      const adapter = this.registry.get(strategy);
       if (adapter) adapter.reset();
     } else {
-      for (const adapter of this.adapters.values()) {
-        adapter.reset();
+      for (const { engine } of this.registry.list()) {
+        engine.reset();
       }
     }
     this.logger.log(`Contadores reseteados: ${strategy || 'todas'}`);
   }
 
-  private getDefaultDelay(strategy: SearchStrategy): number {
-    const delays: Record<SearchStrategy, { min: number; max: number }> = {
-      [SearchStrategy.DDG_HTTP]: { min: 2000, max: 5000 },
-      [SearchStrategy.BING_HTTP]: { min: 2000, max: 5000 },
-      [SearchStrategy.UNIV_PERU_HTTP]: { min: 1500, max: 3000 },
-    };
-    const range = delays[strategy];
-    return Math.floor(Math.random() * (range.max - range.min + 1)) + range.min;
+  /**
+   * Delay aleatorio recomendado entre búsquedas según la estrategia usada.
+   */
+  getDefaultDelay(strategy: SearchStrategy): number {
+    return this.registry.getDelay(strategy);
   }
 
   private sleep(ms: number): Promise<void> {
     return new Promise((r) => setTimeout(r, ms));
   }
 }
+
+/** SearchResult guardado en el caché (null si no había) */
+function reviveResult(snapshot: unknown): SearchResult | null {
+  const data = asJsonObject(snapshot);
+  return data ? SearchResult.fromSnapshot(data) : null;
+}
+
+/**
+ * Un fallo a partir de los de cada motor que buscó.
+ * not_found si todos respondieron sin resultados; si alguno no pudo buscar,
+ * el peor caso reintentable (bloqueo > red > no disponible) gana.
+ * Los saltados solo importan si no buscó ninguno: entonces es unavailable.
+ */
+function combineFailures(companyName: string, attempts: EngineAttempts): Failure {
+  if (attempts.ran === 0 && attempts.skipped.length > 0) {
+    return failure(
+      FailureCode.UNAVAILABLE,
+      `Ningún motor disponible para "${companyName}" (agotados/cooldown: ${attempts.skipped.join(', ')})`,
+    );
+  }
+  const { failures } = attempts;
+  if (failures.length === 0) {
+    return failure(FailureCode.NOT_FOUND, `No se encontró web para "${companyName}"`);
+  }
+  const detail = failures.map((f) => `${f.strategy}: ${f.failure.message}`).join('; ');
+  const precedence = [
+    FailureCode.BLOCKED,
+    FailureCode.UPSTREAM_ERROR,
+    FailureCode.UNAVAILABLE,
+    FailureCode.PARSE_ERROR,
+    FailureCode.INVALID_INPUT,
+  ];
+  const worst = precedence.find((code) => failures.some((f) => f.failure.code === code));
+  if (!worst) {
+    return failure(FailureCode.NOT_FOUND, `No se encontró web para "${companyName}" (${detail})`);
+  }
+  return failure(worst, `Sin resultado para "${companyName}" (${detail})`);
+}
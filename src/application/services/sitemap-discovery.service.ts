@@ -0,0 +1,154 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EgressService } from './egress.service';
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+import { parseSitemap } from '../../shared/utils/sitemap';
+import { getRootDomain } from '../../shared/utils/url-scorer';
+import {
+  SubpageType,
+  classifySubpage,
+  subpagePriority,
+} from '../../shared/utils/subpage-classifier';
+
+/** Sub-página encontrada en un sitemap */
+export interface DiscoveredSubpage {
+  url: string;
+  type: SubpageType;
+}
+
+/** Sitemaps hijos que suelen listar páginas institucionales (WordPress, Yoast, Liferay...) */
+const PREFERRED_CHILD = /(page|pagina|institucional|corporativ|main|sitemap\.xml$)/i;
+/** Sitemaps hijos de contenido masivo: se dejan para el final */
+const NOISY_CHILD = /(post|product|producto|categor|tag|author|autor|blog|noticia|news|press|attachment|image|video)/i;
+
+/**
+ * Descubre sub-páginas corporativas desde sitemap.xml.
+ *
+ * 1. Sitemaps declarados en robots.txt (+ /sitemap.xml como fallback)
+ * 2. Sigue los sitemap index (primero los hijos "de páginas", al final posts/productos)
+ * 3. Clasifica cada URL del mismo dominio con la taxonomía de classifySubpage
+ * 4. Por tipo se queda con la URL menos profunda (/nosotros gana a /blog/2020/nosotros)
+ *
+ * Todas las descargas pasan por el CrawlSchedulerService (robots.txt + cortesía).
+ */
+@Injectable()
+export class SitemapDiscoveryService {
+  private readonly logger = new Logger(SitemapDiscoveryService.name);
+  private readonly enabled: boolean;
+  private readonly maxFiles: number;
+  private readonly maxUrls: number;
+
+  constructor(
+    private readonly egress: EgressService,
+    private readonly crawler: CrawlSchedulerService,
+    private readonly config: ConfigService,
+  ) {
+    this.enabled = this.config.get<boolean>('scraper.crawl.useSitemaps', true);
+    this.maxFiles = this.config.get<number>('scraper.crawl.maxSitemapFiles', 5);
+    this.maxUrls = this.config.get<number>('scraper.crawl.maxSitemapUrls', 5000);
+  }
+
+  /**
+   * Una sub-página por tipo, ordenadas por prioridad de visita.
+   * Sin sitemap (o deshabilitado) → [].
+   */
+  async discover(baseUrl: string): Promise<DiscoveredSubpage[]> {
+    if (!this.enabled) return [];
+
+    let base: URL;
+    try {
+      base = new URL(baseUrl);
+    } catch {
+      return [];
+    }
+
+    const queue = [...(await this.crawler.sitemapsFor(baseUrl)), `${base.origin}/sitemap.xml`];
+    const fetched = new Set<string>();
+    const pages: string[] = [];
+
+    while (queue.length > 0 && fetched.size < this.maxFiles && pages.length < this.maxUrls) {
+      const sitemapUrl = queue.shift()!;
+      if (fetched.has(sitemapUrl)) continue;
+      fetched.add(sitemapUrl);
+
+      // .xml.gz llega como binario (no es Content-Encoding): no se puede leer como texto
+      if (/\.gz(\?|$)/i.test(sitemapUrl)) continue;
+
+      const body = await this.fetchSitemap(sitemapUrl);
+      if (!body) continue;
+
+      const sitemap = parseSitemap(body);
+      if (sitemap.kind === 'index') {
+        queue.push(...this.orderChildren(sitemap.urls));
+      } else {
+        pages.push(...sitemap.urls.slice(0, this.maxUrls - pages.length));
+      }
+    }
+
+    const found = this.pickBest(pages, getRootDomain(base.hostname.toLowerCase()));
+    if (found.length > 0) {
+      this.logger.log(
+        `🗺️  Sitemap ${base.hostname}: ${pages.length} URLs → ${found.map((f) => `${f.type}=${new URL(f.url).pathname}`).join(', ')}`,
+      );
+    }
+    return found;
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Internals
+  // ──────────────────────────────────────────────────────────
+
+  private async fetchSitemap(url: string): Promise<string | null> {
+    const verdict = await this.crawler.check(url);
+    if (!verdict.allowed) return null;
+
+    try {
+      const response = await this.crawler.schedule(url, () =>
+        this.egress.request('scraper', {
+          url,
+          timeoutMs: 8000,
+          retries: 0,
+          insecureTls: true,
+          headers: { Accept: 'application/xml,text/xml,text/plain;q=0.9,*/*;q=0.8' },
+        }),
+      );
+      return response.status === 200 ? response.body : null;
+    } catch (err) {
+      this.logger.debug(`🗺️  ${url}: ${(err as Error).message}`);
+      return null;
+    }
+  }
+
+  private orderChildren(urls: string[]): string[] {
+    const rank = (url: string) => (PREFERRED_CHILD.test(url) ? 0 : NOISY_CHILD.test(url) ? 2 : 1);
+    return [...urls].sort((a, b) => rank(a) - rank(b));
+  }
+
+  private pickBest(urls: string[], rootDomain: string): DiscoveredSubpage[] {
+    const best = new Map<SubpageType, { url: string; depth: number }>();
+
+    for (const raw of urls) {
+      let parsed: URL;
+      try {
+        parsed = new URL(raw);
+      } catch {
+        continue;
+      }
+      if (getRootDomain(parsed.hostname.toLowerCase()) !== rootDomain) continue;
+
+      const type = classifySubpage(parsed.pathname);
+      if (!type) continue;
+
+      const url = parsed.origin + parsed.pathname;
+      const depth = parsed.pathname.split('/').filter(Boolean).length;
+      const current = best.get(type);
+      if (!current || depth < current.depth || (depth === current.depth && url.length < current.url.length)) {
+        best.set(type, { url, depth });
+      }
+    }
+
+    return [...best.entries()]
+      .map(([type, { url }]) => ({ url, type }))
+      .sort((a, b) => subpagePriority(a.type) - subpagePriority(b.type));
+  }
+}
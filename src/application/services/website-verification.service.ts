@@ -0,0 +1,119 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EgressService } from './egress.service';
+import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
+import { COMPANY_RAW_STORE_PORT, CompanyRawStorePort } from '../../domain/ports/company-raw-store.port';
+import { CrawlSchedulerService } from './crawl-scheduler.service';
+import { findWebsiteEvidence, isVerified } from '../../shared/utils/website-evidence';
+
+/**
+ * Verifica las webs candidatas de una búsqueda contra el RUC de la empresa.
+ *
+ * scoreResult solo mira URL y título, así que un dominio parecido puede ganar.
+ * Con el RUC se descargan los primeros N candidatos de allResults y se buscan
+ * el RUC, la razón social y emails del propio dominio en la página y su pie legal.
+ * La razón social es la ya conocida para el RUC en companies_raw (DatosPeru);
+ * el nombre buscado no sirve — suele ser la marca, no la razón social.
+ * Los verificados reciben un bonus y pasan delante de los no verificados;
+ * el primero de ellos pasa a ser la web del resultado.
+ *
+ * Las descargas pasan por el CrawlSchedulerService (robots.txt + cortesía).
+ */
+@Injectable()
+export class WebsiteVerificationService {
+  private readonly logger = new Logger(WebsiteVerificationService.name);
+  private readonly topN: number;
+  private readonly timeoutMs: number;
+  private readonly bonus: number;
+
+  constructor(
+    private readonly egress: EgressService,
+    private readonly crawler: CrawlSchedulerService,
+    private readonly config: ConfigService,
+    @Inject(COMPANY_RAW_STORE_PORT) private readonly store: CompanyRawStorePort,
+  ) {
+    this.topN = this.config.get<number>('scraper.verification.topN', 3);
+    this.timeoutMs = this.config.get<number>('scraper.verification.timeoutMs', 8000);
+    this.bonus = this.config.get<number>('scraper.verification.bonus', 10);
+  }
+
+  /**
+   * Marca verified/evidence en los candidatos revisados y reordena el resultado.
+   * Modifica y devuelve el mismo SearchResult.
+   */
+  async verify(result: SearchResult, ruc: string): Promise<SearchResult> {
+    const candidates = result.allResults.slice(0, this.topN);
+    // La web elegida puede venir de un directorio y no estar en allResults
+    if (result.website && !result.allResults.some((r) => r.url === result.website)) {
+      const chosen = new SearchResultItem(result.website, result.title ?? '', result.score);
+      result.allResults.unshift(chosen);
+      candidates.unshift(chosen);
+    }
+
+    const legalName = await this.legalNameOf(ruc);
+    await Promise.all(candidates.map((item) => this.check(item, ruc, legalName)));
+
+    for (const item of candidates) {
+      if (item.verified) item.score += this.bonus;
+    }
+    // Verificados primero; dentro de cada grupo, el orden por score
+    result.allResults.sort((a, b) => Number(b.verified === true) - Number(a.verified === true) || b.score - a.score);
+
+    const best = result.allResults[0];
+    if (best?.verified) {
+      if (best.url !== result.website) {
+        this.logger.log(`🪪 RUC ${ruc}: ${best.url} verificada, reemplaza a ${result.website}`);
+      }
+      result.website = best.url;
+      result.title = best.title || result.title;
+      result.score = best.score;
+    }
+
+    const chosen = result.allResults.find((r) => r.url === result.website);
+    result.verified = chosen?.verified ?? false;
+    result.evidence = chosen?.evidence ?? [];
+
+    this.logger.log(
+      `🪪 RUC ${ruc}: ${candidates.filter((c) => c.verified).length}/${candidates.length} candidatos verificados` +
+        ` → ${result.website ?? '—'} (${result.verified ? 'verificada' : 'sin verificar'})`,
+    );
+    return result;
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Razón social conocida para el RUC: solo la del perfil de DatosPeru guardado.
+   * La columna razon_social no sirve: filas viejas la tienen con el nombre buscado.
+   */
+  private async legalNameOf(ruc: string): Promise<string | null> {
+    try {
+      const row = await this.store.findByRuc(ruc);
+      const datosPeru = row?.data.datosperu as { nombre?: unknown } | undefined;
+      return (typeof datosPeru?.nombre === 'string' && datosPeru.nombre) || null;
+    } catch (err) {
+      this.logger.warn(`🪪 RUC ${ruc}: no se pudo leer la razón social (${(err as Error).message})`);
+      return null;
+    }
+  }
+
+  private async check(item: SearchResultItem, ruc: string, legalName: string | null): Promise<void> {
+    item.verified = false;
+    item.evidence = [];
+
+    const verdict = await this.crawler.check(item.url);
+    if (!verdict.allowed) return;
+
+    try {
+      const response = await this.crawler.schedule(item.url, () =>
+        this.egress.request('scraper', { url: item.url, timeoutMs: this.timeoutMs, retries: 0, insecureTls: true }),
+      );
+      if (response.status !== 200) return;
+
+      item.evidence = findWebsiteEvidence(response.body, response.url, { ruc, legalName });
+      item.verified = isVerified(item.evidence);
+    } catch (err) {
+      this.logger.debug(`🪪 ${item.url}: ${(err as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { DatosPeruExecutive } from './datos-peru-profile.entity';
+import { Ubigeo } from './peru-address.entity';
+
+/**
+ * Fuente de la que sale un campo del dossier.
+ *   datosperu → datos SUNAT vía datosperu.org
+ *   website   → web oficial de la empresa (scraping)
+ *   search    → resultado del buscador (DDG/Bing/directorio)
+ */
+export type DossierSource = 'datosperu' | 'website' | 'search';
+
+/**
+ * Valor fusionado + fuentes que lo aportaron.
+ * Campos simples: una sola fuente (la de mayor precedencia con dato).
+ * Listas (teléfonos, emails...): unión de todas las fuentes con dato.
+ */
+export interface DossierField<T> {
+  value: T;
+  sources: DossierSource[];
+}
+
+/**
+ * Líder de la empresa conciliado entre la web (equipo gerencial / directorio)
+ * y los ejecutivos registrados en SUNAT (DatosPeru).
+ */
+export interface DossierLeader {
+  /** Nombre como lo publica la web; si solo está en SUNAT, como figura allí */
+  name: string;
+  /** Cargo publicado en la web (o el registrado si no hay) */
+  role: string | null;
+  /** Cargo registrado en SUNAT ("GERENTE GENERAL") */
+  registeredRole: string | null;
+  /** Fecha de registro del cargo en SUNAT */
+  since: string | null;
+  photoUrl: string | null;
+  sources: DossierSource[];
+}
+
+/**
+ * Dossier unificado de una empresa: combina DatosPeru + web oficial + búsqueda
+ * con reglas de precedencia por campo (ver CompanyDossierService).
+ * Entidad de dominio — no depende de frameworks.
+ */
+export class CompanyDossier {
+  ruc: string;
+
+  // ── Identidad ──
+  /** Razón social (SUNAT primero) */
+  legalName: DossierField<string | null>;
+  /** Nombre comercial (web primero) */
+  tradeName: DossierField<string | null>;
+  description: DossierField<string | null>;
+  history: DossierField<string | null>;
+  foundedYear: DossierField<number | null>;
+
+  // ── SUNAT ──
+  status: DossierField<string | null>;
+  taxpayerType: DossierField<string | null>;
+  ciiu: DossierField<string | null>;
+  industry: DossierField<string | null>;
+
+  // ── Ubicación ──
+  address: DossierField<string | null>;
+  department: DossierField<string | null>;
+  province: DossierField<string | null>;
+  district: DossierField<string | null>;
+  /** Ubigeo INEI (SUNAT primero; si no, el de la sede que declara la web) */
+  ubigeo: DossierField<Ubigeo | null>;
+
+  // ── Contacto ──
+  website: DossierField<string | null>;
+  phones: DossierField<string[]>;
+  emails: DossierField<string[]>;
+  socialLinks: DossierField<Record<string, string>>;
+  logoUrl: DossierField<string | null>;
+
+  // ── Cultura ──
+  mission: DossierField<string | null>;
+  vision: DossierField<string | null>;
+  values: DossierField<string[]>;
+
+  // ── Personas ──
+  executives: DossierField<DatosPeruExecutive[]>;
+  /** Web + SUNAT conciliados por nombre */
+  leadership: DossierField<DossierLeader[]>;
+  employeeCount: DossierField<string | null>;
+
+  constructor(ruc: string) {
+    this.ruc = ruc;
+    this.legalName = CompanyDossier.empty(null);
+    this.tradeName = CompanyDossier.empty(null);
+    this.description = CompanyDossier.empty(null);
+    this.history = CompanyDossier.empty(null);
+    this.foundedYear = CompanyDossier.empty(null);
+    this.status = CompanyDossier.empty(null);
+    this.taxpayerType = CompanyDossier.empty(null);
+    this.ciiu = CompanyDossier.empty(null);
+    this.industry = CompanyDossier.empty(null);
+    this.address = CompanyDossier.empty(null);
+    this.department = CompanyDossier.empty(null);
+    this.province = CompanyDossier.empty(null);
+    this.district = CompanyDossier.empty(null);
+    this.ubigeo = CompanyDossier.empty<Ubigeo | null>(null);
+    this.website = CompanyDossier.empty(null);
+    this.phones = CompanyDossier.empty<string[]>([]);
+    this.emails = CompanyDossier.empty<string[]>([]);
+    this.socialLinks = CompanyDossier.empty<Record<string, string>>({});
+    this.logoUrl = CompanyDossier.empty(null);
+    this.mission = CompanyDossier.empty(null);
+    this.vision = CompanyDossier.empty(null);
+    this.values = CompanyDossier.empty<string[]>([]);
+    this.executives = CompanyDossier.empty<DatosPeruExecutive[]>([]);
+    this.leadership = CompanyDossier.empty<DossierLeader[]>([]);
+    this.employeeCount = CompanyDossier.empty(null);
+  }
+
+  /** Cuántos campos tienen valor */
+  get fieldsFilled(): number {
+    return Object.values(this).filter(
+      (f): f is DossierField<unknown> =>
+        typeof f === 'object' && f !== null && 'sources' in f && f.sources.length > 0,
+    ).length;
+  }
+
+  private static empty<T>(value: T): DossierField<T> {
+    return { value, sources: [] };
+  }
+}
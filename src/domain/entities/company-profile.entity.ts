@@ -1,3 +1,175 @@
+import { ContactEmail } from './contact-email.entity';
+import { PeruAddress } from './peru-address.entity';
+import { PhoneNumber } from './phone-number.entity';
+import { JsonObject } from '../../shared/utils/json-object';
+
+/** Campos del perfil que registran procedencia */
+export type ProfileField =
+  | 'name'
+  | 'description'
+  | 'history'
+  | 'foundedYear'
+  | 'foundedDate'
+  | 'originalName'
+  | 'headquarters'
+  | 'phones'
+  | 'emails'
+  | 'ruc'
+  | 'industry'
+  | 'logoUrl'
+  | 'mission'
+  | 'vision'
+  | 'values'
+  | 'shareholders'
+  | 'employeeCount'
+  | 'coverage'
+  | 'socialLinks'
+  | 'jobs'
+  | 'benefits'
+  | 'certifications'
+  | 'cultureStatements'
+  | 'leadership';
+
+/**
+ * De dónde salió un valor extraído: página, extractor, regla y texto crudo.
+ * Permite explicar por qué un campo tiene un valor incorrecto.
+ */
+export interface FieldProvenance {
+  /** Valor (o ítem de la lista) al que aplica */
+  value: string;
+  /** Página de la que se extrajo */
+  sourceUrl: string;
+  /** Método del scraper: extractJsonLd, extractMetaTags, extractFromText... */
+  extractor: string;
+  /** Selector, propiedad o regex que hizo match */
+  rule: string;
+  /** Texto crudo alrededor del match (máx. 200 caracteres) */
+  snippet: string;
+  /** 0..1 — qué tan confiable es la regla */
+  confidence: number;
+}
+
+/** Página que el scraper decidió no visitar */
+export interface SkippedPage {
+  url: string;
+  /** p. ej. "robots.txt: Disallow /contacto" */
+  reason: string;
+}
+
+/** Plataformas de reclutamiento (ATS y bolsas de trabajo) reconocidas por URL */
+export type AtsProvider =
+  | 'workday'
+  | 'lever'
+  | 'greenhouse'
+  | 'smartrecruiters'
+  | 'successfactors'
+  | 'computrabajo'
+  | 'bumeran'
+  | 'linkedin';
+
+/** Link de la empresa a una plataforma de reclutamiento */
+export interface AtsLink {
+  provider: AtsProvider;
+  url: string;
+}
+
+/** Indicios que suben (o bajan) el puntaje de un RUC encontrado en la web */
+export type RucSignal =
+  | 'json-ld' // taxID / vatID del JSON-LD
+  | 'label' // "RUC" justo antes del número
+  | 'footer' // dentro del pie de página
+  | 'legal' // razón social, ©, términos, libro de reclamaciones cerca
+  | 'legal-page' // página de términos / privacidad / reclamaciones
+  | 'third-party'; // proveedor, cliente, consorcio cerca: probablemente de otra empresa
+
+/** RUC encontrado en la web, con su puntaje de ser el de la propia empresa */
+export interface RucCandidate {
+  ruc: string;
+  /** 0-1 */
+  score: number;
+  signals: RucSignal[];
+  /** Veces que apareció en la página */
+  occurrences: number;
+  sourceUrl: string;
+}
+
+/**
+ * RUC pedido vs. RUC encontrado en la web.
+ * - match: el mejor candidato es el RUC pedido
+ * - candidate: el RUC pedido aparece en la web, pero otro tiene mejor puntaje
+ * - mismatch: la web publica otro RUC (¿web equivocada?)
+ * - not-found: la web no publica ningún RUC válido
+ */
+export interface RucCheck {
+  requested: string;
+  found: string | null;
+  status: 'match' | 'candidate' | 'mismatch' | 'not-found';
+}
+
+/** Oferta laboral publicada por la empresa */
+export interface JobOpening {
+  title: string;
+  /** Ciudad / región tal como la publica la empresa */
+  location: string | null;
+  /** Link al aviso (o a la página donde se listó) */
+  url: string;
+  /** Fecha de publicación YYYY-MM-DD (null si no se pudo leer) */
+  postedAt: string | null;
+  /** 'website' si salió del HTML de la empresa; si no, el ATS */
+  source: 'website' | AtsProvider;
+}
+
+/** Sección de empleo: página de carreras, ATS enlazados y ofertas vigentes */
+export interface CompanyJobs {
+  /** Página "Trabaja con nosotros" (propia o del ATS) */
+  careersUrl: string | null;
+  atsLinks: AtsLink[];
+  openings: JobOpening[];
+}
+
+/** Categorías de beneficios laborales */
+export type BenefitCategory =
+  | 'health'
+  | 'flexibility'
+  | 'career'
+  | 'compensation'
+  | 'wellbeing'
+  | 'family'
+  | 'other';
+
+/** Beneficio que la empresa ofrece a sus colaboradores */
+export interface WorkplaceBenefit {
+  category: BenefitCategory;
+  /** Texto tal como aparece en la web ("Seguro EPS al 100%") */
+  text: string;
+  sourceUrl: string;
+}
+
+/** Certificación o reconocimiento (Great Place to Work, ISO 9001...) */
+export interface Certification {
+  /** Nombre canónico: "Great Place to Work", "ISO 14001" */
+  name: string;
+  /** Año mencionado junto a la certificación */
+  year: number | null;
+  sourceUrl: string;
+}
+
+/** Declaración de la empresa sobre diversidad o sostenibilidad */
+export interface CultureStatement {
+  topic: 'diversity' | 'sustainability';
+  text: string;
+  sourceUrl: string;
+}
+
+/** Integrante del directorio o del equipo gerencial publicado en la web */
+export interface LeadershipMember {
+  name: string;
+  /** Cargo tal como lo publica la empresa ("Gerente General", "CFO") */
+  role: string | null;
+  photoUrl: string | null;
+  sourceUrl: string;
+}
+
 /**
  * Datos extraídos del perfil web de una empresa.
  * Entidad de dominio — no depende de frameworks.
@@ -27,15 +199,27 @@ export class CompanyProfile {
   /** Dirección de sede principal */
   headquarters: string | null;
 
+  /** Sede principal descompuesta + ubigeo */
+  headquartersAddress: PeruAddress | null;
+
   /** Teléfonos encontrados */
   phones: string[];
 
+  /** Los mismos teléfonos en E.164, con tipo de línea, región y anexo */
+  normalizedPhones: PhoneNumber[];
+
   /** Emails encontrados */
   emails: string[];
 
-  /** RUC (11 dígitos, empresas peruanas) */
+  /** Los mismos emails con rol (genérico / RR.HH. / personal) y si son del dominio propio */
+  contactEmails: ContactEmail[];
+
+  /** RUC (11 dígitos, empresas peruanas): el candidato con mejor puntaje */
   ruc: string | null;
 
+  /** RUCs válidos encontrados en la web, de mayor a menor puntaje */
+  rucCandidates: RucCandidate[];
+
   /** Sector / industria */
   industry: string | null;
 
@@ -63,12 +247,36 @@ export class CompanyProfile {
   /** Links a redes sociales */
   socialLinks: Record<string, string>;
 
+  /** Empleo: página de carreras, ATS y ofertas */
+  jobs: CompanyJobs;
+
+  /** Beneficios para colaboradores */
+  benefits: WorkplaceBenefit[];
+
+  /** Certificaciones y reconocimientos */
+  certifications: Certification[];
+
+  /** Declaraciones de diversidad / sostenibilidad */
+  cultureStatements: CultureStatement[];
+
+  /** Directorio y equipo gerencial */
+  leadership: LeadershipMember[];
+
   /** URLs internas visitadas para extraer datos */
   pagesScraped: string[];
 
+  /** URLs omitidas a propósito (robots.txt) con el motivo */
+  pagesSkipped: SkippedPage[];
+
   /** Datos adicionales no categorizados */
   extras: Record<string, string>;
 
+  /**
+   * Procedencia de cada campo extraído.
+   * Campos simples: una entrada (la del valor vigente). Listas: una por ítem.
+   */
+  provenance: Partial<Record<ProfileField, FieldProvenance[]>>;
+
   /** Timestamp de extracción */
   scrapedAt: Date;
 
@@ -84,9 +292,13 @@ export class CompanyProfile {
     this.foundedDate = null;
     this.originalName = null;
     this.headquarters = null;
+    this.headquartersAddress = null;
     this.phones = [];
+    this.normalizedPhones = [];
     this.emails = [];
+    this.contactEmails = [];
     this.ruc = null;
+    this.rucCandidates = [];
     this.industry = null;
     this.logoUrl = null;
     this.mission = null;
@@ -96,12 +308,49 @@ export class CompanyProfile {
     this.employeeCount = null;
     this.coverage = null;
     this.socialLinks = {};
+    this.jobs = { careersUrl: null, atsLinks: [], openings: [] };
+    this.benefits = [];
+    this.certifications = [];
+    this.cultureStatements = [];
+    this.leadership = [];
     this.pagesScraped = [];
+    this.pagesSkipped = [];
     this.extras = {};
+    this.provenance = {};
     this.scrapedAt = new Date();
     this.durationMs = 0;
   }
 
+  /** Reconstruye un perfil desde su forma JSON (p. ej. leído del caché) */
+  static fromSnapshot(data: JsonObject): CompanyProfile {
+    return Object.assign(new CompanyProfile(String(data.sourceUrl)), data, {
+      provenance: data.provenance ?? {},
+      pagesSkipped: data.pagesSkipped ?? [],
+      headquartersAddress: data.headquartersAddress ?? null,
+      normalizedPhones: data.normalizedPhones ?? [],
+      contactEmails: data.contactEmails ?? [],
+      rucCandidates: data.rucCandidates ?? [],
+      jobs: data.jobs ?? { careersUrl: null, atsLinks: [], openings: [] },
+      benefits: data.benefits ?? [],
+      certifications: data.certifications ?? [],
+      cultureStatements: data.cultureStatements ?? [],
+      leadership: data.leadership ?? [],
+      scrapedAt: new Date(String(data.scrapedAt)),
+    });
+  }
+
+  /**
+   * Registra la procedencia de un valor.
+   * Listas (phones, emails, values, benefits..., socialLinks, jobs): agrega una entrada por ítem.
+   * Campos simples: reemplaza la entrada anterior (el valor se sobrescribió).
+   */
+  track(field: ProfileField, entry: FieldProvenance): void {
+    const isList = Array.isArray(this[field]) || field === 'socialLinks' || field === 'jobs';
+    const snippet = entry.snippet.length > 200 ? `${entry.snippet.slice(0, 197)}...` : entry.snippet;
+    const record = { ...entry, snippet };
+    this.provenance[field] = isList ? [...(this.provenance[field] ?? []), record] : [record];
+  }
+
   /** Cuántos campos se lograron extraer */
   get fieldsExtracted(): number {
     let count = 0;
@@ -121,6 +370,11 @@ export class CompanyProfile {
     if (this.shareholders.length > 0) count++;
     if (this.employeeCount) count++;
     if (this.coverage) count++;
+    if (this.jobs.openings.length > 0) count++;
+    if (this.benefits.length > 0) count++;
+    if (this.certifications.length > 0) count++;
+    if (this.cultureStatements.length > 0) count++;
+    if (this.leadership.length > 0) count++;
     return count;
   }
 
@@ -137,6 +391,10 @@ export class CompanyProfile {
     if (this.history) fields.push('history');
     if (this.mission) fields.push('mission');
     if (this.vision) fields.push('vision');
+    if (this.jobs.openings.length) fields.push(`jobs=${this.jobs.openings.length}`);
+    if (this.benefits.length) fields.push(`benefits=${this.benefits.length}`);
+    if (this.leadership.length) fields.push(`leadership=${this.leadership.length}`);
+    if (this.certifications.length) fields.push(`certs=${this.certifications.map((c) => c.name).join('/')}`);
     return `[${this.fieldsExtracted} fields] ${fields.join(', ')}`;
   }
 }
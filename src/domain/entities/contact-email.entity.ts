@@ -0,0 +1,17 @@
+/** Rol del buzón según su parte local */
+export type EmailRole = 'generic' | 'hr' | 'personal';
+
+/**
+ * Email de contacto validado.
+ *
+ * "rrhh@acme.com.pe" en acme.com.pe →
+ *   { address: 'rrhh@acme.com.pe', role: 'hr', companyDomain: true }
+ */
+export interface ContactEmail {
+  /** Dirección limpia, en minúsculas */
+  address: string;
+  /** generic: info@, ventas@ · hr: rrhh@, seleccion@ · personal: jperez@ */
+  role: EmailRole;
+  /** Es del dominio de la web oficial (o de un subdominio) */
+  companyDomain: boolean;
+}
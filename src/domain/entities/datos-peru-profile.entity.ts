@@ -1,3 +1,7 @@
+import { PeruAddress, Ubigeo } from './peru-address.entity';
+import { PhoneNumber } from './phone-number.entity';
+import { JsonObject, jsonObjects } from '../../shared/utils/json-object';
+
 /**
  * Perfil enriquecido desde datosperu.org.
  * Contiene información pública estructurada de SUNAT + fuentes adicionales.
@@ -12,6 +16,7 @@ export interface DatosPeruExecutive {
 export interface DatosPeruBranch {
   direccion: string;
   ubicacion: string | null; // "ANCASH - SANTA - CHIMBOTE"
+  direccionNormalizada: PeruAddress | null;
 }
 
 export interface DatosPeruWorkerHistory {
@@ -53,9 +58,15 @@ export class DatosPeruProfile {
   provincia: string | null;
   distrito: string | null;
   pais: string | null;
+  /** Ubigeo INEI de departamento / provincia / distrito */
+  ubigeo: Ubigeo | null;
+  /** Dirección descompuesta (vía, número, urbanización) + ubigeo */
+  direccionNormalizada: PeruAddress | null;
 
   // ── Contacto ──
   telefonos: string[];
+  /** Teléfonos en E.164, con tipo de línea, región y anexo */
+  telefonosNormalizados: PhoneNumber[];
   web: string | null;
   proveedorEstado: boolean;
 
@@ -99,7 +110,10 @@ export class DatosPeruProfile {
     this.provincia = null;
     this.distrito = null;
     this.pais = null;
+    this.ubigeo = null;
+    this.direccionNormalizada = null;
     this.telefonos = [];
+    this.telefonosNormalizados = [];
     this.web = null;
     this.proveedorEstado = false;
     this.descripcion = null;
@@ -114,6 +128,20 @@ export class DatosPeruProfile {
     this.durationMs = 0;
   }
 
+  /** Reconstruye un perfil desde su forma JSON (p. ej. leído del caché) */
+  static fromSnapshot(data: JsonObject): DatosPeruProfile {
+    return Object.assign(new DatosPeruProfile(String(data.ruc), String(data.sourceUrl)), data, {
+      ubigeo: data.ubigeo ?? null,
+      direccionNormalizada: data.direccionNormalizada ?? null,
+      telefonosNormalizados: data.telefonosNormalizados ?? [],
+      establecimientosAnexos: jsonObjects(data.establecimientosAnexos).map((b) => ({
+        ...b,
+        direccionNormalizada: b.direccionNormalizada ?? null,
+      })),
+      scrapedAt: new Date(String(data.scrapedAt)),
+    });
+  }
+
   /** Cuántos campos se lograron extraer */
   get fieldsExtracted(): number {
     let count = 0;
@@ -0,0 +1,49 @@
+/**
+ * Ubicación según el ubigeo del INEI.
+ * El código tiene el largo del nivel más profundo que se pudo resolver:
+ * '150131' (distrito), '1501' (provincia) o '15' (departamento).
+ * Para agrupar por región basta con code.slice(0, 2).
+ */
+export interface Ubigeo {
+  code: string;
+  department: string;
+  province: string | null;
+  district: string | null;
+}
+
+/** Tipos de vía normalizados */
+export type StreetType =
+  | 'Av.'
+  | 'Jr.'
+  | 'Calle'
+  | 'Pje.'
+  | 'Prol.'
+  | 'Alameda'
+  | 'Malecón'
+  | 'Óvalo'
+  | 'Plaza'
+  | 'Carretera'
+  | 'Camino';
+
+/**
+ * Dirección peruana descompuesta.
+ *
+ * "AV. CARLOS VILLARAN NRO. 140 URB. SANTA CATALINA" →
+ *   { streetType: 'Av.', streetName: 'Carlos Villaran', number: '140', urbanization: 'Santa Catalina', ... }
+ */
+export interface PeruAddress {
+  /** Texto original */
+  raw: string;
+  streetType: StreetType | null;
+  streetName: string | null;
+  /** "140", "1066-A", "S/N", "Km 21.5" */
+  number: string | null;
+  /** Interior / oficina / piso / tienda: "Int. 501", "Piso 9 Of. 902" */
+  interior: string | null;
+  /** Manzana y lote (asentamientos, lotizaciones) */
+  block: string | null;
+  lot: string | null;
+  /** Urbanización, A.H., asociación, residencial... (sin el prefijo) */
+  urbanization: string | null;
+  ubigeo: Ubigeo | null;
+}
@@ -0,0 +1,24 @@
+/** Tipo de línea según el plan de numeración peruano */
+export type PhoneLineType = 'mobile' | 'landline' | 'tollfree' | 'foreign';
+
+/**
+ * Teléfono normalizado a E.164.
+ *
+ * "(01) 219-2000 anexo 123" →
+ *   { e164: '+5112192000', lineType: 'landline', areaCode: '1', region: 'Lima', extension: '123', ... }
+ */
+export interface PhoneNumber {
+  /** Texto original */
+  raw: string;
+  /** "+5112192000", "+51987654321" */
+  e164: string;
+  lineType: PhoneLineType;
+  /** Código de área de fijos: '1' (Lima y Callao), '54' (Arequipa)... */
+  areaCode: string | null;
+  /** Departamento del código de área */
+  region: string | null;
+  /** Código de departamento en el ubigeo INEI ('15', '04') */
+  regionCode: string | null;
+  /** Anexo: "anexo 123", "ext. 45" */
+  extension: string | null;
+}
@@ -0,0 +1,126 @@
+/** De dónde salió un proxy del pool */
+export type ProxySource = 'seed' | 'refresh' | 'manual';
+
+/** Peso relativo de la latencia: un proxy de LATENCY_REF_MS pesa la mitad que uno instantáneo */
+const LATENCY_REF_MS = 5000;
+/** Suavizado de la latencia media (media móvil exponencial) */
+const LATENCY_ALPHA = 0.3;
+
+/**
+ * Salud de un proxy del pool: tasa de éxito, latencia y cuarentena.
+ * Entidad de dominio — no depende de frameworks.
+ */
+export class ProxyHealth {
+  successes = 0;
+  failures = 0;
+  /** Fallos seguidos desde el último éxito (define la cuarentena) */
+  consecutiveFailures = 0;
+  /** Latencia media de las descargas exitosas (ms), null si nunca funcionó */
+  avgLatencyMs: number | null = null;
+  lastSuccessAt: Date | null = null;
+  lastFailureAt: Date | null = null;
+  lastError: string | null = null;
+  /** Fuera de la rotación hasta este momento */
+  quarantinedUntil: Date | null = null;
+  addedAt = new Date();
+
+  constructor(
+    /** socks5h://host:port */
+    readonly url: string,
+    readonly source: ProxySource,
+  ) {}
+
+  /** Tasa de éxito con suavizado de Laplace: un proxy nuevo arranca en 0.5 */
+  get successRate(): number {
+    return (this.successes + 1) / (this.successes + this.failures + 2);
+  }
+
+  isQuarantined(now = Date.now()): boolean {
+    return !!this.quarantinedUntil && this.quarantinedUntil.getTime() > now;
+  }
+
+  /** Peso para el sorteo del próximo proxy: tasa de éxito castigada por la latencia */
+  get weight(): number {
+    const latency = this.avgLatencyMs ?? LATENCY_REF_MS;
+    return this.successRate / (1 + latency / LATENCY_REF_MS);
+  }
+
+  recordSuccess(latencyMs: number, now = new Date()): void {
+    this.successes++;
+    this.consecutiveFailures = 0;
+    this.quarantinedUntil = null;
+    this.lastSuccessAt = now;
+    this.avgLatencyMs =
+      this.avgLatencyMs === null
+        ? latencyMs
+        : Math.round(LATENCY_ALPHA * latencyMs + (1 - LATENCY_ALPHA) * this.avgLatencyMs);
+  }
+
+  /**
+   * Registra un fallo. A partir de `policy.threshold` fallos seguidos el proxy
+   * entra en cuarentena: base, 2·base, 4·base... hasta `policy.maxMs`.
+   * Retorna true si quedó en cuarentena.
+   */
+  recordFailure(
+    error: string,
+    policy: { threshold: number; baseMs: number; maxMs: number },
+    now = new Date(),
+  ): boolean {
+    this.failures++;
+    this.consecutiveFailures++;
+    this.lastFailureAt = now;
+    this.lastError = error;
+
+    const over = this.consecutiveFailures - policy.threshold;
+    if (over < 0) return false;
+    const ms = Math.min(policy.maxMs, policy.baseMs * 2 ** over);
+    this.quarantinedUntil = new Date(now.getTime() + ms);
+    return true;
+  }
+
+  /** Forma plana para persistir en disco */
+  toSnapshot(): ProxyHealthSnapshot {
+    return {
+      url: this.url,
+      source: this.source,
+      successes: this.successes,
+      failures: this.failures,
+      consecutiveFailures: this.consecutiveFailures,
+      avgLatencyMs: this.avgLatencyMs,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() ?? null,
+      lastFailureAt: this.lastFailureAt?.toISOString() ?? null,
+      lastError: this.lastError,
+      quarantinedUntil: this.quarantinedUntil?.toISOString() ?? null,
+      addedAt: this.addedAt.toISOString(),
+    };
+  }
+
+  /** Reconstruye un proxy desde su forma persistida */
+  static fromSnapshot(snapshot: ProxyHealthSnapshot): ProxyHealth {
+    const proxy = new ProxyHealth(snapshot.url, snapshot.source);
+    proxy.successes = snapshot.successes;
+    proxy.failures = snapshot.failures;
+    proxy.consecutiveFailures = snapshot.consecutiveFailures;
+    proxy.avgLatencyMs = snapshot.avgLatencyMs;
+    proxy.lastSuccessAt = snapshot.lastSuccessAt ? new Date(snapshot.lastSuccessAt) : null;
+    proxy.lastFailureAt = snapshot.lastFailureAt ? new Date(snapshot.lastFailureAt) : null;
+    proxy.lastError = snapshot.lastError;
+    proxy.quarantinedUntil = snapshot.quarantinedUntil ? new Date(snapshot.quarantinedUntil) : null;
+    proxy.addedAt = new Date(snapshot.addedAt);
+    return proxy;
+  }
+}
+
+export interface ProxyHealthSnapshot {
+  url: string;
+  source: ProxySource;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  quarantinedUntil: string | null;
+  addedAt: string;
+}
@@ -0,0 +1,56 @@
+import { FailureCode } from '../enums/failure-code.enum';
+
+/**
+ * Por qué una operación no devolvió datos.
+ * `retryable` separa "reintentar más tarde" (bloqueo, red) de "no existe".
+ */
+export interface Failure {
+  code: FailureCode;
+  message: string;
+  retryable: boolean;
+}
+
+/**
+ * Resultado de una búsqueda o enriquecimiento: el valor, o el motivo del fallo.
+ * Reemplaza al `null` que no distinguía "no existe" de "bloqueado".
+ */
+export type Result<T> = { ok: true; value: T } | { ok: false; error: Failure };
+
+/** Códigos que pueden cambiar al reintentar */
+const RETRYABLE = new Set<FailureCode>([
+  FailureCode.BLOCKED,
+  FailureCode.UNAVAILABLE,
+  FailureCode.UPSTREAM_ERROR,
+]);
+
+export function ok<T>(value: T): Result<T> {
+  return { ok: true, value };
+}
+
+export function fail(code: FailureCode, message: string): { ok: false; error: Failure } {
+  return { ok: false, error: failure(code, message) };
+}
+
+export function failure(code: FailureCode, message: string): Failure {
+  return { code, message, retryable: RETRYABLE.has(code) };
+}
+
+/**
+ * Error con código: los adaptadores lo lanzan desde helpers internos
+ * y el catch de la operación lo convierte en Result con failureFromError().
+ */
+export class FailureError extends Error {
+  constructor(
+    readonly code: FailureCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'FailureError';
+  }
+}
+
+/** Failure a partir de una excepción: FailureError conserva su código; el resto es upstream_error */
+export function failureFromError(err: unknown): Failure {
+  const message = err instanceof Error ? err.message : String(err);
+  return failure(err instanceof FailureError ? err.code : FailureCode.UPSTREAM_ERROR, message);
+}
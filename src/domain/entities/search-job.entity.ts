@@ -0,0 +1,176 @@
+import { SearchStrategy } from '../enums/search-strategy.enum';
+import { JobStatus, JobItemStatus } from '../enums/job-status.enum';
+
+/**
+ * Una empresa dentro de un job de búsqueda, con su resultado parcial.
+ */
+export interface SearchJobItem {
+  ruc?: string;
+  company: string;
+  status: JobItemStatus;
+  found: boolean;
+  website: string | null;
+  score: number;
+  title: string | null;
+  strategyUsed: SearchStrategy | null;
+  error: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Job de búsqueda por lote que corre en segundo plano.
+ * Se persiste después de cada empresa para poder reanudarlo tras un reinicio.
+ * Entidad de dominio — no depende de frameworks.
+ */
+export class SearchJob {
+  id: string;
+  status: JobStatus;
+
+  /** Estrategia forzada para todo el lote (opcional) */
+  strategy: SearchStrategy | null;
+
+  /** Delay fijo entre búsquedas en ms (null = automático según estrategia) */
+  delayMs: number | null;
+
+  items: SearchJobItem[];
+
+  /** Error del worker si status = failed */
+  error: string | null;
+
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  updatedAt: Date;
+
+  constructor(params: {
+    id: string;
+    companies: Array<{ ruc?: string; name: string }>;
+    strategy?: SearchStrategy;
+    delayMs?: number;
+  }) {
+    this.id = params.id;
+    this.status = JobStatus.QUEUED;
+    this.strategy = params.strategy ?? null;
+    this.delayMs = params.delayMs ?? null;
+    this.items = params.companies.map((c) => ({
+      ruc: c.ruc,
+      company: c.name,
+      status: JobItemStatus.PENDING,
+      found: false,
+      website: null,
+      score: 0,
+      title: null,
+      strategyUsed: null,
+      error: null,
+      finishedAt: null,
+    }));
+    this.error = null;
+    this.createdAt = new Date();
+    this.startedAt = null;
+    this.finishedAt = null;
+    this.updatedAt = new Date();
+  }
+
+  get total(): number {
+    return this.items.length;
+  }
+
+  /** Empresas ya procesadas (con o sin éxito) */
+  get processed(): number {
+    return this.items.filter(
+      (i) => i.status === JobItemStatus.DONE || i.status === JobItemStatus.FAILED,
+    ).length;
+  }
+
+  get foundCount(): number {
+    return this.items.filter((i) => i.found).length;
+  }
+
+  get failedCount(): number {
+    return this.items.filter((i) => i.status === JobItemStatus.FAILED).length;
+  }
+
+  get pendingCount(): number {
+    return this.items.filter((i) => i.status === JobItemStatus.PENDING).length;
+  }
+
+  /** Progreso 0..1 */
+  get progress(): number {
+    return this.total > 0 ? this.processed / this.total : 1;
+  }
+
+  /** Un job terminado ya no vuelve a la cola */
+  get isFinished(): boolean {
+    return (
+      this.status === JobStatus.COMPLETED ||
+      this.status === JobStatus.CANCELLED ||
+      this.status === JobStatus.FAILED
+    );
+  }
+
+  /** Siguiente empresa pendiente (null si ya no quedan) */
+  nextPendingIndex(): number | null {
+    const idx = this.items.findIndex((i) => i.status === JobItemStatus.PENDING);
+    return idx >= 0 ? idx : null;
+  }
+
+  cancel(): void {
+    if (this.isFinished) return;
+    this.status = JobStatus.CANCELLED;
+    for (const item of this.items) {
+      if (item.status === JobItemStatus.PENDING) {
+        item.status = JobItemStatus.CANCELLED;
+      }
+    }
+    this.finishedAt = new Date();
+    this.touch();
+  }
+
+  touch(): void {
+    this.updatedAt = new Date();
+  }
+
+  /** Forma plana para persistir en disco */
+  toSnapshot(): SearchJobSnapshot {
+    return {
+      id: this.id,
+      status: this.status,
+      strategy: this.strategy,
+      delayMs: this.delayMs,
+      items: this.items,
+      error: this.error,
+      createdAt: this.createdAt.toISOString(),
+      startedAt: this.startedAt?.toISOString() ?? null,
+      finishedAt: this.finishedAt?.toISOString() ?? null,
+      updatedAt: this.updatedAt.toISOString(),
+    };
+  }
+
+  /** Reconstruye un job desde su forma persistida */
+  static fromSnapshot(snapshot: SearchJobSnapshot): SearchJob {
+    const job = new SearchJob({ id: snapshot.id, companies: [] });
+    job.status = snapshot.status;
+    job.strategy = snapshot.strategy;
+    job.delayMs = snapshot.delayMs;
+    job.items = snapshot.items;
+    job.error = snapshot.error;
+    job.createdAt = new Date(snapshot.createdAt);
+    job.startedAt = snapshot.startedAt ? new Date(snapshot.startedAt) : null;
+    job.finishedAt = snapshot.finishedAt ? new Date(snapshot.finishedAt) : null;
+    job.updatedAt = new Date(snapshot.updatedAt);
+    return job;
+  }
+}
+
+export interface SearchJobSnapshot {
+  id: string;
+  status: JobStatus;
+  strategy: SearchStrategy | null;
+  delayMs: number | null;
+  items: SearchJobItem[];
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
@@ -1,4 +1,17 @@
 import { SearchStrategy } from '../enums/search-strategy.enum';
+import { JsonObject, jsonObjects } from '../../shared/utils/json-object';
+
+/**
+ * Indicio de que una web es de la empresa buscada (verificación por RUC).
+ * "RUC 20100053455" en el pie → { type: 'ruc', location: 'footer', snippet: '... RUC 20100053455' }
+ */
+export interface WebsiteEvidence {
+  /** ruc: el RUC pedido · legal-name: la razón social · domain: emails del propio dominio */
+  type: 'ruc' | 'legal-name' | 'domain';
+  /** footer: pie de página / texto legal · page: resto de la página */
+  location: 'footer' | 'page';
+  snippet: string;
+}
 
 /**
  * Un resultado individual de búsqueda.
@@ -7,6 +20,9 @@ export class SearchResultItem {
   url: string;
   title: string;
   score: number;
+  /** null = no se verificó (sin RUC o fuera del top N) */
+  verified: boolean | null = null;
+  evidence: WebsiteEvidence[] = [];
 
   constructor(url: string, title: string, score: number) {
     this.url = url;
@@ -41,6 +57,12 @@ export class SearchResult {
   /** Top resultados alternativos */
   allResults: SearchResultItem[];
 
+  /** Verificación por RUC de la web elegida (null = no se pidió) */
+  verified: boolean | null;
+
+  /** Indicios encontrados en la web elegida */
+  evidence: WebsiteEvidence[];
+
   /** Timestamp de la búsqueda */
   timestamp: Date;
 
@@ -60,6 +82,8 @@ export class SearchResult {
     this.title = params.title;
     this.strategy = params.strategy;
     this.allResults = params.allResults;
+    this.verified = null;
+    this.evidence = [];
     this.timestamp = new Date();
   }
 
@@ -70,4 +94,19 @@ export class SearchResult {
   get found(): boolean {
     return this.website !== null && this.score >= 8;
   }
+
+  /** Reconstruye un resultado desde su forma JSON (p. ej. leído del caché) */
+  static fromSnapshot(data: JsonObject): SearchResult {
+    return Object.assign(Object.create(SearchResult.prototype) as SearchResult, data, {
+      allResults: jsonObjects(data.allResults).map((r) =>
+        Object.assign(new SearchResultItem(String(r.url), String(r.title ?? ''), Number(r.score)), {
+          verified: r.verified ?? null,
+          evidence: r.evidence ?? [],
+        }),
+      ),
+      verified: data.verified ?? null,
+      evidence: data.evidence ?? [],
+      timestamp: new Date(String(data.timestamp)),
+    });
+  }
 }
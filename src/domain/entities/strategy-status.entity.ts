@@ -15,14 +15,15 @@ export class StrategyStatus {
   cooldownUntil: Date | null;
   avgResponseTimeMs: number;
 
+  /** Sin maxPerSession no hay límite hasta que el registro aplique el del motor */
   constructor(params: {
     strategy: SearchStrategy;
-    maxPerSession: number;
+    maxPerSession?: number;
   }) {
     this.strategy = params.strategy;
     this.available = true;
     this.usageCount = 0;
-    this.maxPerSession = params.maxPerSession;
+    this.maxPerSession = params.maxPerSession ?? Infinity;
     this.successCount = 0;
     this.failCount = 0;
     this.consecutiveErrors = 0;
@@ -0,0 +1,23 @@
+/**
+ * Motivo por el que una búsqueda o un enriquecimiento no devolvió datos.
+ * Los controladores lo traducen a un status HTTP.
+ */
+export enum FailureCode {
+  /** Entrada inválida (RUC con dígito verificador incorrecto, estrategia desconocida) → 400 */
+  INVALID_INPUT = 'invalid_input',
+
+  /** La fuente respondió bien pero no tiene la empresa → 404 */
+  NOT_FOUND = 'not_found',
+
+  /** Anti-bot: Cloudflare, captcha, 403/429 → 503, reintentar más tarde */
+  BLOCKED = 'blocked',
+
+  /** Motor agotado, en cooldown, sin cuota o sin configurar → 503 */
+  UNAVAILABLE = 'unavailable',
+
+  /** Red, timeout, proxies caídos o 5xx de la fuente → 502 */
+  UPSTREAM_ERROR = 'upstream_error',
+
+  /** La página llegó pero no se pudo interpretar → 502 */
+  PARSE_ERROR = 'parse_error',
+}
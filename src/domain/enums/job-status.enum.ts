@@ -0,0 +1,29 @@
+/**
+ * Estado de un job asíncrono (lote de búsquedas en segundo plano).
+ */
+export enum JobStatus {
+  /** En cola, esperando a que el worker lo tome */
+  QUEUED = 'queued',
+
+  /** El worker lo está procesando */
+  RUNNING = 'running',
+
+  /** Todas las empresas fueron procesadas */
+  COMPLETED = 'completed',
+
+  /** Cancelado por el usuario (DELETE /jobs/:id) */
+  CANCELLED = 'cancelled',
+
+  /** Error inesperado del worker (no de una búsqueda individual) */
+  FAILED = 'failed',
+}
+
+/**
+ * Estado de cada empresa dentro de un job.
+ */
+export enum JobItemStatus {
+  PENDING = 'pending',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
@@ -1,6 +1,7 @@
 /**
  * Estrategias de búsqueda disponibles.
- * Todas son HTTP puro — sin navegador, rápidas y livianas.
+ * Todas son HTTP puro — sin navegador, rápidas y livianas (scraping HTML o APIs JSON).
+ * La fase y el orden de cada una los declara su adaptador con @SearchEngine().
  */
 export enum SearchStrategy {
   /** HTTP puro a html.duckduckgo.com/html/ — sin navegador, ~1-2s */
@@ -9,17 +10,12 @@ export enum SearchStrategy {
   /** HTTP puro a www.bing.com/search — sin navegador, ~2-4s */
   BING_HTTP = 'bing_http',
 
+  /** API JSON de una instancia SearXNG self-hosted (metabuscador) */
+  SEARXNG_API = 'searxng_api',
+
+  /** Google Programmable Search (Custom Search JSON API) — requiere API key, cuota diaria */
+  GOOGLE_CSE_API = 'google_cse_api',
+
   /** Fallback: búsqueda directa en universidadperu.com (POST al buscador interno) */
   UNIV_PERU_HTTP = 'univ_peru_http',
 }
-
-/** Orden de prioridad: búsqueda de web propia de la empresa */
-export const STRATEGY_PRIORITY: SearchStrategy[] = [
-  SearchStrategy.DDG_HTTP,
-  SearchStrategy.BING_HTTP,
-];
-
-/** Fallback: directorios de empresas peruanas (cuando no se encuentra web propia) */
-export const DIRECTORY_STRATEGY_PRIORITY: SearchStrategy[] = [
-  SearchStrategy.UNIV_PERU_HTTP,
-];
@@ -1,9 +1,26 @@
-export { SearchStrategy, STRATEGY_PRIORITY, DIRECTORY_STRATEGY_PRIORITY } from './enums/search-strategy.enum';
+export { SearchStrategy } from './enums/search-strategy.enum';
 export { SearchResult, SearchResultItem } from './entities/search-result.entity';
 export { StrategyStatus } from './entities/strategy-status.entity';
 export { CompanyProfile } from './entities/company-profile.entity';
+export type { FieldProvenance, ProfileField } from './entities/company-profile.entity';
 export { DatosPeruProfile } from './entities/datos-peru-profile.entity';
+export { CompanyDossier } from './entities/company-dossier.entity';
+export type { DossierField, DossierSource } from './entities/company-dossier.entity';
+export { SearchJob, SearchJobItem } from './entities/search-job.entity';
+export { ProxyHealth } from './entities/proxy-health.entity';
+export type { ProxyHealthSnapshot, ProxySource } from './entities/proxy-health.entity';
+export { JobStatus, JobItemStatus } from './enums/job-status.enum';
+export { FailureCode } from './enums/failure-code.enum';
+export { FailureError, ok, fail, failure, failureFromError } from './entities/result.entity';
+export type { Failure, Result } from './entities/result.entity';
 export { SearchEnginePort, SEARCH_ENGINE_PORT } from './ports/search-engine.port';
+export type { SearchEngineDescriptor, SearchEnginePhase } from './ports/search-engine.port';
 export { WebsiteScraperPort, WEBSITE_SCRAPER_PORT } from './ports/website-scraper.port';
 export type { ScrapeOptions } from './ports/website-scraper.port';
 export { DatosPeruEnrichmentPort, DATOS_PERU_ENRICHMENT_PORT } from './ports/datos-peru-enrichment.port';
+export { JobStorePort, JOB_STORE_PORT } from './ports/job-store.port';
+export { ProxyPoolStorePort, PROXY_POOL_STORE_PORT } from './ports/proxy-pool-store.port';
+export { ResultCachePort, RESULT_CACHE_PORT } from './ports/result-cache.port';
+export type { CacheEntry } from './ports/result-cache.port';
+export { CompanyRawStorePort, COMPANY_RAW_STORE_PORT } from './ports/company-raw-store.port';
+export type { CompanyRawRecord, CompanyRawSource } from './ports/company-raw-store.port';
@@ -0,0 +1,44 @@
+/**
+ * Token de inyección para la tabla de staging companies_raw.
+ */
+export const COMPANY_RAW_STORE_PORT = 'COMPANY_RAW_STORE_PORT';
+
+/**
+ * Clave bajo la que se guarda cada fuente dentro de `data` (JSONB).
+ *   search    → resultado de /search (web oficial encontrada)
+ *   website   → perfil extraído de la web (/scrape)
+ *   datosperu → perfil de datosperu.org (/enrich/datosperu)
+ */
+export type CompanyRawSource = 'search' | 'website' | 'datosperu';
+
+/**
+ * Fila de companies_raw (ver scripts/init-empliq-dev.sql).
+ */
+export interface CompanyRawRecord {
+  ruc: string;
+  razonSocial: string | null;
+  data: Record<string, unknown>;
+  source: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Puerto (interfaz) para escribir resultados en companies_raw.
+ * Cada fuente se guarda bajo su propia clave en `data`, sin pisar las demás.
+ */
+export interface CompanyRawStorePort {
+  /**
+   * Inserta o actualiza la fila del RUC y reemplaza `data[key]`.
+   * `razonSocial` (solo la pasa DatosPeru) reemplaza la guardada; sin ella se conserva.
+   */
+  upsert(
+    ruc: string,
+    key: CompanyRawSource,
+    value: Record<string, unknown>,
+    razonSocial?: string | null,
+  ): Promise<void>;
+
+  /** Busca la fila de un RUC (null si no existe) */
+  findByRuc(ruc: string): Promise<CompanyRawRecord | null>;
+}
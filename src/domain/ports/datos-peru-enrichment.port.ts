@@ -1,4 +1,5 @@
 import { DatosPeruProfile } from '../entities/datos-peru-profile.entity';
+import { Result } from '../entities/result.entity';
 
 /**
  * Puerto para enriquecimiento de datos desde datosperu.org.
@@ -8,8 +9,15 @@ export interface DatosPeruEnrichmentPort {
   /**
    * Enriquece datos de una empresa por su RUC.
    * Flujo: buscar por RUC → obtener URL de empresa → parsear HTML.
+   *
+   * Fallos: invalid_input (RUC inválido), not_found (el buscador no lo tiene),
+   * blocked (Cloudflare), upstream_error (proxies caídos, timeouts),
+   * parse_error (la ficha no tiene datos reconocibles).
    */
-  enrich(ruc: string): Promise<DatosPeruProfile | null>;
+  enrich(ruc: string): Promise<Result<DatosPeruProfile>>;
+
+  /** Consultas simultáneas que aguanta el pool de proxies (una por proxy) */
+  maxConcurrency(): number;
 }
 
 export const DATOS_PERU_ENRICHMENT_PORT = Symbol('DATOS_PERU_ENRICHMENT_PORT');
@@ -0,0 +1,69 @@
+/**
+ * Token de inyección para el cliente HTTP compartido.
+ */
+export const HTTP_CLIENT_PORT = 'HTTP_CLIENT_PORT';
+
+/**
+ * Request HTTP. Todo es opcional salvo la URL: los defaults
+ * (timeout, reintentos, headers de navegador, user-agent rotativo) los pone el cliente.
+ */
+export interface HttpRequest {
+  url: string;
+  method?: 'GET' | 'POST' | 'HEAD';
+  /** Se mezclan sobre los headers por defecto (gana el del request) */
+  headers?: Record<string, string>;
+  /** Body de un POST (form-urlencoded, JSON, ...) ya serializado */
+  body?: string;
+  /** Timeout por intento en ms. Default: scraper.http.timeoutMs */
+  timeoutMs?: number;
+  /** Reintentos ante error de red / timeout / 429 / 5xx. Default: scraper.http.retries */
+  retries?: number;
+  /** Redirecciones a seguir. 0 = devolver el 3xx tal cual. Default: 5 */
+  maxRedirects?: number;
+  /** Proxy para este request, p. ej. socks5h://1.2.3.4:1080 */
+  proxy?: string;
+  /** Forzar charset al decodificar (ignora Content-Type y <meta charset>) */
+  charset?: string;
+  /** Aceptar certificados inválidos (webs corporativas con TLS roto) */
+  insecureTls?: boolean;
+  /** Cipher suites de Chrome en el handshake (sitios detrás de Cloudflare que miran JA3) */
+  browserTls?: boolean;
+}
+
+export interface HttpResponse {
+  status: number;
+  /** URL final, después de seguir redirecciones */
+  url: string;
+  /** Headers en minúsculas */
+  headers: Record<string, string>;
+  /** Body descomprimido y decodificado a texto */
+  body: string;
+}
+
+/**
+ * Fallo de transporte: la request no obtuvo ninguna respuesta HTTP.
+ * Un 4xx/5xx NO es un error: se devuelve como HttpResponse con su status.
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly reason: 'timeout' | 'network' | 'redirects' | 'too_large' | 'fixture',
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * Puerto (interfaz) del cliente HTTP que usan todos los adaptadores.
+ * Centraliza redirects, descompresión, charset, concurrencia por host,
+ * reintentos, proxies y rotación de user-agent; en tests se reemplaza por un fake.
+ */
+export interface HttpClientPort {
+  /**
+   * Ejecuta la request. Resuelve con cualquier status HTTP;
+   * rechaza con HttpRequestError si no hubo respuesta tras los reintentos.
+   */
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
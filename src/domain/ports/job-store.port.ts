@@ -0,0 +1,21 @@
+import { SearchJob } from '../entities/search-job.entity';
+
+/**
+ * Token de inyección para el almacenamiento de jobs.
+ */
+export const JOB_STORE_PORT = 'JOB_STORE_PORT';
+
+/**
+ * Puerto (interfaz) para persistir jobs de búsqueda.
+ * Permite reanudar jobs pendientes después de un reinicio.
+ */
+export interface JobStorePort {
+  /** Guarda (crea o reemplaza) un job */
+  save(job: SearchJob): Promise<void>;
+
+  /** Busca un job por id (null si no existe) */
+  findById(id: string): Promise<SearchJob | null>;
+
+  /** Todos los jobs guardados */
+  findAll(): Promise<SearchJob[]>;
+}
@@ -0,0 +1,18 @@
+import { ProxyHealthSnapshot } from '../entities/proxy-health.entity';
+
+/**
+ * Token de inyección para el almacenamiento del pool de proxies.
+ */
+export const PROXY_POOL_STORE_PORT = 'PROXY_POOL_STORE_PORT';
+
+/**
+ * Puerto (interfaz) para persistir el pool de proxies con su salud.
+ * Permite conservar los proxies buenos (y las cuarentenas) tras un reinicio.
+ */
+export interface ProxyPoolStorePort {
+  /** Pool guardado (vacío si nunca se guardó) */
+  load(): Promise<ProxyHealthSnapshot[]>;
+
+  /** Reemplaza el pool guardado */
+  save(proxies: ProxyHealthSnapshot[]): Promise<void>;
+}
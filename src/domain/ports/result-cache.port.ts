@@ -0,0 +1,30 @@
+/**
+ * Token de inyección para el caché de resultados.
+ */
+export const RESULT_CACHE_PORT = 'RESULT_CACHE_PORT';
+
+/**
+ * Entrada guardada en caché. `value` es JSON plano (sin clases ni Dates),
+ * quien lo lee se encarga de reconstruir la entidad.
+ */
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  storedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Puerto (interfaz) para cachear resultados de búsqueda, scraping y enriquecimiento.
+ * Evita repetir requests de red para empresas ya resueltas.
+ */
+export interface ResultCachePort {
+  /** Retorna la entrada vigente o null si no existe / expiró */
+  get(key: string): Promise<CacheEntry | null>;
+
+  /** Guarda un valor con TTL en ms */
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+
+  /** Elimina una entrada */
+  delete(key: string): Promise<void>;
+}
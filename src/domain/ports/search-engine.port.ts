@@ -1,4 +1,5 @@
 import { SearchResult } from '../entities/search-result.entity';
+import { Result } from '../entities/result.entity';
 import { StrategyStatus } from '../entities/strategy-status.entity';
 import { SearchStrategy } from '../enums/search-strategy.enum';
 
@@ -7,6 +8,38 @@ import { SearchStrategy } from '../enums/search-strategy.enum';
  */
 export const SEARCH_ENGINE_PORT = 'SEARCH_ENGINE_PORT';
 
+/**
+ * Fase en la que participa un motor:
+ *   direct    → busca la web propia de la empresa (DDG, Bing...)
+ *   directory → fallback a directorios de empresas peruanas
+ */
+export type SearchEnginePhase = 'direct' | 'directory';
+
+/**
+ * Límites de uso de un motor por sesión (hasta el próximo reset).
+ */
+export interface SearchEngineLimits {
+  /** Búsquedas antes de quedar agotado */
+  maxPerSession: number;
+}
+
+/**
+ * Cómo se registra un motor en el orquestador.
+ */
+export interface SearchEngineDescriptor {
+  phase: SearchEnginePhase;
+  /** Orden dentro de su fase (menor = primero). Se puede cambiar en runtime */
+  priority: number;
+  /** Delay recomendado entre búsquedas (ms) si no hay scraper.delays.<configKey> */
+  delay: { min: number; max: number };
+  /** Límites por sesión si no hay scraper.limits.<configKey> */
+  limits: SearchEngineLimits;
+  /** Clave en scraper.delays / scraper.limits (p. ej. 'ddgHttp') */
+  configKey?: string;
+  /** Claves de config obligatorias: si alguna está vacía el motor no se registra */
+  requires?: string[];
+}
+
 /**
  * Puerto (interfaz) que deben implementar todos los adaptadores de búsqueda.
  * Parte del dominio — no conoce frameworks ni infraestructura.
@@ -19,9 +52,11 @@ export interface SearchEnginePort {
    * Busca la página web oficial de una empresa.
    * @param companyName Nombre de la empresa (puede incluir SAC, SRL, etc.)
    * @param ruc RUC de la empresa (opcional, mejora búsqueda en directorios)
-   * @returns Resultado de búsqueda o null si no encuentra
+   * @returns Resultado de búsqueda (puede ser found=false con candidatos de score bajo),
+   *          o el motivo: not_found (sin resultados), blocked (anti-bot),
+   *          unavailable (sin configurar / cuota), upstream_error (red)
    */
-  search(companyName: string, ruc?: string): Promise<SearchResult | null>;
+  search(companyName: string, ruc?: string): Promise<Result<SearchResult>>;
 
   /** Estado actual de la estrategia (rate limits, cooldown, etc.) */
   getStatus(): StrategyStatus;
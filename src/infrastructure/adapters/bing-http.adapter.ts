@@ -1,10 +1,12 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as https from 'https';
 import { SearchEnginePort } from '../../domain/ports/search-engine.port';
+import { EgressService } from '../../application/services/egress.service';
+import { SearchEngine } from '../../application/services/search-engine-registry.service';
 import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
 import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
 import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { Result, fail, failureFromError, ok } from '../../domain/entities/result.entity';
 import { cleanCompanyName, generateSearchVariants } from '../../shared/utils/company-name-cleaner';
 import { rankResults } from '../../shared/utils/url-scorer';
 
@@ -16,21 +18,21 @@ import { rankResults } from '../../shared/utils/url-scorer';
  * Complementa DDG HTTP como segunda estrategia.
  */
 @Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 20,
+  delay: { min: 2000, max: 5000 },
+  limits: { maxPerSession: 150 },
+  configKey: 'bingHttp',
+})
 export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   readonly strategy = SearchStrategy.BING_HTTP;
   private readonly logger = new Logger(BingHttpAdapter.name);
   private status: StrategyStatus;
-  private userAgents: string[];
 
-  constructor(private config: ConfigService) {
-    const maxPerSession = this.config.get<number>('scraper.limits.bingHttp', 150);
-    this.status = new StrategyStatus({
-      strategy: SearchStrategy.BING_HTTP,
-      maxPerSession,
-    });
-    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
-    ]);
+  constructor(private readonly egress: EgressService) {
+    // maxPerSession lo aplica el registro (@SearchEngine limits / scraper.limits.bingHttp)
+    this.status = new StrategyStatus({ strategy: SearchStrategy.BING_HTTP });
   }
 
   async onModuleDestroy(): Promise<void> {
@@ -38,7 +40,7 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async search(companyName: string, _ruc?: string): Promise<SearchResult | null> {
+  async search(companyName: string, _ruc?: string): Promise<Result<SearchResult>> {
     const startTime = Date.now();
     const cleanName = cleanCompanyName(companyName);
     const variants = generateSearchVariants(companyName);
@@ -73,13 +75,17 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
     try {
       let rawResults: Array<{ url: string; title: string }> = [];
+      let blockedQueries = 0;
+      let sentQueries = 0;
 
       for (let i = 0; i < queries.length; i++) {
         const query = queries[i];
         this.logger.log(`[Bing HTTP] Query ${i + 1}/${queries.length}: ${query}`);
 
         if (i > 0) await this.sleep(2000);
-        const html = await this.fetchBingHTML(query);
+        const { html, blocked } = await this.fetchBingHTML(query);
+        sentQueries++;
+        if (blocked) blockedQueries++;
         const parsed = this.parseBingResults(html);
 
         if (parsed.length > 0) {
@@ -110,8 +116,13 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
       if (ranked.length === 0) {
         this.status.recordUse(false, elapsed);
+        // Todas las queries cayeron en la página anti-bot: no es que no exista
+        if (blockedQueries === sentQueries) {
+          this.logger.warn(`[Bing HTTP] Bloqueado (anti-bot) buscando "${companyName}"`);
+          return fail(FailureCode.BLOCKED, `Bing devolvió la página anti-bot en ${sentQueries} queries`);
+        }
         this.logger.warn(`[Bing HTTP] Sin resultados para "${companyName}"`);
-        return null;
+        return fail(FailureCode.NOT_FOUND, `Bing sin resultados para "${companyName}"`);
       }
 
       const best = ranked[0];
@@ -119,7 +130,7 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
       this.logger.log(`[Bing HTTP] ✅ ${best.url} (score: ${best.score}, ${elapsed}ms)`);
 
-      return new SearchResult({
+      return ok(new SearchResult({
         company: companyName,
         cleanName,
         website: best.url,
@@ -129,12 +140,12 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
         allResults: ranked.slice(0, 5).map(
           (r) => new SearchResultItem(r.url, r.title, r.score),
         ),
-      });
+      }));
     } catch (error) {
       const elapsed = Date.now() - startTime;
       this.status.recordUse(false, elapsed);
       this.logger.error(`[Bing HTTP] Error: ${(error as Error).message}`);
-      return null;
+      return { ok: false, error: failureFromError(error) };
     }
   }
 
@@ -158,62 +169,17 @@ export class BingHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   // Internals
   // ──────────────────────────────────────────────────────────
 
-  private fetchBingHTML(query: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const searchUrl = `/search?q=${encodeURIComponent(query)}&setlang=es&cc=PE`;
-      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
-
-      const options: https.RequestOptions = {
-        hostname: 'www.bing.com',
-        path: searchUrl,
-        method: 'GET',
-        headers: {
-          'User-Agent': ua,
-          Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'es-PE,es;q=0.9,en;q=0.5',
-          'Accept-Encoding': 'identity',
-          Connection: 'keep-alive',
-          'Cache-Control': 'no-cache',
-        },
-      };
-
-      const req = https.request(options, (res) => {
-        // Follow redirects (Bing sometimes redirects)
-        if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-          const redirectUrl = new URL(res.headers.location, 'https://www.bing.com');
-          const redirectOptions: https.RequestOptions = {
-            hostname: redirectUrl.hostname,
-            path: redirectUrl.pathname + redirectUrl.search,
-            method: 'GET',
-            headers: options.headers,
-          };
-          const req2 = https.request(redirectOptions, (res2) => {
-            let data = '';
-            res2.on('data', (chunk) => (data += chunk));
-            res2.on('end', () => resolve(data));
-          });
-          req2.on('error', reject);
-          req2.setTimeout(15000, () => {
-            req2.destroy();
-            reject(new Error('Timeout Bing HTTP redirect'));
-          });
-          req2.end();
-          return;
-        }
-
-        let data = '';
-        res.on('data', (chunk) => (data += chunk));
-        res.on('end', () => resolve(data));
-      });
-
-      req.on('error', reject);
-      req.setTimeout(15000, () => {
-        req.destroy();
-        reject(new Error('Timeout Bing HTTP'));
-      });
-
-      req.end();
+  private async fetchBingHTML(query: string): Promise<{ html: string; blocked: boolean }> {
+    // Bing a veces redirige (consent, región): el cliente sigue los redirects
+    const response = await this.egress.request('bingHttp', {
+      url: `https://www.bing.com/search?q=${encodeURIComponent(query)}&setlang=es&cc=PE`,
+      headers: {
+        'Accept-Language': 'es-PE,es;q=0.9,en;q=0.5',
+        'Cache-Control': 'no-cache',
+      },
     });
+    // 403/429: la query no llegó a buscarse
+    return { html: response.body, blocked: response.status === 403 || response.status === 429 };
   }
 
   /**
@@ -1,37 +1,60 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as https from 'https';
-import * as http from 'http';
 import * as cheerio from 'cheerio';
 import {
   WebsiteScraperPort,
   ScrapeOptions,
 } from '../../domain/ports/website-scraper.port';
-import { CompanyProfile } from '../../domain/entities/company-profile.entity';
+import { EgressService } from '../../application/services/egress.service';
+import { CrawlSchedulerService } from '../../application/services/crawl-scheduler.service';
+import {
+  DiscoveredSubpage,
+  SitemapDiscoveryService,
+} from '../../application/services/sitemap-discovery.service';
+import { SUBPAGE_TYPES, SubpageType, classifySubpage } from '../../shared/utils/subpage-classifier';
+import {
+  atsBoardRequest,
+  detectAtsLink,
+  normalizePostedDate,
+  parseAtsBoard,
+} from '../../shared/utils/ats-links';
+import { getRootDomain } from '../../shared/utils/url-scorer';
+import { LEADERSHIP_ROLE, looksLikePersonName } from '../../shared/utils/leadership';
+import { cleanEmail, decodeCfEmail, toContactEmail } from '../../shared/utils/email-address';
+import { parsePeruAddress } from '../../shared/utils/peru-address';
+import { buildCandidate, findRucCandidates, isValidRuc } from '../../shared/utils/ruc';
+import { PHONE_EXTENSION, normalizePhone, phoneKey } from '../../shared/utils/phone-number';
+import { JsonObject, asJsonObject, jsonObjects } from '../../shared/utils/json-object';
+import {
+  BENEFITS_HEADING,
+  classifyBenefit,
+  findCertifications,
+  statementTopic,
+} from '../../shared/utils/workplace-culture';
+import {
+  CompanyProfile,
+  CultureStatement,
+  JobOpening,
+  LeadershipMember,
+  ProfileField,
+  RucCandidate,
+  WorkplaceBenefit,
+} from '../../domain/entities/company-profile.entity';
 
 /**
  * Adaptador de scraping HTTP puro con Cheerio.
  *
  * 1. Fetch del HTML de la página principal
  * 2. Extrae datos estructurados (meta tags, JSON-LD, texto)
- * 3. Detecta links a /nosotros, /about, /contacto
+ * 3. Detecta links a /nosotros, /about, /contacto (y los completa con sitemap.xml)
  * 4. Visita sub-páginas para extraer historia, misión, visión, contacto
- * 5. Todo HTTP puro — sin browser — liviano y rápido
+ * 5. Empleo: página "Trabaja con nosotros", links a ATS (Workday, Lever...) y ofertas
+ *    + perfil de empleador (beneficios, certificaciones, diversidad / sostenibilidad)
+ * 6. Directorio / equipo gerencial: nombre, cargo y foto
+ * 7. Todo HTTP puro — sin browser — liviano y rápido
  */
 @Injectable()
 export class CheerioScraperAdapter implements WebsiteScraperPort {
   private readonly logger = new Logger(CheerioScraperAdapter.name);
-  private readonly userAgents: string[];
-
-  /** Patrones de sub-páginas que nos interesan */
-  private readonly SUBPAGE_PATTERNS: Array<{
-    pattern: RegExp;
-    type: 'about' | 'contact' | 'history';
-  }> = [
-    { pattern: /\/(nosotros|about-us|about|quienes-somos|acerca-de|sobre-nosotros|quien-somos|conocenos)(\/|$|\?|#)/i, type: 'about' },
-    { pattern: /\/(contacto|contactanos|contact|contact-us)(\/|$|\?|#)/i, type: 'contact' },
-    { pattern: /\/(historia|history|nuestra-historia|our-history|trayectoria)(\/|$|\?|#)/i, type: 'history' },
-  ];
 
   /** Selectores CSS para secciones de misión/visión/valores */
   private readonly CONTENT_SELECTORS = {
@@ -42,11 +65,43 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
     about: ['[class*="nosotros"]', '[class*="about"]', '[id*="nosotros"]', '[id*="about"]'],
   };
 
-  constructor(private config: ConfigService) {
-    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
-    ]);
-  }
+  /** Texto de links a la página de empleo (cuando el path no lo dice: /personas/talento-ib) */
+  private readonly CAREERS_LINK_TEXT =
+    /(trabaja (con|en) |[úu]nete|bolsa de trabajo|empleos?\b|oportunidades laborales|convocatorias|careers?\b|work with us|join (us|our team))/i;
+
+  /** Texto de links al directorio / equipo gerencial */
+  private readonly LEADERSHIP_LINK_TEXT =
+    /^((nuestro )?directorio|equipo (gerencial|directivo|ejecutivo)|plana (gerencial|ejecutiva)|alta direcci[oó]n|nuestros l[ií]deres|liderazgo|leadership( team)?|management team|board of directors|nuestro equipo)$/i;
+
+  /** Tope de personas del directorio / equipo gerencial */
+  private readonly MAX_LEADERSHIP = 40;
+
+  /** Clase / id de una tarjeta de oferta en un listado de empleos */
+  private readonly JOB_CARD_CLASS = /(job|vacante|vacancy|oferta|empleo|convocatoria|posting|opening)/i;
+
+  /** Títulos que son llamadas a la acción, no ofertas */
+  private readonly JOB_CTA_TEXT = /^(ver|postula|aplica|apply|m[áa]s|leer|see|view|conoce|ir a|buscar)\b/i;
+
+  /** Tope de ofertas por perfil (los tableros grandes tienen cientos) */
+  private readonly MAX_JOB_OPENINGS = 50;
+
+  /** Tableros de ATS consultados por scrape */
+  private readonly MAX_ATS_BOARDS = 2;
+
+  /** Tope de beneficios por perfil */
+  private readonly MAX_BENEFITS = 30;
+
+  /** Declaraciones por tema (diversidad / sostenibilidad) */
+  private readonly MAX_STATEMENTS_PER_TOPIC = 3;
+
+  /** Páginas donde un párrafo suelto sobre diversidad / sostenibilidad es una declaración */
+  private readonly STATEMENT_PAGES: ReadonlyArray<SubpageType | 'home'> = ['about', 'careers', 'sustainability'];
+
+  constructor(
+    private readonly egress: EgressService,
+    private readonly crawler: CrawlSchedulerService,
+    private readonly sitemaps: SitemapDiscoveryService,
+  ) {}
 
   async scrape(url: string, options?: ScrapeOptions): Promise<CompanyProfile> {
     const startTime = Date.now();
@@ -62,7 +117,15 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
 
     try {
       // ── 1. Página principal ──────────────────────────
-      const mainHtml = await this.fetchPage(url, opts.timeoutMs);
+      const verdict = await this.crawler.check(url);
+      if (!verdict.allowed) {
+        this.logger.warn(`🤖 ${url} omitida: ${verdict.reason}`);
+        profile.pagesSkipped.push({ url, reason: verdict.reason ?? 'robots.txt' });
+        profile.durationMs = Date.now() - startTime;
+        return profile;
+      }
+
+      const mainHtml = await this.crawler.schedule(url, () => this.fetchPage(url, opts.timeoutMs));
       if (!mainHtml) {
         this.logger.warn(`No se pudo obtener HTML de ${url}`);
         profile.durationMs = Date.now() - startTime;
@@ -73,18 +136,27 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
       const $ = cheerio.load(mainHtml);
 
       // Extraer todo lo que podamos de la página principal
-      this.extractMetaTags($, profile);
-      this.extractJsonLd($, profile);
+      this.extractMetaTags($, url, profile);
+      this.extractJsonLd($, url, profile);
       this.extractLogo($, url, profile);
-      this.extractContactInfo(mainHtml, profile);
+      this.extractContactInfo(mainHtml, url, profile);
       this.extractSocialLinks($, url, profile);
-      this.extractContentSections($, profile);
-      this.extractFromText($, profile);
+      this.extractContentSections($, url, profile);
+      this.extractFromText($, url, profile);
+      this.extractAtsLinks($, url, profile);
+      this.extractWorkplaceCulture($, url, profile, 'home');
 
       // ── 2. Sub-páginas (/nosotros, /contacto, etc.) ──
       if (opts.followSubpages) {
-        const subpageLinks = this.findSubpageLinks($, url);
+        // Los links del HTML no ven menús armados con JS: si no cubren los tipos
+        // que se van a visitar, se completa con el sitemap
+        const anchorLinks = this.findSubpageLinks($, url);
+        const wanted = SUBPAGE_TYPES.slice(0, opts.maxSubpages);
+        const needsSitemap = wanted.some((type) => !anchorLinks.some((l) => l.type === type));
+        const sitemapLinks = needsSitemap ? await this.sitemaps.discover(url) : [];
+        const subpageLinks = this.planSubpages(anchorLinks, sitemapLinks, url);
         const visited = new Set<string>([url]);
+        const scrapedTypes = new Set<SubpageType>();
         let subpagesVisited = 0;
 
         for (const link of subpageLinks) {
@@ -92,34 +164,76 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           if (visited.has(link.url)) continue;
           visited.add(link.url);
 
-          this.logger.log(`   📄 Sub-página [${link.type}]: ${link.url}`);
+          const subVerdict = await this.crawler.check(link.url);
+          if (!subVerdict.allowed) {
+            this.logger.log(`   🤖 Sub-página [${link.type}] omitida: ${link.url} (${subVerdict.reason})`);
+            profile.pagesSkipped.push({ url: link.url, reason: subVerdict.reason ?? 'robots.txt' });
+            continue;
+          }
+
+          this.logger.log(`   📄 Sub-página [${link.type} · ${link.source}]: ${link.url}`);
 
           try {
-            await this.sleep(800); // Ser amable con el servidor
-            const subHtml = await this.fetchPage(link.url, 15000);
+            // El scheduler espacia las requests al host (delay mínimo / Crawl-delay)
+            const subHtml = await this.crawler.schedule(link.url, () => this.fetchPage(link.url, 15000));
             if (!subHtml) continue;
 
             profile.pagesScraped.push(link.url);
+            scrapedTypes.add(link.type);
             subpagesVisited++;
 
             const $sub = cheerio.load(subHtml);
 
             // Extraer según el tipo de página
             if (link.type === 'about' || link.type === 'history') {
-              this.extractAboutPage($sub, profile);
+              this.extractAboutPage($sub, link.url, profile);
             }
             if (link.type === 'contact') {
-              this.extractContactInfo(subHtml, profile);
-              this.extractContactPage($sub, profile);
+              this.extractContactInfo(subHtml, link.url, profile);
+              this.extractContactPage($sub, link.url, profile);
+            }
+            if (link.type === 'careers' || link.type === 'investors') {
+              // Colaboradores, cobertura y fundación suelen repetirse aquí
+              this.extractFromText($sub, link.url, profile);
+            }
+            if (link.type === 'careers') {
+              if (!profile.jobs.careersUrl) profile.jobs.careersUrl = link.url;
+              this.extractJobs($sub, link.url, profile);
+            }
+            if (link.type === 'leadership' || link.type === 'about') {
+              this.extractLeadership($sub, link.url, profile);
             }
 
             // Siempre buscar contenido estructurado
-            this.extractJsonLd($sub, profile);
-            this.extractContentSections($sub, profile);
+            this.extractJsonLd($sub, link.url, profile);
+            this.extractContentSections($sub, link.url, profile);
+            this.extractAtsLinks($sub, link.url, profile);
+            this.extractWorkplaceCulture($sub, link.url, profile, link.type);
           } catch (err) {
             this.logger.warn(`   ⚠️  Error en sub-página ${link.url}: ${(err as Error).message}`);
           }
         }
+
+        // ── 3. Empleo y directorio ─────────────────────
+        // Se visitan aunque ya se agotó maxSubpages: alimentan secciones propias del perfil
+        for (const type of ['careers', 'leadership'] as const) {
+          if (scrapedTypes.has(type)) continue;
+          const pageUrl = this.findDedicatedPage($, url, subpageLinks, type);
+          if (pageUrl && !visited.has(pageUrl)) {
+            visited.add(pageUrl);
+            await this.scrapeDedicatedPage(pageUrl, type, profile);
+          }
+        }
+        await this.extractAtsBoards(profile);
+      }
+
+      // Sin página propia, la "página de empleo" es el portal del ATS
+      if (!profile.jobs.careersUrl && profile.jobs.atsLinks.length > 0) {
+        profile.jobs.careersUrl = profile.jobs.atsLinks[0].url;
+      }
+
+      if (profile.headquarters) {
+        profile.headquartersAddress = parsePeruAddress(profile.headquarters);
       }
 
       profile.durationMs = Date.now() - startTime;
@@ -140,25 +254,34 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Extrae datos de <meta> tags (og:, description, etc.)
    */
-  private extractMetaTags($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractMetaTags($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
+    const source = { page, extractor: 'extractMetaTags' };
+
     // Nombre
     if (!profile.name) {
-      profile.name =
-        $('meta[property="og:site_name"]').attr('content')?.trim() ||
-        $('meta[name="application-name"]').attr('content')?.trim() ||
-        $('title').first().text()?.trim()?.split(/[|\-–—]/)[0]?.trim() ||
-        null;
+      const title = $('title').first().text()?.trim();
+      const candidates: Array<{ rule: string; value?: string; snippet?: string; confidence: number }> = [
+        { rule: 'meta[property="og:site_name"]', value: $('meta[property="og:site_name"]').attr('content')?.trim(), confidence: 0.85 },
+        { rule: 'meta[name="application-name"]', value: $('meta[name="application-name"]').attr('content')?.trim(), confidence: 0.75 },
+        { rule: 'title', value: title?.split(/[|\-–—]/)[0]?.trim(), snippet: title, confidence: 0.5 },
+      ];
+      const hit = candidates.find((c) => c.value);
+      profile.name = hit?.value || null;
+      if (hit?.value) this.trace(profile, 'name', hit.value, { ...source, ...hit });
     }
 
     // Descripción
     if (!profile.description) {
-      const desc =
-        $('meta[property="og:description"]').attr('content')?.trim() ||
-        $('meta[name="description"]').attr('content')?.trim() ||
-        null;
+      const ogDesc = $('meta[property="og:description"]').attr('content')?.trim();
+      const desc = ogDesc || $('meta[name="description"]').attr('content')?.trim() || null;
       // Filtrar descripciones que son en realidad URLs de imágenes
       if (desc && !desc.match(/^https?:\/\/.*\.(png|jpg|jpeg|svg|gif|webp)/i)) {
         profile.description = desc;
+        this.trace(profile, 'description', desc, {
+          ...source,
+          rule: ogDesc ? 'meta[property="og:description"]' : 'meta[name="description"]',
+          confidence: 0.7,
+        });
       }
     }
 
@@ -184,7 +307,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   private extractLogo($: cheerio.CheerioAPI, baseUrl: string, profile: CompanyProfile): void {
     if (profile.logoUrl) return;
 
-    const candidates: Array<{ url: string; priority: number }> = [];
+    const candidates: Array<{ url: string; priority: number; rule: string }> = [];
 
     const toAbsolute = (href: string): string | null => {
       if (!href) return null;
@@ -210,12 +333,12 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           if (item.logo) {
             const logoVal = typeof item.logo === 'string' ? item.logo : item.logo?.url || item.logo?.['@id'];
             const abs = toAbsolute(logoVal);
-            if (abs) candidates.push({ url: abs, priority: 100 });
+            if (abs) candidates.push({ url: abs, priority: 100, rule: 'json-ld logo' });
           }
           if (item.image) {
             const imgVal = typeof item.image === 'string' ? item.image : item.image?.url;
             const abs = toAbsolute(imgVal);
-            if (abs && isImageUrl(abs)) candidates.push({ url: abs, priority: 60 });
+            if (abs && isImageUrl(abs)) candidates.push({ url: abs, priority: 60, rule: 'json-ld image' });
           }
         }
       } catch { /* invalid JSON-LD */ }
@@ -225,14 +348,14 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
     const ogImage = $('meta[property="og:image"]').attr('content');
     if (ogImage) {
       const abs = toAbsolute(ogImage);
-      if (abs) candidates.push({ url: abs, priority: 50 });
+      if (abs) candidates.push({ url: abs, priority: 50, rule: 'meta[property="og:image"]' });
     }
 
     // 3. Apple touch icon (suele ser un logo cuadrado de alta resolución)
     $('link[rel="apple-touch-icon"], link[rel="apple-touch-icon-precomposed"]').each((_, el) => {
       const href = $(el).attr('href');
       const abs = href ? toAbsolute(href) : null;
-      if (abs) candidates.push({ url: abs, priority: 70 });
+      if (abs) candidates.push({ url: abs, priority: 70, rule: 'link[rel="apple-touch-icon"]' });
     });
 
     // 4. Favicon SVG (a veces es el logo en vector)
@@ -241,7 +364,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
       const abs = href ? toAbsolute(href) : null;
       if (abs) {
         const isSvg = abs.endsWith('.svg') || $(el).attr('type') === 'image/svg+xml';
-        candidates.push({ url: abs, priority: isSvg ? 75 : 30 });
+        candidates.push({ url: abs, priority: isSvg ? 75 : 30, rule: 'link[rel="icon"]' });
       }
     });
 
@@ -268,7 +391,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           const width = parseInt($(el).attr('width') || '0');
           const height = parseInt($(el).attr('height') || '0');
           if ((width > 0 && width < 20) || (height > 0 && height < 20)) priority -= 50;
-          candidates.push({ url: abs, priority });
+          candidates.push({ url: abs, priority, rule: 'img[logo]' });
         }
       }
     });
@@ -287,7 +410,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const imgSrc = siblingImg.attr('src');
         if (imgSrc) {
           const abs = toAbsolute(imgSrc);
-          if (abs) candidates.push({ url: abs, priority: 85 });
+          if (abs) candidates.push({ url: abs, priority: 85, rule: 'svg[logo] + img' });
         }
       }
     });
@@ -301,7 +424,14 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         if (aIsSvg !== bIsSvg) return bIsSvg - aIsSvg;
         return b.priority - a.priority;
       });
-      profile.logoUrl = candidates[0].url;
+      const best = candidates[0];
+      profile.logoUrl = best.url;
+      this.trace(profile, 'logoUrl', best.url, {
+        page: baseUrl,
+        extractor: 'extractLogo',
+        rule: best.rule,
+        confidence: Math.max(0.1, Math.min(1, best.priority / 100)),
+      });
       this.logger.debug(`   🖼️ Logo encontrado: ${profile.logoUrl}`);
     }
   }
@@ -309,7 +439,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Extrae datos de JSON-LD (schema.org) — la fuente más rica.
    */
-  private extractJsonLd($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractJsonLd($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
     $('script[type="application/ld+json"]').each((_, el) => {
       try {
         const raw = $(el).html();
@@ -319,12 +449,12 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const items = Array.isArray(data) ? data : [data];
 
         for (const item of items) {
-          this.processJsonLdItem(item, profile);
+          this.processJsonLdItem(item, page, profile);
 
           // Manejar @graph
           if (item['@graph'] && Array.isArray(item['@graph'])) {
             for (const subItem of item['@graph']) {
-              this.processJsonLdItem(subItem, profile);
+              this.processJsonLdItem(subItem, page, profile);
             }
           }
         }
@@ -334,7 +464,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
     });
   }
 
-  private processJsonLdItem(item: any, profile: CompanyProfile): void {
+  private processJsonLdItem(item: any, page: string, profile: CompanyProfile): void {
     const type = item['@type'];
     if (!type) return;
 
@@ -346,8 +476,24 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
       : orgTypes.includes(type);
 
     if (isOrg) {
-      if (!profile.name && item.name) profile.name = item.name;
-      if (!profile.description && item.description) profile.description = item.description;
+      // JSON-LD es declarado por la propia empresa → alta confianza
+      const traceLd = (field: ProfileField, value: unknown, prop: string, confidence = 0.9) =>
+        this.trace(profile, field, value, {
+          page,
+          extractor: 'extractJsonLd',
+          rule: `json-ld ${type}.${prop}`,
+          snippet: `"${prop}": ${JSON.stringify(item[prop])}`,
+          confidence,
+        });
+
+      if (!profile.name && item.name) {
+        profile.name = item.name;
+        traceLd('name', item.name, 'name');
+      }
+      if (!profile.description && item.description) {
+        profile.description = item.description;
+        traceLd('description', item.description, 'description', 0.8);
+      }
       if (!profile.headquarters && item.address) {
         const addr = typeof item.address === 'string'
           ? item.address
@@ -355,36 +501,54 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
             item.address.addressRegion, item.address.addressCountry]
             .filter(Boolean).join(', ');
         profile.headquarters = addr;
+        traceLd('headquarters', addr, 'address');
       }
 
-      if (item.telephone && !profile.phones.includes(item.telephone)) {
-        profile.phones.push(item.telephone);
+      if (typeof item.telephone === 'string' && this.addPhone(profile, item.telephone)) {
+        traceLd('phones', item.telephone.trim(), 'telephone');
       }
-      if (item.email && !profile.emails.includes(item.email)) {
-        profile.emails.push(item.email);
+      const ldEmail = typeof item.email === 'string' ? cleanEmail(item.email) : null;
+      if (ldEmail && this.addEmail(profile, ldEmail)) {
+        traceLd('emails', ldEmail, 'email');
       }
       if (item.taxID || item.vatID) {
-        const taxId = item.taxID || item.vatID;
-        if (/^\d{11}$/.test(taxId)) profile.ruc = taxId;
+        const prop = item.taxID ? 'taxID' : 'vatID';
+        const taxId = String(item[prop]).replace(/\D/g, '');
+        if (isValidRuc(taxId)) {
+          this.addRucCandidate(profile, buildCandidate(taxId, ['json-ld'], page), {
+            page,
+            extractor: 'extractJsonLd',
+            rule: `json-ld ${type}.${prop}`,
+            snippet: `"${prop}": ${JSON.stringify(item[prop])}`,
+          });
+        }
       }
       if (item.foundingDate) {
         profile.foundedDate = item.foundingDate;
+        traceLd('foundedDate', item.foundingDate, 'foundingDate');
         const year = parseInt(item.foundingDate);
-        if (year > 1800 && year < 2100) profile.foundedYear = year;
+        if (year > 1800 && year < 2100) {
+          profile.foundedYear = year;
+          traceLd('foundedYear', year, 'foundingDate');
+        }
       }
       if (item.numberOfEmployees) {
         const emp = item.numberOfEmployees;
         profile.employeeCount = emp.value || emp.minValue
           ? `${emp.minValue || ''}-${emp.maxValue || ''}`.replace(/^-|-$/g, '')
           : String(emp);
+        traceLd('employeeCount', profile.employeeCount, 'numberOfEmployees', 0.8);
+      }
+      if (item.industry) {
+        profile.industry = item.industry;
+        traceLd('industry', item.industry, 'industry', 0.8);
       }
-      if (item.industry) profile.industry = item.industry;
 
       // Social links from JSON-LD
       if (item.sameAs) {
         const links = Array.isArray(item.sameAs) ? item.sameAs : [item.sameAs];
         for (const link of links) {
-          this.categoriseSocialLink(link, profile);
+          this.categoriseSocialLink(link, profile, page);
         }
       }
     }
@@ -393,68 +557,118 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Extrae teléfonos, emails y RUC del texto HTML crudo con regex.
    */
-  private extractContactInfo(html: string, profile: CompanyProfile): void {
-    // RUC peruano (11 dígitos empezando con 10 o 20)
-    const rucMatches = html.match(/\b(10|20)\d{9}\b/g);
-    if (rucMatches && !profile.ruc) {
-      // Preferir los que empiezan con 20 (persona jurídica)
-      const ruc20 = rucMatches.find((r) => r.startsWith('20'));
-      profile.ruc = ruc20 || rucMatches[0];
+  private extractContactInfo(html: string, page: string, profile: CompanyProfile): void {
+    const source = { page, extractor: 'extractContactInfo' };
+
+    // RUC: candidatos con dígito verificador válido, puntuados por contexto
+    // (etiqueta "RUC", pie de página, texto legal). Un RUC suelto suele ser de un proveedor o cliente
+    for (const candidate of findRucCandidates(html, page)) {
+      this.addRucCandidate(profile, candidate, {
+        ...source,
+        rule: `RUC válido (${candidate.signals.join(', ') || 'sin contexto'})`,
+        snippet: this.snippetAround(html, candidate.ruc),
+      });
     }
 
     // Teléfonos: buscar solo patrones explícitos con código de país o formato claro
-    const phonePatterns = [
-      /\+51\s?\(?\d{1,2}\)?\s?\d{3}\s?\d{3,4}/g,                     // +51 con fijo/móvil
-      /\(01\)\s?\d{3}[\s-]?\d{4}/g,                                   // (01) 315-0800
-      /\b9\d{2}\s?\d{3}\s?\d{3}\b/g,                                  // Móvil 9XX XXX XXX
-      /\b(?:01|04[1-4]|05[1-4]|06[1-7]|07[1-6]|08[1-4])\s?\d{3}\s?\d{4}\b/g, // Fijo con código de área
+    const phonePatterns: Array<[RegExp, number]> = [
+      [/\+51[\s-]?(?:9\d{2}[\s-]?\d{3}[\s-]?\d{3}|\(?\d{1,2}\)?[\s-]?\d{3}[\s-]?\d{3,4})/g, 0.8], // +51 con móvil/fijo
+      [/\(0\d{1,2}\)\s?\d{3}[\s-]?\d{3,4}/g, 0.8],                             // (01) 315-0800, (054) 381-234
+      [/\b9\d{2}\s?\d{3}\s?\d{3}\b/g, 0.5],                                    // Móvil 9XX XXX XXX
+      [/\b0(?:1|4[1-4]|5[1-46]|6[1-7]|7[2-46]|8[2-4])[\s-]?\d{3}[\s-]?\d{3,4}\b/g, 0.6], // Fijo con código de área
     ];
 
-    for (const pattern of phonePatterns) {
-      const matches = html.match(pattern);
-      if (matches) {
-        for (const match of matches) {
-          const clean = match.replace(/[\s.()\-]/g, '').replace(/^\+?51/, '');
-          // Solo teléfonos razonables (7-9 dígitos sin código país)
-          if (clean.length >= 7 && clean.length <= 9) {
-            // Filtrar fechas disfrazadas de teléfonos (DDMMYYYY, YYYYMMDD)
-            if (/^(0[1-9]|[12]\d|3[01])(0[1-9]|1[0-2])(19|20)\d{2}$/.test(clean)) continue;
-            if (/^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/.test(clean)) continue;
-
-            // No agregar duplicados
-            const isDuplicate = profile.phones.some(
-              (p) => p.replace(/[\s.()\-]/g, '').replace(/^\+?51/, '') === clean,
-            );
-            if (!isDuplicate) {
-              profile.phones.push(match.trim());
-            }
-          }
+    for (const [pattern, confidence] of phonePatterns) {
+      for (const match of html.matchAll(pattern)) {
+        // "(01) 219-2000 anexo 123": el anexo va pegado al número
+        const after = html.slice((match.index ?? 0) + match[0].length, (match.index ?? 0) + match[0].length + 30);
+        const raw = `${match[0]}${after.match(PHONE_EXTENSION)?.[0] ?? ''}`.trim();
+
+        // Fechas, RUCs, rellenos ("999 999 999") y repetidos quedan fuera
+        if (this.addPhone(profile, raw)) {
+          this.trace(profile, 'phones', raw, {
+            ...source,
+            rule: pattern.toString(),
+            snippet: this.snippetAround(html, match[0]),
+            confidence,
+          });
         }
       }
     }
 
-    // Emails
-    const emailPattern = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-    const emailMatches = html.match(emailPattern);
-    if (emailMatches) {
-      for (const email of emailMatches) {
-        const lower = email.toLowerCase();
-        // Filtrar emails que no son de contacto real
-        if (
-          !lower.endsWith('.png') &&
-          !lower.endsWith('.jpg') &&
-          !lower.includes('example.com') &&
-          !lower.includes('sentry.io') &&
-          !lower.includes('wixpress.com') &&
-          !lower.includes('@2x') &&
-          !profile.emails.includes(lower)
-        ) {
-          profile.emails.push(lower);
+    // Emails: mailto: (puede venir %-codificado), ofuscados por Cloudflare y texto plano.
+    // Sintaxis, nombres de archivo ("logo@2x.png") y dominios de terceros se validan en cleanEmail
+    const emailSources: Array<[RegExp, (m: RegExpMatchArray) => string | null, number]> = [
+      [/mailto:([^"'<>\s]+)/gi, (m) => cleanEmail(m[1]), 0.85],
+      [/data-cfemail=["']([0-9a-f]+)["']/gi, (m) => decodeCfEmail(m[1]), 0.85],
+      [/\/cdn-cgi\/l\/email-protection#([0-9a-f]+)/gi, (m) => decodeCfEmail(m[1]), 0.85],
+      [/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, (m) => cleanEmail(m[0]), 0.65],
+    ];
+
+    for (const [pattern, decode, confidence] of emailSources) {
+      for (const match of html.matchAll(pattern)) {
+        const address = decode(match);
+        if (address && this.addEmail(profile, address)) {
+          this.trace(profile, 'emails', address, {
+            ...source,
+            rule: pattern.toString(),
+            snippet: this.snippetAround(html, match[0]),
+            confidence,
+          });
         }
       }
     }
   }
 
+  /**
+   * Agrega un teléfono si es válido y no está repetido (compara E.164 + anexo,
+   * así "+51 1 219-2000" y "(01) 219-2000" son uno solo).
+   */
+  private addPhone(profile: CompanyProfile, raw: string): boolean {
+    const phone = normalizePhone(raw);
+    if (!phone || profile.normalizedPhones.some((p) => phoneKey(p) === phoneKey(phone))) return false;
+    profile.phones.push(phone.raw);
+    profile.normalizedPhones.push(phone);
+    return true;
+  }
+
+  /**
+   * Suma un candidato a RUC (mismo RUC en varias páginas: se queda el mejor puntaje)
+   * y, si supera al actual, pasa a ser el RUC del perfil.
+   */
+  private addRucCandidate(
+    profile: CompanyProfile,
+    candidate: RucCandidate,
+    source: { page: string; extractor: string; rule: string; snippet: string },
+  ): void {
+    const best = profile.rucCandidates[0];
+    const existing = profile.rucCandidates.find((c) => c.ruc === candidate.ruc);
+    if (!existing) {
+      profile.rucCandidates.push(candidate);
+    } else {
+      existing.occurrences += candidate.occurrences;
+      if (candidate.score > existing.score) {
+        Object.assign(existing, { score: candidate.score, signals: candidate.signals, sourceUrl: candidate.sourceUrl });
+      }
+    }
+    profile.rucCandidates.sort((a, b) => b.score - a.score);
+
+    if (!best || candidate.score > best.score) {
+      profile.ruc = candidate.ruc;
+      this.trace(profile, 'ruc', candidate.ruc, { ...source, confidence: candidate.score });
+    }
+  }
+
+  /**
+   * Agrega un email ya validado si no está repetido, con su rol y si es del dominio de la web.
+   */
+  private addEmail(profile: CompanyProfile, address: string): boolean {
+    if (profile.emails.includes(address)) return false;
+    profile.emails.push(address);
+    profile.contactEmails.push(toContactEmail(address, profile.sourceUrl));
+    return true;
+  }
+
   /**
    * Extrae links de redes sociales.
    */
@@ -483,6 +697,13 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         for (const [domain, name] of Object.entries(socialDomains)) {
           if (host.includes(domain) && !profile.socialLinks[name]) {
             profile.socialLinks[name] = url.href;
+            this.trace(profile, 'socialLinks', url.href, {
+              page: baseUrl,
+              extractor: 'extractSocialLinks',
+              rule: `a[href*="${domain}"]`,
+              snippet: `${name}: ${href}`,
+              confidence: 0.75,
+            });
           }
         }
       } catch {
@@ -494,7 +715,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Busca secciones por selectores CSS (misión, visión, valores, historia).
    */
-  private extractContentSections($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractContentSections($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
     for (const [field, selectors] of Object.entries(this.CONTENT_SELECTORS)) {
       for (const selector of selectors) {
         const el = $(selector).first();
@@ -503,12 +724,21 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const text = this.cleanText(el.text());
         if (text.length < 15) continue; // Muy corto, probablemente un label
 
+        // Un class/id que contiene "mision" puede envolver más que la misión
+        const source = { page, extractor: 'extractContentSections', rule: selector, confidence: 0.55 };
+
         switch (field) {
           case 'mission':
-            if (!profile.mission) profile.mission = text;
+            if (!profile.mission) {
+              profile.mission = text;
+              this.trace(profile, 'mission', text, source);
+            }
             break;
           case 'vision':
-            if (!profile.vision) profile.vision = text;
+            if (!profile.vision) {
+              profile.vision = text;
+              this.trace(profile, 'vision', text, source);
+            }
             break;
           case 'values':
             if (profile.values.length === 0) {
@@ -517,21 +747,27 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
               if (items.length > 1) {
                 items.each((_, item) => {
                   const v = this.cleanText($(item).text());
-                  if (v.length > 3 && v.length < 200) profile.values.push(v);
+                  if (v.length > 3 && v.length < 200) {
+                    profile.values.push(v);
+                    this.trace(profile, 'values', v, { ...source, rule: `${selector} li, p, h3, h4` });
+                  }
                 });
               } else {
                 profile.values.push(text);
+                this.trace(profile, 'values', text, { ...source, confidence: 0.4 });
               }
             }
             break;
           case 'history':
             if (!profile.history || text.length > profile.history.length) {
               profile.history = text;
+              this.trace(profile, 'history', text, source);
             }
             break;
           case 'about':
             if (!profile.description || text.length > profile.description.length) {
               profile.description = text;
+              this.trace(profile, 'description', text, { ...source, confidence: 0.45 });
             }
             break;
         }
@@ -542,7 +778,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Busca datos en el texto visible de la página usando patterns.
    */
-  private extractFromText($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractFromText($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
     // Obtener texto de secciones principales (evitar footer/nav/script)
     const bodyText = $('main, article, [role="main"], .content, .main, #content, #main')
       .first()
@@ -551,6 +787,14 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
 
     if (!fullText) return;
 
+    const fromMatch = (match: RegExpMatchArray, pattern: RegExp, confidence: number) => ({
+      page,
+      extractor: 'extractFromText',
+      rule: pattern.toString(),
+      snippet: this.snippetAround(fullText, match[0]),
+      confidence,
+    });
+
     // Año de fundación
     if (!profile.foundedYear) {
       const foundedPatterns = [
@@ -568,6 +812,8 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           const year = parseInt(match[1]);
           if (year > 1800 && year < 2100) {
             profile.foundedYear = year;
+            // "desde 2010" también aparece en copyright y promociones
+            this.trace(profile, 'foundedYear', year, fromMatch(match, pattern, /desde/i.test(match[0]) ? 0.35 : 0.65));
             break;
           }
         }
@@ -584,6 +830,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const match = fullText.match(pattern);
         if (match) {
           profile.foundedDate = match[1].trim();
+          this.trace(profile, 'foundedDate', profile.foundedDate, fromMatch(match, pattern, 0.65));
           break;
         }
       }
@@ -599,6 +846,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const match = fullText.match(pattern);
         if (match) {
           profile.employeeCount = match[0].trim();
+          this.trace(profile, 'employeeCount', profile.employeeCount, fromMatch(match, pattern, 0.5));
           break;
         }
       }
@@ -614,6 +862,7 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const match = fullText.match(pattern);
         if (match) {
           profile.coverage = this.cleanText(match[0]);
+          this.trace(profile, 'coverage', profile.coverage, fromMatch(match, pattern, 0.5));
           break;
         }
       }
@@ -623,7 +872,9 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   /**
    * Extracción especial para páginas "Nosotros" / "About".
    */
-  private extractAboutPage($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractAboutPage($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
+    const source = { page, extractor: 'extractAboutPage' };
+
     // Intentar obtener el contenido principal de la página
     const mainContent = $('main, article, [role="main"], .content, .main, #content, #main, .about, .nosotros')
       .first();
@@ -646,10 +897,22 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
 
       if (historyParagraphs.length > 0) {
         profile.history = historyParagraphs.join('\n\n');
+        this.trace(profile, 'history', profile.history, {
+          ...source,
+          rule: `p ~ ${historyKeywords.toString()}`,
+          snippet: historyParagraphs[0],
+          confidence: 0.6,
+        });
       } else if (paragraphs.length >= 2) {
         // Si no hay keywords de historia, usar los primeros párrafos como descripción
         if (!profile.description || paragraphs.join(' ').length > profile.description.length) {
           profile.description = paragraphs.slice(0, 3).join('\n\n');
+          this.trace(profile, 'description', profile.description, {
+            ...source,
+            rule: 'p (primeros párrafos)',
+            snippet: paragraphs[0],
+            confidence: 0.45,
+          });
         }
       }
     }
@@ -661,34 +924,49 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
 
       if (nextContent.length < 20) return;
 
+      // Un heading "Misión" seguido de texto es señal fuerte
+      const fromHeading = (rule: string, confidence: number) => ({
+        ...source,
+        rule: `${heading.tagName} ~ ${rule}`,
+        snippet: `${this.cleanText($(heading).text())}: ${nextContent}`,
+        confidence,
+      });
+
       if (/misi[oó]n/.test(title) && !profile.mission) {
         profile.mission = nextContent;
+        this.trace(profile, 'mission', nextContent, fromHeading('/misi[oó]n/', 0.8));
       } else if (/visi[oó]n/.test(title) && !profile.vision) {
         profile.vision = nextContent;
+        this.trace(profile, 'vision', nextContent, fromHeading('/visi[oó]n/', 0.8));
       } else if (/valores/.test(title) && profile.values.length === 0) {
         const next = $(heading).next();
         const items = next.find('li');
         if (items.length > 0) {
           items.each((_, li) => {
             const v = this.cleanText($(li).text());
-            if (v.length > 3) profile.values.push(v);
+            if (v.length > 3) {
+              profile.values.push(v);
+              this.trace(profile, 'values', v, { ...fromHeading('/valores/ li', 0.75), snippet: v });
+            }
           });
         } else {
           profile.values.push(nextContent);
+          this.trace(profile, 'values', nextContent, fromHeading('/valores/', 0.5));
         }
       } else if (/histori|trayectori|quién|acerca/i.test(title) && !profile.history) {
         profile.history = nextContent;
+        this.trace(profile, 'history', nextContent, fromHeading('/histori|trayectori|quién|acerca/i', 0.6));
       }
     });
 
     // Buscar misión/visión/valores con CSS selectors también
-    this.extractContentSections($, profile);
+    this.extractContentSections($, page, profile);
   }
 
   /**
    * Extracción especial para páginas de contacto.
    */
-  private extractContactPage($: cheerio.CheerioAPI, profile: CompanyProfile): void {
+  private extractContactPage($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
     // Dirección: buscar elementos con "dirección" o "address"
     const addressSelectors = ['[class*="direcc"]', '[class*="address"]', '[id*="direcc"]', 'address'];
     for (const sel of addressSelectors) {
@@ -697,6 +975,12 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
         const text = this.cleanText(el.text());
         if (text.length > 10 && text.length < 300) {
           profile.headquarters = text;
+          this.trace(profile, 'headquarters', text, {
+            page,
+            extractor: 'extractContactPage',
+            rule: sel,
+            confidence: sel === 'address' ? 0.75 : 0.65,
+          });
         }
       }
     }
@@ -710,12 +994,503 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           /\b(Av\.|Avenida|Calle|Jr\.|Jirón|Pje\.|Pasaje|Mz\.|Urb\.|Km\.)\b/i.test(text)
         ) {
           profile.headquarters = text;
+          this.trace(profile, 'headquarters', text, {
+            page,
+            extractor: 'extractContactPage',
+            rule: '/\\b(Av\\.|Avenida|Calle|Jr\\.|...)\\b/i',
+            confidence: 0.45,
+          });
           return false; // Break
         }
       });
     }
   }
 
+  /**
+   * Links a plataformas de reclutamiento (Workday, Lever, Computrabajo, LinkedIn jobs...).
+   * También iframes y el embed JS de Greenhouse (boards.greenhouse.io/embed/job_board/js?for=acme).
+   */
+  private extractAtsLinks($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
+    const hrefs: string[] = [];
+    $('a[href]').each((_, el) => void hrefs.push($(el).attr('href')!));
+    $('iframe[src]').each((_, el) => void hrefs.push($(el).attr('src')!));
+    $('script[src*="greenhouse.io/embed/job_board"]').each((_, el) => {
+      const token = /[?&]for=([\w-]+)/.exec($(el).attr('src') || '')?.[1];
+      if (token) hrefs.push(`https://boards.greenhouse.io/${token}`);
+    });
+
+    for (const href of hrefs) {
+      let absolute: string;
+      try {
+        absolute = new URL(href, page).href;
+      } catch {
+        continue;
+      }
+
+      const link = detectAtsLink(absolute);
+      if (!link || profile.jobs.atsLinks.some((l) => l.url === link.url)) continue;
+
+      profile.jobs.atsLinks.push(link);
+      this.logger.debug(`   💼 ATS ${link.provider}: ${link.url}`);
+    }
+  }
+
+  /**
+   * Ofertas publicadas en la página de empleo:
+   * 1. JSON-LD JobPosting (el marcado de Google for Jobs) — si hay, manda
+   * 2. Tarjetas de un listado (clase job / vacante / oferta / convocatoria...)
+   */
+  private extractJobs($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
+    const before = profile.jobs.openings.length;
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      try {
+        const items = this.jsonLdNodes(JSON.parse($(el).html() || ''));
+
+        for (const item of items) {
+          const type = item['@type'];
+          if (type !== 'JobPosting' && !(Array.isArray(type) && type.includes('JobPosting'))) continue;
+          if (typeof item.title !== 'string') continue;
+
+          this.addOpening(
+            profile,
+            {
+              title: this.cleanText(item.title),
+              location: this.jobPostingLocation(item.jobLocation),
+              url: this.absoluteUrl(item.url, page) ?? page,
+              postedAt: normalizePostedDate(item.datePosted),
+              source: 'website',
+            },
+            {
+              page,
+              extractor: 'extractJobs',
+              rule: 'json-ld JobPosting',
+              snippet: `"title": ${JSON.stringify(item.title)}, "datePosted": ${JSON.stringify(item.datePosted ?? null)}`,
+              confidence: 0.9,
+            },
+          );
+        }
+      } catch {
+        // JSON-LD inválido, ignorar
+      }
+    });
+    if (profile.jobs.openings.length > before) return;
+
+    // Tarjeta = el elemento más interno con clase de oferta que contiene el link al aviso.
+    // Un <a> solo cuenta como tarjeta si envuelve un título (Lever: a.posting-title > h5)
+    const cards = $('[class], [id]')
+      .filter((_, el) => {
+        const $el = $(el);
+        if (!this.JOB_CARD_CLASS.test(`${$el.attr('class') ?? ''} ${$el.attr('id') ?? ''}`)) return false;
+        return $el.is('a[href]') ? $el.find('h2, h3, h4, h5, h6').length > 0 : $el.find('a[href]').length > 0;
+      })
+      .toArray();
+    const innermost = cards.filter((card) => !cards.some((other) => other !== card && $(card).find(other).length > 0));
+
+    for (const card of innermost) {
+      const $card = $(card);
+      const $link = $card.is('a[href]') ? $card : $card.find('a[href]').first();
+      const heading = $card.find('h2, h3, h4, h5, h6, [class*="title"], [class*="titulo"]').first().text();
+      const title = this.cleanText(heading || $link.text());
+      if (title.length < 4 || title.length > 120) continue;
+      if (this.JOB_CTA_TEXT.test(title) || this.CAREERS_LINK_TEXT.test(title)) continue;
+
+      const location = this.cleanText(
+        $card.find('[class*="location"], [class*="ubicacion"], [class*="lugar"], [class*="ciudad"], [class*="sede"]').first().text(),
+      );
+      const $time = $card.find('time').first();
+      const date = $time.attr('datetime') || $time.text() || $card.find('[class*="date"], [class*="fecha"]').first().text();
+      const href = $link.attr('href') ?? '';
+
+      this.addOpening(
+        profile,
+        {
+          title,
+          location: location || null,
+          url: /^(#|javascript:)/i.test(href) ? page : this.absoluteUrl(href, page) ?? page,
+          postedAt: normalizePostedDate(this.cleanText(date)),
+          source: 'website',
+        },
+        {
+          page,
+          extractor: 'extractJobs',
+          rule: `.${($card.attr('class') ?? '').trim().split(/\s+/)[0] || `#${$card.attr('id')}`}`,
+          snippet: this.cleanText($card.text()),
+          confidence: 0.6,
+        },
+      );
+    }
+  }
+
+  /**
+   * Perfil de empleador: beneficios, certificaciones y declaraciones de diversidad / sostenibilidad.
+   *
+   * - Beneficios: ítems de secciones "Beneficios" / "¿Qué te ofrecemos?" en cualquier página;
+   *   en la página de empleo también ítems sueltos que nombran un beneficio (EPS, home office...)
+   * - Certificaciones: texto visible + alt / title / src de imágenes (los sellos suelen ser logos)
+   * - Declaraciones: contenido bajo un heading del tema; en nosotros / empleo / sostenibilidad
+   *   también párrafos sueltos con vocabulario del tema
+   */
+  private extractWorkplaceCulture(
+    $: cheerio.CheerioAPI,
+    page: string,
+    profile: CompanyProfile,
+    pageType: SubpageType | 'home',
+  ): void {
+    const source = { page, extractor: 'extractWorkplaceCulture' };
+
+    // ── Secciones por heading ──
+    $('h1, h2, h3, h4').each((_, heading) => {
+      const title = this.cleanText($(heading).text());
+      if (title.length < 4 || title.length > 80) return;
+
+      if (BENEFITS_HEADING.test(title)) {
+        for (const item of this.sectionItems($, $(heading))) {
+          this.addBenefit(profile, item, classifyBenefit(item) ?? 'other', {
+            ...source,
+            rule: `${heading.tagName} ~ ${BENEFITS_HEADING.toString()}`,
+            snippet: `${title}: ${item}`,
+            confidence: 0.75,
+          });
+        }
+        return;
+      }
+
+      const topic = statementTopic(title);
+      if (topic) {
+        const content = this.getNextSiblingContent($, $(heading));
+        if (content.length >= 40) {
+          this.addStatement(profile, topic, content, {
+            ...source,
+            rule: `${heading.tagName} ~ ${topic}`,
+            snippet: `${title}: ${content}`,
+            confidence: 0.7,
+          });
+        }
+      }
+    });
+
+    // ── Ítems y párrafos sueltos (solo páginas donde el tema es esperable) ──
+    if (pageType === 'careers') {
+      $('li, p, h3, h4, h5').each((_, el) => {
+        const text = this.cleanText($(el).text());
+        if (text.length < 4 || text.length > 150) return;
+        // Descripción de una tarjeta cuyo título ya se tomó como beneficio
+        const cardTitle = this.cleanText($(el).prevAll('h3, h4, h5, h6').first().text()).toLowerCase();
+        if (cardTitle && profile.benefits.some((b) => b.text.toLowerCase() === cardTitle)) return;
+        const category = classifyBenefit(text);
+        if (category) {
+          this.addBenefit(profile, text, category, { ...source, rule: `${el.tagName} ~ ${category}`, confidence: 0.5 });
+        }
+      });
+    }
+
+    if (this.STATEMENT_PAGES.includes(pageType)) {
+      $('p').each((_, el) => {
+        const text = this.cleanText($(el).text());
+        if (text.length < 60 || text.length > 600) return;
+        const topic = statementTopic(text);
+        if (topic) {
+          this.addStatement(profile, topic, text, { ...source, rule: `p ~ ${topic}`, confidence: 0.5 });
+        }
+      });
+    }
+
+    // ── Certificaciones: texto visible + sellos (imágenes) ──
+    const $body = $('body').clone();
+    $body.find('script, style, noscript, template').remove();
+    const texts: Array<{ text: string; rule: string }> = [{ text: this.cleanText($body.text()), rule: 'texto' }];
+    $('img').each((_, el) => {
+      const attrs = ['alt', 'title', 'src'].map((a) => $(el).attr(a) ?? '').join(' ');
+      if (attrs.trim()) texts.push({ text: attrs, rule: 'img[alt|title|src]' });
+    });
+
+    for (const { text, rule } of texts) {
+      for (const cert of findCertifications(text)) {
+        const existing = profile.certifications.find((c) => c.name === cert.name);
+        if (existing) {
+          if (!existing.year && cert.year) existing.year = cert.year;
+          continue;
+        }
+
+        profile.certifications.push({ name: cert.name, year: cert.year, sourceUrl: page });
+        this.trace(profile, 'certifications', cert.name, {
+          ...source,
+          rule: `${rule} ~ ${cert.match}`,
+          snippet: this.snippetAround(text, cert.match),
+          confidence: rule === 'texto' ? 0.7 : 0.6,
+        });
+      }
+    }
+  }
+
+  /**
+   * Directorio / equipo gerencial:
+   * 1. JSON-LD Person (sueltos o como employee / member / founder de la Organization)
+   * 2. Tarjetas: nombre de persona (heading, strong, .name) + cargo cercano + foto
+   * 3. Líneas "Nombre – Cargo" en listas y párrafos cortos
+   */
+  private extractLeadership($: cheerio.CheerioAPI, page: string, profile: CompanyProfile): void {
+    const source = { page, extractor: 'extractLeadership' };
+
+    // ── 1. JSON-LD ──
+    $('script[type="application/ld+json"]').each((_, el) => {
+      try {
+        const items = this.jsonLdNodes(JSON.parse($(el).html() || ''));
+        const people = items.flatMap((item) => [
+          item,
+          ...['employee', 'member', 'founder'].flatMap((prop) => jsonObjects(item[prop])),
+        ]);
+
+        for (const person of people) {
+          if (person['@type'] !== 'Person' || typeof person.name !== 'string') continue;
+          const image = typeof person.image === 'string' ? person.image : asJsonObject(person.image)?.url;
+          this.addLeader(
+            profile,
+            {
+              name: this.cleanText(person.name),
+              role: typeof person.jobTitle === 'string' ? this.cleanText(person.jobTitle) : null,
+              photoUrl: this.absoluteUrl(image, page),
+              sourceUrl: page,
+            },
+            { ...source, rule: 'json-ld Person', snippet: JSON.stringify(person), confidence: 0.9 },
+          );
+        }
+      } catch {
+        // JSON-LD inválido, ignorar
+      }
+    });
+
+    // ── 2. Tarjetas ──
+    const nameSelector = 'h2, h3, h4, h5, h6, strong, b, [class*="name"], [class*="nombre"]';
+    $(nameSelector).each((_, el) => {
+      const name = this.cleanText($(el).text());
+      if (!looksLikePersonName(name)) return;
+
+      // Subir hasta la tarjeta: el ancestro más cercano con cargo, sin otro nombre adentro
+      let card = $(el).parent();
+      let role: string | null = null;
+      for (let depth = 0; depth < 3 && card.length && !role; depth++) {
+        const names = card.find(nameSelector).filter((_, n) => looksLikePersonName(this.cleanText($(n).text())));
+        if (names.toArray().some((n) => this.cleanText($(n).text()) !== name)) break;
+
+        role =
+          card
+            .find('p, span, small, em, div, h3, h4, h5, h6')
+            .toArray()
+            .map((n) => this.cleanText($(n).text()))
+            .find((text) => text.length <= 100 && !text.includes(name) && LEADERSHIP_ROLE.test(text)) ?? null;
+        if (!role) card = card.parent();
+      }
+      if (!role) return;
+
+      const img = card.find('img').first();
+      const photo = img.attr('data-src') || img.attr('data-lazy-src') || img.attr('src');
+      this.addLeader(
+        profile,
+        { name, role, photoUrl: this.absoluteUrl(photo, page), sourceUrl: page },
+        { ...source, rule: `${el.tagName} + cargo`, snippet: `${name} — ${role}`, confidence: 0.7 },
+      );
+    });
+
+    // ── 3. "Nombre – Cargo" ──
+    $('li, p').each((_, el) => {
+      const text = this.cleanText($(el).text());
+      if (text.length > 150) return;
+
+      const parts = text.split(/\s+[–—|-]\s+|,\s+|:\s+/);
+      if (parts.length !== 2) return;
+      const [first, second] = parts;
+      const [name, role] = looksLikePersonName(first) ? [first, second] : [second, first];
+      if (!looksLikePersonName(name) || !LEADERSHIP_ROLE.test(role)) return;
+
+      this.addLeader(
+        profile,
+        { name, role, photoUrl: null, sourceUrl: page },
+        { ...source, rule: `${el.tagName} "Nombre – Cargo"`, snippet: text, confidence: 0.6 },
+      );
+    });
+  }
+
+  // ════════════════════════════════════════════════════════
+  // EMPLEO
+  // ════════════════════════════════════════════════════════
+
+  /**
+   * Página de empleo o de directorio: sub-página de la taxonomía o, si no, un link cuyo texto
+   * la delata ("Trabaja con nosotros", "Equipo gerencial") aunque viva en otro subdominio
+   * (talento.acme.pe). Los links a un ATS no cuentan: esos se leen por su API.
+   */
+  private findDedicatedPage(
+    $: cheerio.CheerioAPI,
+    baseUrl: string,
+    planned: Array<{ url: string; type: SubpageType }>,
+    type: 'careers' | 'leadership',
+  ): string | null {
+    const fromTaxonomy = planned.find((link) => link.type === type);
+    if (fromTaxonomy) return fromTaxonomy.url;
+
+    const linkText = type === 'careers' ? this.CAREERS_LINK_TEXT : this.LEADERSHIP_LINK_TEXT;
+
+    let rootDomain: string;
+    try {
+      rootDomain = getRootDomain(new URL(baseUrl).hostname.toLowerCase());
+    } catch {
+      return null;
+    }
+
+    for (const el of $('a[href]').toArray()) {
+      const text = this.cleanText($(el).text());
+      if (text.length > 60 || !linkText.test(text)) continue;
+
+      try {
+        const resolved = new URL($(el).attr('href')!, baseUrl);
+        if (!/^https?:$/.test(resolved.protocol)) continue;
+        if (getRootDomain(resolved.hostname.toLowerCase()) !== rootDomain) continue;
+        if (detectAtsLink(resolved.href)) continue;
+        return resolved.origin + resolved.pathname;
+      } catch {
+        // URL inválida
+      }
+    }
+    return null;
+  }
+
+  private async scrapeDedicatedPage(
+    url: string,
+    type: 'careers' | 'leadership',
+    profile: CompanyProfile,
+  ): Promise<void> {
+    const label = type === 'careers' ? '💼 Página de empleo' : '👔 Directorio';
+
+    const verdict = await this.crawler.check(url);
+    if (!verdict.allowed) {
+      this.logger.log(`   🤖 ${label} omitida: ${url} (${verdict.reason})`);
+      profile.pagesSkipped.push({ url, reason: verdict.reason ?? 'robots.txt' });
+      return;
+    }
+
+    this.logger.log(`   ${label}: ${url}`);
+    const html = await this.crawler.schedule(url, () => this.fetchPage(url, 15000));
+    if (!html) return;
+
+    profile.pagesScraped.push(url);
+    const $ = cheerio.load(html);
+
+    if (type === 'careers') {
+      profile.jobs.careersUrl = url;
+      this.extractJobs($, url, profile);
+      this.extractAtsLinks($, url, profile);
+    } else {
+      this.extractLeadership($, url, profile);
+    }
+    this.extractWorkplaceCulture($, url, profile, type);
+  }
+
+  /**
+   * Ofertas desde la API pública de los ATS enlazados (Lever, Greenhouse, SmartRecruiters, Workday).
+   */
+  private async extractAtsBoards(profile: CompanyProfile): Promise<void> {
+    let boards = 0;
+
+    for (const link of profile.jobs.atsLinks) {
+      if (boards >= this.MAX_ATS_BOARDS || profile.jobs.openings.length >= this.MAX_JOB_OPENINGS) break;
+      const board = atsBoardRequest(link);
+      if (!board) continue;
+      boards++;
+
+      const verdict = await this.crawler.check(board.url);
+      if (!verdict.allowed) {
+        profile.pagesSkipped.push({ url: board.url, reason: verdict.reason ?? 'robots.txt' });
+        continue;
+      }
+
+      try {
+        const response = await this.crawler.schedule(board.url, () =>
+          this.egress.request('scraper', {
+            url: board.url,
+            method: board.method,
+            body: board.body,
+            timeoutMs: 10000,
+            retries: 0,
+            headers: {
+              Accept: 'application/json',
+              ...(board.body ? { 'Content-Type': 'application/json' } : {}),
+            },
+          }),
+        );
+        if (response.status !== 200) {
+          this.logger.debug(`   ⚠️  ATS ${link.provider}: HTTP ${response.status}`);
+          continue;
+        }
+
+        const openings = parseAtsBoard(link, response.body);
+        for (const opening of openings) {
+          this.addOpening(profile, opening, {
+            page: board.url,
+            extractor: 'extractAtsBoards',
+            rule: `${link.provider} API`,
+            snippet: [opening.title, opening.location].filter(Boolean).join(' · '),
+            confidence: 0.95,
+          });
+        }
+        this.logger.log(`   💼 ATS ${link.provider}: ${openings.length} ofertas`);
+      } catch (err) {
+        this.logger.debug(`   ⚠️  ATS ${link.provider}: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Agrega una oferta si no está repetida (mismo título y ubicación, venga de la web o del ATS).
+   * Gana la primera: la de la web de la empresa enlaza al aviso que ella eligió.
+   */
+  private addOpening(
+    profile: CompanyProfile,
+    opening: JobOpening,
+    source: { page: string; extractor: string; rule: string; snippet: string; confidence: number },
+  ): void {
+    // "Lima" y "Lima, Lima" son la misma ubicación con más o menos detalle
+    const sameLocation = (a: string | null, b: string | null) =>
+      !a || !b || a.toLowerCase().startsWith(b.toLowerCase()) || b.toLowerCase().startsWith(a.toLowerCase());
+    const isDuplicate = (o: JobOpening) =>
+      o.title.toLowerCase() === opening.title.toLowerCase() && sameLocation(o.location, opening.location);
+
+    if (profile.jobs.openings.length >= this.MAX_JOB_OPENINGS) return;
+    if (profile.jobs.openings.some(isDuplicate)) return;
+
+    profile.jobs.openings.push(opening);
+    this.trace(profile, 'jobs', opening.title, source);
+  }
+
+  /** jobLocation de schema.org (Place, lista de Place o texto) → "Lima, Lima" */
+  private jobPostingLocation(jobLocation: unknown): string | null {
+    const place: unknown = Array.isArray(jobLocation) ? jobLocation[0] : jobLocation;
+    if (typeof place === 'string') return this.cleanText(place) || null;
+
+    const address = asJsonObject(place)?.address;
+    if (typeof address === 'string') return this.cleanText(address) || null;
+    const { addressLocality, addressRegion } = asJsonObject(address) ?? {};
+    const parts = [addressLocality, addressRegion].filter(
+      (p, i, all): p is string => typeof p === 'string' && !!p.trim() && all.indexOf(p) === i,
+    );
+    return parts.length > 0 ? parts.join(', ') : null;
+  }
+
+  /** Nodos de un bloque JSON-LD: el objeto o la lista, más los de su @graph */
+  private jsonLdNodes(data: unknown): JsonObject[] {
+    return jsonObjects(data).flatMap((item) => [item, ...jsonObjects(item['@graph'])]);
+  }
+
+  private absoluteUrl(href: unknown, base: string): string | null {
+    if (typeof href !== 'string' || !href.trim()) return null;
+    try {
+      return new URL(href, base).href;
+    } catch {
+      return null;
+    }
+  }
+
   // ════════════════════════════════════════════════════════
   // HELPERS
   // ════════════════════════════════════════════════════════
@@ -726,8 +1501,8 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   private findSubpageLinks(
     $: cheerio.CheerioAPI,
     baseUrl: string,
-  ): Array<{ url: string; type: 'about' | 'contact' | 'history' }> {
-    const links: Array<{ url: string; type: 'about' | 'contact' | 'history' }> = [];
+  ): Array<{ url: string; type: SubpageType }> {
+    const links: Array<{ url: string; type: SubpageType }> = [];
     const seen = new Set<string>();
 
     try {
@@ -746,50 +1521,15 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
           const fullUrl = resolved.origin + resolved.pathname;
           if (seen.has(fullUrl)) return;
 
-          for (const { pattern, type } of this.SUBPAGE_PATTERNS) {
-            if (pattern.test(resolved.pathname)) {
-              seen.add(fullUrl);
-              links.push({ url: fullUrl, type });
-              break;
-            }
+          const type = classifySubpage(resolved.pathname);
+          if (type) {
+            seen.add(fullUrl);
+            links.push({ url: fullUrl, type });
           }
         } catch {
           // URL inválida
         }
       });
-
-      // Si no encontramos /nosotros, probar URLs comunes
-      const aboutTypes = links.filter((l) => l.type === 'about');
-      if (aboutTypes.length === 0) {
-        const commonAbout = ['/nosotros', '/about', '/quienes-somos', '/about-us', '/acerca'];
-        for (const path of commonAbout) {
-          try {
-            const url = new URL(path, baseUrl).href;
-            if (!seen.has(url)) {
-              links.push({ url, type: 'about' });
-              break; // Solo una
-            }
-          } catch {
-            // ignorar
-          }
-        }
-      }
-
-      const contactTypes = links.filter((l) => l.type === 'contact');
-      if (contactTypes.length === 0) {
-        const commonContact = ['/contacto', '/contactanos', '/contact', '/contact-us'];
-        for (const path of commonContact) {
-          try {
-            const url = new URL(path, baseUrl).href;
-            if (!seen.has(url)) {
-              links.push({ url, type: 'contact' });
-              break;
-            }
-          } catch {
-            // ignorar
-          }
-        }
-      }
     } catch {
       // baseUrl inválida
     }
@@ -797,6 +1537,120 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
     return links;
   }
 
+  /**
+   * Orden de visita: una página por tipo según la prioridad de la taxonomía
+   * (links del HTML > sitemap > URL adivinada), luego los links repetidos de un mismo tipo.
+   */
+  private planSubpages(
+    anchors: Array<{ url: string; type: SubpageType }>,
+    fromSitemap: DiscoveredSubpage[],
+    baseUrl: string,
+  ): Array<{ url: string; type: SubpageType; source: 'html' | 'sitemap' | 'guess' }> {
+    const byType = new Map<SubpageType, { url: string; source: 'html' | 'sitemap' | 'guess' }>();
+    const extras: Array<{ url: string; type: SubpageType; source: 'html' }> = [];
+
+    for (const link of anchors) {
+      if (byType.has(link.type)) extras.push({ ...link, source: 'html' });
+      else byType.set(link.type, { url: link.url, source: 'html' });
+    }
+    for (const link of fromSitemap) {
+      if (!byType.has(link.type)) byType.set(link.type, { url: link.url, source: 'sitemap' });
+    }
+
+    // Si no encontramos /nosotros ni /contacto, probar URLs comunes (solo una de cada)
+    const guesses: Array<[SubpageType, string]> = [
+      ['about', '/nosotros'],
+      ['contact', '/contacto'],
+    ];
+    for (const [type, path] of guesses) {
+      if (byType.has(type)) continue;
+      try {
+        byType.set(type, { url: new URL(path, baseUrl).href, source: 'guess' });
+      } catch {
+        // baseUrl inválida
+      }
+    }
+
+    const ordered = SUBPAGE_TYPES.filter((type) => byType.has(type)).map((type) => ({
+      type,
+      ...byType.get(type)!,
+    }));
+    return [...ordered, ...extras];
+  }
+
+  /**
+   * Ítems cortos de la sección que abre un heading: <li> o, en grillas de tarjetas,
+   * los títulos de cada tarjeta. La sección termina en el próximo heading de igual o mayor nivel;
+   * si el heading está envuelto (div.section-title > h2) se usa el <section> que lo contiene.
+   */
+  private sectionItems($: cheerio.CheerioAPI, heading: cheerio.Cheerio<any>): string[] {
+    const level = parseInt(heading.prop('tagName')?.slice(1) ?? '2', 10);
+    const stop = Array.from({ length: level }, (_, i) => `h${i + 1}`).join(', ');
+
+    const collect = (scope: cheerio.Cheerio<any>): string[] => {
+      const all = scope.add(scope.find('*'));
+      let items = all.filter('li');
+      if (items.length === 0) items = all.filter('h3, h4, h5, h6, strong').not(heading);
+      return items
+        .toArray()
+        .map((el) => this.cleanText($(el).text()))
+        .filter((text, i, list) => text.length >= 3 && text.length <= 150 && list.indexOf(text) === i);
+    };
+
+    const following = collect(heading.nextUntil(stop));
+    if (following.length > 0) return following;
+
+    const section = heading.closest('section');
+    return section.length && section.find('li').length <= 40 ? collect(section.children()) : [];
+  }
+
+  private addLeader(
+    profile: CompanyProfile,
+    member: LeadershipMember,
+    source: { page: string; extractor: string; rule: string; snippet?: string; confidence: number },
+  ): void {
+    if (profile.leadership.length >= this.MAX_LEADERSHIP) return;
+
+    const existing = profile.leadership.find((m) => m.name.toLowerCase() === member.name.toLowerCase());
+    if (existing) {
+      // La misma persona en el directorio y en la gerencia: completar lo que falte
+      existing.role = existing.role ?? member.role;
+      existing.photoUrl = existing.photoUrl ?? member.photoUrl;
+      return;
+    }
+
+    profile.leadership.push(member);
+    this.trace(profile, 'leadership', member.name, source);
+  }
+
+  private addBenefit(
+    profile: CompanyProfile,
+    text: string,
+    category: WorkplaceBenefit['category'],
+    source: { page: string; extractor: string; rule: string; snippet?: string; confidence: number },
+  ): void {
+    if (profile.benefits.length >= this.MAX_BENEFITS) return;
+    if (profile.benefits.some((b) => b.text.toLowerCase() === text.toLowerCase())) return;
+
+    profile.benefits.push({ category, text, sourceUrl: source.page });
+    this.trace(profile, 'benefits', text, source);
+  }
+
+  private addStatement(
+    profile: CompanyProfile,
+    topic: CultureStatement['topic'],
+    text: string,
+    source: { page: string; extractor: string; rule: string; snippet?: string; confidence: number },
+  ): void {
+    const sameTopic = profile.cultureStatements.filter((s) => s.topic === topic);
+    if (sameTopic.length >= this.MAX_STATEMENTS_PER_TOPIC) return;
+    // Un párrafo suelto puede ser parte de una sección ya tomada por su heading
+    if (profile.cultureStatements.some((s) => s.text.includes(text) || text.includes(s.text))) return;
+
+    profile.cultureStatements.push({ topic, text, sourceUrl: source.page });
+    this.trace(profile, 'cultureStatements', text, source);
+  }
+
   /**
    * Obtiene el contenido de los hermanos siguientes de un heading.
    */
@@ -822,83 +1676,43 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
   }
 
   /**
-   * Fetch de una página con manejo de redirects y timeouts.
+   * Fetch de una página (el cliente sigue redirects y descomprime).
+   * null si la página no existe o no responde.
    */
-  private fetchPage(url: string, timeoutMs: number): Promise<string | null> {
-    return new Promise((resolve) => {
-      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
-      const isHttps = url.startsWith('https');
-      const client = isHttps ? https : http;
-
-      try {
-        const parsed = new URL(url);
-        const options = {
-          hostname: parsed.hostname,
-          port: parsed.port,
-          path: parsed.pathname + parsed.search,
-          method: 'GET',
-          headers: {
-            'User-Agent': ua,
-            Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-            'Accept-Language': 'es-PE,es;q=0.9,en-US;q=0.8,en;q=0.7',
-            'Accept-Encoding': 'identity',
-            'Cache-Control': 'no-cache',
-            Pragma: 'no-cache',
-            Connection: 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-            'Sec-Fetch-Dest': 'document',
-            'Sec-Fetch-Mode': 'navigate',
-            'Sec-Fetch-Site': 'none',
-            'Sec-Fetch-User': '?1',
-            'Sec-CH-UA': '"Chromium";v="120", "Google Chrome";v="120", "Not_A Brand";v="8"',
-            'Sec-CH-UA-Mobile': '?0',
-            'Sec-CH-UA-Platform': '"Linux"',
-          },
-          ...(isHttps ? { rejectUnauthorized: false } : {}),
-        };
-
-        const req = client.request(options, (res) => {
-          // Follow redirects (up to 3)
-          if (res.statusCode && res.statusCode >= 300 && res.statusCode < 400 && res.headers.location) {
-            const redirectUrl = new URL(res.headers.location, url).href;
-            this.logger.debug(`   ↪ Redirect: ${redirectUrl}`);
-            // Consume the response
-            res.resume();
-            this.fetchPage(redirectUrl, timeoutMs - 2000).then(resolve);
-            return;
-          }
-
-          if (res.statusCode && res.statusCode >= 400) {
-            this.logger.debug(`   ⚠️  HTTP ${res.statusCode} para ${url}`);
-            res.resume();
-            resolve(null);
-            return;
-          }
-
-          let data = '';
-          res.on('data', (chunk) => (data += chunk));
-          res.on('end', () => resolve(data));
-          res.on('error', () => resolve(null));
-        });
-
-        req.on('error', (err) => {
-          this.logger.debug(`   ⚠️  Request error: ${err.message}`);
-          resolve(null);
-        });
-
-        req.setTimeout(timeoutMs, () => {
-          req.destroy();
-          resolve(null);
-        });
+  private async fetchPage(url: string, timeoutMs: number): Promise<string | null> {
+    try {
+      const response = await this.egress.request('scraper', {
+        url,
+        timeoutMs,
+        // Muchas webs corporativas peruanas tienen certificados vencidos o incompletos
+        insecureTls: true,
+        headers: {
+          Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+          'Cache-Control': 'no-cache',
+          Pragma: 'no-cache',
+          'Upgrade-Insecure-Requests': '1',
+          'Sec-Fetch-Dest': 'document',
+          'Sec-Fetch-Mode': 'navigate',
+          'Sec-Fetch-Site': 'none',
+          'Sec-Fetch-User': '?1',
+          'Sec-CH-UA': '"Chromium";v="120", "Google Chrome";v="120", "Not_A Brand";v="8"',
+          'Sec-CH-UA-Mobile': '?0',
+          'Sec-CH-UA-Platform': '"Linux"',
+        },
+      });
 
-        req.end();
-      } catch {
-        resolve(null);
+      if (response.status >= 400) {
+        this.logger.debug(`   ⚠️  HTTP ${response.status} para ${url}`);
+        return null;
       }
-    });
+      return response.body;
+    } catch (err) {
+      this.logger.debug(`   ⚠️  Request error: ${(err as Error).message}`);
+      return null;
+    }
   }
 
-  private categoriseSocialLink(url: string, profile: CompanyProfile): void {
+  private categoriseSocialLink(url: string, profile: CompanyProfile, page: string): void {
     const socialMap: Record<string, string> = {
       'facebook.com': 'facebook', 'fb.com': 'facebook',
       'twitter.com': 'twitter', 'x.com': 'twitter',
@@ -910,6 +1724,13 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
       for (const [domain, name] of Object.entries(socialMap)) {
         if (host.includes(domain) && !profile.socialLinks[name]) {
           profile.socialLinks[name] = url;
+          this.trace(profile, 'socialLinks', url, {
+            page,
+            extractor: 'extractJsonLd',
+            rule: 'json-ld sameAs',
+            snippet: `${name}: ${url}`,
+            confidence: 0.9,
+          });
         }
       }
     } catch {
@@ -917,14 +1738,46 @@ export class CheerioScraperAdapter implements WebsiteScraperPort {
     }
   }
 
+  /**
+   * Registra la procedencia de un campo recién asignado.
+   */
+  private trace(
+    profile: CompanyProfile,
+    field: ProfileField,
+    value: unknown,
+    source: { page: string; extractor: string; rule: string; snippet?: string; confidence: number },
+  ): void {
+    profile.track(field, {
+      value: String(value),
+      sourceUrl: source.page,
+      extractor: source.extractor,
+      rule: source.rule,
+      snippet: this.cleanText(source.snippet ?? String(value)),
+      confidence: source.confidence,
+    });
+  }
+
+  /**
+   * Texto alrededor de un match (sin tags HTML) para el snippet de procedencia.
+   */
+  private snippetAround(text: string, needle: string, radius = 60): string {
+    const idx = text.indexOf(needle);
+    if (idx < 0) return needle;
+    const start = Math.max(0, idx - radius);
+    const end = Math.min(text.length, idx + needle.length + radius);
+    return this.cleanText(
+      text
+        .slice(start, end)
+        .replace(/^[^<>]*>/, ' ') // tag cortado al inicio
+        .replace(/<[^>]*$/, ' ') // tag cortado al final
+        .replace(/<[^>]*>/g, ' '),
+    );
+  }
+
   private cleanText(text: string): string {
     return text
       .replace(/\s+/g, ' ')
       .replace(/\n\s*\n/g, '\n')
       .trim();
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((r) => setTimeout(r, ms));
-  }
 }
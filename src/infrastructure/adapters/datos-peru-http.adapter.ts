@@ -1,11 +1,12 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import * as https from 'https';
-import * as http from 'http';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import * as cheerio from 'cheerio';
-import { SocksProxyAgent } from 'socks-proxy-agent';
 import {
   DatosPeruEnrichmentPort,
 } from '../../domain/ports/datos-peru-enrichment.port';
+import { Failure, Result, fail, failureFromError, ok } from '../../domain/entities/result.entity';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { HTTP_CLIENT_PORT, HttpClientPort, HttpRequest } from '../../domain/ports/http-client.port';
 import {
   DatosPeruProfile,
   DatosPeruExecutive,
@@ -14,36 +15,17 @@ import {
   DatosPeruHistoricalCondition,
   DatosPeruHistoricalAddress,
 } from '../../domain/entities/datos-peru-profile.entity';
+import { withHttpFixture } from '../../shared/utils/http-fixtures';
+import { parsePeruAddress, parseUbicacion, resolveUbigeo } from '../../shared/utils/peru-address';
+import { normalizePhones } from '../../shared/utils/phone-number';
+import { isValidRuc } from '../../shared/utils/ruc';
+import { maskProxy, splitProxyCredentials } from '../../shared/utils/proxy-url';
+import { ProxyPool } from '../../application/services/proxy-pool.service';
 
 const BASE_URL = 'https://www.datosperu.org';
 const SEARCH_PATH = '/buscador_empresas.php';
 
-const USER_AGENTS = [
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:121.0) Gecko/20100101 Firefox/121.0',
-];
-
-/** Cipher suites que imitan a Chrome 120 para bypass JA3 fingerprint */
-const CHROME_CIPHERS = [
-  'TLS_AES_128_GCM_SHA256',
-  'TLS_AES_256_GCM_SHA384',
-  'TLS_CHACHA20_POLY1305_SHA256',
-  'ECDHE-ECDSA-AES128-GCM-SHA256',
-  'ECDHE-RSA-AES128-GCM-SHA256',
-  'ECDHE-ECDSA-AES256-GCM-SHA384',
-  'ECDHE-RSA-AES256-GCM-SHA384',
-  'ECDHE-ECDSA-CHACHA20-POLY1305',
-  'ECDHE-RSA-CHACHA20-POLY1305',
-  'ECDHE-RSA-AES128-SHA',
-  'ECDHE-RSA-AES256-SHA',
-  'AES128-GCM-SHA256',
-  'AES256-GCM-SHA384',
-  'AES128-SHA',
-  'AES256-SHA',
-].join(':');
-
-/** SOCKS5 proxies comprobados que pasan Cloudflare */
+/** SOCKS5 proxies comprobados que pasan Cloudflare (semilla del ProxyPool) */
 const SEED_PROXIES: string[] = [
   'socks5h://192.111.134.10:4145',
   'socks5h://192.252.209.158:4145',
@@ -52,165 +34,145 @@ const SEED_PROXIES: string[] = [
   'socks5h://184.178.172.5:15303',
 ];
 
-/** URL de lista SOCKS5 pública para refrescar proxies */
-const PROXY_LIST_URL =
-  'https://raw.githubusercontent.com/TheSpeedX/PROXY-List/master/socks5.txt';
+/** Página de desafío de Cloudflare: llega con HTTP 200/403 y tamaño normal, pero sin datos */
+const CLOUDFLARE_CHALLENGE = /<title>\s*(?:Just a moment|Attention Required)|cf-browser-verification|cf_chl_opt/i;
+
+/** HTML real de datosperu.org (no vacío ni desafío de Cloudflare) */
+function isUsablePage(html: string | null): html is string {
+  return !!html && html.length > 1000 && !CLOUDFLARE_CHALLENGE.test(html);
+}
+
+/** El intento falló por el proxy (sin respuesta, 403/429 o desafío), no por datosperu.org */
+function isProxyFault(result: { html: string | null; status: number }): boolean {
+  return (
+    result.status === 0 ||
+    result.status === 403 ||
+    result.status === 429 ||
+    (!!result.html && CLOUDFLARE_CHALLENGE.test(result.html))
+  );
+}
+
+/** Qué pasó en los intentos de una descarga (para distinguir bloqueo de red caída) */
+interface FetchTrace {
+  /** Algún intento recibió el desafío de Cloudflare o un 403/429 */
+  challenged: boolean;
+}
 
 @Injectable()
 export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleInit {
   private readonly logger = new Logger(DatosPeruHttpAdapter.name);
 
   /** Modo directo: intenta primero sin proxy (IP residencial) */
-  private readonly directMode = process.env.DATOSPERU_DIRECT === 'true';
+  private readonly directMode: boolean;
 
-  /** Pool de proxies activos (socks5h://host:port) */
-  private proxies: string[] = [...SEED_PROXIES];
-  /** Índice round-robin */
-  private proxyIdx = 0;
   /** Cuántos reintentos por request */
   private readonly MAX_RETRIES = 3;
+  /** User agents para curl (el cliente HTTP rota los suyos) */
+  private readonly userAgents: string[];
+
+  constructor(
+    private config: ConfigService,
+    @Inject(HTTP_CLIENT_PORT) private readonly http: HttpClientPort,
+    private readonly pool: ProxyPool,
+  ) {
+    this.directMode = this.config.get<boolean>('scraper.datosPeru.direct', false);
+    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
+    ]);
+  }
 
   // ════════════════════════════════════════════════════════
   //  LIFECYCLE
   // ════════════════════════════════════════════════════════
 
   async onModuleInit(): Promise<void> {
+    await this.pool.add(SEED_PROXIES, 'seed');
     if (this.directMode) {
       this.logger.log(`[DatosPeru] 🏠 Modo DIRECTO — IP residencial primero, proxies como fallback`);
       return; // No necesita refrescar proxies al inicio
     }
-    this.logger.log(`[DatosPeru] Inicializando con ${this.proxies.length} proxies seed`);
+    this.logger.log(`[DatosPeru] Inicializando con ${this.pool.availableCount()} proxies disponibles`);
     // Refrescar proxies en background (no bloquea startup)
-    this.refreshProxies().catch(() => {});
+    this.pool.refresh().catch(() => {});
   }
 
   // ════════════════════════════════════════════════════════
   //  PUBLIC API
   // ════════════════════════════════════════════════════════
 
-  async enrich(ruc: string): Promise<DatosPeruProfile | null> {
+  async enrich(ruc: string): Promise<Result<DatosPeruProfile>> {
     const start = Date.now();
     this.logger.log(`[DatosPeru] Enriqueciendo RUC ${ruc}`);
 
+    if (!isValidRuc(ruc)) {
+      return fail(FailureCode.INVALID_INPUT, `RUC inválido: "${ruc}"`);
+    }
+
     try {
       // Paso 1: Buscar URL de la empresa por RUC
-      const companyPath = await this.searchByRuc(ruc);
+      const searchFetch: FetchTrace = { challenged: false };
+      const searchHtml = await this.searchByRuc(ruc, searchFetch);
+      if (!searchHtml) {
+        this.logger.warn(`[DatosPeru] Buscador inaccesible para RUC ${ruc}`);
+        return this.fetchFailure('el buscador', searchFetch);
+      }
+
+      const companyPath = this.findCompanyPath(searchHtml, ruc);
       if (!companyPath) {
         this.logger.warn(`[DatosPeru] No se encontró empresa para RUC ${ruc}`);
-        return null;
+        return fail(FailureCode.NOT_FOUND, `datosperu.org no tiene empresa con RUC ${ruc}`);
       }
 
       const companyUrl = `${BASE_URL}/${companyPath}`;
       this.logger.log(`[DatosPeru] URL encontrada: ${companyUrl}`);
 
       // Paso 2: Descargar página de la empresa
-      const html = await this.fetchPage(companyUrl);
+      const pageFetch: FetchTrace = { challenged: false };
+      const html = await this.fetchPage(companyUrl, pageFetch);
       if (!html) {
         this.logger.warn(`[DatosPeru] No se pudo descargar ${companyUrl}`);
-        return null;
+        return this.fetchFailure(companyUrl, pageFetch);
       }
 
       // Paso 3: Parsear HTML y extraer datos
-      const profile = this.parseCompanyPage(html, ruc, companyUrl);
+      let profile: DatosPeruProfile;
+      try {
+        profile = this.parseCompanyPage(html, ruc, companyUrl);
+      } catch (err) {
+        this.logger.error(`[DatosPeru] Error parseando ${companyUrl}: ${(err as Error).message}`);
+        return fail(FailureCode.PARSE_ERROR, `Error parseando ${companyUrl}: ${(err as Error).message}`);
+      }
       profile.durationMs = Date.now() - start;
       profile.scrapedAt = new Date();
 
+      if (profile.fieldsExtracted === 0) {
+        this.logger.warn(`[DatosPeru] Ficha sin datos reconocibles: ${companyUrl}`);
+        return fail(FailureCode.PARSE_ERROR, `La ficha ${companyUrl} no tiene datos reconocibles`);
+      }
+
       this.logger.log(
         `[DatosPeru] ✅ ${profile.summary} (${profile.durationMs}ms)`,
       );
 
-      return profile;
+      return ok(profile);
     } catch (err) {
       this.logger.error(
         `[DatosPeru] Error enriqueciendo RUC ${ruc}: ${(err as Error).message}`,
       );
-      return null;
+      return { ok: false, error: failureFromError(err) };
     }
   }
 
-  // ════════════════════════════════════════════════════════
-  //  PROXY MANAGEMENT
-  // ════════════════════════════════════════════════════════
-
-  /** Obtiene un proxy SOCKS5 del pool (round-robin) */
-  private nextProxy(): string {
-    const proxy = this.proxies[this.proxyIdx % this.proxies.length];
-    this.proxyIdx++;
-    return proxy;
-  }
-
-  /** Crea un SocksProxyAgent para el proxy dado */
-  private makeAgent(proxyUrl: string): SocksProxyAgent {
-    return new SocksProxyAgent(proxyUrl);
-  }
-
-  /** Refresca la lista de proxies desde GitHub */
-  private async refreshProxies(): Promise<void> {
-    try {
-      const body = await this.fetchRaw(PROXY_LIST_URL, 10000);
-      if (!body) return;
-
-      const lines = body
-        .split('\n')
-        .map((l) => l.trim())
-        .filter((l) => /^\d+\.\d+\.\d+\.\d+:\d+$/.test(l))
-        .slice(0, 60); // limitar para no testear demasiados
-
-      if (lines.length === 0) return;
-
-      this.logger.log(`[DatosPeru] Testeando ${lines.length} proxies SOCKS5...`);
-
-      // Testear en paralelo con timeout corto
-      const working: string[] = [];
-      const testUrl = `${BASE_URL}${SEARCH_PATH}?buscar=20100047218`;
-
-      const promises = lines.map(async (line) => {
-        const proxyUrl = `socks5h://${line}`;
-        try {
-          const agent = this.makeAgent(proxyUrl);
-          const result = await this.httpGet(testUrl, agent, 8000);
-          if (result.html && result.html.length > 5000 && result.html.includes('datosperu')) {
-            working.push(proxyUrl);
-          }
-        } catch {
-          // ignore
-        }
-      });
-
-      await Promise.allSettled(promises);
-
-      if (working.length > 0) {
-        this.proxies = working;
-        this.proxyIdx = 0;
-        this.logger.log(
-          `[DatosPeru] ✅ ${working.length} proxies funcionales encontrados`,
-        );
-      } else {
-        this.logger.warn(
-          `[DatosPeru] No se encontraron proxies nuevos, manteniendo ${this.proxies.length} seed`,
-        );
-      }
-    } catch (err) {
-      this.logger.warn(
-        `[DatosPeru] Error refrescando proxies: ${(err as Error).message}`,
-      );
-    }
+  /** Una consulta simultánea por proxy disponible (en modo directo también rotan como fallback) */
+  maxConcurrency(): number {
+    return Math.max(1, this.pool.availableCount());
   }
 
-  /** GET plain (sin proxy) para obtener la lista de proxies */
-  private fetchRaw(url: string, timeoutMs: number): Promise<string | null> {
-    return new Promise((resolve) => {
-      const proto = url.startsWith('https') ? https : http;
-      const req = proto.request(url, { method: 'GET' }, (res) => {
-        if (res.statusCode !== 200) { resolve(null); return; }
-        const chunks: Buffer[] = [];
-        res.on('data', (c: Buffer) => chunks.push(c));
-        res.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
-      });
-      req.on('error', () => resolve(null));
-      req.setTimeout(timeoutMs, () => { req.destroy(); resolve(null); });
-      req.end();
-    });
+  /** Descarga fallida: blocked si algún intento vio el desafío de Cloudflare; si no, red/proxies */
+  private fetchFailure(target: string, trace: FetchTrace): { ok: false; error: Failure } {
+    return trace.challenged
+      ? fail(FailureCode.BLOCKED, `Cloudflare bloqueó ${target} en todos los intentos`)
+      : fail(FailureCode.UPSTREAM_ERROR, `No se pudo descargar ${target}: fallaron todos los proxies`);
   }
 
   // ════════════════════════════════════════════════════════
@@ -218,65 +180,33 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
   // ════════════════════════════════════════════════════════
 
   /**
-   * HTTPS GET a través de un proxy SOCKS5.
-   * Reintenta con distintos proxies si falla.
+   * HTTPS GET a través de un proxy SOCKS5, con TLS y headers de Chrome.
+   * Un solo intento: la rotación de proxies la hace getWithProxyRotation.
    */
   private httpGet(
     url: string,
-    agent: SocksProxyAgent,
+    proxyUrl: string,
     timeoutMs = 15000,
   ): Promise<{ html: string | null; status: number; size: number; error?: string }> {
-    return new Promise((resolve) => {
-      const ua = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-      const req = https.request(
-        url,
-        {
-          method: 'GET',
-          agent,
-          rejectUnauthorized: false,
-          ciphers: CHROME_CIPHERS,
-          ecdhCurve: 'X25519:prime256v1:secp384r1',
-          minVersion: 'TLSv1.2' as any,
-          headers: {
-            'User-Agent': ua,
-            Accept:
-              'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-            'Accept-Language': 'es-PE,es;q=0.9,en-US;q=0.8,en;q=0.7',
-            'Accept-Encoding': 'gzip, deflate, br',
-            'Cache-Control': 'no-cache',
-            Pragma: 'no-cache',
-            'Sec-Ch-Ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
-            'Sec-Ch-Ua-Mobile': '?0',
-            'Sec-Ch-Ua-Platform': '"Windows"',
-            'Sec-Fetch-Dest': 'document',
-            'Sec-Fetch-Mode': 'navigate',
-            'Sec-Fetch-Site': 'none',
-            'Sec-Fetch-User': '?1',
-            'Upgrade-Insecure-Requests': '1',
-            Connection: 'keep-alive',
-          },
-        },
-        (res) => {
-          const chunks: Buffer[] = [];
-          res.on('data', (chunk: Buffer) => chunks.push(chunk));
-          res.on('end', () => {
-            const body = Buffer.concat(chunks).toString('utf-8');
-            resolve({
-              html: res.statusCode === 200 ? body : null,
-              status: res.statusCode ?? 0,
-              size: body.length,
-            });
-          });
-        },
-      );
-      req.on('error', (err) =>
-        resolve({ html: null, status: 0, size: 0, error: err.message }),
-      );
-      req.setTimeout(timeoutMs, () => {
-        req.destroy();
-        resolve({ html: null, status: 0, size: 0, error: 'timeout' });
-      });
-      req.end();
+    return this.get(url, {
+      proxy: proxyUrl,
+      timeoutMs,
+      insecureTls: true,
+      browserTls: true,
+      headers: {
+        Accept:
+          'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+        'Cache-Control': 'no-cache',
+        Pragma: 'no-cache',
+        'Sec-Ch-Ua': '"Not_A Brand";v="8", "Chromium";v="120", "Google Chrome";v="120"',
+        'Sec-Ch-Ua-Mobile': '?0',
+        'Sec-Ch-Ua-Platform': '"Windows"',
+        'Sec-Fetch-Dest': 'document',
+        'Sec-Fetch-Mode': 'navigate',
+        'Sec-Fetch-Site': 'none',
+        'Sec-Fetch-User': '?1',
+        'Upgrade-Insecure-Requests': '1',
+      },
     });
   }
 
@@ -287,43 +217,24 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
     url: string,
     timeoutMs = 15000,
   ): Promise<{ html: string | null; status: number; size: number; error?: string }> {
-    return new Promise((resolve) => {
-      const ua = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
-      const req = https.request(
-        url,
-        {
-          method: 'GET',
-          headers: {
-            'User-Agent': ua,
-            Accept:
-              'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'es-PE,es;q=0.9,en-US;q=0.8,en;q=0.7',
-            'Accept-Encoding': 'identity',
-            Connection: 'keep-alive',
-          },
-        },
-        (res) => {
-          const chunks: Buffer[] = [];
-          res.on('data', (chunk: Buffer) => chunks.push(chunk));
-          res.on('end', () => {
-            const body = Buffer.concat(chunks).toString('utf-8');
-            resolve({
-              html: res.statusCode === 200 ? body : null,
-              status: res.statusCode ?? 0,
-              size: body.length,
-            });
-          });
-        },
-      );
-      req.on('error', (err) =>
-        resolve({ html: null, status: 0, size: 0, error: err.message }),
-      );
-      req.setTimeout(timeoutMs, () => {
-        req.destroy();
-        resolve({ html: null, status: 0, size: 0, error: 'timeout' });
-      });
-      req.end();
-    });
+    return this.get(url, { timeoutMs });
+  }
+
+  /** Un intento vía el cliente HTTP, en el formato que espera la rotación */
+  private async get(
+    url: string,
+    options: Omit<HttpRequest, 'url' | 'retries'>,
+  ): Promise<{ html: string | null; status: number; size: number; error?: string }> {
+    try {
+      const response = await this.http.request({ url, retries: 0, ...options });
+      return {
+        html: response.status === 200 ? response.body : null,
+        status: response.status,
+        size: response.body.length,
+      };
+    } catch (err) {
+      return { html: null, status: 0, size: 0, error: (err as Error).message };
+    }
   }
 
   /**
@@ -334,12 +245,14 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
   private async getWithProxyRotation(
     url: string,
     timeoutMs = 15000,
+    trace: FetchTrace = { challenged: false },
   ): Promise<string | null> {
     // ── Paso 1: Intento directo (si está habilitado) ──
     if (this.directMode) {
       this.logger.debug(`[DatosPeru] GET directo ${url.substring(0, 80)}...`);
       const result = await this.directGet(url, timeoutMs);
-      if (result.html && result.html.length > 1000) {
+      this.traceAttempt(result, trace);
+      if (isUsablePage(result.html)) {
         this.logger.log(
           `[DatosPeru] ✅ Directo OK (HTTP:${result.status}, ${result.size} bytes)`,
         );
@@ -350,26 +263,37 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
       );
     }
 
-    // ── Paso 2: Proxy rotation ──
+    // ── Paso 2: Proxy rotation (el pool elige por salud, sin repetir en esta descarga) ──
+    const tried = new Set<string>();
     for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
-      const proxyUrl = this.nextProxy();
-      const agent = this.makeAgent(proxyUrl);
+      const proxyUrl = await this.pool.next(tried);
+      if (!proxyUrl) break;
+      tried.add(proxyUrl);
 
       this.logger.debug(
-        `[DatosPeru] GET ${url.substring(0, 80)}... via ${proxyUrl} (intento ${attempt + 1})`,
+        `[DatosPeru] GET ${url.substring(0, 80)}... via ${maskProxy(proxyUrl)} (intento ${attempt + 1})`,
       );
 
-      const result = await this.httpGet(url, agent, timeoutMs);
+      const started = Date.now();
+      const result = await this.httpGet(url, proxyUrl, timeoutMs);
+      this.traceAttempt(result, trace);
 
-      if (result.html && result.html.length > 1000) {
+      if (isUsablePage(result.html)) {
+        this.pool.recordSuccess(proxyUrl, Date.now() - started);
         this.logger.log(
-          `[DatosPeru] ✅ Proxy ${proxyUrl} OK (HTTP:${result.status}, ${result.size} bytes)`,
+          `[DatosPeru] ✅ Proxy ${maskProxy(proxyUrl)} OK (HTTP:${result.status}, ${result.size} bytes)`,
         );
         return result.html;
       }
+      // Red caída o bloqueo → culpa del proxy; cualquier otra respuesta es de datosperu.org
+      if (isProxyFault(result)) {
+        this.pool.recordFailure(proxyUrl, result.error ?? `HTTP ${result.status}`);
+      } else {
+        this.pool.recordSuccess(proxyUrl, Date.now() - started);
+      }
 
       this.logger.warn(
-        `[DatosPeru] Proxy ${proxyUrl} falló: HTTP:${result.status} SIZE:${result.size}${result.error ? ' ERR:' + result.error : ''} — rotando...`,
+        `[DatosPeru] Proxy ${maskProxy(proxyUrl)} falló: HTTP:${result.status} SIZE:${result.size}${result.error ? ' ERR:' + result.error : ''} — rotando...`,
       );
     }
 
@@ -390,13 +314,21 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
     return null;
   }
 
+  private traceAttempt(result: { html: string | null; status: number }, trace: FetchTrace): void {
+    if (result.status === 403 || result.status === 429 || (result.html && CLOUDFLARE_CHALLENGE.test(result.html))) {
+      trace.challenged = true;
+    }
+  }
+
   /**
    * Fallback: ejecutar curl desde shell (diferente TLS fingerprint que Node.js).
    */
-  private curlGet(url: string, timeoutMs = 15000): Promise<string | null> {
+  private async curlGet(url: string, timeoutMs = 15000): Promise<string | null> {
+    // curl tiene otro TLS: sus fallos no cuentan para la salud del proxy
+    const proxy = this.directMode ? null : await this.pool.next();
     return new Promise((resolve) => {
       const { execFile } = require('child_process');
-      const ua = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
+      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
 
       const args = [
         '-s', '-L', '-k',
@@ -406,11 +338,16 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
         '-H', 'Accept-Language: es-PE,es;q=0.9',
       ];
 
-      // En modo proxy, añadir SOCKS5 proxy
-      if (!this.directMode && this.proxies.length > 0) {
-        const proxyUrl = this.proxies[this.proxyIdx % this.proxies.length]
-          .replace('socks5h://', '');
-        args.push('--socks5-hostname', proxyUrl);
+      // En modo proxy, añadir el proxy (curl entiende http(s)://, socks4:// y socks5h://).
+      // user:pass va por stdin (-K -): en los argumentos se vería en `ps` y en el mensaje de error
+      let curlConfig = '';
+      if (proxy) {
+        const { proxy: proxyHost, credentials } = splitProxyCredentials(proxy);
+        args.push('--proxy', proxyHost);
+        if (credentials) {
+          args.push('-K', '-');
+          curlConfig = `proxy-user = "${credentials.replace(/["\\]/g, '\\$&')}"\n`;
+        }
       }
 
       args.push(url);
@@ -419,8 +356,8 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
         `[DatosPeru] curl ${this.directMode ? 'directo' : 'via proxy'}: ${url.substring(0, 80)}...`,
       );
 
-      execFile('curl', args, { maxBuffer: 1024 * 1024 }, (err: any, stdout: string) => {
-        if (err || !stdout || stdout.length < 1000) {
+      const child = execFile('curl', args, { maxBuffer: 1024 * 1024 }, (err: any, stdout: string) => {
+        if (err || !isUsablePage(stdout)) {
           this.logger.warn(
             `[DatosPeru] curl fallback falló: ${err?.message || 'empty'} (${stdout?.length || 0} bytes)`,
           );
@@ -430,6 +367,7 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
           resolve(stdout);
         }
       });
+      child.stdin?.end(curlConfig);
     });
   }
 
@@ -441,7 +379,7 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
   private curlDirectGet(url: string, timeoutMs = 15000): Promise<string | null> {
     return new Promise((resolve) => {
       const { execFile } = require('child_process');
-      const ua = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)];
+      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
 
       const args = [
         '-s', '-L', '-k',
@@ -457,7 +395,7 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
       );
 
       execFile('curl', args, { maxBuffer: 1024 * 1024 }, (err: any, stdout: string) => {
-        if (err || !stdout || stdout.length < 1000) {
+        if (err || !isUsablePage(stdout)) {
           this.logger.warn(
             `[DatosPeru] curl directo falló: ${err?.message || 'empty'} (${stdout?.length || 0} bytes)`,
           );
@@ -476,19 +414,27 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
 
   /**
    * GET /buscador_empresas.php?buscar={ruc}
-   * Retorna el path relativo de la empresa (ej: "empresa-banco-de-credito-del-peru-20100047218.php")
+   * Retorna el HTML del buscador (null si no se pudo descargar).
    */
-  private async searchByRuc(ruc: string): Promise<string | null> {
+  private async searchByRuc(ruc: string, trace: FetchTrace): Promise<string | null> {
     const url = `${BASE_URL}${SEARCH_PATH}?buscar=${encodeURIComponent(ruc)}`;
-    const html = await this.getWithProxyRotation(url);
-    if (!html) return null;
+    // Fixture sobre toda la cadena: el fallback a curl no pasa por el cliente HTTP
+    return withHttpFixture({ url }, () => this.getWithProxyRotation(url, 15000, trace));
+  }
 
+  /**
+   * Path relativo de la empresa en el buscador (ej: "empresa-banco-de-credito-del-peru-20100047218.php").
+   * null si el buscador no tiene ese RUC.
+   */
+  private findCompanyPath(html: string, ruc: string): string | null {
     // Extraer el primer link que empiece con empresa-...{ruc}.php
     const regex = new RegExp(`href="(empresa-[^"]*${ruc}\\.php)"`, 'i');
     const match = html.match(regex);
     if (match) return match[1];
 
-    // Fallback: cualquier link de empresa
+    // Fallback: cualquier link de empresa, solo si el RUC aparece en los resultados.
+    // Sin resultados el buscador lista otras empresas y el primer link sería de otra
+    if (!html.includes(ruc)) return null;
     const fallback = html.match(/href="(empresa-[^"]+\.php)"/i);
     return fallback ? fallback[1] : null;
   }
@@ -497,8 +443,8 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
   //  HTTP — Fetch página completa
   // ════════════════════════════════════════════════════════
 
-  private async fetchPage(url: string): Promise<string | null> {
-    return this.getWithProxyRotation(url, 20000);
+  private async fetchPage(url: string, trace: FetchTrace): Promise<string | null> {
+    return withHttpFixture({ url }, () => this.getWithProxyRotation(url, 20000, trace));
   }
 
   // ════════════════════════════════════════════════════════
@@ -540,6 +486,17 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
     // ── Logo ──
     this.parseLogo($, profile);
 
+    // ── Teléfonos E.164, ubigeo y dirección normalizada ──
+    profile.telefonosNormalizados = normalizePhones(profile.telefonos);
+    profile.ubigeo = resolveUbigeo({
+      department: profile.departamento,
+      province: profile.provincia,
+      district: profile.distrito,
+    });
+    if (profile.direccion) {
+      profile.direccionNormalizada = parsePeruAddress(profile.direccion, profile.ubigeo);
+    }
+
     return profile;
   }
 
@@ -767,9 +724,11 @@ export class DatosPeruHttpAdapter implements DatosPeruEnrichmentPort, OnModuleIn
 
     if (!direccion) return null;
 
+    const location = ubicacion && ubicacion !== '-  -' ? ubicacion : null;
     return {
       direccion,
-      ubicacion: ubicacion && ubicacion !== '-  -' ? ubicacion : null,
+      ubicacion: location,
+      direccionNormalizada: parsePeruAddress(direccion, parseUbicacion(location)),
     };
   }
 
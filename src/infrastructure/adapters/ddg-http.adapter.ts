@@ -1,10 +1,12 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as https from 'https';
 import { SearchEnginePort } from '../../domain/ports/search-engine.port';
+import { EgressService } from '../../application/services/egress.service';
+import { SearchEngine } from '../../application/services/search-engine-registry.service';
 import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
 import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
 import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { Result, fail, failureFromError, ok } from '../../domain/entities/result.entity';
 import { cleanCompanyName, generateSearchVariants } from '../../shared/utils/company-name-cleaner';
 import { rankResults } from '../../shared/utils/url-scorer';
 
@@ -15,21 +17,21 @@ import { rankResults } from '../../shared/utils/url-scorer';
  * No necesita navegador. ~1-2s por búsqueda.
  */
 @Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 10,
+  delay: { min: 2000, max: 5000 },
+  limits: { maxPerSession: 200 },
+  configKey: 'ddgHttp',
+})
 export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   readonly strategy = SearchStrategy.DDG_HTTP;
   private readonly logger = new Logger(DdgHttpAdapter.name);
   private status: StrategyStatus;
-  private userAgents: string[];
 
-  constructor(private config: ConfigService) {
-    const maxPerSession = this.config.get<number>('scraper.limits.ddgHttp', 200);
-    this.status = new StrategyStatus({
-      strategy: SearchStrategy.DDG_HTTP,
-      maxPerSession,
-    });
-    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
-    ]);
+  constructor(private readonly egress: EgressService) {
+    // maxPerSession lo aplica el registro (@SearchEngine limits / scraper.limits.ddgHttp)
+    this.status = new StrategyStatus({ strategy: SearchStrategy.DDG_HTTP });
   }
 
   async onModuleDestroy(): Promise<void> {
@@ -37,7 +39,7 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  async search(companyName: string, _ruc?: string): Promise<SearchResult | null> {
+  async search(companyName: string, _ruc?: string): Promise<Result<SearchResult>> {
     const startTime = Date.now();
     const cleanName = cleanCompanyName(companyName);
     const variants = generateSearchVariants(companyName);
@@ -71,13 +73,17 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
     try {
       let rawResults: Array<{ url: string; title: string }> = [];
+      let blockedQueries = 0;
+      let sentQueries = 0;
 
       for (let i = 0; i < queries.length; i++) {
         const query = queries[i];
         this.logger.log(`[DDG HTTP] Query ${i + 1}/${queries.length}: ${query}`);
 
         if (i > 0) await this.sleep(2000);
-        const html = await this.fetchDDGHTML(query);
+        const { html, blocked } = await this.fetchDDGHTML(query);
+        sentQueries++;
+        if (blocked) blockedQueries++;
         const parsed = this.parseDDGResults(html);
 
         if (parsed.length > 0) {
@@ -110,8 +116,13 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
       if (ranked.length === 0) {
         this.status.recordUse(false, elapsed);
+        // Todas las queries cayeron en la página anti-bot: no es que no exista
+        if (blockedQueries === sentQueries) {
+          this.logger.warn(`[DDG HTTP] Bloqueado (anti-bot) buscando "${companyName}"`);
+          return fail(FailureCode.BLOCKED, `DDG devolvió la página anti-bot en ${sentQueries} queries`);
+        }
         this.logger.warn(`[DDG HTTP] Sin resultados para "${companyName}"`);
-        return null;
+        return fail(FailureCode.NOT_FOUND, `DDG sin resultados para "${companyName}"`);
       }
 
       const best = ranked[0];
@@ -119,7 +130,7 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
 
       this.logger.log(`[DDG HTTP] ✅ ${best.url} (score: ${best.score}, ${elapsed}ms)`);
 
-      return new SearchResult({
+      return ok(new SearchResult({
         company: companyName,
         cleanName,
         website: best.url,
@@ -129,12 +140,12 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
         allResults: ranked.slice(0, 5).map(
           (r) => new SearchResultItem(r.url, r.title, r.score),
         ),
-      });
+      }));
     } catch (error) {
       const elapsed = Date.now() - startTime;
       this.status.recordUse(false, elapsed);
       this.logger.error(`[DDG HTTP] Error: ${(error as Error).message}`);
-      return null;
+      return { ok: false, error: failureFromError(error) };
     }
   }
 
@@ -158,40 +169,20 @@ export class DdgHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   // Internals
   // ──────────────────────────────────────────────────────────
 
-  private fetchDDGHTML(query: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const postData = `q=${encodeURIComponent(query)}`;
-      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
-
-      const options: https.RequestOptions = {
-        hostname: 'html.duckduckgo.com',
-        path: '/html/',
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Content-Length': Buffer.byteLength(postData),
-          'User-Agent': ua,
-          Accept: 'text/html,application/xhtml+xml',
-          'Accept-Language': 'es-PE,es;q=0.9',
-          Referer: 'https://duckduckgo.com/',
-        },
-      };
-
-      const req = https.request(options, (res) => {
-        let data = '';
-        res.on('data', (chunk) => (data += chunk));
-        res.on('end', () => resolve(data));
-      });
-
-      req.on('error', reject);
-      req.setTimeout(15000, () => {
-        req.destroy();
-        reject(new Error('Timeout DDG HTTP'));
-      });
-
-      req.write(postData);
-      req.end();
+  private async fetchDDGHTML(query: string): Promise<{ html: string; blocked: boolean }> {
+    const response = await this.egress.request('ddgHttp', {
+      url: 'https://html.duckduckgo.com/html/',
+      method: 'POST',
+      body: `q=${encodeURIComponent(query)}`,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'text/html,application/xhtml+xml',
+        'Accept-Language': 'es-PE,es;q=0.9',
+        Referer: 'https://duckduckgo.com/',
+      },
     });
+    // 202 = página anti-bot de DDG: se parsea igual (0 resultados) y se pasa a la siguiente query
+    return { html: response.body, blocked: response.status === 202 || response.status === 403 };
   }
 
   private parseDDGResults(html: string): Array<{ url: string; title: string }> {
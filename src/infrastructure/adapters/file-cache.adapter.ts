@@ -0,0 +1,85 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ResultCachePort, CacheEntry } from '../../domain/ports/result-cache.port';
+
+/**
+ * Caché persistente en disco: un archivo JSON por clave (nombre = sha1 de la clave).
+ * Sobrevive reinicios — útil para no gastar el presupuesto de DDG/Bing
+ * en empresas ya resueltas en corridas anteriores.
+ */
+@Injectable()
+export class FileCacheAdapter implements ResultCachePort {
+  private readonly logger = new Logger(FileCacheAdapter.name);
+  private readonly dir: string;
+
+  constructor(private config: ConfigService) {
+    this.dir = path.resolve(this.config.get<string>('scraper.cache.dir', './data/cache'));
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const file = this.fileFor(key);
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    try {
+      const stored = JSON.parse(raw) as {
+        key: string;
+        value: unknown;
+        storedAt: string;
+        expiresAt: string;
+      };
+      const expiresAt = new Date(stored.expiresAt);
+      if (expiresAt.getTime() <= Date.now()) {
+        await this.delete(key);
+        return null;
+      }
+      return {
+        key: stored.key,
+        value: stored.value,
+        storedAt: new Date(stored.storedAt),
+        expiresAt,
+      };
+    } catch (err) {
+      this.logger.warn(`Entrada de caché ilegible (${key}): ${(err as Error).message}`);
+      await this.delete(key);
+      return null;
+    }
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const now = Date.now();
+    const file = this.fileFor(key);
+    // tmp propio por escritura: dos set() de la misma clave no se pisan el archivo
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(
+      tmp,
+      JSON.stringify({
+        key,
+        value,
+        storedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs).toISOString(),
+      }),
+      'utf-8',
+    );
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private fileFor(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { JobStorePort } from '../../domain/ports/job-store.port';
+import { SearchJob, SearchJobSnapshot } from '../../domain/entities/search-job.entity';
+
+/**
+ * Almacenamiento de jobs en disco: un archivo JSON por job.
+ *
+ * Escritura atómica (tmp + rename) para que un reinicio a mitad
+ * de escritura no deje un job corrupto. Las escrituras de un mismo job
+ * van en cola (el worker y un cancel pueden guardarlo a la vez) y cada
+ * una usa su propio tmp.
+ */
+@Injectable()
+export class FileJobStoreAdapter implements JobStorePort {
+  private readonly logger = new Logger(FileJobStoreAdapter.name);
+  private readonly dir: string;
+  /** Última escritura en curso por job */
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(private config: ConfigService) {
+    this.dir = path.resolve(this.config.get<string>('scraper.jobs.dir', './data/jobs'));
+  }
+
+  save(job: SearchJob): Promise<void> {
+    const previous = this.writes.get(job.id) ?? Promise.resolve();
+    // El snapshot se toma al llegar el turno: el último save escribe el último estado
+    const write = previous.catch(() => undefined).then(() => this.write(job));
+    this.writes.set(job.id, write);
+    void write
+      .catch(() => undefined)
+      .finally(() => {
+        if (this.writes.get(job.id) === write) this.writes.delete(job.id);
+      });
+    return write;
+  }
+
+  async findById(id: string): Promise<SearchJob | null> {
+    // Evitar path traversal: solo ids simples
+    if (!/^[\w-]+$/.test(id)) return null;
+    return this.readJob(this.fileFor(id));
+  }
+
+  async findAll(): Promise<SearchJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const jobs: SearchJob[] = [];
+    for (const f of files) {
+      if (!f.endsWith('.json')) continue;
+      const job = await this.readJob(path.join(this.dir, f));
+      if (job) jobs.push(job);
+    }
+    return jobs.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private async write(job: SearchJob): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(job.id);
+    const tmp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(job.toSnapshot()), 'utf-8');
+      await fs.rename(tmp, file);
+    } catch (err) {
+      await fs.rm(tmp, { force: true });
+      throw err;
+    }
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async readJob(file: string): Promise<SearchJob | null> {
+    try {
+      const raw = await fs.readFile(file, 'utf-8');
+      return SearchJob.fromSnapshot(JSON.parse(raw) as SearchJobSnapshot);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Job ilegible ${file}: ${(err as Error).message}`);
+      }
+      return null;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ProxyPoolStorePort } from '../../domain/ports/proxy-pool-store.port';
+import { ProxyHealthSnapshot } from '../../domain/entities/proxy-health.entity';
+
+/**
+ * Almacenamiento del pool de proxies en disco: un único archivo JSON.
+ *
+ * Escritura atómica (tmp + rename), igual que los jobs.
+ * ProxyPool ya entrega las URLs sin credenciales (redactProxy).
+ */
+@Injectable()
+export class FileProxyPoolStoreAdapter implements ProxyPoolStorePort {
+  private readonly logger = new Logger(FileProxyPoolStoreAdapter.name);
+  private readonly file: string;
+
+  constructor(private config: ConfigService) {
+    this.file = path.resolve(this.config.get<string>('scraper.proxyPool.file', './data/proxy-pool.json'));
+  }
+
+  async load(): Promise<ProxyHealthSnapshot[]> {
+    try {
+      const raw = await fs.readFile(this.file, 'utf-8');
+      const parsed = JSON.parse(raw) as { proxies?: ProxyHealthSnapshot[] };
+      return Array.isArray(parsed.proxies) ? parsed.proxies : [];
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`Pool de proxies ilegible ${this.file}: ${(err as Error).message}`);
+      }
+      return [];
+    }
+  }
+
+  async save(proxies: ProxyHealthSnapshot[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify({ savedAt: new Date().toISOString(), proxies }), 'utf-8');
+    await fs.rename(tmp, this.file);
+  }
+}
@@ -0,0 +1,203 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SearchEnginePort } from '../../domain/ports/search-engine.port';
+import { HTTP_CLIENT_PORT, HttpClientPort } from '../../domain/ports/http-client.port';
+import { SearchEngine } from '../../application/services/search-engine-registry.service';
+import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
+import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { FailureError, Result, fail, failureFromError, ok } from '../../domain/entities/result.entity';
+import { cleanCompanyName, generateSearchVariants } from '../../shared/utils/company-name-cleaner';
+import { rankResults } from '../../shared/utils/url-scorer';
+
+/** Forma (parcial) de la respuesta de la Custom Search JSON API */
+interface GoogleCseResponse {
+  items?: Array<{ link?: string; title?: string }>;
+  error?: { code?: number; message?: string };
+}
+
+/**
+ * Adaptador Google Programmable Search (Custom Search JSON API).
+ *
+ *   GET https://www.googleapis.com/customsearch/v1?key=...&cx=...&q=...
+ *
+ * API oficial: no hay bloqueos, pero cada query consume cuota
+ * (100/día gratis). Por eso hace como máximo 2 queries por empresa
+ * y se corta en cuanto Google responde 429 (cuota agotada).
+ *
+ * Sin GOOGLE_CSE_API_KEY / GOOGLE_CSE_CX el motor no se registra (ver `requires`).
+ */
+@Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 40,
+  delay: { min: 500, max: 1500 },
+  limits: { maxPerSession: 50 },
+  configKey: 'googleCseApi',
+  requires: ['scraper.googleCse.apiKey', 'scraper.googleCse.cx'],
+})
+export class GoogleCseApiAdapter implements SearchEnginePort, OnModuleDestroy {
+  readonly strategy = SearchStrategy.GOOGLE_CSE_API;
+  private readonly logger = new Logger(GoogleCseApiAdapter.name);
+  private status: StrategyStatus;
+  private readonly apiKey: string;
+  private readonly cx: string;
+  private readonly baseUrl: string;
+
+  constructor(
+    private config: ConfigService,
+    @Inject(HTTP_CLIENT_PORT) private readonly http: HttpClientPort,
+  ) {
+    // maxPerSession lo aplica el registro (@SearchEngine limits / scraper.limits.googleCseApi)
+    this.status = new StrategyStatus({ strategy: SearchStrategy.GOOGLE_CSE_API });
+    this.apiKey = this.config.get<string>('scraper.googleCse.apiKey', '');
+    this.cx = this.config.get<string>('scraper.googleCse.cx', '');
+    this.baseUrl = this.config.get<string>(
+      'scraper.googleCse.url',
+      'https://www.googleapis.com/customsearch/v1',
+    );
+    this.status.available = this.isConfigured;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.dispose();
+  }
+
+  async search(companyName: string): Promise<Result<SearchResult>> {
+    if (!this.isConfigured) {
+      this.logger.warn('[Google CSE] GOOGLE_CSE_API_KEY / GOOGLE_CSE_CX no configurados');
+      return fail(FailureCode.UNAVAILABLE, 'Google CSE no configurado (GOOGLE_CSE_API_KEY / GOOGLE_CSE_CX)');
+    }
+
+    const startTime = Date.now();
+    const cleanName = cleanCompanyName(companyName);
+    const variants = generateSearchVariants(companyName);
+
+    // Cada query cuesta cuota → solo 2: nombre exacto y flexible
+    const queries: string[] = [
+      `"${cleanName}" página web oficial peru`,
+      `${cleanName} peru empresa`,
+    ];
+
+    this.logger.log(`[Google CSE] Buscando: "${companyName}" → cleanName: "${cleanName}"`);
+
+    try {
+      let rawResults: Array<{ url: string; title: string }> = [];
+
+      for (let i = 0; i < queries.length; i++) {
+        const query = queries[i];
+        this.logger.log(`[Google CSE] Query ${i + 1}/${queries.length}: ${query}`);
+
+        const parsed = await this.fetchResults(query);
+        if (parsed.length === 0) continue;
+
+        rawResults = [...rawResults, ...parsed];
+        this.logger.log(`[Google CSE] ✓ ${parsed.length} resultados con query ${i + 1}`);
+
+        const tempRanked = rankResults(rawResults, companyName, variants);
+        if (tempRanked.length > 0 && tempRanked[0].score >= 20) {
+          this.logger.log(`[Google CSE] Score ${tempRanked[0].score} >= 20, suficiente`);
+          break;
+        }
+      }
+
+      const ranked = rankResults(rawResults, companyName, variants);
+      const elapsed = Date.now() - startTime;
+
+      if (ranked.length === 0) {
+        this.status.recordUse(false, elapsed);
+        this.logger.warn(`[Google CSE] Sin resultados para "${companyName}"`);
+        return fail(FailureCode.NOT_FOUND, `Google CSE sin resultados para "${companyName}"`);
+      }
+
+      const best = ranked[0];
+      this.status.recordUse(true, elapsed);
+
+      this.logger.log(`[Google CSE] ✅ ${best.url} (score: ${best.score}, ${elapsed}ms)`);
+
+      return ok(new SearchResult({
+        company: companyName,
+        cleanName,
+        website: best.url,
+        score: best.score,
+        title: best.title,
+        strategy: SearchStrategy.GOOGLE_CSE_API,
+        allResults: ranked.slice(0, 5).map(
+          (r) => new SearchResultItem(r.url, r.title, r.score),
+        ),
+      }));
+    } catch (error) {
+      const elapsed = Date.now() - startTime;
+      this.status.recordUse(false, elapsed);
+      this.logger.error(`[Google CSE] Error: ${(error as Error).message}`);
+      return { ok: false, error: failureFromError(error) };
+    }
+  }
+
+  getStatus(): StrategyStatus {
+    return this.status;
+  }
+
+  isAvailable(): boolean {
+    return this.status.isAvailable;
+  }
+
+  reset(): void {
+    this.status.reset();
+    this.status.available = this.isConfigured;
+  }
+
+  async dispose(): Promise<void> {
+    // No hay recursos que liberar en HTTP puro
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Internals
+  // ──────────────────────────────────────────────────────────
+
+  private get isConfigured(): boolean {
+    return this.apiKey.length > 0 && this.cx.length > 0;
+  }
+
+  private async fetchResults(query: string): Promise<Array<{ url: string; title: string }>> {
+    const url = new URL(this.baseUrl);
+    url.searchParams.set('key', this.apiKey);
+    url.searchParams.set('cx', this.cx);
+    url.searchParams.set('q', query);
+    url.searchParams.set('gl', 'pe');
+    url.searchParams.set('hl', 'es');
+    url.searchParams.set('num', '10');
+
+    const { statusCode, body } = await this.getJson<GoogleCseResponse>(url);
+
+    if (statusCode === 429) {
+      // Cuota diaria agotada → no tiene sentido seguir intentando en esta sesión
+      this.status.usageCount = this.status.maxPerSession;
+      throw new FailureError(FailureCode.UNAVAILABLE, 'Cuota de Google CSE agotada (429)');
+    }
+    if (statusCode !== 200 || body.error) {
+      throw new Error(
+        `Google CSE HTTP ${statusCode}${body.error?.message ? `: ${body.error.message}` : ''}`,
+      );
+    }
+
+    return (body.items ?? [])
+      .filter((r) => typeof r.link === 'string' && /^https?:\/\//.test(r.link))
+      .map((r) => ({ url: r.link as string, title: (r.title ?? '').trim() }));
+  }
+
+  private async getJson<T>(url: URL): Promise<{ statusCode: number; body: T }> {
+    // Sin reintentos: un 429 es cuota agotada, reintentar no sirve
+    const response = await this.http.request({
+      url: url.href,
+      retries: 0,
+      headers: { Accept: 'application/json' },
+    });
+    try {
+      return { statusCode: response.status, body: JSON.parse(response.body) as T };
+    } catch {
+      throw new FailureError(FailureCode.PARSE_ERROR, `Google CSE HTTP ${response.status}: JSON inválido`);
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ResultCachePort, CacheEntry } from '../../domain/ports/result-cache.port';
+
+/**
+ * Caché en memoria del proceso. Se pierde al reiniciar.
+ *
+ * Los valores se guardan serializados (JSON) para que nadie pueda
+ * mutar por accidente una entrada ya cacheada.
+ * Al superar maxEntries se descarta la entrada más antigua.
+ */
+@Injectable()
+export class MemoryCacheAdapter implements ResultCachePort {
+  private readonly entries = new Map<
+    string,
+    { json: string; storedAt: number; expiresAt: number }
+  >();
+  private readonly maxEntries: number;
+
+  constructor(private config: ConfigService) {
+    this.maxEntries = this.config.get<number>('scraper.cache.maxEntries', 5000);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return {
+      key,
+      value: JSON.parse(entry.json),
+      storedAt: new Date(entry.storedAt),
+      expiresAt: new Date(entry.expiresAt),
+    };
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    // Re-insertar para que quede al final del orden de inserción
+    this.entries.delete(key);
+    this.entries.set(key, {
+      json: JSON.stringify(value),
+      storedAt: now,
+      expiresAt: now + ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CompanyRawStorePort,
+  CompanyRawRecord,
+  CompanyRawSource,
+} from '../../domain/ports/company-raw-store.port';
+
+/**
+ * Implementación en memoria de companies_raw.
+ * Misma semántica de upsert que el adaptador Postgres — para desarrollo
+ * local sin base de datos. Se pierde al reiniciar.
+ */
+@Injectable()
+export class MemoryCompanyRawStoreAdapter implements CompanyRawStorePort {
+  private readonly rows = new Map<string, CompanyRawRecord>();
+  private readonly source: string;
+
+  constructor(private config: ConfigService) {
+    this.source = this.config.get<string>('scraper.persistence.source', 'api_scraper');
+  }
+
+  async upsert(
+    ruc: string,
+    key: CompanyRawSource,
+    value: Record<string, unknown>,
+    razonSocial?: string | null,
+  ): Promise<void> {
+    const now = new Date();
+    // Copia JSON: igual que JSONB, no guarda referencias a las entidades
+    const stored = JSON.parse(JSON.stringify(value));
+    const existing = this.rows.get(ruc);
+
+    if (!existing) {
+      this.rows.set(ruc, {
+        ruc,
+        razonSocial: razonSocial ?? null,
+        data: { [key]: stored },
+        source: this.source,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return;
+    }
+
+    existing.data = { ...existing.data, [key]: stored };
+    existing.razonSocial = razonSocial ?? existing.razonSocial;
+    existing.updatedAt = now;
+  }
+
+  async findByRuc(ruc: string): Promise<CompanyRawRecord | null> {
+    const row = this.rows.get(ruc);
+    if (!row) return null;
+    return { ...row, data: JSON.parse(JSON.stringify(row.data)) };
+  }
+}
@@ -0,0 +1,518 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as https from 'https';
+import * as http from 'http';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as zlib from 'zlib';
+import { Duplex, Readable } from 'stream';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import {
+  HttpClientPort,
+  HttpRequest,
+  HttpRequestError,
+  HttpResponse,
+} from '../../domain/ports/http-client.port';
+import {
+  FixtureNotRecordedError,
+  httpFixtureMode,
+  withHttpFixture,
+} from '../../shared/utils/http-fixtures';
+import { ProxyEndpoint, maskProxy, parseProxyUrl } from '../../shared/utils/proxy-url';
+
+/** Cipher suites que imitan a Chrome 120 para bypass JA3 fingerprint */
+const CHROME_CIPHERS = [
+  'TLS_AES_128_GCM_SHA256',
+  'TLS_AES_256_GCM_SHA384',
+  'TLS_CHACHA20_POLY1305_SHA256',
+  'ECDHE-ECDSA-AES128-GCM-SHA256',
+  'ECDHE-RSA-AES128-GCM-SHA256',
+  'ECDHE-ECDSA-AES256-GCM-SHA384',
+  'ECDHE-RSA-AES256-GCM-SHA384',
+  'ECDHE-ECDSA-CHACHA20-POLY1305',
+  'ECDHE-RSA-CHACHA20-POLY1305',
+  'ECDHE-RSA-AES128-SHA',
+  'ECDHE-RSA-AES256-SHA',
+  'AES128-GCM-SHA256',
+  'AES256-GCM-SHA384',
+  'AES128-SHA',
+  'AES256-SHA',
+].join(':');
+
+/** Headers de navegador que van en toda request salvo que el llamador los pise */
+const DEFAULT_HEADERS: Record<string, string> = {
+  Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'es-PE,es;q=0.9,en-US;q=0.8,en;q=0.7',
+  'Accept-Encoding': 'gzip, deflate, br',
+};
+
+/** Status que vale la pena reintentar (rate limit / caída temporal) */
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+
+/** Retry-After por encima de esto no se espera: se devuelve el 429/503 */
+const MAX_RETRY_AFTER_MS = 30000;
+
+/** Espera máxima para que el proxy abra el túnel CONNECT */
+const TUNNEL_TIMEOUT_MS = 15000;
+
+/**
+ * Cliente HTTP compartido (http/https nativo de Node).
+ *
+ * - Redirecciones: 301/302/303 pasan a GET sin body, 307/308 conservan método y body
+ * - Descompresión gzip / deflate / brotli
+ * - Charset: forzado > Content-Type > <meta charset> > utf-8
+ * - Concurrencia máxima por host (cola FIFO)
+ * - Reintentos con backoff exponencial + jitter (respeta Retry-After)
+ * - Proxies http:// / https:// (túnel CONNECT) y SOCKS (socks5h://, socks4://),
+ *   con usuario:contraseña en la URL; agente cacheado por URL
+ * - User-agent rotativo desde scraper.userAgents
+ * - Grabación / reproducción de fixtures (HTTP_FIXTURES)
+ */
+@Injectable()
+export class NodeHttpClientAdapter implements HttpClientPort, OnModuleDestroy {
+  private readonly logger = new Logger(NodeHttpClientAdapter.name);
+  private readonly userAgents: string[];
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly retryBaseMs: number;
+  private readonly maxPerHost: number;
+  private readonly maxBodyBytes: number;
+
+  /** Slots ocupados y cola de espera por host */
+  private readonly hosts = new Map<string, { active: number; queue: Array<() => void> }>();
+  /** Agentes de proxy reutilizables */
+  private readonly agents = new Map<string, http.Agent>();
+
+  constructor(private config: ConfigService) {
+    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
+      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
+    ]);
+    this.timeoutMs = this.config.get<number>('scraper.http.timeoutMs', 15000);
+    this.retries = this.config.get<number>('scraper.http.retries', 2);
+    this.retryBaseMs = this.config.get<number>('scraper.http.retryBaseMs', 500);
+    this.maxPerHost = Math.max(1, this.config.get<number>('scraper.http.maxPerHost', 4));
+    this.maxBodyBytes = this.config.get<number>('scraper.http.maxBodyBytes', 5 * 1024 * 1024);
+  }
+
+  onModuleDestroy(): void {
+    for (const agent of this.agents.values()) agent.destroy();
+    this.agents.clear();
+  }
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    if (httpFixtureMode() === 'off') return this.requestWithRetries(request);
+
+    // Grabación / reproducción: solo se graba el body de respuestas 2xx
+    let live: HttpResponse | undefined;
+    try {
+      const body = await withHttpFixture(
+        { method: request.method, url: request.url, body: request.body },
+        async () => {
+          live = await this.requestWithRetries(request);
+          return live.status >= 200 && live.status < 300 ? live.body : null;
+        },
+      );
+      return live ?? { status: 200, url: request.url, headers: {}, body: body as string };
+    } catch (err) {
+      if (err instanceof FixtureNotRecordedError) {
+        throw new HttpRequestError(err.message, request.url, 'fixture');
+      }
+      throw err;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Reintentos
+  // ──────────────────────────────────────────────────────────
+
+  private async requestWithRetries(request: HttpRequest): Promise<HttpResponse> {
+    const retries = request.retries ?? this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.followRedirects(request);
+        if (attempt >= retries || !RETRY_STATUSES.has(response.status)) return response;
+
+        const waitMs = this.retryDelay(attempt, response.headers['retry-after']);
+        if (waitMs === null) return response;
+
+        this.logger.debug(
+          `↻ HTTP ${response.status} en ${request.url} — reintento ${attempt + 1}/${retries} en ${waitMs}ms`,
+        );
+        await this.sleep(waitMs);
+      } catch (err) {
+        const retriable =
+          err instanceof HttpRequestError && (err.reason === 'timeout' || err.reason === 'network');
+        if (!retriable || attempt >= retries) throw err;
+
+        const waitMs = this.retryDelay(attempt) as number;
+        this.logger.debug(
+          `↻ ${(err as Error).message} — reintento ${attempt + 1}/${retries} en ${waitMs}ms`,
+        );
+        await this.sleep(waitMs);
+      }
+    }
+  }
+
+  /**
+   * Backoff exponencial con jitter: base·2^attempt + [0, base).
+   * Con Retry-After se espera lo que pide el servidor (null si es demasiado).
+   */
+  private retryDelay(attempt: number, retryAfter?: string): number | null {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const ms = Number.isFinite(seconds)
+        ? seconds * 1000
+        : new Date(retryAfter).getTime() - Date.now();
+      if (Number.isFinite(ms) && ms >= 0) return ms <= MAX_RETRY_AFTER_MS ? ms : null;
+    }
+    return this.retryBaseMs * 2 ** attempt + Math.floor(Math.random() * this.retryBaseMs);
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Redirecciones
+  // ──────────────────────────────────────────────────────────
+
+  private async followRedirects(request: HttpRequest): Promise<HttpResponse> {
+    const maxRedirects = request.maxRedirects ?? 5;
+    let current: HttpRequest = request;
+
+    for (let hop = 0; ; hop++) {
+      const response = await this.withHostSlot(current.url, () => this.send(current));
+      const location = response.headers.location;
+
+      if (response.status < 300 || response.status >= 400 || !location || maxRedirects === 0) {
+        return response;
+      }
+      if (hop >= maxRedirects) {
+        throw new HttpRequestError(
+          `Demasiadas redirecciones (${maxRedirects}) desde ${request.url}`,
+          request.url,
+          'redirects',
+        );
+      }
+
+      const nextUrl = new URL(location, current.url).href;
+      this.logger.debug(`   ↪ Redirect ${response.status}: ${nextUrl}`);
+
+      // 301/302/303 → GET sin body (como los navegadores); 307/308 conservan todo
+      const keepMethod = response.status === 307 || response.status === 308;
+      current = keepMethod
+        ? { ...current, url: nextUrl }
+        : {
+            ...current,
+            url: nextUrl,
+            method: current.method === 'HEAD' ? 'HEAD' : 'GET',
+            body: undefined,
+          };
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Concurrencia por host
+  // ──────────────────────────────────────────────────────────
+
+  private async withHostSlot<T>(url: string, task: () => Promise<T>): Promise<T> {
+    let host: string;
+    try {
+      host = new URL(url).host.toLowerCase();
+    } catch {
+      throw new HttpRequestError(`URL inválida: ${url}`, url, 'network');
+    }
+
+    let slot = this.hosts.get(host);
+    if (!slot) {
+      slot = { active: 0, queue: [] };
+      this.hosts.set(host, slot);
+    }
+
+    if (slot.active >= this.maxPerHost) {
+      await new Promise<void>((resolve) => slot!.queue.push(resolve));
+    }
+    slot.active++;
+
+    try {
+      return await task();
+    } finally {
+      slot.active--;
+      const next = slot.queue.shift();
+      if (next) next();
+      else if (slot.active === 0) this.hosts.delete(host);
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Transporte (un solo hop)
+  // ──────────────────────────────────────────────────────────
+
+  private send(request: HttpRequest): Promise<HttpResponse> {
+    const url = new URL(request.url);
+    const isHttps = url.protocol === 'https:';
+    const client = isHttps ? https : http;
+    const method = request.method ?? 'GET';
+    const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+
+    const headers: Record<string, string | number> = {
+      'User-Agent': this.randomUserAgent(),
+      ...DEFAULT_HEADERS,
+      ...request.headers,
+    };
+    if (request.body !== undefined) {
+      headers['Content-Length'] = Buffer.byteLength(request.body);
+    }
+
+    const options: https.RequestOptions = {
+      method,
+      headers,
+      agent: request.proxy ? this.proxyAgent(request.proxy, isHttps) : undefined,
+      ...(isHttps && request.insecureTls ? { rejectUnauthorized: false } : {}),
+      ...(isHttps && request.browserTls
+        ? { ciphers: CHROME_CIPHERS, ecdhCurve: 'X25519:prime256v1:secp384r1', minVersion: 'TLSv1.2' }
+        : {}),
+    };
+
+    return new Promise((resolve, reject) => {
+      const fail = (message: string, reason: HttpRequestError['reason']) =>
+        reject(new HttpRequestError(message, request.url, reason));
+
+      const req = client.request(url, options, (res) => {
+        const status = res.statusCode ?? 0;
+        const responseHeaders = this.flattenHeaders(res.headers);
+        const base = { status, url: request.url, headers: responseHeaders };
+
+        // Redirect o HEAD: el body no interesa
+        if (method === 'HEAD' || (status >= 300 && status < 400 && responseHeaders.location)) {
+          res.resume();
+          resolve({ ...base, body: '' });
+          return;
+        }
+
+        const stream = this.decompress(res, responseHeaders['content-encoding']);
+        const chunks: Buffer[] = [];
+        let size = 0;
+
+        stream.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > this.maxBodyBytes) {
+            req.destroy();
+            fail(`Respuesta supera ${this.maxBodyBytes} bytes: ${request.url}`, 'too_large');
+            return;
+          }
+          chunks.push(chunk);
+        });
+        stream.on('end', () => {
+          const buffer = Buffer.concat(chunks);
+          const charset = request.charset ?? this.detectCharset(responseHeaders['content-type'], buffer);
+          resolve({ ...base, body: this.decode(buffer, charset) });
+        });
+        stream.on('error', (err: Error) => fail(`Error leyendo ${request.url}: ${err.message}`, 'network'));
+      });
+
+      req.on('error', (err) => fail(`${method} ${request.url}: ${err.message}`, 'network'));
+      req.setTimeout(timeoutMs, () => {
+        req.destroy();
+        fail(`Timeout (${timeoutMs}ms) ${method} ${request.url}`, 'timeout');
+      });
+
+      if (request.body !== undefined) req.write(request.body);
+      req.end();
+    });
+  }
+
+  private decompress(res: http.IncomingMessage, encoding?: string): Readable {
+    switch ((encoding || '').trim().toLowerCase()) {
+      case 'gzip':
+      case 'x-gzip':
+        return res.pipe(zlib.createGunzip());
+      case 'deflate':
+        return res.pipe(zlib.createInflate());
+      case 'br':
+        return res.pipe(zlib.createBrotliDecompress());
+      default:
+        return res;
+    }
+  }
+
+  /**
+   * Charset declarado en Content-Type o, si no hay, en los primeros KB del HTML
+   * (<meta charset="..."> o <meta http-equiv="Content-Type" content="...; charset=...">).
+   */
+  private detectCharset(contentType: string | undefined, body: Buffer): string {
+    const fromHeader = /charset=["']?([\w-]+)/i.exec(contentType || '');
+    if (fromHeader) return fromHeader[1];
+
+    const head = body.subarray(0, 4096).toString('latin1');
+    const fromMeta = /<meta[^>]+charset=["']?([\w-]+)/i.exec(head);
+    return fromMeta ? fromMeta[1] : 'utf-8';
+  }
+
+  private decode(buffer: Buffer, charset: string): string {
+    try {
+      return new TextDecoder(charset.toLowerCase()).decode(buffer);
+    } catch {
+      // Charset desconocido para ICU → utf-8
+      return buffer.toString('utf-8');
+    }
+  }
+
+  private flattenHeaders(headers: http.IncomingHttpHeaders): Record<string, string> {
+    const flat: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (value === undefined) continue;
+      flat[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return flat;
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Proxies / user-agent
+  // ──────────────────────────────────────────────────────────
+
+  /**
+   * Agente para salir por `proxyUrl`. Los de túnel CONNECT dependen del
+   * protocolo del destino (TLS sobre el túnel o no), así que se cachean por ambos.
+   */
+  private proxyAgent(proxyUrl: string, secureTarget: boolean): http.Agent {
+    const endpoint = parseProxyUrl(proxyUrl);
+    if (!endpoint) {
+      throw new Error(`Proxy no soportado: ${maskProxy(proxyUrl)} (http, https, socks4, socks5)`);
+    }
+    const socks = endpoint.protocol === 'socks4' || endpoint.protocol === 'socks5';
+    const key = socks ? proxyUrl : `${proxyUrl}|${secureTarget ? 'https' : 'http'}`;
+
+    let agent = this.agents.get(key);
+    if (!agent) {
+      agent = socks
+        ? new SocksProxyAgent(proxyUrl)
+        : secureTarget
+          ? new HttpsTunnelAgent(endpoint)
+          : new HttpTunnelAgent(endpoint);
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+
+  private randomUserAgent(): string {
+    return this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((r) => setTimeout(r, ms));
+  }
+}
+
+// ──────────────────────────────────────────────────────────
+// Túnel HTTP CONNECT (proxies http:// y https://)
+// ──────────────────────────────────────────────────────────
+
+/** Destinos http:// por un proxy HTTP: la request viaja en claro dentro del túnel */
+class HttpTunnelAgent extends http.Agent {
+  constructor(private readonly proxy: ProxyEndpoint) {
+    super();
+  }
+
+  createConnection(
+    options: http.ClientRequestArgs,
+    callback?: (err: Error | null, stream: Duplex) => void,
+  ): undefined {
+    openTunnel(this.proxy, options.host!, Number(options.port) || 80).then(
+      (socket) => callback!(null, socket),
+      (err: Error) => callback!(err, undefined as unknown as Duplex),
+    );
+    return undefined;
+  }
+}
+
+/** Destinos https:// por un proxy HTTP: TLS extremo a extremo sobre el túnel */
+class HttpsTunnelAgent extends https.Agent {
+  constructor(private readonly proxy: ProxyEndpoint) {
+    super();
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void,
+  ): undefined {
+    openTunnel(this.proxy, options.host!, Number(options.port) || 443).then(
+      (socket) =>
+        callback!(
+          null,
+          tls.connect({
+            socket,
+            servername: options.servername,
+            rejectUnauthorized: options.rejectUnauthorized,
+            ciphers: options.ciphers,
+            ecdhCurve: options.ecdhCurve,
+            minVersion: options.minVersion,
+          }),
+        ),
+      (err: Error) => callback!(err, undefined as unknown as Duplex),
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Abre un túnel CONNECT host:port en el proxy (TLS hacia el proxy si es https://,
+ * Basic auth si trae credenciales). Resuelve con el socket listo para hablar con el destino.
+ */
+function openTunnel(proxy: ProxyEndpoint, host: string, port: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket =
+      proxy.protocol === 'https'
+        ? tls.connect({ host: proxy.host, port: proxy.port, servername: net.isIP(proxy.host) ? undefined : proxy.host })
+        : net.connect({ host: proxy.host, port: proxy.port });
+
+    let head = Buffer.alloc(0);
+    const settle = (err: Error | null) => {
+      socket.off('readable', onReadable);
+      socket.off('error', onError);
+      socket.off('end', onEnd);
+      socket.off('timeout', onTimeout);
+      socket.setTimeout(0);
+      if (err) {
+        socket.destroy();
+        reject(err);
+      } else {
+        resolve(socket);
+      }
+    };
+    const onError = (err: Error) => settle(err);
+    const onEnd = () => settle(new Error('El proxy cerró la conexión durante CONNECT'));
+    const onTimeout = () => settle(new Error(`El proxy no abrió el túnel en ${TUNNEL_TIMEOUT_MS}ms`));
+    const onReadable = () => {
+      let chunk: Buffer | null;
+      while ((chunk = socket.read() as Buffer | null) !== null) {
+        head = Buffer.concat([head, chunk]);
+      }
+      const end = head.indexOf('\r\n\r\n');
+      if (end === -1) return;
+
+      const status = Number(/^HTTP\/1\.[01] (\d{3})/.exec(head.toString('latin1', 0, end))?.[1] ?? 0);
+      if (status !== 200) {
+        settle(
+          new Error(
+            status === 407 ? 'El proxy rechazó las credenciales (HTTP 407)' : `El proxy respondió HTTP ${status} a CONNECT`,
+          ),
+        );
+        return;
+      }
+      const rest = head.subarray(end + 4);
+      if (rest.length > 0) socket.unshift(rest);
+      settle(null);
+    };
+
+    socket.on('readable', onReadable);
+    socket.on('error', onError);
+    socket.on('end', onEnd);
+    socket.on('timeout', onTimeout);
+    socket.setTimeout(TUNNEL_TIMEOUT_MS);
+
+    const lines = [`CONNECT ${host}:${port} HTTP/1.1`, `Host: ${host}:${port}`];
+    if (proxy.username) {
+      const credentials = Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64');
+      lines.push(`Proxy-Authorization: Basic ${credentials}`);
+    }
+    socket.write(`${lines.join('\r\n')}\r\n\r\n`);
+  });
+}
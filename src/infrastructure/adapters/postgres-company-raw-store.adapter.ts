@@ -0,0 +1,85 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool } from 'pg';
+import {
+  CompanyRawStorePort,
+  CompanyRawRecord,
+  CompanyRawSource,
+} from '../../domain/ports/company-raw-store.port';
+
+/**
+ * Escribe en la tabla companies_raw de Postgres (la misma que usa n8n).
+ *
+ * Upsert por RUC: `data || jsonb_build_object(key, value)` reemplaza solo
+ * la clave de la fuente, conservando lo que n8n u otras fuentes ya guardaron.
+ * El pool se crea en el primer uso: sin persist=true no se abre ninguna conexión.
+ */
+@Injectable()
+export class PostgresCompanyRawStoreAdapter implements CompanyRawStorePort, OnModuleDestroy {
+  private readonly logger = new Logger(PostgresCompanyRawStoreAdapter.name);
+  private pool: Pool | null = null;
+  private readonly source: string;
+
+  constructor(private config: ConfigService) {
+    this.source = this.config.get<string>('scraper.persistence.source', 'api_scraper');
+  }
+
+  async upsert(
+    ruc: string,
+    key: CompanyRawSource,
+    value: Record<string, unknown>,
+    razonSocial?: string | null,
+  ): Promise<void> {
+    await this.getPool().query(
+      `INSERT INTO companies_raw (ruc, razon_social, data, source, updated_at)
+       VALUES ($1, $2, jsonb_build_object($3::text, $4::jsonb), $5, NOW())
+       ON CONFLICT (ruc) DO UPDATE SET
+         data = companies_raw.data || jsonb_build_object($3::text, $4::jsonb),
+         razon_social = COALESCE(EXCLUDED.razon_social, companies_raw.razon_social),
+         updated_at = NOW()`,
+      [ruc, razonSocial ?? null, key, JSON.stringify(value), this.source],
+    );
+  }
+
+  async findByRuc(ruc: string): Promise<CompanyRawRecord | null> {
+    const { rows } = await this.getPool().query(
+      `SELECT ruc, razon_social, data, source, created_at, updated_at
+       FROM companies_raw WHERE ruc = $1`,
+      [ruc],
+    );
+    if (rows.length === 0) return null;
+
+    const row = rows[0];
+    return {
+      ruc: row.ruc,
+      razonSocial: row.razon_social,
+      data: row.data ?? {},
+      source: row.source,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      const connectionString = this.config.get<string>('scraper.persistence.databaseUrl');
+      if (!connectionString) {
+        throw new Error('DATABASE_URL no configurada (requerida para PERSIST_DRIVER=postgres)');
+      }
+      this.pool = new Pool({ connectionString, max: 5 });
+      this.pool.on('error', (err) => {
+        this.logger.error(`Error en el pool de Postgres: ${err.message}`);
+      });
+    }
+    return this.pool;
+  }
+}
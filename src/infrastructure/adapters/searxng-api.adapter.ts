@@ -0,0 +1,190 @@
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SearchEnginePort } from '../../domain/ports/search-engine.port';
+import { HTTP_CLIENT_PORT, HttpClientPort } from '../../domain/ports/http-client.port';
+import { SearchEngine } from '../../application/services/search-engine-registry.service';
+import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
+import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
+import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { FailureError, Result, fail, failureFromError, ok } from '../../domain/entities/result.entity';
+import { cleanCompanyName, generateSearchVariants } from '../../shared/utils/company-name-cleaner';
+import { rankResults } from '../../shared/utils/url-scorer';
+
+/** Forma (parcial) de la respuesta de GET /search?format=json de SearXNG */
+interface SearxngResponse {
+  results?: Array<{ url?: string; title?: string; engine?: string }>;
+}
+
+/**
+ * Adaptador SearXNG — metabuscador self-hosted vía su API JSON.
+ *
+ *   GET {SEARXNG_URL}/search?q=...&format=json&language=es-PE
+ *
+ * La instancia agrega Google/Bing/DDG/etc. por su cuenta y reparte la carga,
+ * así que no sufre el throttling del scraping HTML directo.
+ * Requiere `search.formats: [html, json]` en el settings.yml de SearXNG.
+ *
+ * Sin SEARXNG_URL el motor no se registra (ver `requires`).
+ */
+@Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 30,
+  delay: { min: 1000, max: 2000 },
+  limits: { maxPerSession: 500 },
+  configKey: 'searxngApi',
+  requires: ['scraper.searxng.url'],
+})
+export class SearxngApiAdapter implements SearchEnginePort, OnModuleDestroy {
+  readonly strategy = SearchStrategy.SEARXNG_API;
+  private readonly logger = new Logger(SearxngApiAdapter.name);
+  private status: StrategyStatus;
+  private readonly baseUrl: string;
+
+  constructor(
+    private config: ConfigService,
+    @Inject(HTTP_CLIENT_PORT) private readonly http: HttpClientPort,
+  ) {
+    // maxPerSession lo aplica el registro (@SearchEngine limits / scraper.limits.searxngApi)
+    this.status = new StrategyStatus({ strategy: SearchStrategy.SEARXNG_API });
+    this.baseUrl = this.config.get<string>('scraper.searxng.url', '').replace(/\/+$/, '');
+    this.status.available = this.isConfigured;
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.dispose();
+  }
+
+  async search(companyName: string): Promise<Result<SearchResult>> {
+    if (!this.isConfigured) {
+      this.logger.warn('[SearXNG] SEARXNG_URL no configurado');
+      return fail(FailureCode.UNAVAILABLE, 'SearXNG no configurado (SEARXNG_URL)');
+    }
+
+    const startTime = Date.now();
+    const cleanName = cleanCompanyName(companyName);
+    const variants = generateSearchVariants(companyName);
+
+    // SearXNG ya combina varios motores: con 2-3 queries basta
+    const queries: string[] = [`"${cleanName}" página web oficial peru`];
+    for (const variant of variants) {
+      if (variant !== cleanName && variant.length >= 2) {
+        queries.push(`"${variant}" página web oficial peru`);
+      }
+    }
+    queries.push(`${cleanName} peru empresa`);
+
+    this.logger.log(`[SearXNG] Buscando: "${companyName}" → cleanName: "${cleanName}"`);
+
+    try {
+      let rawResults: Array<{ url: string; title: string }> = [];
+
+      for (let i = 0; i < queries.length; i++) {
+        const query = queries[i];
+        this.logger.log(`[SearXNG] Query ${i + 1}/${queries.length}: ${query}`);
+
+        const parsed = await this.fetchResults(query);
+        if (parsed.length === 0) continue;
+
+        rawResults = [...rawResults, ...parsed];
+        this.logger.log(`[SearXNG] ✓ ${parsed.length} resultados con query ${i + 1}`);
+
+        const tempRanked = rankResults(rawResults, companyName, variants);
+        if (tempRanked.length > 0 && tempRanked[0].score >= 20) {
+          this.logger.log(`[SearXNG] Score ${tempRanked[0].score} >= 20, suficiente`);
+          break;
+        }
+      }
+
+      const ranked = rankResults(rawResults, companyName, variants);
+      const elapsed = Date.now() - startTime;
+
+      if (ranked.length === 0) {
+        this.status.recordUse(false, elapsed);
+        this.logger.warn(`[SearXNG] Sin resultados para "${companyName}"`);
+        return fail(FailureCode.NOT_FOUND, `SearXNG sin resultados para "${companyName}"`);
+      }
+
+      const best = ranked[0];
+      this.status.recordUse(true, elapsed);
+
+      this.logger.log(`[SearXNG] ✅ ${best.url} (score: ${best.score}, ${elapsed}ms)`);
+
+      return ok(new SearchResult({
+        company: companyName,
+        cleanName,
+        website: best.url,
+        score: best.score,
+        title: best.title,
+        strategy: SearchStrategy.SEARXNG_API,
+        allResults: ranked.slice(0, 5).map(
+          (r) => new SearchResultItem(r.url, r.title, r.score),
+        ),
+      }));
+    } catch (error) {
+      const elapsed = Date.now() - startTime;
+      this.status.recordUse(false, elapsed);
+      this.logger.error(`[SearXNG] Error: ${(error as Error).message}`);
+      return { ok: false, error: failureFromError(error) };
+    }
+  }
+
+  getStatus(): StrategyStatus {
+    return this.status;
+  }
+
+  isAvailable(): boolean {
+    return this.status.isAvailable;
+  }
+
+  reset(): void {
+    this.status.reset();
+    this.status.available = this.isConfigured;
+  }
+
+  async dispose(): Promise<void> {
+    // No hay recursos que liberar en HTTP puro
+  }
+
+  // ──────────────────────────────────────────────────────────
+  // Internals
+  // ──────────────────────────────────────────────────────────
+
+  private get isConfigured(): boolean {
+    return this.baseUrl.length > 0;
+  }
+
+  private async fetchResults(query: string): Promise<Array<{ url: string; title: string }>> {
+    const url = new URL(`${this.baseUrl}/search`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('language', 'es-PE');
+    url.searchParams.set('safesearch', '0');
+
+    const body = await this.getJson<SearxngResponse>(url);
+    return (body.results ?? [])
+      .filter((r) => typeof r.url === 'string' && /^https?:\/\//.test(r.url))
+      .map((r) => ({ url: r.url as string, title: (r.title ?? '').trim() }));
+  }
+
+  private async getJson<T>(url: URL): Promise<T> {
+    const response = await this.http.request({
+      url: url.href,
+      headers: { Accept: 'application/json', 'Accept-Language': 'es-PE,es;q=0.9' },
+    });
+    if (response.status === 429) {
+      // Limiter de la instancia
+      throw new FailureError(FailureCode.BLOCKED, 'SearXNG HTTP 429 (rate limit de la instancia)');
+    }
+    if (response.status !== 200) {
+      // 403 = la instancia no tiene habilitado format=json
+      throw new Error(`SearXNG HTTP ${response.status}`);
+    }
+    try {
+      return JSON.parse(response.body) as T;
+    } catch {
+      throw new FailureError(FailureCode.PARSE_ERROR, 'SearXNG devolvió JSON inválido');
+    }
+  }
+}
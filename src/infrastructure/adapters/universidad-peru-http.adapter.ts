@@ -1,12 +1,20 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as https from 'https';
-import * as http from 'http';
 import * as querystring from 'querystring';
 import { SearchEnginePort } from '../../domain/ports/search-engine.port';
+import { EgressService } from '../../application/services/egress.service';
+import { SearchEngine } from '../../application/services/search-engine-registry.service';
 import { SearchResult, SearchResultItem } from '../../domain/entities/search-result.entity';
 import { StrategyStatus } from '../../domain/entities/strategy-status.entity';
 import { SearchStrategy } from '../../domain/enums/search-strategy.enum';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import {
+  Failure,
+  FailureError,
+  Result,
+  fail,
+  failureFromError,
+  ok,
+} from '../../domain/entities/result.entity';
 import {
   cleanCompanyName,
   generateSearchVariants,
@@ -29,28 +37,28 @@ const SEARCH_PATH = '/empresas/busqueda/';
  * NO usa DuckDuckGo ni Bing — búsqueda directa en el directorio.
  */
 @Injectable()
+@SearchEngine({
+  phase: 'directory',
+  priority: 10,
+  delay: { min: 1500, max: 3000 },
+  limits: { maxPerSession: 100 },
+  configKey: 'univPeruHttp',
+})
 export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDestroy {
   readonly strategy = SearchStrategy.UNIV_PERU_HTTP;
   private readonly logger = new Logger(UniversidadPeruHttpAdapter.name);
   private status: StrategyStatus;
-  private userAgents: string[];
-
-  constructor(private config: ConfigService) {
-    const maxPerSession = this.config.get<number>('scraper.limits.univPeruHttp', 100);
-    this.status = new StrategyStatus({
-      strategy: SearchStrategy.UNIV_PERU_HTTP,
-      maxPerSession,
-    });
-    this.userAgents = this.config.get<string[]>('scraper.userAgents', [
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36',
-    ]);
+
+  constructor(private readonly egress: EgressService) {
+    // maxPerSession lo aplica el registro (@SearchEngine limits / scraper.limits.univPeruHttp)
+    this.status = new StrategyStatus({ strategy: SearchStrategy.UNIV_PERU_HTTP });
   }
 
   async onModuleDestroy(): Promise<void> {
     await this.dispose();
   }
 
-  async search(companyName: string, ruc?: string): Promise<SearchResult | null> {
+  async search(companyName: string, ruc?: string): Promise<Result<SearchResult>> {
     const startTime = Date.now();
     const cleanName = cleanCompanyName(companyName);
     const variants = generateSearchVariants(companyName);
@@ -71,6 +79,10 @@ export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDes
       }
     }
 
+    // Último fallo de red/bloqueo: solo cuenta si ningún término obtuvo respuesta
+    let lastFailure: Failure | null = null;
+    let answered = false;
+
     try {
       for (let i = 0; i < Math.min(searchTerms.length, 3); i++) {
         const term = searchTerms[i];
@@ -78,12 +90,15 @@ export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDes
 
         if (i > 0) await this.sleep(1500);
 
-        const html = await this.postSearch(term);
-
-        if (!html) {
-          this.logger.warn(`[UnivPeru] Sin respuesta para "${term}"`);
+        let html: string;
+        try {
+          html = await this.postSearch(term);
+        } catch (err) {
+          lastFailure = failureFromError(err);
+          this.logger.warn(`[UnivPeru] Sin respuesta para "${term}": ${lastFailure.message}`);
           continue;
         }
+        answered = true;
 
         // Extraer URL canónica del HTML
         const canonicalUrl = this.extractCanonicalUrl(html);
@@ -115,7 +130,7 @@ export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDes
           `[UnivPeru] ✅ ${canonicalUrl} (score: ${score}, ${elapsed}ms, título: "${title}")`,
         );
 
-        return new SearchResult({
+        return ok(new SearchResult({
           company: companyName,
           cleanName,
           website: canonicalUrl,
@@ -123,18 +138,21 @@ export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDes
           title,
           strategy: this.strategy,
           allResults,
-        });
+        }));
       }
 
       const elapsed = Date.now() - startTime;
       this.status.recordUse(false, elapsed);
+      if (!answered && lastFailure) {
+        return { ok: false, error: lastFailure };
+      }
       this.logger.warn(`[UnivPeru] No encontrado para "${companyName}" (${elapsed}ms)`);
-      return null;
+      return fail(FailureCode.NOT_FOUND, `UniversidadPeru no tiene ficha para "${companyName}"`);
     } catch (error) {
       const elapsed = Date.now() - startTime;
       this.status.recordUse(false, elapsed);
       this.logger.error(`[UnivPeru] Error: ${(error as Error).message}`);
-      return null;
+      return { ok: false, error: failureFromError(error) };
     }
   }
 
@@ -162,122 +180,41 @@ export class UniversidadPeruHttpAdapter implements SearchEnginePort, OnModuleDes
    * POST al buscador interno de universidadperu.com.
    * Envía el RUC o nombre en el campo "buscaempresa".
    * Retorna el HTML de la respuesta (que es la página de la empresa directamente).
+   * El sitio suele responder con un redirect a la ficha: el cliente lo sigue.
+   * Lanza FailureError si no hay respuesta 200 (403/429 = bloqueado).
    */
-  private postSearch(searchTerm: string): Promise<string | null> {
-    return new Promise((resolve) => {
-      const postData = querystring.stringify({ buscaempresa: searchTerm });
-      const ua = this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
-
-      const options: https.RequestOptions = {
-        hostname: `www.${TARGET_DOMAIN}`,
-        path: SEARCH_PATH,
+  private async postSearch(searchTerm: string): Promise<string> {
+    try {
+      const response = await this.egress.request('univPeruHttp', {
+        url: `https://www.${TARGET_DOMAIN}${SEARCH_PATH}`,
         method: 'POST',
+        body: querystring.stringify({ buscaempresa: searchTerm }),
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
-          'Content-Length': Buffer.byteLength(postData),
-          'User-Agent': ua,
-          Accept:
-            'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
           'Accept-Language': 'es-PE,es;q=0.9,en;q=0.8',
           Referer: `https://www.${TARGET_DOMAIN}/empresas/`,
           Origin: `https://www.${TARGET_DOMAIN}`,
         },
-      };
-
-      const req = https.request(options, (res) => {
-        // Manejar redirecciones (301, 302, 303)
-        if (
-          res.statusCode &&
-          res.statusCode >= 300 &&
-          res.statusCode < 400 &&
-          res.headers.location
-        ) {
-          this.logger.log(`[UnivPeru] Redirect → ${res.headers.location}`);
-          this.followRedirect(res.headers.location, ua)
-            .then(resolve)
-            .catch(() => resolve(null));
-          return;
-        }
-
-        if (res.statusCode !== 200) {
-          this.logger.warn(`[UnivPeru] HTTP ${res.statusCode}`);
-          resolve(null);
-          return;
-        }
-
-        const chunks: Buffer[] = [];
-        res.on('data', (chunk: Buffer) => chunks.push(chunk));
-        res.on('end', () => {
-          const buffer = Buffer.concat(chunks);
-          const decoder = new TextDecoder('windows-1252');
-          resolve(decoder.decode(buffer));
-        });
+        // El sitio sirve Latin-1 sin declararlo de forma fiable
+        charset: 'windows-1252',
       });
 
-      req.on('error', (err) => {
-        this.logger.error(`[UnivPeru] Request error: ${err.message}`);
-        resolve(null);
-      });
-
-      req.setTimeout(15000, () => {
-        req.destroy();
-        resolve(null);
-      });
-
-      req.write(postData);
-      req.end();
-    });
-  }
-
-  /**
-   * Sigue una redirección HTTP.
-   */
-  private followRedirect(
-    location: string,
-    ua: string,
-  ): Promise<string | null> {
-    return new Promise((resolve) => {
-      try {
-        const redirectUrl = new URL(
-          location,
-          `https://www.${TARGET_DOMAIN}`,
-        );
-
-        const isHttps = redirectUrl.protocol === 'https:';
-        const httpModule = isHttps ? https : http;
-
-        const req = httpModule.request(
-          {
-            hostname: redirectUrl.hostname,
-            path: redirectUrl.pathname + redirectUrl.search,
-            method: 'GET',
-            headers: {
-              'User-Agent': ua,
-              Accept: 'text/html,application/xhtml+xml',
-              'Accept-Language': 'es-PE,es;q=0.9',
-            },
-          },
-          (res) => {
-            const chunks: Buffer[] = [];
-            res.on('data', (chunk: Buffer) => chunks.push(chunk));
-            res.on('end', () => {
-              const buffer = Buffer.concat(chunks);
-              const decoder = new TextDecoder('windows-1252');
-              resolve(decoder.decode(buffer));
-            });
-          },
-        );
-
-        req.on('error', () => resolve(null));
-        req.setTimeout(10000, () => {
-          req.destroy();
-          resolve(null);
-        });
-        req.end();
-      } catch {
-        resolve(null);
+      if (response.url !== `https://www.${TARGET_DOMAIN}${SEARCH_PATH}`) {
+        this.logger.log(`[UnivPeru] Redirect → ${response.url}`);
       }
-    });
+      if (response.status !== 200) {
+        this.logger.warn(`[UnivPeru] HTTP ${response.status}`);
+        const code =
+          response.status === 403 || response.status === 429 ? FailureCode.BLOCKED : FailureCode.UPSTREAM_ERROR;
+        throw new FailureError(code, `UniversidadPeru HTTP ${response.status}`);
+      }
+      return response.body;
+    } catch (err) {
+      if (!(err instanceof FailureError)) {
+        this.logger.error(`[UnivPeru] Request error: ${(err as Error).message}`);
+      }
+      throw err;
+    }
   }
 
   // ════════════════════════════════════════════════════════
@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Logger,
+  BadRequestException,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { CompanyDossierService } from '../../../application/services/company-dossier.service';
+import { DossierQueryDto, DossierResponseDto } from '../dtos/dossier.dto';
+import { isValidRuc } from '../../../shared/utils/ruc';
+
+@ApiTags('Companies')
+@ApiSecurity('x-api-key')
+@Controller('companies')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class CompaniesController {
+  private readonly logger = new Logger(CompaniesController.name);
+
+  constructor(private readonly dossierService: CompanyDossierService) {}
+
+  /**
+   * GET /companies/:ruc/dossier
+   *
+   * Reemplaza la cadena /search → /scrape/url → /enrich/datosperu + merge manual en n8n.
+   */
+  @Get(':ruc/dossier')
+  @ApiOperation({
+    summary: 'Dossier unificado de una empresa (DatosPeru + búsqueda + web)',
+    description:
+      'Ejecuta los tres flujos y fusiona el resultado campo a campo:\n' +
+      '- Razón social, estado, domicilio fiscal, ubicación → DatosPeru (SUNAT)\n' +
+      '- Descripción, misión, visión, nombre comercial → web oficial\n' +
+      '- Teléfonos, emails, redes → unión de todas las fuentes\n\n' +
+      'Cada campo indica en `sources` de dónde salió su valor.',
+  })
+  @ApiParam({ name: 'ruc', description: 'RUC de la empresa (11 dígitos)', example: '20100053455' })
+  @ApiResponse({ status: 200, type: DossierResponseDto })
+  @ApiResponse({ status: 400, description: 'RUC inválido' })
+  async getDossier(
+    @Param('ruc') ruc: string,
+    @Query() query: DossierQueryDto,
+  ): Promise<DossierResponseDto> {
+    if (!isValidRuc(ruc)) {
+      throw new BadRequestException(
+        `RUC inválido: "${ruc}". Debe tener 11 dígitos, prefijo 10/15/17/20 y dígito verificador válido.`,
+      );
+    }
+
+    this.logger.log(`📇 Dossier: RUC ${ruc}`);
+
+    const result = await this.dossierService.build(ruc, {
+      name: query.name,
+      fresh: query.fresh,
+      persist: query.persist,
+    });
+
+    const { dossier } = result;
+    return {
+      success: dossier.fieldsFilled > 0,
+      fieldsFilled: dossier.fieldsFilled,
+      dossier: {
+        ruc: dossier.ruc,
+        legalName: dossier.legalName,
+        tradeName: dossier.tradeName,
+        description: dossier.description,
+        history: dossier.history,
+        foundedYear: dossier.foundedYear,
+        status: dossier.status,
+        taxpayerType: dossier.taxpayerType,
+        ciiu: dossier.ciiu,
+        industry: dossier.industry,
+        address: dossier.address,
+        department: dossier.department,
+        province: dossier.province,
+        district: dossier.district,
+        ubigeo: dossier.ubigeo,
+        website: dossier.website,
+        phones: dossier.phones,
+        emails: dossier.emails,
+        socialLinks: dossier.socialLinks,
+        logoUrl: dossier.logoUrl,
+        mission: dossier.mission,
+        vision: dossier.vision,
+        values: dossier.values,
+        executives: dossier.executives,
+        leadership: dossier.leadership,
+        employeeCount: dossier.employeeCount,
+      },
+      datosPeru: result.datosPeru,
+      search: result.search,
+      website: result.website,
+      persistence: result.persistence,
+      durationMs: result.durationMs,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Body,
+  Logger,
+  BadRequestException,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import {
+  SearchEngineRegistry,
+  RegisteredEngine,
+} from '../../../application/services/search-engine-registry.service';
+import { EngineDto, SetEnginePriorityDto } from '../dtos/engines.dto';
+
+@ApiTags('Engines')
+@ApiSecurity('x-api-key')
+@Controller('engines')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class EnginesController {
+  private readonly logger = new Logger(EnginesController.name);
+
+  constructor(private readonly registry: SearchEngineRegistry) {}
+
+  /**
+   * GET /engines
+   * Motores registrados en el orden en que el orquestador los usa.
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Motores de búsqueda registrados',
+    description: 'Fase, prioridad, delays y estado de cada motor, en el orden en que se prueban.',
+  })
+  @ApiResponse({ status: 200, type: [EngineDto] })
+  list(): EngineDto[] {
+    return this.registry.list().map((e) => this.mapEngine(e));
+  }
+
+  /**
+   * PUT /engines/priority
+   * Cambia el orden en runtime (se pierde al reiniciar — para fijarlo usar SEARCH_ENGINE_PRIORITY).
+   */
+  @Put('priority')
+  @ApiOperation({
+    summary: 'Cambiar el orden de los motores',
+    description:
+      'Reordena los motores dentro de su fase. Ej: `{"order": ["bing_http", "ddg_http"]}` ' +
+      'prueba Bing antes que DDG. Para que sobreviva reinicios usar `SEARCH_ENGINE_PRIORITY`.',
+  })
+  @ApiResponse({ status: 200, type: [EngineDto] })
+  @ApiResponse({ status: 400, description: 'Motor no registrado' })
+  setPriority(@Body() dto: SetEnginePriorityDto): EngineDto[] {
+    this.logger.log(`🔀 Prioridad: ${dto.order.join(' → ')}`);
+    try {
+      return this.registry.setPriorityOrder(dto.order).map((e) => this.mapEngine(e));
+    } catch (err) {
+      throw new BadRequestException((err as Error).message);
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private mapEngine(e: RegisteredEngine): EngineDto {
+    const s = e.engine.getStatus();
+    return {
+      strategy: e.engine.strategy,
+      phase: e.phase,
+      priority: e.priority,
+      delay: { ...e.delay },
+      status: {
+        strategy: s.strategy,
+        available: s.isAvailable,
+        usageCount: s.usageCount,
+        maxPerSession: s.maxPerSession,
+        remainingCapacity: s.remainingCapacity,
+        successCount: s.successCount,
+        failCount: s.failCount,
+        successRate: Math.round(s.successRate * 100) / 100,
+        avgResponseTimeMs: Math.round(s.avgResponseTimeMs),
+        cooldownUntil: s.cooldownUntil?.toISOString() ?? null,
+      },
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import {
   Controller,
   Get,
+  Post,
+  Body,
   Query,
   Logger,
   UsePipes,
@@ -10,7 +12,23 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiQuery } from '@nestjs/swagger';
 import { EnrichmentService } from '../../../application/services/enrichment.service';
-import { DatosPeruEnrichResponseDto } from '../dtos/enrich-response.dto';
+import {
+  CompanyPersistenceService,
+  PersistInfo,
+} from '../../../application/services/company-persistence.service';
+import { CacheInfo } from '../../../application/services/result-cache.service';
+import { DatosPeruProfile } from '../../../domain/entities/datos-peru-profile.entity';
+import { EnrichBatchDto } from '../dtos/enrich.dto';
+import {
+  DatosPeruEnrichResponseDto,
+  DatosPeruBatchItemDto,
+  DatosPeruBatchResponseDto,
+} from '../dtos/enrich-response.dto';
+import { FailureResponseDto } from '../dtos/failure.dto';
+import { FailureHttpException } from '../failure-http.exception';
+import { failure } from '../../../domain/entities/result.entity';
+import { FailureCode } from '../../../domain/enums/failure-code.enum';
+import { isValidRuc } from '../../../shared/utils/ruc';
 
 @ApiTags('Enrich')
 @ApiSecurity('x-api-key')
@@ -19,7 +37,10 @@ import { DatosPeruEnrichResponseDto } from '../dtos/enrich-response.dto';
 export class EnrichController {
   private readonly logger = new Logger(EnrichController.name);
 
-  constructor(private readonly enrichmentService: EnrichmentService) {}
+  constructor(
+    private readonly enrichmentService: EnrichmentService,
+    private readonly persistence: CompanyPersistenceService,
+  ) {}
 
   /**
    * GET /enrich/datosperu?ruc=20100047218
@@ -37,85 +58,106 @@ export class EnrichController {
       'HTTP puro — sin browser — ~2-5s.',
   })
   @ApiQuery({ name: 'ruc', description: 'RUC de la empresa (11 dígitos)', example: '20100047218' })
+  @ApiQuery({ name: 'fresh', required: false, type: Boolean, description: 'Ignorar el caché' })
+  @ApiQuery({ name: 'persist', required: false, type: Boolean, description: 'Guardar en companies_raw (data.datosperu)' })
   @ApiResponse({ status: 200, type: DatosPeruEnrichResponseDto })
+  @ApiResponse({ status: 400, type: FailureResponseDto, description: 'RUC inválido' })
+  @ApiResponse({ status: 404, type: FailureResponseDto, description: 'datosperu.org no tiene ese RUC' })
+  @ApiResponse({ status: 502, type: FailureResponseDto, description: 'Red / proxies caídos o ficha sin datos' })
+  @ApiResponse({ status: 503, type: FailureResponseDto, description: 'Bloqueado por Cloudflare: reintentar más tarde' })
   async enrichFromDatosPeru(
     @Query('ruc') ruc: string,
+    @Query('fresh') fresh?: boolean,
+    @Query('persist') persist?: boolean,
   ): Promise<DatosPeruEnrichResponseDto> {
     this.logger.log(`🔎 Enrich request: RUC ${ruc}`);
 
-    // Validar formato RUC
-    if (!ruc || !/^\d{11}$/.test(ruc)) {
-      return {
-        success: false,
-        ruc: ruc || '',
-        sourceUrl: '',
-        nombre: null,
-        fechaInicio: null,
-        fechaInscripcion: null,
-        estado: null,
-        tipo: null,
-        ciiu: null,
-        sectorEconomico: null,
-        direccion: null,
-        referencia: null,
-        departamento: null,
-        provincia: null,
-        distrito: null,
-        pais: null,
-        telefonos: [],
-        web: null,
-        proveedorEstado: false,
-        descripcion: null,
-        logoUrl: null,
-        marcaComercioExterior: null,
-        ejecutivos: [],
-        establecimientosAnexos: [],
-        historialTrabajadores: [],
-        historialCondiciones: [],
-        historialDirecciones: [],
-        fieldsExtracted: 0,
-        durationMs: 0,
-        timestamp: new Date().toISOString(),
-      };
+    // Validar RUC: formato, prefijo y dígito verificador
+    if (!ruc || !isValidRuc(ruc)) {
+      throw new FailureHttpException(
+        failure(FailureCode.INVALID_INPUT, `RUC inválido: "${ruc ?? ''}" (11 dígitos, prefijo 10/15/17/20 y dígito verificador)`),
+        { ruc: ruc || '' },
+      );
     }
 
-    const profile = await this.enrichmentService.enrichFromDatosPeru(ruc);
+    const { profile, failure: reason, cache } = await this.enrichmentService.enrichFromDatosPeru(ruc, fresh);
 
     if (!profile) {
-      return {
-        success: false,
-        ruc,
-        sourceUrl: '',
-        nombre: null,
-        fechaInicio: null,
-        fechaInscripcion: null,
-        estado: null,
-        tipo: null,
-        ciiu: null,
-        sectorEconomico: null,
-        direccion: null,
-        referencia: null,
-        departamento: null,
-        provincia: null,
-        distrito: null,
-        pais: null,
-        telefonos: [],
-        web: null,
-        proveedorEstado: false,
-        descripcion: null,
-        logoUrl: null,
-        marcaComercioExterior: null,
-        ejecutivos: [],
-        establecimientosAnexos: [],
-        historialTrabajadores: [],
-        historialCondiciones: [],
-        historialDirecciones: [],
-        fieldsExtracted: 0,
-        durationMs: 0,
-        timestamp: new Date().toISOString(),
-      };
+      throw new FailureHttpException(
+        reason ?? failure(FailureCode.NOT_FOUND, `datosperu.org no tiene empresa con RUC ${ruc}`),
+        { ruc, cache },
+      );
     }
 
+    const persistence = persist
+      ? await this.persistence.persistDatosPeru(profile)
+      : undefined;
+
+    return this.toResponse(profile, cache, persistence);
+  }
+
+  /**
+   * POST /enrich/datosperu/batch
+   *
+   * Enriquecimiento por lote (hasta 100 RUCs) con concurrencia acotada al pool de proxies.
+   * Cada RUC trae su estado: ok, not_found, blocked (tras reintentos) o parse_error.
+   */
+  @Post('datosperu/batch')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enriquecer un lote de RUCs desde DatosPeru.org',
+    description:
+      'Consulta hasta 100 RUCs en paralelo (repartidos entre los proxies del pool). ' +
+      'Los bloqueos (Cloudflare, proxies caídos) se reintentan con backoff exponencial. ' +
+      'Cada resultado indica status: ok | not_found | blocked | parse_error.',
+  })
+  @ApiResponse({ status: 200, type: DatosPeruBatchResponseDto })
+  async enrichBatch(@Body() dto: EnrichBatchDto): Promise<DatosPeruBatchResponseDto> {
+    const start = Date.now();
+    this.logger.log(`📦 Enrich batch: ${dto.rucs.length} RUCs`);
+
+    const items = await this.enrichmentService.enrichBatch(dto.rucs, {
+      concurrency: dto.concurrency,
+      fresh: dto.fresh,
+    });
+
+    const results: DatosPeruBatchItemDto[] = [];
+    for (const item of items) {
+      const persistence =
+        dto.persist && item.status === 'ok' && item.profile
+          ? await this.persistence.persistDatosPeru(item.profile)
+          : undefined;
+      results.push({
+        ruc: item.ruc,
+        status: item.status,
+        attempts: item.attempts,
+        failure: item.failure,
+        profile: item.profile && item.status === 'ok'
+          ? this.toResponse(item.profile, item.cache, persistence)
+          : null,
+      });
+    }
+
+    const count = (status: string) => items.filter((i) => i.status === status).length;
+    return {
+      total: items.length,
+      ok: count('ok'),
+      notFound: count('not_found'),
+      blocked: count('blocked'),
+      parseError: count('parse_error'),
+      results,
+      durationMs: Date.now() - start,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private toResponse(
+    profile: DatosPeruProfile,
+    cache: CacheInfo,
+    persistence?: PersistInfo,
+  ): DatosPeruEnrichResponseDto {
     return {
       success: profile.fieldsExtracted > 0,
       ruc: profile.ruc,
@@ -133,7 +175,10 @@ export class EnrichController {
       provincia: profile.provincia,
       distrito: profile.distrito,
       pais: profile.pais,
+      ubigeo: profile.ubigeo,
+      direccionNormalizada: profile.direccionNormalizada,
       telefonos: profile.telefonos,
+      telefonosNormalizados: profile.telefonosNormalizados,
       web: profile.web,
       proveedorEstado: profile.proveedorEstado,
       descripcion: profile.descripcion,
@@ -147,6 +192,8 @@ export class EnrichController {
       fieldsExtracted: profile.fieldsExtracted,
       durationMs: profile.durationMs,
       timestamp: new Date().toISOString(),
+      cache,
+      persistence,
     };
   }
 }
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { SearchJobService } from '../../../application/services/search-job.service';
+import { SearchJob } from '../../../domain/entities/search-job.entity';
+import { CreateSearchJobDto, SearchJobResponseDto } from '../dtos/search-job.dto';
+
+@ApiTags('Jobs')
+@ApiSecurity('x-api-key')
+@Controller('jobs')
+@UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+export class JobsController {
+  private readonly logger = new Logger(JobsController.name);
+
+  constructor(private readonly jobService: SearchJobService) {}
+
+  /**
+   * POST /jobs/search
+   *
+   * Crea un job de búsqueda por lote y retorna su id al instante.
+   * Para n8n: crear el job y luego hacer polling a GET /jobs/:id.
+   */
+  @Post('search')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Crear job de búsqueda asíncrono',
+    description:
+      'Encola la búsqueda de una lista de empresas (hasta 10000) y retorna el id del job ' +
+      'sin esperar. El progreso y los resultados parciales se consultan con `GET /jobs/:id`. ' +
+      'Los jobs se persisten en disco y se reanudan si el servicio se reinicia.',
+  })
+  @ApiResponse({ status: 202, type: SearchJobResponseDto })
+  async createSearchJob(@Body() dto: CreateSearchJobDto): Promise<SearchJobResponseDto> {
+    this.logger.log(`📥 Job: ${dto.companies.length} empresas | strategy: ${dto.strategy || 'auto'}`);
+
+    const job = await this.jobService.create(dto.companies, dto.strategy, dto.delayMs);
+    return this.mapJob(job, false);
+  }
+
+  /**
+   * GET /jobs/:id
+   *
+   * Progreso por empresa y resultados parciales.
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Estado y resultados parciales de un job',
+    description: 'Retorna el progreso del job y el resultado de cada empresa ya procesada.',
+  })
+  @ApiResponse({ status: 200, type: SearchJobResponseDto })
+  @ApiResponse({ status: 404, description: 'Job no encontrado' })
+  async getJob(@Param('id') id: string): Promise<SearchJobResponseDto> {
+    const job = await this.jobService.get(id);
+    if (!job) throw new NotFoundException(`Job ${id} no encontrado`);
+    return this.mapJob(job, true);
+  }
+
+  /**
+   * DELETE /jobs/:id
+   *
+   * Cancela el job. Las empresas ya procesadas conservan su resultado.
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Cancelar un job',
+    description:
+      'Detiene el job antes de la siguiente empresa. Los resultados ya obtenidos se conservan.',
+  })
+  @ApiResponse({ status: 200, type: SearchJobResponseDto })
+  @ApiResponse({ status: 404, description: 'Job no encontrado' })
+  async cancelJob(@Param('id') id: string): Promise<SearchJobResponseDto> {
+    this.logger.log(`🛑 Cancelar job ${id}`);
+    const job = await this.jobService.cancel(id);
+    if (!job) throw new NotFoundException(`Job ${id} no encontrado`);
+    return this.mapJob(job, false);
+  }
+
+  // ──────────────────────────────────────────────────────────
+
+  private mapJob(job: SearchJob, withItems: boolean): SearchJobResponseDto {
+    return {
+      id: job.id,
+      status: job.status,
+      total: job.total,
+      processed: job.processed,
+      found: job.foundCount,
+      failed: job.failedCount,
+      pending: job.pendingCount,
+      progress: Math.round(job.progress * 1000) / 1000,
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString() ?? null,
+      finishedAt: job.finishedAt?.toISOString() ?? null,
+      ...(withItems ? { items: job.items.map((i) => ({ ...i })) } : {}),
+    };
+  }
+}
@@ -11,10 +11,12 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
 import { ProxyTestService } from '../../../application/services/proxy-test.service';
+import { maskProxy } from '../../../shared/utils/proxy-url';
 import {
   TestProxyDto,
   TestProxyResponseDto,
   ProxyPoolStatsResponseDto,
+  RefreshProxiesResponseDto,
 } from '../dtos/proxy.dto';
 
 @ApiTags('Proxies')
@@ -35,18 +37,18 @@ export class ProxyController {
   @ApiOperation({
     summary: 'Testear un proxy contra datosperu.org',
     description:
-      'Prueba si un proxy SOCKS5/HTTP puede alcanzar datosperu.org sin ' +
-      'ser bloqueado por Cloudflare. Retorna tiempo de respuesta.',
+      'Prueba si un proxy HTTP/HTTPS (CONNECT) o SOCKS4/5, con usuario y contraseña opcionales, ' +
+      'puede alcanzar datosperu.org sin ser bloqueado por Cloudflare. Retorna tiempo de respuesta. ' +
+      'Con addToPool el proxy se agrega al pool si el test pasa.',
   })
   @ApiResponse({ status: 200, type: TestProxyResponseDto })
   async testProxy(@Body() dto: TestProxyDto): Promise<TestProxyResponseDto> {
     const protocol = dto.protocol || 'socks5';
-    this.logger.log(`🧪 Testing proxy ${dto.ip}:${dto.port} (${protocol})`);
+    this.logger.log(`🧪 Testing proxy ${dto.ip}:${dto.port} (${protocol}${dto.username ? ', con auth' : ''})`);
 
     const result = await this.proxyTestService.testProxy(
-      dto.ip,
-      dto.port,
-      protocol,
+      { protocol, host: dto.ip, port: dto.port, username: dto.username, password: dto.password },
+      dto.addToPool ?? false,
     );
 
     return {
@@ -56,22 +58,52 @@ export class ProxyController {
       protocol,
       responseMs: result.responseMs,
       error: result.error,
+      addedToPool: result.addedToPool,
     };
   }
 
   /**
    * GET /proxies/pool
-   * Stats del pool de proxies en memoria
+   * Stats del pool de proxies: salud por proxy y cuarentenas
    */
   @Get('pool')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Ver estado del pool de proxies en memoria',
-    description: 'Retorna cuántos proxies hay en el pool actual del scraper.',
+    summary: 'Ver estado del pool de proxies',
+    description:
+      'Retorna los proxies del pool con su tasa de éxito, latencia media, último fallo y cuarentena. ' +
+      'Los disponibles van primero, ordenados por el peso con el que se sortean.',
   })
   @ApiResponse({ status: 200, type: ProxyPoolStatsResponseDto })
   async getPoolStats(): Promise<ProxyPoolStatsResponseDto> {
-    return this.proxyTestService.getPoolStats();
+    const stats = await this.proxyTestService.getPoolStats();
+    const now = Date.now();
+    return {
+      totalInPool: stats.total,
+      available: stats.available,
+      quarantined: stats.quarantined,
+      seedCount: stats.bySource.seed,
+      refreshedCount: stats.bySource.refresh,
+      directMode: stats.directMode,
+      sampleProxies: stats.proxies
+        .filter((p) => !p.isQuarantined(now))
+        .slice(0, 5)
+        .map((p) => maskProxy(p.url)),
+      proxies: stats.proxies.map((p) => ({
+        url: maskProxy(p.url),
+        source: p.source,
+        successes: p.successes,
+        failures: p.failures,
+        successRate: Math.round(p.successRate * 100) / 100,
+        avgLatencyMs: p.avgLatencyMs,
+        weight: Math.round(p.weight * 100) / 100,
+        consecutiveFailures: p.consecutiveFailures,
+        lastSuccessAt: p.lastSuccessAt?.toISOString() ?? null,
+        lastFailureAt: p.lastFailureAt?.toISOString() ?? null,
+        lastError: p.lastError,
+        quarantinedUntil: p.isQuarantined(now) ? p.quarantinedUntil!.toISOString() : null,
+      })),
+    };
   }
 
   /**
@@ -83,15 +115,20 @@ export class ProxyController {
   @ApiOperation({
     summary: 'Forzar refresh del pool de proxies',
     description:
-      'Re-descarga listas de proxies públicas y prueba cuáles funcionan.',
+      'Re-descarga listas de proxies públicas, prueba los candidatos nuevos y agrega los que funcionan. ' +
+      'Descarta los proxies con demasiados fallos seguidos.',
   })
-  async refreshPool(): Promise<{ message: string; previousCount: number }> {
+  @ApiResponse({ status: 200, type: RefreshProxiesResponseDto })
+  async refreshPool(): Promise<RefreshProxiesResponseDto> {
     this.logger.log('🔄 Manual proxy pool refresh requested');
-    const previousCount = (await this.proxyTestService.getPoolStats()).totalInPool;
-    await this.proxyTestService.refreshProxies();
+    const previousCount = (await this.proxyTestService.getPoolStats()).total;
+    const { tested, added } = await this.proxyTestService.refreshProxies();
     return {
-      message: 'Proxy pool refresh initiated',
+      message: 'Proxy pool refreshed',
       previousCount,
+      tested,
+      added,
+      totalInPool: (await this.proxyTestService.getPoolStats()).total,
     };
   }
 }
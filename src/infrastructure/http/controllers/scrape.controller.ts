@@ -2,19 +2,26 @@ import {
   Controller,
   Post,
   Body,
+  Query,
   HttpCode,
   HttpStatus,
   Logger,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiQuery } from '@nestjs/swagger';
 import { CompanyProfileService } from '../../../application/services/company-profile.service';
+import {
+  CompanyPersistenceService,
+  PersistInfo,
+} from '../../../application/services/company-persistence.service';
 import { ScrapeUrlDto, SearchAndScrapeDto } from '../dtos/scrape.dto';
 import {
   CompanyProfileResponseDto,
   SearchAndScrapeResponseDto,
 } from '../dtos/scrape-response.dto';
+import { FailureResponseDto } from '../dtos/failure.dto';
+import { FailureHttpException } from '../failure-http.exception';
 import { CompanyProfile } from '../../../domain/entities/company-profile.entity';
 
 @ApiTags('Scrape')
@@ -24,7 +31,10 @@ import { CompanyProfile } from '../../../domain/entities/company-profile.entity'
 export class ScrapeController {
   private readonly logger = new Logger(ScrapeController.name);
 
-  constructor(private readonly profileService: CompanyProfileService) {}
+  constructor(
+    private readonly profileService: CompanyProfileService,
+    private readonly persistence: CompanyPersistenceService,
+  ) {}
 
   /**
    * POST /scrape/url
@@ -40,17 +50,33 @@ export class ScrapeController {
       'emails, RUC, misión, visión, valores, redes sociales, etc.\n\n' +
       'Todo HTTP puro — sin browser — ~3-8s.',
   })
+  @ApiQuery({ name: 'fresh', required: false, type: Boolean, description: 'Ignorar el caché' })
+  @ApiQuery({ name: 'persist', required: false, type: Boolean, description: 'Guardar en companies_raw (data.website)' })
+  @ApiQuery({ name: 'provenance', required: false, type: Boolean, description: 'Incluir procedencia por campo' })
   @ApiResponse({ status: 200, type: CompanyProfileResponseDto })
-  async scrapeUrl(@Body() dto: ScrapeUrlDto): Promise<CompanyProfileResponseDto> {
+  async scrapeUrl(
+    @Body() dto: ScrapeUrlDto,
+    @Query('fresh') fresh?: boolean,
+    @Query('persist') persist?: boolean,
+    @Query('provenance') provenance?: boolean,
+  ): Promise<CompanyProfileResponseDto> {
     this.logger.log(`🕷️ Scrape URL: ${dto.url}`);
 
-    const profile = await this.profileService.scrapeUrl(dto.url, {
-      followSubpages: dto.followSubpages,
-      timeoutMs: dto.timeoutMs,
-      maxSubpages: dto.maxSubpages,
-    });
+    const { profile, cache } = await this.profileService.scrapeUrl(
+      dto.url,
+      {
+        followSubpages: dto.followSubpages,
+        timeoutMs: dto.timeoutMs,
+        maxSubpages: dto.maxSubpages,
+      },
+      fresh,
+    );
+
+    const persistence = persist
+      ? await this.persistence.persistWebsite(dto.ruc, profile)
+      : undefined;
 
-    return this.mapProfile(profile);
+    return { ...this.mapProfile(profile, provenance), cache, persistence };
   }
 
   /**
@@ -68,30 +94,70 @@ export class ScrapeController {
       'Combina `/search` + `/scrape/url` en una sola llamada.\n' +
       'Ideal para n8n o batch processing.',
   })
+  @ApiQuery({ name: 'fresh', required: false, type: Boolean, description: 'Ignorar el caché' })
+  @ApiQuery({ name: 'persist', required: false, type: Boolean, description: 'Guardar en companies_raw (data.search + data.website)' })
+  @ApiQuery({ name: 'provenance', required: false, type: Boolean, description: 'Incluir procedencia por campo' })
   @ApiResponse({ status: 200, type: SearchAndScrapeResponseDto })
+  @ApiResponse({ status: 404, type: FailureResponseDto, description: 'Ningún motor encontró la web' })
+  @ApiResponse({ status: 502, type: FailureResponseDto, description: 'Error de los motores' })
+  @ApiResponse({ status: 503, type: FailureResponseDto, description: 'Motores bloqueados o no disponibles' })
   async searchAndScrape(
     @Body() dto: SearchAndScrapeDto,
+    @Query('fresh') fresh?: boolean,
+    @Query('persist') persist?: boolean,
+    @Query('provenance') provenance?: boolean,
   ): Promise<SearchAndScrapeResponseDto> {
     this.logger.log(`🔍➜🕷️ Search+Scrape: "${dto.company}"`);
 
-    const { profile, searchResult } = await this.profileService.searchAndScrape(
-      dto.company,
-      {
-        followSubpages: dto.followSubpages,
-        timeoutMs: dto.timeoutMs,
-      },
-    );
+    const { profile, searchResult, searchEntity, profileCache, rucCheck } =
+      await this.profileService.searchAndScrape(
+        dto.company,
+        {
+          followSubpages: dto.followSubpages,
+          timeoutMs: dto.timeoutMs,
+        },
+        fresh,
+        dto.ruc,
+      );
+
+    let persistence: PersistInfo[] | undefined;
+    if (persist) {
+      persistence = [
+        await this.persistence.persistSearch(
+          dto.ruc,
+          dto.company,
+          searchEntity.result,
+          searchEntity.strategyUsed,
+        ),
+      ];
+      if (profile) {
+        persistence.push(await this.persistence.persistWebsite(dto.ruc, profile));
+      }
+    }
+
+    if (!searchEntity.result && searchResult.failure) {
+      throw new FailureHttpException(searchResult.failure, {
+        company: dto.company,
+        ruc: dto.ruc ?? null,
+        search: searchResult,
+        persistence,
+      });
+    }
 
     return {
       search: searchResult,
-      profile: profile ? this.mapProfile(profile) : null,
+      profile: profile
+        ? { ...this.mapProfile(profile, provenance), cache: profileCache ?? undefined }
+        : null,
+      rucCheck: rucCheck ?? undefined,
+      persistence,
       timestamp: new Date().toISOString(),
     };
   }
 
   // ──────────────────────────────────────────────────────────
 
-  private mapProfile(profile: CompanyProfile): CompanyProfileResponseDto {
+  private mapProfile(profile: CompanyProfile, withProvenance = false): CompanyProfileResponseDto {
     return {
       success: profile.fieldsExtracted > 0,
       sourceUrl: profile.sourceUrl,
@@ -102,9 +168,13 @@ export class ScrapeController {
       foundedDate: profile.foundedDate,
       originalName: profile.originalName,
       headquarters: profile.headquarters,
+      headquartersAddress: profile.headquartersAddress,
       phones: profile.phones,
+      normalizedPhones: profile.normalizedPhones,
       emails: profile.emails,
+      contactEmails: profile.contactEmails,
       ruc: profile.ruc,
+      rucCandidates: profile.rucCandidates,
       industry: profile.industry,
       logoUrl: profile.logoUrl,
       mission: profile.mission,
@@ -114,11 +184,18 @@ export class ScrapeController {
       employeeCount: profile.employeeCount,
       coverage: profile.coverage,
       socialLinks: profile.socialLinks,
+      jobs: profile.jobs,
+      benefits: profile.benefits,
+      certifications: profile.certifications,
+      cultureStatements: profile.cultureStatements,
+      leadership: profile.leadership,
       pagesScraped: profile.pagesScraped,
+      pagesSkipped: profile.pagesSkipped,
       extras: profile.extras,
       fieldsExtracted: profile.fieldsExtracted,
       durationMs: profile.durationMs,
       scrapedAt: profile.scrapedAt.toISOString(),
+      ...(withProvenance ? { provenance: profile.provenance } : {}),
     };
   }
 }
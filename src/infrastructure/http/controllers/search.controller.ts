@@ -14,6 +14,7 @@ import {
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiSecurity } from '@nestjs/swagger';
 import { Public } from '../../auth/public.decorator';
 import { SearchOrchestratorService } from '../../../application/services/search-orchestrator.service';
+import { CompanyPersistenceService } from '../../../application/services/company-persistence.service';
 import { SearchCompanyDto } from '../dtos/search-company.dto';
 import { BatchSearchDto } from '../dtos/batch-search.dto';
 import {
@@ -21,6 +22,8 @@ import {
   StrategyStatusDto,
   BatchSearchResponseDto,
 } from '../dtos/search-response.dto';
+import { FailureResponseDto } from '../dtos/failure.dto';
+import { FailureHttpException } from '../failure-http.exception';
 import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
 
 @ApiTags('Search')
@@ -30,13 +33,18 @@ import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
 export class SearchController {
   private readonly logger = new Logger(SearchController.name);
 
-  constructor(private readonly orchestrator: SearchOrchestratorService) {}
+  constructor(
+    private readonly orchestrator: SearchOrchestratorService,
+    private readonly persistence: CompanyPersistenceService,
+  ) {}
 
   /**
    * GET /search?q=INTERBANK&strategy=ddg_http
+   * GET /search?q=INTERBANK&mode=fanout
    *
    * Busca la web oficial de una empresa.
    * Si no se indica strategy, el orquestador elige la mejor disponible.
+   * mode=fanout consulta todos los motores directos en paralelo y fusiona por consenso.
    *
    * Para n8n: GET http://localhost:3457/search?q={{$json.company_name}}
    */
@@ -45,18 +53,45 @@ export class SearchController {
     summary: 'Buscar web oficial de una empresa',
     description:
       'Busca la web oficial usando la estrategia indicada o la mejor disponible. ' +
-      'Revisa el campo "strategies" en la respuesta para saber si cambiar de método.',
+      'Revisa el campo "strategies" en la respuesta para saber si cambiar de método. ' +
+      'Con mode=fanout consulta todos los motores directos a la vez y devuelve los candidatos fusionados con los votos de cada motor. ' +
+      'Sin web encontrada responde con el código del fallo: 404 (no existe), 502 (error del motor), 503 (bloqueado o sin motores disponibles, reintentar luego).',
   })
   @ApiResponse({ status: 200, type: SearchResponseDto })
+  @ApiResponse({ status: 400, type: FailureResponseDto, description: 'Estrategia desconocida' })
+  @ApiResponse({ status: 404, type: FailureResponseDto, description: 'Ningún motor encontró la web' })
+  @ApiResponse({ status: 502, type: FailureResponseDto, description: 'Error de los motores' })
+  @ApiResponse({ status: 503, type: FailureResponseDto, description: 'Motores bloqueados o no disponibles' })
   async searchCompany(@Query() dto: SearchCompanyDto): Promise<SearchResponseDto> {
-    this.logger.log(`🔍 Search: "${dto.q}" | ruc: ${dto.ruc || 'N/A'} | strategy: ${dto.strategy || 'auto'}`);
-
-    const { result, strategyUsed } = await this.orchestrator.search(
-      dto.q,
-      dto.strategy,
-      dto.ruc,
+    const fanoutMode = dto.mode === 'fanout';
+    this.logger.log(
+      `🔍 Search: "${dto.q}" | ruc: ${dto.ruc || 'N/A'} | ${fanoutMode ? 'mode: fanout' : `strategy: ${dto.strategy || 'auto'}`}`,
     );
+
+    const { result, failure, strategyUsed, cache, fanout } = fanoutMode
+      ? await this.orchestrator.searchFanout(dto.q, dto.ruc, { fresh: dto.fresh, verify: dto.verify })
+      : {
+          ...(await this.orchestrator.search(dto.q, dto.strategy, dto.ruc, {
+            fresh: dto.fresh,
+            verify: dto.verify,
+          })),
+          fanout: undefined,
+        };
     const statuses = this.orchestrator.getAllStatuses();
+    const persistence = dto.persist
+      ? await this.persistence.persistSearch(dto.ruc, dto.q, result, strategyUsed)
+      : undefined;
+
+    if (!result && failure) {
+      throw new FailureHttpException(failure, {
+        company: dto.q,
+        ruc: dto.ruc ?? null,
+        strategyUsed,
+        strategies: statuses.map((s) => this.mapStatus(s)),
+        cache,
+        persistence,
+      });
+    }
 
     return {
       found: result?.found ?? false,
@@ -70,8 +105,25 @@ export class SearchController {
         url: r.url,
         title: r.title,
         score: r.score,
+        verified: r.verified,
+        evidence: r.evidence,
       })),
+      verified: result?.verified ?? null,
+      evidence: result?.evidence ?? [],
       strategies: statuses.map((s) => this.mapStatus(s)),
+      cache,
+      fanout: fanout && {
+        engines: fanout.engines,
+        candidates: fanout.candidates.map((c) => ({
+          url: c.url,
+          domain: c.domain,
+          title: c.title,
+          bestScore: c.bestScore,
+          fusedScore: Math.round(c.fusedScore * 10000) / 10000,
+          votes: c.votes.map((v) => ({ strategy: v.source, rank: v.rank, score: v.score })),
+        })),
+      },
+      persistence,
       timestamp: new Date().toISOString(),
     };
   }
@@ -111,6 +163,7 @@ export class SearchController {
         website: r.result?.website ?? null,
         score: r.result?.score ?? 0,
         strategyUsed: r.strategyUsed,
+        failure: r.failure,
       };
     });
 
@@ -17,7 +17,7 @@ import {
 import { Transform, Type } from 'class-transformer';
 import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
 
-class BatchCompanyItem {
+export class BatchCompanyItem {
   @ApiProperty({ example: '20100130204' })
   @IsOptional()
   @IsString()
@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Metadata de caché incluida en las respuestas.
+ * hit=true → el resultado salió del caché, sin requests de red.
+ */
+export class CacheInfoDto {
+  @ApiProperty({ example: true })
+  hit!: boolean;
+
+  @ApiProperty({ example: 'search:ruc:20100130204' })
+  key!: string;
+
+  @ApiPropertyOptional({ example: '2026-02-10T15:30:00.000Z', nullable: true })
+  storedAt!: string | null;
+
+  @ApiPropertyOptional({ example: '2026-02-17T15:30:00.000Z', nullable: true })
+  expiresAt!: string | null;
+}
@@ -0,0 +1,159 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsBoolean, MinLength, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { CacheInfoDto } from './cache.dto';
+import { PersistInfoDto } from './persistence.dto';
+import { ExecutiveDto, UbigeoDto } from './enrich-response.dto';
+
+/** Lee el valor crudo: la conversión implícita convierte 'false' en true */
+const toBoolean = ({ obj, key }: { obj: Record<string, unknown>; key: string }) => {
+  const raw = obj[key];
+  if (typeof raw === 'string') return raw === 'true';
+  return raw;
+};
+
+/**
+ * Query de GET /companies/:ruc/dossier
+ */
+export class DossierQueryDto {
+  @ApiPropertyOptional({
+    description: 'Nombre para buscar la web oficial. Default: razón social de DatosPeru',
+    example: 'INTERBANK',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(200)
+  @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Ignorar el caché en los tres flujos', default: false })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toBoolean)
+  fresh?: boolean;
+
+  @ApiPropertyOptional({ description: 'Guardar cada fuente en companies_raw', default: false })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(toBoolean)
+  persist?: boolean;
+}
+
+// ──────────────────────────────────────────────────────────
+// Response DTOs — cada campo lleva su valor y las fuentes que lo aportaron
+// ──────────────────────────────────────────────────────────
+
+const SOURCES = ['datosperu', 'website', 'search'];
+
+class DossierStringFieldDto {
+  @ApiPropertyOptional({ nullable: true }) value: string | null;
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['datosperu'] }) sources: string[];
+}
+
+class DossierNumberFieldDto {
+  @ApiPropertyOptional({ nullable: true }) value: number | null;
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['website'] }) sources: string[];
+}
+
+class DossierListFieldDto {
+  @ApiProperty({ type: [String] }) value: string[];
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['datosperu', 'website'] }) sources: string[];
+}
+
+class DossierLinksFieldDto {
+  @ApiProperty({ example: { linkedin: 'https://linkedin.com/company/interbank' } })
+  value: Record<string, string>;
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['website'] }) sources: string[];
+}
+
+class DossierUbigeoFieldDto {
+  @ApiPropertyOptional({ type: UbigeoDto, nullable: true }) value: UbigeoDto | null;
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['datosperu'] }) sources: string[];
+}
+
+class DossierExecutivesFieldDto {
+  @ApiProperty({ type: [ExecutiveDto] }) value: ExecutiveDto[];
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['datosperu'] }) sources: string[];
+}
+
+class DossierLeaderDto {
+  @ApiProperty({ example: 'Carlos Rodríguez-Pastor' }) name: string;
+  @ApiPropertyOptional({ nullable: true, example: 'Presidente del Directorio' }) role: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'PRESIDENTE DE DIRECTORIO' }) registeredRole: string | null;
+  @ApiPropertyOptional({ nullable: true, example: '30/03/2012' }) since: string | null;
+  @ApiPropertyOptional({ nullable: true }) photoUrl: string | null;
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['website', 'datosperu'] }) sources: string[];
+}
+
+class DossierLeadershipFieldDto {
+  @ApiProperty({ type: [DossierLeaderDto] }) value: DossierLeaderDto[];
+  @ApiProperty({ enum: SOURCES, isArray: true, example: ['website', 'datosperu'] }) sources: string[];
+}
+
+export class CompanyDossierDto {
+  @ApiProperty({ example: '20100053455' }) ruc: string;
+  @ApiProperty({ description: 'datosperu > website' }) legalName: DossierStringFieldDto;
+  @ApiProperty({ description: 'website > search' }) tradeName: DossierStringFieldDto;
+  @ApiProperty({ description: 'website > datosperu' }) description: DossierStringFieldDto;
+  @ApiProperty() history: DossierStringFieldDto;
+  @ApiProperty({ description: 'website > datosperu (fecha de inicio)' }) foundedYear: DossierNumberFieldDto;
+  @ApiProperty() status: DossierStringFieldDto;
+  @ApiProperty() taxpayerType: DossierStringFieldDto;
+  @ApiProperty() ciiu: DossierStringFieldDto;
+  @ApiProperty({ description: 'website > datosperu (sector económico)' }) industry: DossierStringFieldDto;
+  @ApiProperty({ description: 'datosperu > website' }) address: DossierStringFieldDto;
+  @ApiProperty() department: DossierStringFieldDto;
+  @ApiProperty() province: DossierStringFieldDto;
+  @ApiProperty() district: DossierStringFieldDto;
+  @ApiProperty({ description: 'datosperu > website (sede)' }) ubigeo: DossierUbigeoFieldDto;
+  @ApiProperty({ description: 'search > datosperu > website' }) website: DossierStringFieldDto;
+  @ApiProperty({ description: 'Unión de datosperu + website' }) phones: DossierListFieldDto;
+  @ApiProperty() emails: DossierListFieldDto;
+  @ApiProperty() socialLinks: DossierLinksFieldDto;
+  @ApiProperty({ description: 'website > datosperu' }) logoUrl: DossierStringFieldDto;
+  @ApiProperty() mission: DossierStringFieldDto;
+  @ApiProperty() vision: DossierStringFieldDto;
+  @ApiProperty() values: DossierListFieldDto;
+  @ApiProperty() executives: DossierExecutivesFieldDto;
+  @ApiProperty({ description: 'Equipo de la web conciliado con los ejecutivos SUNAT' })
+  leadership: DossierLeadershipFieldDto;
+  @ApiProperty({ description: 'datosperu (planilla) > website' }) employeeCount: DossierStringFieldDto;
+}
+
+class DossierDatosPeruStatusDto {
+  @ApiProperty() found: boolean;
+  @ApiPropertyOptional({ nullable: true }) sourceUrl: string | null;
+  @ApiPropertyOptional({ type: CacheInfoDto, nullable: true }) cache: CacheInfoDto | null;
+  @ApiPropertyOptional({ nullable: true }) error: string | null;
+}
+
+class DossierSearchStatusDto {
+  @ApiProperty({ description: 'false si no había nombre para buscar' }) attempted: boolean;
+  @ApiProperty() found: boolean;
+  @ApiPropertyOptional({ nullable: true }) website: string | null;
+  @ApiProperty() score: number;
+  @ApiPropertyOptional({ nullable: true }) strategy: string | null;
+  @ApiPropertyOptional({ type: CacheInfoDto, nullable: true }) cache: CacheInfoDto | null;
+  @ApiPropertyOptional({ nullable: true }) error: string | null;
+}
+
+class DossierWebsiteStatusDto {
+  @ApiProperty() scraped: boolean;
+  @ApiPropertyOptional({ nullable: true }) url: string | null;
+  @ApiProperty() fieldsExtracted: number;
+  @ApiPropertyOptional({ type: CacheInfoDto, nullable: true }) cache: CacheInfoDto | null;
+  @ApiPropertyOptional({ nullable: true }) error: string | null;
+}
+
+export class DossierResponseDto {
+  @ApiProperty({ description: 'true si al menos un campo tiene valor' }) success: boolean;
+  @ApiProperty() fieldsFilled: number;
+  @ApiProperty({ type: CompanyDossierDto }) dossier: CompanyDossierDto;
+  @ApiProperty({ type: DossierDatosPeruStatusDto }) datosPeru: DossierDatosPeruStatusDto;
+  @ApiProperty({ type: DossierSearchStatusDto }) search: DossierSearchStatusDto;
+  @ApiProperty({ type: DossierWebsiteStatusDto }) website: DossierWebsiteStatusDto;
+  @ApiPropertyOptional({ type: [PersistInfoDto] }) persistence?: PersistInfoDto[];
+  @ApiProperty() durationMs: number;
+  @ApiProperty({ example: '2026-02-10T15:30:00.000Z' }) timestamp: string;
+}
@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsEnum, ArrayMinSize, ArrayUnique } from 'class-validator';
+import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
+import { StrategyStatusDto } from './search-response.dto';
+
+/**
+ * DTO para cambiar el orden de los motores en runtime.
+ */
+export class SetEnginePriorityDto {
+  @ApiProperty({
+    description:
+      'Motores en el orden deseado. Los no listados quedan detrás, en su orden actual. ' +
+      'La fase (direct / directory) de cada motor no cambia.',
+    enum: SearchStrategy,
+    isArray: true,
+    example: [SearchStrategy.BING_HTTP, SearchStrategy.DDG_HTTP],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(SearchStrategy, {
+    each: true,
+    message: `Estrategia inválida. Opciones: ${Object.values(SearchStrategy).join(', ')}`,
+  })
+  order!: SearchStrategy[];
+}
+
+class EngineDelayDto {
+  @ApiProperty({ example: 2000 }) min!: number;
+  @ApiProperty({ example: 5000 }) max!: number;
+}
+
+export class EngineDto {
+  @ApiProperty({ enum: SearchStrategy }) strategy!: SearchStrategy;
+  @ApiProperty({ enum: ['direct', 'directory'] }) phase!: string;
+  @ApiProperty({ example: 10, description: 'Menor = primero dentro de su fase' }) priority!: number;
+  @ApiProperty({ type: EngineDelayDto }) delay!: EngineDelayDto;
+  @ApiProperty({ type: StrategyStatusDto }) status!: StrategyStatusDto;
+}
@@ -1,14 +1,49 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CacheInfoDto } from './cache.dto';
+import { PersistInfoDto } from './persistence.dto';
+import { FailureDto } from './failure.dto';
 
-class ExecutiveDto {
+export class ExecutiveDto {
   @ApiProperty() cargo: string;
   @ApiProperty() nombre: string;
   @ApiPropertyOptional() desde: string | null;
 }
 
+export class UbigeoDto {
+  @ApiProperty({ example: '150115', description: '6 dígitos = distrito, 4 = provincia, 2 = departamento' })
+  code: string;
+  @ApiProperty({ example: 'Lima' }) department: string;
+  @ApiPropertyOptional({ nullable: true, example: 'Lima' }) province: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'La Victoria' }) district: string | null;
+}
+
+export class PeruAddressDto {
+  @ApiProperty({ example: 'AV. CARLOS VILLARAN NRO. 140 URB. SANTA CATALINA' }) raw: string;
+  @ApiPropertyOptional({ nullable: true, example: 'Av.' }) streetType: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'Carlos Villaran' }) streetName: string | null;
+  @ApiPropertyOptional({ nullable: true, example: '140' }) number: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'Int. 501' }) interior: string | null;
+  @ApiPropertyOptional({ nullable: true }) block: string | null;
+  @ApiPropertyOptional({ nullable: true }) lot: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'Santa Catalina' }) urbanization: string | null;
+  @ApiPropertyOptional({ type: UbigeoDto, nullable: true }) ubigeo: UbigeoDto | null;
+}
+
+export class PhoneNumberDto {
+  @ApiProperty({ example: '(01) 219-2000 anexo 123' }) raw: string;
+  @ApiProperty({ example: '+5112192000' }) e164: string;
+  @ApiProperty({ enum: ['mobile', 'landline', 'tollfree', 'foreign'], example: 'landline' }) lineType: string;
+  @ApiPropertyOptional({ nullable: true, example: '1' }) areaCode: string | null;
+  @ApiPropertyOptional({ nullable: true, example: 'Lima' }) region: string | null;
+  @ApiPropertyOptional({ nullable: true, example: '15', description: 'Departamento (ubigeo INEI)' })
+  regionCode: string | null;
+  @ApiPropertyOptional({ nullable: true, example: '123' }) extension: string | null;
+}
+
 class BranchDto {
   @ApiProperty() direccion: string;
   @ApiPropertyOptional() ubicacion: string | null;
+  @ApiPropertyOptional({ type: PeruAddressDto, nullable: true }) direccionNormalizada: PeruAddressDto | null;
 }
 
 class WorkerHistoryDto {
@@ -50,9 +85,12 @@ export class DatosPeruEnrichResponseDto {
   @ApiPropertyOptional() provincia: string | null;
   @ApiPropertyOptional() distrito: string | null;
   @ApiPropertyOptional() pais: string | null;
+  @ApiPropertyOptional({ type: UbigeoDto, nullable: true }) ubigeo: UbigeoDto | null;
+  @ApiPropertyOptional({ type: PeruAddressDto, nullable: true }) direccionNormalizada: PeruAddressDto | null;
 
   // Contacto
   @ApiProperty({ type: [String] }) telefonos: string[];
+  @ApiProperty({ type: [PhoneNumberDto] }) telefonosNormalizados: PhoneNumberDto[];
   @ApiPropertyOptional() web: string | null;
   @ApiProperty() proveedorEstado: boolean;
 
@@ -72,4 +110,37 @@ export class DatosPeruEnrichResponseDto {
   @ApiProperty() fieldsExtracted: number;
   @ApiProperty() durationMs: number;
   @ApiProperty() timestamp: string;
+  @ApiPropertyOptional({ type: CacheInfoDto }) cache?: CacheInfoDto;
+  @ApiPropertyOptional({ type: PersistInfoDto }) persistence?: PersistInfoDto;
+}
+
+export class DatosPeruBatchItemDto {
+  @ApiProperty({ example: '20100053455' }) ruc!: string;
+
+  @ApiProperty({
+    enum: ['ok', 'not_found', 'blocked', 'parse_error'],
+    example: 'ok',
+    description: 'blocked = no se pudo descargar tras los reintentos (Cloudflare / proxies caídos)',
+  })
+  status!: string;
+
+  @ApiProperty({ example: 1, description: 'Consultas a datosperu.org (0 = salió del caché)' })
+  attempts!: number;
+
+  @ApiPropertyOptional({ type: FailureDto, nullable: true, description: 'Motivo si status != ok' })
+  failure!: FailureDto | null;
+
+  @ApiPropertyOptional({ type: DatosPeruEnrichResponseDto, nullable: true })
+  profile!: DatosPeruEnrichResponseDto | null;
+}
+
+export class DatosPeruBatchResponseDto {
+  @ApiProperty({ example: 2 }) total!: number;
+  @ApiProperty({ example: 1 }) ok!: number;
+  @ApiProperty({ example: 1 }) notFound!: number;
+  @ApiProperty({ example: 0 }) blocked!: number;
+  @ApiProperty({ example: 0 }) parseError!: number;
+  @ApiProperty({ type: [DatosPeruBatchItemDto] }) results!: DatosPeruBatchItemDto[];
+  @ApiProperty() durationMs!: number;
+  @ApiProperty() timestamp!: string;
 }
@@ -1,5 +1,16 @@
-import { IsString, Matches } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsArray,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsRuc } from './is-ruc.decorator';
 
 export class EnrichByRucDto {
   @ApiProperty({
@@ -7,6 +18,43 @@ export class EnrichByRucDto {
     example: '20100047218',
   })
   @IsString()
-  @Matches(/^\d{11}$/, { message: 'El RUC debe tener exactamente 11 dígitos' })
+  @IsRuc()
   ruc: string;
 }
+
+/**
+ * DTO para enriquecimiento DatosPeru por lote.
+ * Hasta 100 RUCs por request; para listas grandes, partirlas en varios lotes.
+ */
+export class EnrichBatchDto {
+  @ApiProperty({
+    description: 'RUCs a enriquecer (los duplicados se consultan una vez)',
+    type: [String],
+    example: ['20100053455', '20100047218'],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Mínimo 1 RUC' })
+  @ArrayMaxSize(100, { message: 'Máximo 100 RUCs por lote' })
+  @IsRuc({ each: true })
+  rucs!: string[];
+
+  @ApiPropertyOptional({
+    description: 'RUCs en paralelo (default: DATOSPERU_BATCH_CONCURRENCY; nunca más que proxies en el pool)',
+    example: 4,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(16)
+  concurrency?: number;
+
+  @ApiPropertyOptional({ description: 'Ignorar el caché', example: false })
+  @IsOptional()
+  @IsBoolean()
+  fresh?: boolean;
+
+  @ApiPropertyOptional({ description: 'Guardar los perfiles encontrados en companies_raw (data.datosperu)', example: false })
+  @IsOptional()
+  @IsBoolean()
+  persist?: boolean;
+}
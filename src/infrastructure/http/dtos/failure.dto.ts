@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { FailureCode } from '../../../domain/enums/failure-code.enum';
+
+/**
+ * Motivo de un fallo (dentro de respuestas 200 de lotes y jobs).
+ * retryable=true → reintentar más tarde (bloqueo, red); false → no va a cambiar.
+ */
+export class FailureDto {
+  @ApiProperty({ enum: FailureCode, example: FailureCode.BLOCKED })
+  code!: FailureCode;
+
+  @ApiProperty({ example: 'Cloudflare bloqueó el buscador en todos los intentos' })
+  message!: string;
+
+  @ApiProperty({ example: true })
+  retryable!: boolean;
+}
+
+/**
+ * Cuerpo de las respuestas de error 400 / 404 / 502 / 503.
+ *
+ *   400 invalid_input · 404 not_found · 502 upstream_error, parse_error · 503 blocked, unavailable
+ */
+export class FailureResponseDto extends FailureDto {
+  @ApiProperty({ example: 503 })
+  statusCode!: number;
+}
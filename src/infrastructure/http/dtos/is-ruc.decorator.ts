@@ -0,0 +1,21 @@
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+import { isValidRuc } from '../../../shared/utils/ruc';
+
+/**
+ * RUC de 11 dígitos con prefijo válido (10, 15, 17, 20) y dígito verificador SUNAT.
+ */
+export function IsRuc(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isRuc',
+      validator: {
+        validate: (value) => typeof value === 'string' && isValidRuc(value),
+        defaultMessage: buildMessage(
+          (each) => `${each}$property debe ser un RUC válido (11 dígitos, prefijo 10/15/17/20 y dígito verificador)`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
@@ -0,0 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Resultado de escribir en companies_raw (solo con persist=true).
+ */
+export class PersistInfoDto {
+  @ApiProperty({ example: true })
+  persisted!: boolean;
+
+  @ApiPropertyOptional({ example: '20100053455', nullable: true })
+  ruc!: string | null;
+
+  @ApiProperty({ example: 'search', enum: ['search', 'website', 'datosperu'], description: 'Clave dentro de data (JSONB)' })
+  key!: string;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  error!: string | null;
+}
@@ -1,5 +1,6 @@
-import { IsString, IsInt, IsOptional, Min, Max } from 'class-validator';
+import { IsString, IsInt, IsOptional, IsIn, IsBoolean, Min, Max } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PROXY_PROTOCOLS, ProxyProtocol } from '../../../shared/utils/proxy-url';
 
 export class TestProxyDto {
   @ApiProperty({ description: 'Proxy IP address', example: '192.111.134.10' })
@@ -13,13 +14,32 @@ export class TestProxyDto {
   port: number;
 
   @ApiPropertyOptional({
-    description: 'Proxy protocol',
+    description: 'Proxy protocol (http/https = túnel CONNECT)',
+    enum: PROXY_PROTOCOLS,
     example: 'socks5',
     default: 'socks5',
   })
+  @IsIn(PROXY_PROTOCOLS)
+  @IsOptional()
+  protocol?: ProxyProtocol;
+
+  @ApiPropertyOptional({ description: 'Usuario del proxy (proveedores pagos)', example: 'cliente-pe' })
   @IsString()
   @IsOptional()
-  protocol?: string;
+  username?: string;
+
+  @ApiPropertyOptional({ description: 'Contraseña del proxy' })
+  @IsString()
+  @IsOptional()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description: 'Si el test pasa, agregar el proxy al pool (origen manual)',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  addToPool?: boolean;
 }
 
 export class TestProxyResponseDto {
@@ -29,11 +49,41 @@ export class TestProxyResponseDto {
   @ApiProperty() protocol: string;
   @ApiPropertyOptional() responseMs?: number;
   @ApiPropertyOptional() error?: string;
+  @ApiPropertyOptional({ description: 'Solo si se pidió addToPool' }) addedToPool?: boolean;
+}
+
+export class ProxyHealthDto {
+  @ApiProperty({ example: 'socks5h://192.111.134.10:4145', description: 'Contraseña enmascarada' }) url: string;
+  @ApiProperty({ enum: ['seed', 'refresh', 'manual'] }) source: string;
+  @ApiProperty({ example: 12 }) successes: number;
+  @ApiProperty({ example: 3 }) failures: number;
+  @ApiProperty({ example: 0.76, description: 'Con suavizado de Laplace (un proxy nuevo arranca en 0.5)' })
+  successRate: number;
+  @ApiPropertyOptional({ example: 2350, nullable: true }) avgLatencyMs: number | null;
+  @ApiProperty({ example: 0.52, description: 'Peso en el sorteo del próximo proxy' }) weight: number;
+  @ApiProperty({ example: 0 }) consecutiveFailures: number;
+  @ApiPropertyOptional({ nullable: true }) lastSuccessAt: string | null;
+  @ApiPropertyOptional({ nullable: true }) lastFailureAt: string | null;
+  @ApiPropertyOptional({ nullable: true }) lastError: string | null;
+  @ApiPropertyOptional({ nullable: true, description: 'Fuera de la rotación hasta esta fecha' })
+  quarantinedUntil: string | null;
 }
 
 export class ProxyPoolStatsResponseDto {
   @ApiProperty() totalInPool: number;
+  @ApiProperty({ description: 'Fuera de cuarentena' }) available: number;
+  @ApiProperty() quarantined: number;
   @ApiProperty() seedCount: number;
+  @ApiProperty() refreshedCount: number;
   @ApiProperty() directMode: boolean;
-  @ApiProperty({ type: [String] }) sampleProxies: string[];
+  @ApiProperty({ type: [String], description: 'Los 5 disponibles más sanos' }) sampleProxies: string[];
+  @ApiProperty({ type: [ProxyHealthDto], description: 'Ordenados por salud' }) proxies: ProxyHealthDto[];
+}
+
+export class RefreshProxiesResponseDto {
+  @ApiProperty() message: string;
+  @ApiProperty() previousCount: number;
+  @ApiProperty({ description: 'Candidatos nuevos probados' }) tested: number;
+  @ApiProperty({ description: 'Candidatos que funcionaron y entraron al pool' }) added: number;
+  @ApiProperty() totalInPool: number;
 }
@@ -1,4 +1,172 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CacheInfoDto } from './cache.dto';
+import { PersistInfoDto } from './persistence.dto';
+import { FailureDto } from './failure.dto';
+import { PeruAddressDto, PhoneNumberDto } from './enrich-response.dto';
+
+export class FieldProvenanceDto {
+  @ApiProperty({ example: '1897', description: 'Valor (o ítem de la lista) al que aplica' })
+  value!: string;
+
+  @ApiProperty({ example: 'https://interbank.pe/nosotros' })
+  sourceUrl!: string;
+
+  @ApiProperty({ example: 'extractFromText', description: 'Extractor que produjo el valor' })
+  extractor!: string;
+
+  @ApiProperty({ example: '/fundad[ao]?\\s+(?:en\\s+)?(\\d{4})/i', description: 'Selector, propiedad JSON-LD o regex' })
+  rule!: string;
+
+  @ApiProperty({ example: '...el Banco Internacional del Perú fue fundado en 1897 por...' })
+  snippet!: string;
+
+  @ApiProperty({ example: 0.65, minimum: 0, maximum: 1 })
+  confidence!: number;
+}
+
+export class SkippedPageDto {
+  @ApiProperty({ example: 'https://interbank.pe/contacto' })
+  url!: string;
+
+  @ApiProperty({ example: 'robots.txt: Disallow /contacto' })
+  reason!: string;
+}
+
+export class ContactEmailDto {
+  @ApiProperty({ example: 'rrhh@interbank.pe' })
+  address!: string;
+
+  @ApiProperty({ enum: ['generic', 'hr', 'personal'], example: 'hr' })
+  role!: string;
+
+  @ApiProperty({ example: true, description: 'Es del dominio de la web oficial' })
+  companyDomain!: boolean;
+}
+
+export class RucCandidateDto {
+  @ApiProperty({ example: '20100053455' })
+  ruc!: string;
+
+  @ApiProperty({ example: 0.9, minimum: 0, maximum: 1 })
+  score!: number;
+
+  @ApiProperty({
+    example: ['label', 'footer', 'legal'],
+    enum: ['json-ld', 'label', 'footer', 'legal', 'legal-page', 'third-party'],
+    isArray: true,
+  })
+  signals!: string[];
+
+  @ApiProperty({ example: 2 })
+  occurrences!: number;
+
+  @ApiProperty({ example: 'https://interbank.pe/' })
+  sourceUrl!: string;
+}
+
+export class RucCheckDto {
+  @ApiProperty({ example: '20100053455' })
+  requested!: string;
+
+  @ApiPropertyOptional({ example: '20100053455', nullable: true })
+  found!: string | null;
+
+  @ApiProperty({
+    enum: ['match', 'candidate', 'mismatch', 'not-found'],
+    example: 'match',
+    description: 'candidate: el RUC pedido aparece en la web pero no es el de mejor puntaje',
+  })
+  status!: string;
+}
+
+export class AtsLinkDto {
+  @ApiProperty({
+    example: 'workday',
+    enum: ['workday', 'lever', 'greenhouse', 'smartrecruiters', 'successfactors', 'computrabajo', 'bumeran', 'linkedin'],
+  })
+  provider!: string;
+
+  @ApiProperty({ example: 'https://interbank.wd3.myworkdayjobs.com/Interbank' })
+  url!: string;
+}
+
+export class JobOpeningDto {
+  @ApiProperty({ example: 'Analista de Riesgos' })
+  title!: string;
+
+  @ApiPropertyOptional({ example: 'Lima, Lima' })
+  location!: string | null;
+
+  @ApiProperty({ example: 'https://interbank.wd3.myworkdayjobs.com/Interbank/job/Lima/Analista-de-Riesgos_R123' })
+  url!: string;
+
+  @ApiPropertyOptional({ example: '2026-02-10', description: 'Fecha de publicación (YYYY-MM-DD)' })
+  postedAt!: string | null;
+
+  @ApiProperty({ example: 'workday', description: "'website' o el ATS del que salió" })
+  source!: string;
+}
+
+export class CompanyJobsDto {
+  @ApiPropertyOptional({ example: 'https://interbank.pe/trabaja-con-nosotros', description: 'Página de empleo (propia o del ATS)' })
+  careersUrl!: string | null;
+
+  @ApiProperty({ type: [AtsLinkDto] })
+  atsLinks!: AtsLinkDto[];
+
+  @ApiProperty({ type: [JobOpeningDto] })
+  openings!: JobOpeningDto[];
+}
+
+export class WorkplaceBenefitDto {
+  @ApiProperty({
+    example: 'health',
+    enum: ['health', 'flexibility', 'career', 'compensation', 'wellbeing', 'family', 'other'],
+  })
+  category!: string;
+
+  @ApiProperty({ example: 'Seguro EPS al 100%' })
+  text!: string;
+
+  @ApiProperty({ example: 'https://interbank.pe/trabaja-con-nosotros' })
+  sourceUrl!: string;
+}
+
+export class CertificationDto {
+  @ApiProperty({ example: 'Great Place to Work' })
+  name!: string;
+
+  @ApiPropertyOptional({ example: 2024 })
+  year!: number | null;
+
+  @ApiProperty({ example: 'https://interbank.pe/' })
+  sourceUrl!: string;
+}
+
+export class CultureStatementDto {
+  @ApiProperty({ example: 'diversity', enum: ['diversity', 'sustainability'] })
+  topic!: string;
+
+  @ApiProperty({ example: 'Promovemos la equidad de género en todos nuestros equipos.' })
+  text!: string;
+
+  @ApiProperty({ example: 'https://interbank.pe/sostenibilidad' })
+  sourceUrl!: string;
+}
+
+export class LeadershipMemberDto {
+  @ApiProperty({ example: 'Carlos Rodríguez-Pastor' })
+  name!: string;
+
+  @ApiPropertyOptional({ example: 'Presidente del Directorio' })
+  role!: string | null;
+
+  @ApiPropertyOptional({ example: 'https://interbank.pe/o/fotos/directorio/crp.jpg' })
+  photoUrl!: string | null;
+
+  @ApiProperty({ example: 'https://interbank.pe/directorio' })
+  sourceUrl!: string;
+}
 
 export class CompanyProfileResponseDto {
   @ApiProperty({ example: true })
@@ -28,15 +196,27 @@ export class CompanyProfileResponseDto {
   @ApiPropertyOptional({ example: 'Av. Carlos Villarán 140, Lima' })
   headquarters!: string | null;
 
+  @ApiPropertyOptional({ type: PeruAddressDto, nullable: true, description: 'Sede descompuesta + ubigeo INEI' })
+  headquartersAddress!: PeruAddressDto | null;
+
   @ApiProperty({ example: ['+51 1 311-9000', '993119000'] })
   phones!: string[];
 
+  @ApiProperty({ type: [PhoneNumberDto], description: 'Teléfonos en E.164 con tipo de línea, región y anexo' })
+  normalizedPhones!: PhoneNumberDto[];
+
   @ApiProperty({ example: ['contacto@interbank.pe'] })
   emails!: string[];
 
+  @ApiProperty({ type: [ContactEmailDto], description: 'Emails con rol (generic / hr / personal) y si son del dominio propio' })
+  contactEmails!: ContactEmailDto[];
+
   @ApiPropertyOptional({ example: '20100053455' })
   ruc!: string | null;
 
+  @ApiProperty({ type: [RucCandidateDto], description: 'RUCs válidos de la web, de mayor a menor puntaje' })
+  rucCandidates!: RucCandidateDto[];
+
   @ApiPropertyOptional({ example: 'Banca y Finanzas' })
   industry!: string | null;
 
@@ -64,9 +244,27 @@ export class CompanyProfileResponseDto {
   @ApiProperty({ example: { facebook: 'https://facebook.com/InterBankPeru' } })
   socialLinks!: Record<string, string>;
 
+  @ApiProperty({ type: CompanyJobsDto, description: 'Página de empleo, ATS enlazados y ofertas vigentes' })
+  jobs!: CompanyJobsDto;
+
+  @ApiProperty({ type: [WorkplaceBenefitDto], description: 'Beneficios para colaboradores' })
+  benefits!: WorkplaceBenefitDto[];
+
+  @ApiProperty({ type: [CertificationDto], description: 'Great Place to Work, ISO, ESR...' })
+  certifications!: CertificationDto[];
+
+  @ApiProperty({ type: [CultureStatementDto], description: 'Declaraciones de diversidad / sostenibilidad' })
+  cultureStatements!: CultureStatementDto[];
+
+  @ApiProperty({ type: [LeadershipMemberDto], description: 'Directorio y equipo gerencial publicados en la web' })
+  leadership!: LeadershipMemberDto[];
+
   @ApiProperty({ example: ['https://interbank.pe/', 'https://interbank.pe/nosotros'] })
   pagesScraped!: string[];
 
+  @ApiProperty({ type: [SkippedPageDto], description: 'Páginas no visitadas (robots.txt) y por qué' })
+  pagesSkipped!: SkippedPageDto[];
+
   @ApiProperty({ example: {} })
   extras!: Record<string, string>;
 
@@ -78,6 +276,27 @@ export class CompanyProfileResponseDto {
 
   @ApiProperty({ example: '2026-02-13T10:30:00.000Z' })
   scrapedAt!: string;
+
+  @ApiPropertyOptional({ type: CacheInfoDto })
+  cache?: CacheInfoDto;
+
+  @ApiPropertyOptional({
+    description: 'Solo con provenance=true. Por campo: de qué página, extractor y regla salió cada valor',
+    example: {
+      foundedYear: [{
+        value: '1897',
+        sourceUrl: 'https://interbank.pe/nosotros',
+        extractor: 'extractFromText',
+        rule: '/fundad[ao]?\\s+(?:en\\s+)?(\\d{4})/i',
+        snippet: '...fue fundado en 1897 por...',
+        confidence: 0.65,
+      }],
+    },
+  })
+  provenance?: Record<string, FieldProvenanceDto[]>;
+
+  @ApiPropertyOptional({ type: PersistInfoDto, description: 'Solo con persist=true' })
+  persistence?: PersistInfoDto;
 }
 
 export class SearchAndScrapeResponseDto {
@@ -87,11 +306,19 @@ export class SearchAndScrapeResponseDto {
     website: string | null;
     score: number;
     strategy: string;
+    cache: CacheInfoDto;
+    failure: FailureDto | null;
   };
 
   @ApiPropertyOptional({ type: CompanyProfileResponseDto, nullable: true })
   profile!: CompanyProfileResponseDto | null;
 
+  @ApiPropertyOptional({ type: RucCheckDto, description: 'Solo con ruc: RUC pedido vs. RUC publicado en la web' })
+  rucCheck?: RucCheckDto;
+
+  @ApiPropertyOptional({ type: [PersistInfoDto], description: 'Solo con persist=true (search + website)' })
+  persistence?: PersistInfoDto[];
+
   @ApiProperty({ example: '2026-02-13T10:30:00.000Z' })
   timestamp!: string;
 }
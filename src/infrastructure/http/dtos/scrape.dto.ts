@@ -12,6 +12,7 @@ import {
   MaxLength,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { IsRuc } from './is-ruc.decorator';
 
 /**
  * DTO para scraping directo de una URL.
@@ -26,6 +27,15 @@ export class ScrapeUrlDto {
   @IsUrl({}, { message: 'Debe ser una URL válida (http:// o https://)' })
   url!: string;
 
+  @ApiPropertyOptional({
+    description: 'RUC de la empresa — requerido para persist=true (si no, se usa el RUC extraído de la web)',
+    example: '20100053455',
+  })
+  @IsOptional()
+  @IsString()
+  @IsRuc()
+  ruc?: string;
+
   @ApiPropertyOptional({
     description: 'Navegar a sub-páginas (/nosotros, /contacto). Default: true',
     default: true,
@@ -74,6 +84,15 @@ export class SearchAndScrapeDto {
   @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
   company!: string;
 
+  @ApiPropertyOptional({
+    description: 'RUC de la empresa — mejora la búsqueda en directorios y es requerido para persist=true',
+    example: '20100053455',
+  })
+  @IsOptional()
+  @IsString()
+  @IsRuc()
+  ruc?: string;
+
   @ApiPropertyOptional({
     description: 'Navegar a sub-páginas. Default: true',
     default: true,
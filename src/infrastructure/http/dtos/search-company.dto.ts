@@ -4,6 +4,8 @@ import {
   IsNotEmpty,
   IsOptional,
   IsEnum,
+  IsBoolean,
+  IsIn,
   MinLength,
   MaxLength,
 } from 'class-validator';
@@ -44,4 +46,57 @@ export class SearchCompanyDto {
     message: `Estrategia inválida. Opciones: ${Object.values(SearchStrategy).join(', ')}`,
   })
   strategy?: SearchStrategy;
+
+  @ApiPropertyOptional({
+    description:
+      'sequential: un motor tras otro (default). ' +
+      'fanout: todos los motores directos en paralelo, fusionando resultados por consenso (ignora strategy)',
+    enum: ['sequential', 'fanout'],
+    default: 'sequential',
+  })
+  @IsOptional()
+  @IsIn(['sequential', 'fanout'], { message: 'Modo inválido. Opciones: sequential, fanout' })
+  mode?: 'sequential' | 'fanout';
+
+  @ApiPropertyOptional({
+    description: 'Ignorar el caché y buscar de nuevo en la red. Default: false',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  // Leer el valor crudo: la conversión implícita convierte 'false' en true
+  @Transform(({ obj, key }) => {
+    const raw = obj[key];
+    if (typeof raw === 'string') return raw === 'true';
+    return raw;
+  })
+  fresh?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Guardar el resultado en companies_raw (data.search). Requiere ruc. Default: false',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ obj, key }) => {
+    const raw = obj[key];
+    if (typeof raw === 'string') return raw === 'true';
+    return raw;
+  })
+  persist?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Verificar los mejores candidatos descargando su web: RUC, razón social y emails del dominio ' +
+      'en la página y el pie legal. Los verificados pasan delante. Requiere ruc. Default: false',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ obj, key }) => {
+    const raw = obj[key];
+    if (typeof raw === 'string') return raw === 'true';
+    return raw;
+  })
+  verify?: boolean;
 }
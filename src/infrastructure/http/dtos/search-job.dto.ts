@@ -0,0 +1,135 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsOptional,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
+import { JobStatus, JobItemStatus } from '../../../domain/enums/job-status.enum';
+import { BatchCompanyItem } from './batch-search.dto';
+
+/**
+ * DTO para crear un job de búsqueda asíncrono.
+ * A diferencia de /search/batch, acepta miles de empresas.
+ */
+export class CreateSearchJobDto {
+  @ApiProperty({
+    description: 'Lista de empresas a buscar',
+    type: [BatchCompanyItem],
+    example: [
+      { ruc: '20100130204', name: 'INTERBANK' },
+      { ruc: '20100055237', name: 'ALICORP S.A.A.' },
+    ],
+  })
+  @IsArray()
+  @ArrayMinSize(1, { message: 'Mínimo 1 empresa' })
+  @ArrayMaxSize(10000, { message: 'Máximo 10000 empresas por job' })
+  @ValidateNested({ each: true })
+  @Type(() => BatchCompanyItem)
+  companies!: BatchCompanyItem[];
+
+  @ApiPropertyOptional({
+    description: 'Estrategia forzada para todo el job',
+    enum: SearchStrategy,
+  })
+  @IsOptional()
+  @IsEnum(SearchStrategy)
+  strategy?: SearchStrategy;
+
+  @ApiPropertyOptional({
+    description: 'Delay entre búsquedas en ms (default: automático según estrategia)',
+    example: 3000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(60000)
+  delayMs?: number;
+}
+
+// ──────────────────────────────────────────────────────────
+// Response DTOs
+// ──────────────────────────────────────────────────────────
+
+export class SearchJobItemDto {
+  @ApiPropertyOptional({ example: '20100130204' })
+  ruc?: string;
+
+  @ApiProperty({ example: 'INTERBANK' })
+  company!: string;
+
+  @ApiProperty({ enum: JobItemStatus, example: JobItemStatus.DONE })
+  status!: JobItemStatus;
+
+  @ApiProperty({ example: true })
+  found!: boolean;
+
+  @ApiPropertyOptional({ example: 'https://interbank.pe/', nullable: true })
+  website!: string | null;
+
+  @ApiProperty({ example: 27 })
+  score!: number;
+
+  @ApiPropertyOptional({ example: 'Interbank - Banca Personal', nullable: true })
+  title!: string | null;
+
+  @ApiPropertyOptional({ enum: SearchStrategy, nullable: true })
+  strategyUsed!: SearchStrategy | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  error!: string | null;
+
+  @ApiPropertyOptional({ example: '2026-02-10T15:30:00.000Z', nullable: true })
+  finishedAt!: string | null;
+}
+
+export class SearchJobResponseDto {
+  @ApiProperty({ example: '3f1c2a9e-7b4d-4c1e-9a55-2b7f0d1e8c44' })
+  id!: string;
+
+  @ApiProperty({ enum: JobStatus, example: JobStatus.RUNNING })
+  status!: JobStatus;
+
+  @ApiProperty({ example: 50 })
+  total!: number;
+
+  @ApiProperty({ example: 12 })
+  processed!: number;
+
+  @ApiProperty({ example: 10 })
+  found!: number;
+
+  @ApiProperty({ example: 0 })
+  failed!: number;
+
+  @ApiProperty({ example: 38 })
+  pending!: number;
+
+  @ApiProperty({ example: 0.24, description: 'Progreso 0..1' })
+  progress!: number;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  error!: string | null;
+
+  @ApiProperty({ example: '2026-02-10T15:30:00.000Z' })
+  createdAt!: string;
+
+  @ApiPropertyOptional({ example: '2026-02-10T15:30:01.000Z', nullable: true })
+  startedAt!: string | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  finishedAt!: string | null;
+
+  @ApiPropertyOptional({
+    type: [SearchJobItemDto],
+    description: 'Resultados por empresa (omitido al crear el job)',
+  })
+  items?: SearchJobItemDto[];
+}
@@ -1,10 +1,24 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { SearchStrategy } from '../../../domain/enums/search-strategy.enum';
+import { CacheInfoDto } from './cache.dto';
+import { PersistInfoDto } from './persistence.dto';
+import { FailureDto } from './failure.dto';
 
 // ──────────────────────────────────────────────────────────
 // Response DTOs — solo para documentar la forma del JSON
 // ──────────────────────────────────────────────────────────
 
+export class WebsiteEvidenceDto {
+  @ApiProperty({ enum: ['ruc', 'legal-name', 'domain'], example: 'ruc' })
+  type!: string;
+
+  @ApiProperty({ enum: ['footer', 'page'], example: 'footer' })
+  location!: string;
+
+  @ApiProperty({ example: '© 2025 Banco Internacional del Perú S.A.A. - Interbank. RUC 20100053455' })
+  snippet!: string;
+}
+
 export class SearchResultItemDto {
   @ApiProperty({ example: 'https://interbank.pe/' })
   url!: string;
@@ -14,6 +28,12 @@ export class SearchResultItemDto {
 
   @ApiProperty({ example: 27 })
   score!: number;
+
+  @ApiPropertyOptional({ example: true, nullable: true, description: 'null = no se verificó' })
+  verified!: boolean | null;
+
+  @ApiProperty({ type: [WebsiteEvidenceDto] })
+  evidence!: WebsiteEvidenceDto[];
 }
 
 export class StrategyStatusDto {
@@ -48,6 +68,62 @@ export class StrategyStatusDto {
   cooldownUntil!: string | null;
 }
 
+export class EngineVoteDto {
+  @ApiProperty({ enum: SearchStrategy, example: SearchStrategy.BING_HTTP })
+  strategy!: SearchStrategy;
+
+  @ApiProperty({ example: 1, description: 'Posición (1-based) en la lista del motor' })
+  rank!: number;
+
+  @ApiProperty({ example: 27 })
+  score!: number;
+}
+
+export class FusedCandidateDto {
+  @ApiProperty({ example: 'https://www.interbank.pe/' })
+  url!: string;
+
+  @ApiProperty({ example: 'interbank.pe' })
+  domain!: string;
+
+  @ApiProperty({ example: 'Interbank - Banca Personal' })
+  title!: string;
+
+  @ApiProperty({ example: 27, description: 'Mejor score individual entre los motores' })
+  bestScore!: number;
+
+  @ApiProperty({ example: 0.0328, description: 'Reciprocal Rank Fusion: Σ 1 / (60 + rank)' })
+  fusedScore!: number;
+
+  @ApiProperty({ type: [EngineVoteDto] })
+  votes!: EngineVoteDto[];
+}
+
+export class FanoutEngineDto {
+  @ApiProperty({ enum: SearchStrategy, example: SearchStrategy.DDG_HTTP })
+  strategy!: SearchStrategy;
+
+  @ApiProperty({ example: true })
+  found!: boolean;
+
+  @ApiProperty({ example: 27 })
+  score!: number;
+
+  @ApiProperty({ example: 5, description: 'Resultados aportados a la fusión' })
+  results!: number;
+
+  @ApiPropertyOptional({ type: FailureDto, nullable: true, description: 'Por qué el motor no aportó resultados' })
+  failure!: FailureDto | null;
+}
+
+export class FanoutDto {
+  @ApiProperty({ type: [FanoutEngineDto] })
+  engines!: FanoutEngineDto[];
+
+  @ApiProperty({ type: [FusedCandidateDto], description: 'Ordenados por fusedScore' })
+  candidates!: FusedCandidateDto[];
+}
+
 export class SearchResponseDto {
   @ApiProperty({ example: true })
   found!: boolean;
@@ -73,12 +149,31 @@ export class SearchResponseDto {
   @ApiProperty({ type: [SearchResultItemDto] })
   allResults!: SearchResultItemDto[];
 
+  @ApiPropertyOptional({
+    example: true,
+    nullable: true,
+    description: 'Solo con ruc + verify=true: la web publica el RUC o la razón social (null = no se verificó)',
+  })
+  verified!: boolean | null;
+
+  @ApiProperty({ type: [WebsiteEvidenceDto], description: 'Indicios encontrados en la web elegida' })
+  evidence!: WebsiteEvidenceDto[];
+
   @ApiProperty({
     description: 'Estado actual de todas las estrategias. Úsalo para saber si debes cambiar de método.',
     type: [StrategyStatusDto],
   })
   strategies!: StrategyStatusDto[];
 
+  @ApiProperty({ type: CacheInfoDto })
+  cache!: CacheInfoDto;
+
+  @ApiPropertyOptional({ type: FanoutDto, description: 'Solo con mode=fanout' })
+  fanout?: FanoutDto;
+
+  @ApiPropertyOptional({ type: PersistInfoDto, description: 'Solo con persist=true' })
+  persistence?: PersistInfoDto;
+
   @ApiProperty({ example: '2026-02-10T15:30:00.000Z' })
   timestamp!: string;
 }
@@ -101,6 +196,9 @@ export class BatchSearchItemResultDto {
 
   @ApiProperty({ enum: SearchStrategy })
   strategyUsed!: SearchStrategy;
+
+  @ApiPropertyOptional({ type: FailureDto, nullable: true, description: 'Por qué no se encontró web' })
+  failure!: FailureDto | null;
 }
 
 export class BatchSearchResponseDto {
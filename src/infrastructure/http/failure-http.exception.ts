@@ -0,0 +1,34 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Failure } from '../../domain/entities/result.entity';
+import { FailureCode } from '../../domain/enums/failure-code.enum';
+import { FailureResponseDto } from './dtos/failure.dto';
+
+/** Código de fallo → status HTTP. 503 = reintentar más tarde; 404 = no existe */
+const STATUS_BY_CODE: Record<FailureCode, HttpStatus> = {
+  [FailureCode.INVALID_INPUT]: HttpStatus.BAD_REQUEST,
+  [FailureCode.NOT_FOUND]: HttpStatus.NOT_FOUND,
+  [FailureCode.BLOCKED]: HttpStatus.SERVICE_UNAVAILABLE,
+  [FailureCode.UNAVAILABLE]: HttpStatus.SERVICE_UNAVAILABLE,
+  [FailureCode.UPSTREAM_ERROR]: HttpStatus.BAD_GATEWAY,
+  [FailureCode.PARSE_ERROR]: HttpStatus.BAD_GATEWAY,
+};
+
+/**
+ * Respuesta HTTP para un Failure del dominio.
+ * El cuerpo lleva el código y `retryable` para que n8n decida si reintentar.
+ *
+ *   throw new FailureHttpException(failure, { ruc })
+ */
+export class FailureHttpException extends HttpException {
+  constructor(failure: Failure, extra?: Record<string, unknown>) {
+    const statusCode = STATUS_BY_CODE[failure.code];
+    const body: FailureResponseDto & Record<string, unknown> = {
+      statusCode,
+      code: failure.code,
+      message: failure.message,
+      retryable: failure.retryable,
+      ...extra,
+    };
+    super(body, statusCode);
+  }
+}
@@ -1,39 +1,75 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 import { SearchController } from './controllers/search.controller';
 import { ScrapeController } from './controllers/scrape.controller';
 import { EnrichController } from './controllers/enrich.controller';
 import { ProxyController } from './controllers/proxy.controller';
+import { JobsController } from './controllers/jobs.controller';
+import { CompaniesController } from './controllers/companies.controller';
+import { EnginesController } from './controllers/engines.controller';
 import { SearchOrchestratorService } from '../../application/services/search-orchestrator.service';
+import { SearchEngineRegistry } from '../../application/services/search-engine-registry.service';
 import { CompanyProfileService } from '../../application/services/company-profile.service';
 import { EnrichmentService } from '../../application/services/enrichment.service';
 import { ProxyTestService } from '../../application/services/proxy-test.service';
+import { ProxyPool } from '../../application/services/proxy-pool.service';
+import { EgressService } from '../../application/services/egress.service';
+import { SearchJobService } from '../../application/services/search-job.service';
+import { ResultCacheService } from '../../application/services/result-cache.service';
+import { CompanyPersistenceService } from '../../application/services/company-persistence.service';
+import { CompanyDossierService } from '../../application/services/company-dossier.service';
+import { CrawlSchedulerService } from '../../application/services/crawl-scheduler.service';
+import { SitemapDiscoveryService } from '../../application/services/sitemap-discovery.service';
+import { WebsiteVerificationService } from '../../application/services/website-verification.service';
 import { DdgHttpAdapter } from '../adapters/ddg-http.adapter';
 import { BingHttpAdapter } from '../adapters/bing-http.adapter';
+import { SearxngApiAdapter } from '../adapters/searxng-api.adapter';
+import { GoogleCseApiAdapter } from '../adapters/google-cse-api.adapter';
 import { UniversidadPeruHttpAdapter } from '../adapters/universidad-peru-http.adapter';
 import { DatosPeruHttpAdapter } from '../adapters/datos-peru-http.adapter';
 import { CheerioScraperAdapter } from '../adapters/cheerio-scraper.adapter';
+import { NodeHttpClientAdapter } from '../adapters/node-http-client.adapter';
+import { FileJobStoreAdapter } from '../adapters/file-job-store.adapter';
+import { FileProxyPoolStoreAdapter } from '../adapters/file-proxy-pool-store.adapter';
+import { MemoryCacheAdapter } from '../adapters/memory-cache.adapter';
+import { FileCacheAdapter } from '../adapters/file-cache.adapter';
+import { PostgresCompanyRawStoreAdapter } from '../adapters/postgres-company-raw-store.adapter';
+import { MemoryCompanyRawStoreAdapter } from '../adapters/memory-company-raw-store.adapter';
 import { WEBSITE_SCRAPER_PORT } from '../../domain/ports/website-scraper.port';
+import { HTTP_CLIENT_PORT } from '../../domain/ports/http-client.port';
 import { DATOS_PERU_ENRICHMENT_PORT } from '../../domain/ports/datos-peru-enrichment.port';
+import { JOB_STORE_PORT } from '../../domain/ports/job-store.port';
+import { PROXY_POOL_STORE_PORT } from '../../domain/ports/proxy-pool-store.port';
+import { RESULT_CACHE_PORT } from '../../domain/ports/result-cache.port';
+import { COMPANY_RAW_STORE_PORT } from '../../domain/ports/company-raw-store.port';
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [SearchController, ScrapeController, EnrichController, ProxyController],
+  imports: [ConfigModule, DiscoveryModule],
+  controllers: [
+    SearchController,
+    ScrapeController,
+    EnrichController,
+    ProxyController,
+    JobsController,
+    CompaniesController,
+    EnginesController,
+  ],
   providers: [
-    // Adaptadores de búsqueda (implementan SearchEnginePort) — HTTP puro, sin browser
-    {
-      provide: 'DDG_HTTP_ADAPTER',
-      useClass: DdgHttpAdapter,
-    },
+    // Cliente HTTP compartido (redirects, gzip/br, charset, reintentos, proxies, UA)
     {
-      provide: 'BING_HTTP_ADAPTER',
-      useClass: BingHttpAdapter,
-    },
-    // Adaptador de fallback — directorio universidadperu.com (búsqueda directa)
-    {
-      provide: 'UNIV_PERU_HTTP_ADAPTER',
-      useClass: UniversidadPeruHttpAdapter,
+      provide: HTTP_CLIENT_PORT,
+      useClass: NodeHttpClientAdapter,
     },
+    // Motores de búsqueda (SearchEnginePort + @SearchEngine) — se registran solos
+    // en SearchEngineRegistry con su fase, prioridad y delays. HTTP puro, sin browser
+    DdgHttpAdapter,
+    BingHttpAdapter,
+    // APIs JSON (SearXNG self-hosted, Google CSE) — deshabilitadas si no hay config
+    SearxngApiAdapter,
+    GoogleCseApiAdapter,
+    // Directorio universidadperu.com (fase 'directory', búsqueda directa)
+    UniversidadPeruHttpAdapter,
     // Adaptador de scraping (implementa WebsiteScraperPort) — Cheerio, sin browser
     {
       provide: WEBSITE_SCRAPER_PORT,
@@ -44,12 +80,50 @@ import { DATOS_PERU_ENRICHMENT_PORT } from '../../domain/ports/datos-peru-enrich
       provide: DATOS_PERU_ENRICHMENT_PORT,
       useClass: DatosPeruHttpAdapter,
     },
+    // Persistencia de jobs asíncronos — un JSON por job en disco
+    {
+      provide: JOB_STORE_PORT,
+      useClass: FileJobStoreAdapter,
+    },
+    // Pool de proxies con su salud — un JSON en disco
+    {
+      provide: PROXY_POOL_STORE_PORT,
+      useClass: FileProxyPoolStoreAdapter,
+    },
+    // Caché de resultados — memoria (default) o disco (CACHE_DRIVER=file)
+    {
+      provide: RESULT_CACHE_PORT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('scraper.cache.driver') === 'file'
+          ? new FileCacheAdapter(config)
+          : new MemoryCacheAdapter(config),
+    },
+    // Staging companies_raw — Postgres (PERSIST_DRIVER=postgres) o memoria (default)
+    {
+      provide: COMPANY_RAW_STORE_PORT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) =>
+        config.get<string>('scraper.persistence.driver') === 'postgres'
+          ? new PostgresCompanyRawStoreAdapter(config)
+          : new MemoryCompanyRawStoreAdapter(config),
+    },
     // Servicios de aplicación
+    SearchEngineRegistry,
+    ResultCacheService,
+    ProxyPool,
+    EgressService,
+    CrawlSchedulerService,
+    SitemapDiscoveryService,
+    WebsiteVerificationService,
+    CompanyPersistenceService,
     SearchOrchestratorService,
     CompanyProfileService,
     EnrichmentService,
     ProxyTestService,
+    SearchJobService,
+    CompanyDossierService,
   ],
-  exports: [SearchOrchestratorService, CompanyProfileService, EnrichmentService],
+  exports: [SearchOrchestratorService, CompanyProfileService, EnrichmentService, SearchJobService],
 })
 export class SearchModule {}
@@ -21,7 +21,7 @@ async function bootstrap() {
   // CORS (para n8n y frontend)
   app.enableCors({
     origin: '*',
-    methods: 'GET,POST',
+    methods: 'GET,POST,PUT,DELETE',
   });
 
   // Swagger
@@ -29,9 +29,11 @@ async function bootstrap() {
     .setTitle('Empliq Scraper API')
     .setDescription(
       'Microservicio liviano de búsqueda de websites de empresas peruanas. Sin browser engines.\n\n' +
-      '**2 estrategias disponibles (HTTP puro, sin browser):**\n' +
+      '**Estrategias disponibles (HTTP puro, sin browser):**\n' +
       '- `ddg_http` — HTTP directo a DuckDuckGo (rápido, ~1-2s)\n' +
-      '- `bing_http` — HTTP directo a Bing (fallback, ~2-4s)\n\n' +
+      '- `bing_http` — HTTP directo a Bing (fallback, ~2-4s)\n' +
+      '- `searxng_api` — API JSON de SearXNG self-hosted (requiere SEARXNG_URL)\n' +
+      '- `google_cse_api` — Google Programmable Search (requiere API key, cuota diaria)\n\n' +
       '**Autenticación:** Header `x-api-key` requerido en todos los endpoints excepto `/search/health`.\n\n' +
       '**Para n8n:** usa `GET /search?q=EMPRESA` con header `x-api-key`.',
     )
@@ -0,0 +1,194 @@
+import { AtsLink, AtsProvider, JobOpening } from '../../domain/entities/company-profile.entity';
+import { JsonObject, asJsonObject, jsonObjects } from './json-object';
+
+/**
+ * Plataformas de reclutamiento (ATS) y bolsas de trabajo.
+ *
+ * - detectAtsLink: reconoce la plataforma por host + path del link
+ * - atsBoardRequest: API pública del tablero (Lever, Greenhouse, SmartRecruiters, Workday)
+ * - parseAtsBoard: convierte la respuesta JSON en ofertas
+ *
+ * Computrabajo, Bumeran, LinkedIn y SuccessFactors no exponen una API abierta:
+ * solo se guarda el link.
+ */
+
+/** Segmentos de idioma en URLs de Workday: /es/, /en-US/ */
+const LOCALE_SEGMENT = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+/** Tablero = primer segmento del path (jobs.lever.co/<empresa>/<id-de-aviso>) */
+const FIRST_SEGMENT = (segments: string[]) => segments.slice(0, 1);
+
+const ATS_PATTERNS: Array<{
+  provider: AtsProvider;
+  host: RegExp;
+  path?: RegExp;
+  /** Recorta el path de un aviso a la raíz del tablero (default: path completo) */
+  board?: (segments: string[]) => string[];
+}> = [
+  {
+    provider: 'workday',
+    host: /(^|\.)(myworkdayjobs|myworkdaysite)\.com$/,
+    board: (s) => s.slice(0, s.findIndex((seg) => !LOCALE_SEGMENT.test(seg)) + 1),
+  },
+  { provider: 'lever', host: /^jobs\.lever\.co$/, path: /^\/[^/]+/, board: FIRST_SEGMENT },
+  { provider: 'greenhouse', host: /^(boards|job-boards)\.greenhouse\.io$/, path: /^\/[^/]+/, board: FIRST_SEGMENT },
+  { provider: 'smartrecruiters', host: /^(jobs|careers)\.smartrecruiters\.com$/, path: /^\/[^/]+/, board: FIRST_SEGMENT },
+  { provider: 'successfactors', host: /(^|\.)(successfactors|sapsf)\.(com|eu)$/ },
+  { provider: 'computrabajo', host: /(^|\.)computrabajo\.com(\.\w{2})?$/, path: /^\/empresas\// },
+  { provider: 'bumeran', host: /(^|\.)bumeran\.com(\.\w{2})?$/, path: /^\/(perfiles\/empresa_|empleos-publicacion|empleos-busqueda)/ },
+  { provider: 'linkedin', host: /(^|\.)linkedin\.com$/, path: /^\/(company\/[^/]+\/jobs|jobs)(\/|$)/ },
+];
+
+/** Ofertas del tablero de Workday pedidas en una sola página */
+const WORKDAY_PAGE_SIZE = 20;
+
+/**
+ * detectAtsLink('https://jobs.lever.co/yape/3f2a-...') → { provider: 'lever', url: 'https://jobs.lever.co/yape' }
+ * detectAtsLink('https://www.linkedin.com/company/interbank') → null (perfil, no empleos)
+ */
+export function detectAtsLink(href: string): AtsLink | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const hit = ATS_PATTERNS.find((p) => p.host.test(host) && (!p.path || p.path.test(url.pathname)));
+  if (!hit) return null;
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const path = hit.board ? hit.board(segments) : segments;
+  return { provider: hit.provider, url: [url.origin, ...path].join('/') };
+}
+
+/**
+ * Request a la API pública del tablero, o null si la plataforma no tiene una.
+ */
+export function atsBoardRequest(
+  link: AtsLink,
+): { url: string; method: 'GET' | 'POST'; body?: string } | null {
+  const { hostname, pathname } = new URL(link.url);
+  const segments = pathname.split('/').filter(Boolean);
+
+  switch (link.provider) {
+    case 'lever':
+      return { url: `https://api.lever.co/v0/postings/${segments[0]}?mode=json`, method: 'GET' };
+    case 'greenhouse':
+      return { url: `https://boards-api.greenhouse.io/v1/boards/${segments[0]}/jobs`, method: 'GET' };
+    case 'smartrecruiters':
+      return { url: `https://api.smartrecruiters.com/v1/companies/${segments[0]}/postings`, method: 'GET' };
+    case 'workday': {
+      // https://<tenant>.wd3.myworkdayjobs.com/es/<site> → /wday/cxs/<tenant>/<site>/jobs
+      const tenant = hostname.split('.')[0];
+      const site = segments.find((s) => !LOCALE_SEGMENT.test(s));
+      if (!site) return null;
+      return {
+        url: `https://${hostname}/wday/cxs/${tenant}/${site}/jobs`,
+        method: 'POST',
+        body: JSON.stringify({ appliedFacets: {}, limit: WORKDAY_PAGE_SIZE, offset: 0, searchText: '' }),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Ofertas de la respuesta JSON de atsBoardRequest. JSON inválido o inesperado → [].
+ */
+export function parseAtsBoard(link: AtsLink, body: string, now = new Date()): JobOpening[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    return [];
+  }
+  const root = asJsonObject(data);
+
+  const opening = (title: unknown, location: unknown, url: unknown, postedAt: string | null): JobOpening | null =>
+    typeof title === 'string' && title.trim() && typeof url === 'string' && url
+      ? {
+          title: title.trim(),
+          location: typeof location === 'string' && location.trim() ? location.trim() : null,
+          url,
+          postedAt,
+          source: link.provider,
+        }
+      : null;
+
+  const list = (items: unknown, map: (item: JsonObject) => JobOpening | null): JobOpening[] =>
+    Array.isArray(items) ? jsonObjects(items).map(map).filter((o): o is JobOpening => o !== null) : [];
+
+  const text = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+  switch (link.provider) {
+    case 'lever':
+      return list(data, (p) =>
+        opening(p.text, asJsonObject(p.categories)?.location, p.hostedUrl, normalizePostedDate(p.createdAt, now)),
+      );
+    case 'greenhouse':
+      return list(root?.jobs, (j) =>
+        opening(
+          j.title,
+          asJsonObject(j.location)?.name,
+          j.absolute_url,
+          normalizePostedDate(j.first_published ?? j.updated_at, now),
+        ),
+      );
+    case 'smartrecruiters':
+      return list(root?.content, (p) => {
+        const location = asJsonObject(p.location);
+        const id = text(p.id);
+        return opening(
+          p.name,
+          [text(location?.city), text(location?.region)].filter(Boolean).join(', '),
+          id ? `${link.url}/${id}` : null,
+          normalizePostedDate(p.releasedDate, now),
+        );
+      });
+    case 'workday':
+      return list(root?.jobPostings, (p) => {
+        const path = text(p.externalPath);
+        return opening(p.title, p.locationsText, path ? `${link.url}${path}` : null, normalizePostedDate(p.postedOn, now));
+      });
+    default:
+      return [];
+  }
+}
+
+/**
+ * Fecha de publicación → YYYY-MM-DD.
+ * Acepta ISO, epoch ms, dd/mm/yyyy y relativas ("hace 3 días", "Posted Yesterday").
+ * "Posted 30+ Days Ago" y demás rangos abiertos → null.
+ */
+export function normalizePostedDate(raw: unknown, now = new Date()): string | null {
+  if (typeof raw === 'number' && Number.isFinite(raw)) {
+    return toIsoDate(new Date(raw));
+  }
+  if (typeof raw !== 'string') return null;
+  const text = raw.trim().toLowerCase();
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  if (text.includes('+')) return null;
+
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+
+  const daysAgo = (days: number) => toIsoDate(new Date(now.getTime() - days * 86_400_000));
+  if (/\b(today|hoy)\b/.test(text)) return daysAgo(0);
+  if (/\b(yesterday|ayer)\b/.test(text)) return daysAgo(1);
+
+  const relative = text.match(/(\d+)\s+(days?|d[ií]as?)/);
+  if (relative) return daysAgo(parseInt(relative[1], 10));
+
+  return null;
+}
+
+function toIsoDate(date: Date): string | null {
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
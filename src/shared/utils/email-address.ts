@@ -0,0 +1,118 @@
+import { ContactEmail, EmailRole } from '../../domain/entities/contact-email.entity';
+import { getRootDomain } from './url-scorer';
+
+/**
+ * Emails de contacto: limpieza, validación y clasificación.
+ *
+ * - cleanEmail: mailto:, %-encoding y puntuación pegada → dirección válida o null
+ * - decodeCfEmail: emails ofuscados por Cloudflare (data-cfemail / email-protection#)
+ * - toContactEmail: rol (genérico / RR.HH. / personal) + si es del dominio de la empresa
+ */
+
+/** Sintaxis práctica: local con los caracteres usuales, dominio con TLD alfabético */
+const EMAIL_SYNTAX = /^[a-z0-9](?:[a-z0-9._%+-]{0,62}[a-z0-9_-])?@(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,24}$/;
+
+/** Nombres de archivo que el regex confunde con emails: "logo@2x.png", "icon@3x.webp" */
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|avif|ico|css|js|map|woff2?|ttf|eot|mp4|pdf)$/;
+
+/** Dominios de terceros (monitoreo, CMS, plantillas) y de ejemplo */
+const THIRD_PARTY_DOMAINS = [
+  'sentry.io',
+  'sentry-next.wixpress.com',
+  'wixpress.com',
+  'wix.com',
+  'example.com',
+  'example.org',
+  'domain.com',
+  'dominio.com',
+  'tudominio.com',
+  'yourdomain.com',
+  'email.com',
+  'correo.com',
+  'mysite.com',
+  'sitio.com',
+  'godaddy.com',
+  'wordpress.com',
+  'wordpress.org',
+  'w3.org',
+  'schema.org',
+  'cloudflare.com',
+];
+
+/** Buzones de plantilla: "usuario@", "tu@", "nombre@" */
+const PLACEHOLDER_LOCAL = /^(usuario|user|tu|tuemail|tucorreo|nombre|name|email|correo|someone|test|ejemplo)$/;
+
+const HR_LOCAL =
+  /(rrhh|recursos ?humanos|seleccion|reclutamiento|talento|gestion ?humana|capital ?humano|empleos?|trabaja|convocatoria|practicas|careers?|jobs|^hr$|^people$|^cv$|curriculum)/;
+
+const GENERIC_LOCAL =
+  /^(info|informes|informacion|contacto|contact|contactenos|hola|hello|ventas|sales|comercial|atencion|servicio|soporte|support|ayuda|help|admin|administracion|consultas|marketing|prensa|press|comunicaciones|facturacion|cobranzas|tesoreria|contabilidad|finanzas|pagos|reclamos|libro ?de ?reclamaciones|mesa ?de ?partes|tramite|recepcion|office|oficina|secretaria|gerencia|legal|compras|logistica|operaciones|proveedores|clientes|cliente|postventa|reservas|noreply|no ?reply|webmaster|sistemas|privacidad|datos ?personales|inversionistas|investors?|sostenibilidad|cumplimiento|denuncias)/;
+
+/**
+ * cleanEmail('mailto:Contacto@Acme.pe?subject=Hola') → 'contacto@acme.pe'
+ * cleanEmail('logo@2x.png') → null
+ * cleanEmail('abc123@sentry.io') → null
+ */
+export function cleanEmail(raw: string): string | null {
+  let text = raw.trim().replace(/^mailto:/i, '').split('?')[0];
+  try {
+    text = decodeURIComponent(text);
+  } catch {
+    // %-encoding roto: se valida tal cual
+  }
+  const address = text.trim().replace(/^[<("']+|[>)"'.,;:]+$/g, '').toLowerCase();
+
+  if (!EMAIL_SYNTAX.test(address) || address.includes('..')) return null;
+  const [local, domain] = address.split('@');
+  if (ASSET_EXTENSIONS.test(address)) return null;
+  if (THIRD_PARTY_DOMAINS.some((d) => domain === d || domain.endsWith(`.${d}`))) return null;
+  if (PLACEHOLDER_LOCAL.test(local)) return null;
+  return address;
+}
+
+/**
+ * Email ofuscado por Cloudflare: el primer byte es la llave XOR del resto.
+ * decodeCfEmail('4234272c3623310223212f276c3227') → 'ventas@acme.pe'
+ */
+export function decodeCfEmail(hex: string): string | null {
+  if (!/^[0-9a-f]{4,}$/i.test(hex) || hex.length % 2 !== 0) return null;
+  const key = parseInt(hex.slice(0, 2), 16);
+  let out = '';
+  for (let i = 2; i < hex.length; i += 2) {
+    out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16) ^ key);
+  }
+  return cleanEmail(out);
+}
+
+/**
+ * classifyEmail('rrhh@acme.pe') → 'hr'
+ * classifyEmail('contacto@acme.pe') → 'generic'
+ * classifyEmail('jperez@acme.pe') → 'personal'
+ */
+export function classifyEmail(address: string): EmailRole {
+  const local = address.split('@')[0].replace(/[._-]+/g, ' ');
+  if (HR_LOCAL.test(local)) return 'hr';
+  if (GENERIC_LOCAL.test(local)) return 'generic';
+  return 'personal';
+}
+
+/** ¿El email es del dominio de la web oficial (o de un subdominio)? */
+export function isCompanyEmail(address: string, siteUrl: string): boolean {
+  let host: string;
+  try {
+    host = new URL(siteUrl).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const domain = address.split('@')[1] ?? '';
+  const root = getRootDomain(host.replace(/^www\./, ''));
+  return domain === root || domain.endsWith(`.${root}`);
+}
+
+export function toContactEmail(address: string, siteUrl: string): ContactEmail {
+  return {
+    address,
+    role: classifyEmail(address),
+    companyDomain: isCompanyEmail(address, siteUrl),
+  };
+}
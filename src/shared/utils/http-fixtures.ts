@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Grabación / reproducción de respuestas HTTP en disco (fixtures).
+ *
+ *   HTTP_FIXTURES=record  → hace la request real y guarda el body
+ *   HTTP_FIXTURES=replay  → NO sale a la red: lee el body grabado (error si falta)
+ *   (vacío)               → comportamiento normal
+ *
+ * Un archivo por request, con nombre determinista a partir de método + URL + body:
+ *   test/fixtures/http/html.duckduckgo.com/post-html-3fa2c1d0.html
+ *
+ * Los archivos son HTML/JSON plano: se pueden recortar o editar a mano
+ * mientras el nombre no cambie.
+ */
+
+export type HttpFixtureMode = 'off' | 'record' | 'replay';
+
+export interface FixtureRequest {
+  method?: 'GET' | 'POST' | 'HEAD';
+  url: string;
+  /** Body de un POST (forma parte de la clave) */
+  body?: string;
+}
+
+export class FixtureNotRecordedError extends Error {
+  constructor(readonly request: FixtureRequest, readonly file: string) {
+    super(`Fixture no grabado: ${request.method ?? 'GET'} ${request.url} (${file})`);
+    this.name = 'FixtureNotRecordedError';
+  }
+}
+
+export function httpFixtureMode(): HttpFixtureMode {
+  const mode = (process.env.HTTP_FIXTURES || '').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function httpFixturesDir(): string {
+  return path.resolve(process.env.HTTP_FIXTURES_DIR || './test/fixtures/http');
+}
+
+/**
+ * Ruta del fixture para una request.
+ * La parte legible (host + path) ayuda a encontrarlo; el hash lo hace único.
+ */
+export function fixturePath(request: FixtureRequest, dir = httpFixturesDir()): string {
+  const method = request.method ?? 'GET';
+  const key = `${method} ${request.url}${request.body ? `\n${request.body}` : ''}`;
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 8);
+
+  let host = 'unknown';
+  let slug = '';
+  try {
+    const parsed = new URL(request.url);
+    host = parsed.hostname.toLowerCase();
+    slug = parsed.pathname
+      .replace(/\.[a-z0-9]+$/i, '')
+      .replace(/[^a-z0-9]+/gi, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+  } catch {
+    // URL inválida → solo hash
+  }
+
+  const name = [method.toLowerCase(), slug, hash].filter(Boolean).join('-');
+  return path.join(dir, host, `${name}.html`);
+}
+
+/**
+ * Envuelve un fetch de texto con grabación/reproducción.
+ * En record solo se guardan respuestas no nulas (un fallo no debe quedar grabado).
+ */
+export async function withHttpFixture<T extends string | null>(
+  request: FixtureRequest,
+  fetcher: () => Promise<T>,
+): Promise<T> {
+  const mode = httpFixtureMode();
+  if (mode === 'off') return fetcher();
+
+  const file = fixturePath(request);
+
+  if (mode === 'replay') {
+    try {
+      return (await fs.promises.readFile(file, 'utf-8')) as T;
+    } catch {
+      throw new FixtureNotRecordedError(request, file);
+    }
+  }
+
+  const body = await fetcher();
+  if (body !== null) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, body, 'utf-8');
+  }
+  return body;
+}
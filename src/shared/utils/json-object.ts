@@ -0,0 +1,19 @@
+/**
+ * JSON ajeno (APIs de ATS, JSON-LD de webs corporativas) llega como `unknown`:
+ * estos helpers lo estrechan sin casts a `any`.
+ */
+
+/** Objeto JSON con claves arbitrarias */
+export type JsonObject = Record<string, unknown>;
+
+/** El valor si es un objeto JSON; arrays, primitivos y null → null */
+export function asJsonObject(value: unknown): JsonObject | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonObject) : null;
+}
+
+/** Los objetos de un valor que puede ser un objeto o una lista (el resto se descarta) */
+export function jsonObjects(value: unknown): JsonObject[] {
+  return (Array.isArray(value) ? value : [value])
+    .map((item) => asJsonObject(item))
+    .filter((item): item is JsonObject => item !== null);
+}
@@ -0,0 +1,130 @@
+import { LeadershipMember } from '../../domain/entities/company-profile.entity';
+import { DatosPeruExecutive } from '../../domain/entities/datos-peru-profile.entity';
+import { DossierLeader } from '../../domain/entities/company-dossier.entity';
+
+/**
+ * Personas en webs corporativas: reconocer nombres y cargos, y conciliar
+ * el equipo publicado en la web con los ejecutivos registrados en SUNAT.
+ */
+
+/** Cargos directivos (español / inglés) */
+export const LEADERSHIP_ROLE =
+  /\b(president[ea]?|vicepresident[ea]|director(a|es)?|gerente|gerenta|subgerente|jef[ea]|soci[oa]|fundador(a)?|cofundador(a)?|consejer[oa]|secretari[oa]|tesorer[oa]|vocal|miembro|ceo|cfo|coo|cto|cio|cmo|chro|chief|head|vp|vice president|manager|officer|founder|partner|chairman|chairwoman|board member)\b/i;
+
+/** Tratamientos que anteceden al nombre */
+const HONORIFIC = /^(sr|sra|srta|dr|dra|ing|lic|mg|mag|mba|cpc|abg|econ)\.?\s+/i;
+
+/** Conectores de apellidos compuestos: "de la Puente", "del Solar" */
+const CONNECTORS = new Set(['de', 'del', 'la', 'las', 'los', 'y', 'da', 'van', 'von']);
+
+/** Palabras de títulos de sección que pasan por nombre propio ("Equipo Gerencial") */
+const NOT_NAME_WORDS = new Set([
+  'directorio', 'equipo', 'gerencia', 'gerencial', 'nuestro', 'nuestra', 'nuestros', 'nuestras',
+  'conoce', 'banco', 'grupo', 'comite', 'junta', 'plana', 'alta', 'direccion', 'accionistas',
+  'gobierno', 'corporativo', 'memoria', 'anual', 'contacto', 'inicio', 'nosotros', 'historia',
+  'mision', 'vision', 'valores', 'noticias', 'leadership', 'team', 'board', 'management',
+  'directors', 'our', 'meet', 'the', 'peru', 'lima', 'sede', 'oficina', 'productos', 'servicios',
+]);
+
+/** Cargos registrados en SUNAT que no son parte de la dirección */
+const NON_LEADERSHIP_REGISTERED = /^(apoderad[oa]|representante)/i;
+
+/**
+ * ¿Parece el nombre de una persona? 2 a 6 palabras capitalizadas (o todo en mayúsculas),
+ * conectores de apellidos permitidos, sin dígitos ni palabras de títulos de sección.
+ *
+ * looksLikePersonName('Dra. María del Carmen Torres') → true
+ * looksLikePersonName('Equipo Gerencial') → false
+ */
+export function looksLikePersonName(text: string): boolean {
+  const raw = text.trim().replace(HONORIFIC, '');
+  if (raw.length < 5 || raw.length > 60 || /[\d@:|/()]/.test(raw)) return false;
+  if (LEADERSHIP_ROLE.test(raw)) return false;
+
+  // "JUAN PÉREZ" → "Juan Pérez"
+  const normalized = raw === raw.toUpperCase() ? toTitleCase(raw) : raw;
+  const words = normalized.split(/\s+/);
+  if (words.length < 2 || words.length > 6) return false;
+
+  let capitalized = 0;
+  for (const word of words) {
+    const plain = stripAccents(word).toLowerCase();
+    if (NOT_NAME_WORDS.has(plain.replace(/[^a-z]/g, ''))) return false;
+    if (CONNECTORS.has(word.toLowerCase())) continue;
+    if (/^[A-ZÁÉÍÓÚÑÜ]\.$/.test(word)) continue; // inicial: "Juan C. Pérez"
+    if (!/^[A-ZÁÉÍÓÚÑÜ][a-záéíóúñü'’]+(-[A-ZÁÉÍÓÚÑÜ][a-záéíóúñü'’]+)?$/.test(word)) return false;
+    capitalized++;
+  }
+  return capitalized >= 2;
+}
+
+/**
+ * ¿Mismo nombre? Compara tokens sin tildes ni orden: SUNAT publica
+ * "RODRIGUEZ PASTOR PERSIVALE CARLOS" y la web "Carlos Rodríguez-Pastor".
+ * Coinciden si todos los tokens del nombre más corto (mín. 2) están en el otro.
+ */
+export function samePerson(a: string, b: string): boolean {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  const [shorter, longer] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  if (shorter.length < 2) return false;
+  return shorter.every((t) => longer.includes(t));
+}
+
+/**
+ * Une el equipo publicado en la web con los ejecutivos de SUNAT.
+ *
+ * - Web + SUNAT: nombre y cargo de la web, cargo registrado y fecha de SUNAT
+ * - Solo web: tal cual
+ * - Solo SUNAT: se agregan salvo apoderados / representantes (no son la dirección)
+ */
+export function reconcileLeadership(
+  website: LeadershipMember[],
+  registered: DatosPeruExecutive[],
+): DossierLeader[] {
+  const used = new Set<DatosPeruExecutive>();
+  const leaders: DossierLeader[] = [];
+
+  for (const member of website) {
+    const exec = registered.find((e) => !used.has(e) && samePerson(member.name, e.nombre));
+    if (exec) used.add(exec);
+
+    leaders.push({
+      name: member.name,
+      role: member.role ?? exec?.cargo ?? null,
+      registeredRole: exec?.cargo ?? null,
+      since: exec?.desde ?? null,
+      photoUrl: member.photoUrl,
+      sources: exec ? ['website', 'datosperu'] : ['website'],
+    });
+  }
+
+  for (const exec of registered) {
+    if (used.has(exec) || NON_LEADERSHIP_REGISTERED.test(exec.cargo.trim())) continue;
+    leaders.push({
+      name: exec.nombre,
+      role: exec.cargo,
+      registeredRole: exec.cargo,
+      since: exec.desde,
+      photoUrl: null,
+      sources: ['datosperu'],
+    });
+  }
+
+  return leaders;
+}
+
+function nameTokens(name: string): string[] {
+  return stripAccents(name.replace(HONORIFIC, ''))
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .filter((t) => t.length > 1 && !CONNECTORS.has(t));
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s-])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+}
@@ -0,0 +1,387 @@
+import { PeruAddress, StreetType, Ubigeo } from '../../domain/entities/peru-address.entity';
+import { UBIGEO_INEI } from '../data/ubigeo-inei';
+
+/**
+ * Direcciones peruanas: descompone la vía (Av./Jr./Calle...), número, interior,
+ * manzana/lote y urbanización, y resuelve departamento / provincia / distrito
+ * a su ubigeo INEI con el dataset de src/shared/data.
+ *
+ * - resolveUbigeo: campos separados de SUNAT ("LIMA", "LIMA", "LA VICTORIA")
+ * - parseUbicacion: "ANCASH - SANTA - CHIMBOTE" (establecimientos anexos)
+ * - findUbigeo: segmentos sueltos de una dirección web ("San Isidro", "Lima", "Perú")
+ * - parsePeruAddress: dirección completa, SUNAT o web
+ */
+
+interface Place {
+  code: string;
+  name: string;
+  key: string;
+}
+
+const PLACES: Place[] = Object.entries(UBIGEO_INEI).map(([code, name]) => ({ code, name, key: placeKey(name) }));
+const DEPARTMENTS = PLACES.filter((p) => p.code.length === 2);
+const PROVINCES = PLACES.filter((p) => p.code.length === 4);
+const DISTRICTS = PLACES.filter((p) => p.code.length === 6);
+const PLACES_BY_CODE = new Map(PLACES.map((p) => [p.code, p]));
+
+/**
+ * Nombres de uso común → ubigeo. En resolveUbigeo solo se usan si el nombre tal cual
+ * no existe en ese nivel; en findUbigeo mandan ("Surco" en una web es Santiago de Surco,
+ * no Surco de Huarochirí).
+ */
+const PLACE_ALIASES: Record<string, string[]> = {
+  'cercado de lima': ['150101'],
+  'lima cercado': ['150101'],
+  'lima metropolitana': ['1501'],
+  'cercado de arequipa': ['040101'],
+  'prov const del callao': ['07', '0701'],
+  'constitucional del callao': ['07', '0701'],
+  surco: ['150140'],
+  magdalena: ['150120'],
+  chosica: ['150118'],
+  'lurigancho chosica': ['150118'],
+};
+
+/** Segmentos que no son lugares (el código postal de "Lima 27" ya lo quita placeKey) */
+const NOT_PLACE = /^(peru|pe|republica del peru)$/;
+
+const STREET_TYPES: Array<{ pattern: RegExp; type: StreetType }> = [
+  { pattern: /^(av|avda|avenida)\b\.?\s*/i, type: 'Av.' },
+  { pattern: /^(jr|jir[oó]n)\b\.?\s*/i, type: 'Jr.' },
+  { pattern: /^(calle|cal|cl)\b\.?\s*/i, type: 'Calle' },
+  { pattern: /^(pje|psje|pasaje|pj)\b\.?\s*/i, type: 'Pje.' },
+  { pattern: /^(prol|prolongaci[oó]n|pro)\b\.?\s*/i, type: 'Prol.' },
+  { pattern: /^(alameda|alm|ala)\b\.?\s*/i, type: 'Alameda' },
+  { pattern: /^(malec[oó]n|mal)\b\.?\s*/i, type: 'Malecón' },
+  { pattern: /^([oó]valo|ova)\b\.?\s*/i, type: 'Óvalo' },
+  { pattern: /^(plaza|plz|pza)\b\.?\s*/i, type: 'Plaza' },
+  { pattern: /^(carretera|carret|car|ctra)\b\.?\s*/i, type: 'Carretera' },
+  { pattern: /^(camino|cam)\b\.?\s*/i, type: 'Camino' },
+];
+
+type MarkerKey = 'number' | 'km' | 'interior' | 'block' | 'lot' | 'urbanization';
+
+/** Marcadores dentro de la dirección; el valor va hasta el siguiente marcador */
+const MARKERS: Array<{ key: MarkerKey; source: string }> = [
+  { key: 'number', source: '\\b(?:nro|n[uú]mero|num|no(?=\\.))\\b\\.?|\\bn[°º]\\.?|#' },
+  { key: 'km', source: '\\bkm\\b\\.?' },
+  { key: 'interior', source: '\\b(?:int|interior|of(?=\\.)|ofic|oficina|piso|dpto|tda|tienda|stand|local)\\b\\.?' },
+  { key: 'block', source: '\\b(?:mza|mz|manzana)\\b\\.?' },
+  { key: 'lot', source: '\\b(?:lote|lte|lt)\\b\\.?' },
+  {
+    key: 'urbanization',
+    source:
+      '\\b(?:urb|urbanizaci[oó]n|a\\.?\\s?h|asent(?:amiento)?\\.?\\s?h(?:umano)?|asoc|asociaci[oó]n|p\\.\\s?j|pueblo joven|' +
+      'coop|cooperativa|residencial|c\\.\\s?h|conj(?:unto)?\\.?\\s?hab(?:itacional)?|lotizaci[oó]n|' +
+      '(?:zona|parque) ind(?:ustrial)?|centro poblado|c\\.\\s?p|fundo|sector)\\b\\.?',
+  },
+];
+
+const MARKER_AT_START = new RegExp(`^(?:${MARKERS.map((m) => m.source).join('|')})`, 'i');
+
+/** Etiqueta normalizada del interior según el marcador */
+const INTERIOR_LABELS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /^int/i, label: 'Int.' },
+  { pattern: /^of/i, label: 'Of.' },
+  { pattern: /^piso/i, label: 'Piso' },
+  { pattern: /^dpto/i, label: 'Dpto.' },
+  { pattern: /^(tda|tienda)/i, label: 'Tda.' },
+  { pattern: /^stand/i, label: 'Stand' },
+  { pattern: /^local/i, label: 'Local' },
+];
+
+/** "Dirección: Av. ...", "Sede principal: Jr. ..." */
+const ADDRESS_LABEL = /^(direcci[oó]n|address|sede( principal)?|oficina principal|domicilio( fiscal)?)\s*:\s*/i;
+
+/** Palabras que van en minúscula al normalizar mayúsculas de SUNAT */
+const LOWERCASE_WORDS = new Set(['de', 'del', 'la', 'las', 'los', 'y', 'el', 'en']);
+
+/**
+ * Ubigeo a partir de los campos separados (SUNAT / DatosPeru).
+ * Resuelve hasta el nivel más profundo que coincida dentro de su padre.
+ *
+ * resolveUbigeo({ department: 'LIMA', province: 'LIMA', district: 'LA VICTORIA' }) → { code: '150115', ... }
+ * resolveUbigeo({ department: 'ANCASH', province: 'SANTA', district: 'XYZ' }) → { code: '0218', ... }
+ */
+export function resolveUbigeo(parts: {
+  department?: string | null;
+  province?: string | null;
+  district?: string | null;
+}): Ubigeo | null {
+  const department = parts.department && matchPlace(DEPARTMENTS, parts.department);
+  if (!department) {
+    // Sin departamento reconocible: que decidan provincia + distrito
+    const loose = [parts.district, parts.province].filter((p): p is string => !!p);
+    return loose.length ? findUbigeo(loose) : null;
+  }
+
+  const province = parts.province && matchPlace(childrenOf(PROVINCES, department.code), parts.province);
+  if (!province) return ubigeoOf(department.code);
+
+  const district = parts.district && matchPlace(childrenOf(DISTRICTS, province.code), parts.district);
+  return ubigeoOf(district ? district.code : province.code);
+}
+
+/**
+ * parseUbicacion('ANCASH - SANTA - CHIMBOTE') → { code: '021801', department: 'Áncash', ... }
+ */
+export function parseUbicacion(text: string | null): Ubigeo | null {
+  if (!text) return null;
+  const [department, province, district] = text.split(/\s+[-–]\s+/).map((s) => s.trim());
+  if (!department) return null;
+  return resolveUbigeo({ department, province, district });
+}
+
+/**
+ * Ubigeo a partir de segmentos sueltos, sin saber qué nivel es cada uno.
+ * Gana el lugar que explica más segmentos (distrito + su provincia o departamento);
+ * si empatan varios, se queda con el ancestro común ("Lima" sola → departamento 15).
+ *
+ * findUbigeo(['San Isidro', 'Lima', 'Perú']) → { code: '150131', ... }
+ * findUbigeo(['San Juan']) → null (hay decenas)
+ */
+export function findUbigeo(segments: string[]): Ubigeo | null {
+  const keys = segments.map(placeKey).filter((k) => k && !NOT_PLACE.test(k));
+  if (!keys.length) return null;
+
+  const named = (place: Place | undefined, i: number) =>
+    !!place && (PLACE_ALIASES[keys[i]] ? PLACE_ALIASES[keys[i]].includes(place.code) : place.key === keys[i]);
+
+  let best: string[] = [];
+  let bestScore = 0;
+  for (const place of PLACES) {
+    if (!keys.some((_, i) => named(place, i))) continue;
+
+    // Segmentos que nombran al lugar o a alguno de sus ancestros
+    const chain = [...new Set([place.code.slice(0, 2), place.code.slice(0, 4), place.code])].map((c) =>
+      PLACES_BY_CODE.get(c),
+    );
+    const score = keys.filter((_, i) => chain.some((p) => named(p, i))).length;
+
+    if (score > bestScore) {
+      best = [place.code];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(place.code);
+    }
+  }
+
+  if (!best.length) return null;
+  const common = commonAncestor(best);
+  return common ? ubigeoOf(common) : null;
+}
+
+/**
+ * Descompone una dirección peruana.
+ * `location`: ubigeo ya conocido (campos SUNAT); si no, se busca en la propia dirección.
+ *
+ * parsePeruAddress('AV. CARLOS VILLARAN NRO. 140 URB. SANTA CATALINA')
+ * parsePeruAddress('Calle Las Begonias 415, Piso 9, San Isidro, Lima - Perú')
+ */
+export function parsePeruAddress(raw: string, location: Ubigeo | null = null): PeruAddress | null {
+  const text = raw.replace(/\s+/g, ' ').trim().replace(ADDRESS_LABEL, '');
+  if (!text) return null;
+
+  const address: PeruAddress = {
+    raw,
+    streetType: null,
+    streetName: null,
+    number: null,
+    interior: null,
+    block: null,
+    lot: null,
+    urbanization: null,
+    ubigeo: location,
+  };
+  const upper = !/[a-z]/.test(text);
+  const title = (value: string | null) => (value && upper ? toTitleCase(value) : value);
+
+  // ── Ubicación al final, formato SUNAT: "... URB. CORPAC LIMA - LIMA - SAN ISIDRO" ──
+  let segments = text.split(/\s*,\s*|\s+[-–/]\s+/).filter(Boolean);
+  const sunat = splitUbicacionSuffix(segments);
+  if (sunat) {
+    segments = sunat.segments;
+    if (!address.ubigeo) address.ubigeo = sunat.ubigeo;
+  }
+
+  // ── Vía + segmentos que empiezan con marcador ("Piso 9", "Urb. X") → calle; el resto → lugares ──
+  const [first, ...rest] = segments;
+  const looksLikeStreet =
+    STREET_TYPES.some(({ pattern }) => pattern.test(first)) || MARKER_AT_START.test(first) || /\d/.test(first);
+  const streetParts = looksLikeStreet ? [first] : [];
+  const localities = looksLikeStreet ? [] : [first];
+  for (const segment of rest) {
+    (MARKER_AT_START.test(segment) ? streetParts : localities).push(segment);
+  }
+
+  let street = streetParts.join(' ');
+  const type = STREET_TYPES.find(({ pattern }) => pattern.test(street));
+  if (type) {
+    address.streetType = type.type;
+    street = street.replace(type.pattern, '');
+  }
+
+  // ── Marcadores ──
+  const found = findMarkers(street);
+  const leading = (found.length ? street.slice(0, found[0].index) : street).trim().replace(/[,.]$/, '');
+  const interiors: string[] = [];
+
+  found.forEach((marker, i) => {
+    const value = street.slice(marker.end, found[i + 1]?.index ?? street.length).trim().replace(/[,;]$/, '');
+    if (marker.key === 'urbanization') {
+      if (!address.urbanization && value) address.urbanization = value;
+      return;
+    }
+
+    // Un solo token; lo que sigue suele ser el distrito ("NRO. 1040 CHACHAPOYAS")
+    const [token, ...tail] = value.split(' ');
+    const clean = token?.replace(/[.,]$/, '');
+    if (tail.length) localities.push(tail.join(' '));
+    if (!clean) return;
+
+    switch (marker.key) {
+      case 'number':
+        if (!address.number) address.number = /^s\/?n$/i.test(clean) ? 'S/N' : clean.toUpperCase();
+        break;
+      case 'km':
+        if (!address.number) address.number = `Km ${clean}`;
+        break;
+      case 'interior': {
+        const label = INTERIOR_LABELS.find(({ pattern }) => pattern.test(marker.text))?.label ?? marker.text;
+        interiors.push(`${label} ${clean.toUpperCase()}`);
+        break;
+      }
+      case 'block':
+        if (!address.block) address.block = clean.toUpperCase();
+        break;
+      case 'lot':
+        if (!address.lot) address.lot = clean.toUpperCase();
+        break;
+    }
+  });
+
+  // Sin "NRO.": el número va al final del nombre ("Av. 28 de Julio 1234")
+  let streetName = leading || null;
+  if (streetName && !address.number) {
+    const trailing = streetName.match(/^(.*\D)\s+(\d{1,5}[a-z]?(?:-[a-z0-9]+)?)$/i);
+    if (trailing) {
+      streetName = trailing[1].trim();
+      address.number = trailing[2].toUpperCase();
+    } else if (/^s\/n$/i.test(streetName.split(' ').pop() ?? '')) {
+      streetName = streetName.replace(/\s+s\/n$/i, '');
+      address.number = 'S/N';
+    }
+  }
+  address.streetName = title(streetName);
+  address.interior = interiors.length ? interiors.join(' ') : null;
+
+  // ── Ubigeo desde la propia dirección ──
+  if (!address.ubigeo && localities.length) address.ubigeo = findUbigeo(localities);
+
+  // "URB. CORPAC SAN ISIDRO": el distrito pegado al final no es parte de la urbanización
+  if (address.urbanization && address.ubigeo) {
+    address.urbanization = stripTrailingPlace(address.urbanization, address.ubigeo);
+  }
+  address.urbanization = title(address.urbanization);
+
+  return address;
+}
+
+// ── Helpers ──
+
+function ubigeoOf(code: string): Ubigeo {
+  return {
+    code,
+    department: UBIGEO_INEI[code.slice(0, 2)],
+    province: code.length >= 4 ? UBIGEO_INEI[code.slice(0, 4)] : null,
+    district: code.length === 6 ? UBIGEO_INEI[code] : null,
+  };
+}
+
+function childrenOf(places: Place[], parentCode: string): Place[] {
+  return places.filter((p) => p.code.startsWith(parentCode));
+}
+
+/** Nombre exacto primero; el alias solo si el nombre no existe en ese nivel */
+function matchPlace(places: Place[], name: string): Place | undefined {
+  const key = placeKey(name);
+  if (!key) return undefined;
+  return places.find((p) => p.key === key) ?? places.find((p) => PLACE_ALIASES[key]?.includes(p.code));
+}
+
+/** Código común más largo (2 / 4 / 6 dígitos) de un conjunto de ubigeos, o null */
+function commonAncestor(codes: string[]): string | null {
+  for (const length of [6, 4, 2]) {
+    const prefix = codes[0].slice(0, length);
+    if (codes.every((c) => c.length >= length && c.startsWith(prefix))) return prefix;
+  }
+  return null;
+}
+
+/**
+ * Reconoce "DEPARTAMENTO - PROVINCIA - DISTRITO" al final de la dirección:
+ * los dos últimos segmentos y el departamento pegado al final del antepenúltimo.
+ */
+function splitUbicacionSuffix(segments: string[]): { segments: string[]; ubigeo: Ubigeo } | null {
+  if (segments.length < 3) return null;
+  const [head, province, district] = segments.slice(-3);
+  const headKey = placeKey(head);
+
+  for (const department of DEPARTMENTS) {
+    if (headKey !== department.key && !headKey.endsWith(` ${department.key}`)) continue;
+    const ubigeo = resolveUbigeo({ department: department.name, province, district });
+    if (!ubigeo || ubigeo.code.length < 4) continue;
+
+    const words = department.key.split(' ').length;
+    const remaining = head.split(' ').slice(0, -words).join(' ');
+    return { segments: [...segments.slice(0, -3), ...(remaining ? [remaining] : [])], ubigeo };
+  }
+  return null;
+}
+
+function findMarkers(text: string): Array<{ key: MarkerKey; index: number; end: number; text: string }> {
+  const found: Array<{ key: MarkerKey; index: number; end: number; text: string }> = [];
+  for (const { key, source } of MARKERS) {
+    for (const match of text.matchAll(new RegExp(source, 'gi'))) {
+      const index = match.index ?? 0;
+      found.push({ key, index, end: index + match[0].length, text: match[0] });
+    }
+  }
+  // Orden de aparición; si dos se solapan, queda el primero
+  found.sort((a, b) => a.index - b.index || b.end - a.end);
+  return found.filter((m, i) => i === 0 || m.index >= found[i - 1].end);
+}
+
+function stripTrailingPlace(text: string, ubigeo: Ubigeo): string {
+  const key = placeKey(text);
+  for (const name of [ubigeo.district, ubigeo.province, ubigeo.department]) {
+    const place = name ? placeKey(name) : '';
+    if (place && key.endsWith(` ${place}`)) {
+      return text.split(' ').slice(0, -place.split(' ').length).join(' ');
+    }
+  }
+  return text;
+}
+
+/** "Áncash" / "ANCASH" / "Quisqui (Kichki)" → "ancash" / "quisqui" */
+function placeKey(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z ]+/g, ' ')
+    .replace(/^(departamento|provincia|distrito|region) (de |del )?/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toTitleCase(text: string): string {
+  return text
+    .toLowerCase()
+    .split(' ')
+    .map((word, i) =>
+      i > 0 && LOWERCASE_WORDS.has(word) ? word : word.replace(/^(\p{L})/u, (ch: string) => ch.toUpperCase()),
+    )
+    .join(' ');
+}
@@ -0,0 +1,161 @@
+import { PhoneNumber } from '../../domain/entities/phone-number.entity';
+import { UBIGEO_INEI } from '../data/ubigeo-inei';
+
+/**
+ * Teléfonos peruanos → E.164 (+51).
+ *
+ * - Móviles: 9 dígitos que empiezan con 9
+ * - Fijos de Lima y Callao: código 1 + 7 dígitos ("(01) 219-2000")
+ * - Fijos de provincia: código de 2 dígitos + 6 ("(054) 381234")
+ * - 0800 / 0801: gratuitos y de pago compartido
+ *
+ * Un fijo de 7 dígitos sin código se asume de Lima: así se publica casi siempre.
+ */
+
+/** Código de área → departamento (ubigeo INEI). El 1 cubre Lima y Callao */
+const AREA_CODES: Record<string, string> = {
+  '1': '15',
+  '41': '01',
+  '43': '02',
+  '83': '03',
+  '54': '04',
+  '66': '05',
+  '76': '06',
+  '84': '08',
+  '67': '09',
+  '62': '10',
+  '56': '11',
+  '64': '12',
+  '44': '13',
+  '74': '14',
+  '65': '16',
+  '82': '17',
+  '53': '18',
+  '63': '19',
+  '73': '20',
+  '51': '21',
+  '42': '22',
+  '52': '23',
+  '72': '24',
+  '61': '25',
+};
+
+/** Anexo: "anexo 123", "anx. 45", "ext 7", "x 12" */
+const EXTENSION = '\\b(?:anexo|anx|ext|extensi[oó]n|x)\\.?\\s*:?\\s*(\\d{1,6})';
+
+/** Anexo que sigue a un número en el texto de la página */
+export const PHONE_EXTENSION = new RegExp(`^[\\s,;-]*${EXTENSION}\\b`, 'i');
+const TRAILING_EXTENSION = new RegExp(`[\\s,;-]*${EXTENSION}\\s*$`, 'i');
+
+/**
+ * normalizePhone('(01) 219-2000 anexo 123') → { e164: '+5112192000', lineType: 'landline', extension: '123', ... }
+ * normalizePhone('+51 987 123 456') → { e164: '+51987123456', lineType: 'mobile', ... }
+ * normalizePhone('999 999 999') → null (relleno)
+ * normalizePhone('20100053455') → null (RUC)
+ */
+export function normalizePhone(raw: string): PhoneNumber | null {
+  let text = raw.trim().replace(/^tel:/i, '');
+
+  // Anexo al final
+  let extension: string | null = null;
+  const ext = text.match(TRAILING_EXTENSION);
+  if (ext) {
+    extension = ext[1];
+    text = text.slice(0, ext.index).trim();
+  }
+
+  // Solo dígitos y separadores de teléfono: descarta fechas "01/05/1897", montos "S/ 1,500"...
+  if (!/^(\+|00)?[\d\s().-]+$/.test(text)) return null;
+  const digits = text.replace(/\D/g, '');
+  const international = /^(\+|00)/.test(text);
+  // Con +51, 51 o prefijo troncal el código de área es explícito
+  let prefixed = international;
+
+  let national: string;
+  if (international) {
+    const full = text.startsWith('00') ? digits.slice(2) : digits;
+    if (!full.startsWith('51')) {
+      // Número extranjero: se conserva tal cual si tiene un largo E.164 razonable
+      return full.length >= 8 && full.length <= 15 && !isFiller(full)
+        ? phone(raw, `+${full}`, 'foreign', null, extension)
+        : null;
+    }
+    national = full.slice(2);
+  } else if (/^51(9\d{8}|1\d{7})$/.test(digits)) {
+    // "51 987654321" sin el "+"
+    national = digits.slice(2);
+    prefixed = true;
+  } else {
+    national = digits;
+  }
+
+  // Prefijo troncal: (01), 054, 0800
+  const trunk = national.startsWith('0');
+  if (trunk) {
+    national = national.slice(1);
+    prefixed = true;
+  }
+
+  if (/^9\d{8}$/.test(national) && !trunk) {
+    return isFiller(national) || isFiller(national.slice(1)) ? null : phone(raw, `+51${national}`, 'mobile', null, extension);
+  }
+  if (/^80[01]\d{5,6}$/.test(national)) {
+    return phone(raw, `+51${national}`, 'tollfree', null, extension);
+  }
+  // 8 dígitos sin prefijo pueden ser un DNI; 7 sin prefijo son un fijo local de Lima
+  if ((prefixed && /^1[2-7]\d{6}$/.test(national)) || (!prefixed && /^[2-7]\d{6}$/.test(national))) {
+    const subscriber = national.length === 8 ? national.slice(1) : national;
+    return isFiller(subscriber) ? null : phone(raw, `+511${subscriber}`, 'landline', '1', extension);
+  }
+  const area = national.slice(0, 2);
+  if (prefixed && AREA_CODES[area] && /^\d{8}$/.test(national)) {
+    return isFiller(national.slice(2)) ? null : phone(raw, `+51${national}`, 'landline', area, extension);
+  }
+  return null;
+}
+
+/**
+ * Normaliza y deduplica por E.164 + anexo, en el orden original. Descarta lo que no es teléfono.
+ */
+export function normalizePhones(raws: string[]): PhoneNumber[] {
+  const seen = new Set<string>();
+  const out: PhoneNumber[] = [];
+  for (const raw of raws) {
+    const phone = normalizePhone(raw);
+    if (!phone || seen.has(phoneKey(phone))) continue;
+    seen.add(phoneKey(phone));
+    out.push(phone);
+  }
+  return out;
+}
+
+/** Clave de deduplicación: "+5112192000;ext=123" (formato RFC 3966) */
+export function phoneKey(phone: PhoneNumber): string {
+  return phone.extension ? `${phone.e164};ext=${phone.extension}` : phone.e164;
+}
+
+function phone(
+  raw: string,
+  e164: string,
+  lineType: PhoneNumber['lineType'],
+  areaCode: string | null,
+  extension: string | null,
+): PhoneNumber {
+  const regionCode = areaCode ? AREA_CODES[areaCode] : null;
+  return {
+    raw: raw.trim(),
+    e164,
+    lineType,
+    areaCode,
+    region: regionCode ? UBIGEO_INEI[regionCode] : null,
+    regionCode,
+    extension,
+  };
+}
+
+/** Relleno de plantillas: "999 999 999", "123 4567", "987 654 321" */
+function isFiller(subscriber: string): boolean {
+  if (/^(\d)\1+$/.test(subscriber)) return true;
+  // Escaleras cortas aparecen en números reales de provincia (6 dígitos)
+  return subscriber.length >= 7 && ('0123456789'.includes(subscriber) || '9876543210'.includes(subscriber));
+}
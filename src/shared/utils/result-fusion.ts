@@ -0,0 +1,110 @@
+import { getRootDomain } from './url-scorer';
+
+/** Constante k de Reciprocal Rank Fusion (valor estándar de la literatura) */
+export const RRF_K = 60;
+
+/** Bonus de score por cada motor adicional que coincide en el mismo dominio */
+export const CONSENSUS_BONUS = 5;
+
+/** Lista ordenada de resultados de un motor */
+export interface RankedList<S extends string = string> {
+  source: S;
+  results: Array<{ url: string; title: string; score: number }>;
+}
+
+/** Voto de un motor por un dominio */
+export interface EngineVote<S extends string = string> {
+  source: S;
+  /** Posición 1-based dentro de la lista del motor */
+  rank: number;
+  score: number;
+}
+
+/** Candidato fusionado (un dominio raíz) */
+export interface FusedCandidate<S extends string = string> {
+  domain: string;
+  url: string;
+  title: string;
+  /** Mejor score individual entre los motores que lo votaron */
+  bestScore: number;
+  /** Σ 1 / (k + rank) sobre los motores que lo votaron */
+  fusedScore: number;
+  votes: EngineVote<S>[];
+}
+
+/**
+ * Fusiona los rankings de varios motores con Reciprocal Rank Fusion.
+ *
+ * Cada motor aporta 1 / (k + rank) por dominio raíz: un dominio que aparece
+ * en 2 motores, aunque sea en posiciones medias, supera al #1 de un solo motor.
+ * Empates → mayor bestScore.
+ *
+ * fuseRankings([
+ *   { source: 'ddg_http',  results: [interbank.pe, rpp.pe] },
+ *   { source: 'bing_http', results: [interbank.pe] },
+ * ]) → [{ domain: 'interbank.pe', votes: [ddg #1, bing #1], ... }, { domain: 'rpp.pe', ... }]
+ */
+export function fuseRankings<S extends string>(
+  lists: RankedList<S>[],
+  k = RRF_K,
+): FusedCandidate<S>[] {
+  const byDomain = new Map<string, FusedCandidate<S>>();
+
+  for (const { source, results } of lists) {
+    const seen = new Set<string>();
+
+    results.forEach((r, i) => {
+      const domain = domainOf(r.url);
+      // Un motor vota una sola vez por dominio (su mejor posición)
+      if (!domain || seen.has(domain)) return;
+      seen.add(domain);
+
+      const rank = i + 1;
+      const vote: EngineVote<S> = { source, rank, score: r.score };
+      const existing = byDomain.get(domain);
+
+      if (!existing) {
+        byDomain.set(domain, {
+          domain,
+          url: r.url,
+          title: r.title,
+          bestScore: r.score,
+          fusedScore: 1 / (k + rank),
+          votes: [vote],
+        });
+        return;
+      }
+
+      existing.fusedScore += 1 / (k + rank);
+      existing.votes.push(vote);
+      if (r.score > existing.bestScore) {
+        existing.bestScore = r.score;
+        existing.url = r.url;
+      }
+      // Preferir el título más descriptivo (más largo)
+      if (r.title && r.title.length > (existing.title?.length || 0)) {
+        existing.title = r.title;
+      }
+    });
+  }
+
+  return [...byDomain.values()].sort(
+    (a, b) => b.fusedScore - a.fusedScore || b.bestScore - a.bestScore,
+  );
+}
+
+/**
+ * Score de un candidato fusionado: su mejor score individual
+ * + `bonus` por cada motor extra que lo votó.
+ */
+export function consensusScore(candidate: FusedCandidate, bonus = CONSENSUS_BONUS): number {
+  return candidate.bestScore + bonus * (candidate.votes.length - 1);
+}
+
+function domainOf(url: string): string | null {
+  try {
+    return getRootDomain(new URL(url).hostname.toLowerCase());
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Parser mínimo de robots.txt (RFC 9309 + Crawl-delay).
+ *
+ * - Se usa el grupo cuyo User-agent contiene nuestro token; si no hay, el grupo "*"
+ * - Gana la regla (Allow / Disallow) con el patrón más largo; empate → Allow
+ * - Patrones con * (cualquier secuencia) y $ (fin de URL)
+ * - Crawl-delay no es estándar, pero muchos sitios lo declaran: se respeta
+ * - Sitemap: es global (no depende del grupo) y se usa para descubrir sub-páginas
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Patrón tal cual aparece en el archivo (p. ej. /privado/*.pdf$) */
+  pattern: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  /** Segundos entre requests (null = no declarado) */
+  crawlDelaySec: number | null;
+  /** URLs de las líneas "Sitemap:" */
+  sitemaps: string[];
+}
+
+/** Política que permite todo (sin robots.txt, 404, error de red...) */
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelaySec: null, sitemaps: [] };
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySec: number | null;
+}
+
+/**
+ * parseRobotsTxt('User-agent: *\nDisallow: /admin', 'empliq')
+ *   → { rules: [{ allow: false, pattern: '/admin' }], crawlDelaySec: null, sitemaps: [] }
+ */
+export function parseRobotsTxt(text: string, agentToken: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  // Varias líneas User-agent seguidas comparten el mismo grupo
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep < 0) continue;
+
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === 'sitemap') {
+      if (/^https?:\/\//i.test(value) && !sitemaps.includes(value)) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [], crawlDelaySec: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // "Disallow:" vacío = permitir todo → no aporta regla
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelaySec = delay;
+    }
+  }
+
+  const token = agentToken.toLowerCase();
+  const matching = groups.filter((g) => g.agents.some((a) => a !== '*' && token.includes(a)));
+  const chosen = matching.length > 0 ? matching : groups.filter((g) => g.agents.includes('*'));
+
+  if (chosen.length === 0) return { ...ALLOW_ALL, sitemaps };
+
+  // Si hay varios grupos para el mismo agente, se combinan
+  const delays = chosen.map((g) => g.crawlDelaySec).filter((d): d is number => d !== null);
+  return {
+    rules: chosen.flatMap((g) => g.rules),
+    crawlDelaySec: delays.length > 0 ? Math.max(...delays) : null,
+    sitemaps,
+  };
+}
+
+/**
+ * ¿Se puede visitar este path (+ query)?
+ * Retorna la regla que decidió (null = ninguna aplica → permitido).
+ */
+export function matchRobots(policy: RobotsPolicy, pathAndQuery: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!patternMatches(rule.pattern, pathAndQuery)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+export function isAllowedByRobots(policy: RobotsPolicy, pathAndQuery: string): boolean {
+  return matchRobots(policy, pathAndQuery)?.allow ?? true;
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(path);
+}
@@ -0,0 +1,181 @@
+import { RucCandidate, RucCheck, RucSignal } from '../../domain/entities/company-profile.entity';
+
+/**
+ * RUC (Registro Único de Contribuyentes, SUNAT): 11 dígitos.
+ *
+ * - Prefijo: 10 persona natural con DNI · 15 / 17 persona natural con otro documento
+ *   (carné de extranjería, pasaporte, no domiciliados) · 20 persona jurídica
+ * - Último dígito: verificador módulo 11 sobre los 10 primeros
+ */
+
+export type RucTaxpayerType = 'natural-person' | 'natural-person-other-id' | 'legal-entity';
+
+const RUC_PREFIXES: Record<string, RucTaxpayerType> = {
+  '10': 'natural-person',
+  '15': 'natural-person-other-id',
+  '17': 'natural-person-other-id',
+  '20': 'legal-entity',
+};
+
+/** Pesos SUNAT para los 10 primeros dígitos */
+const CHECK_WEIGHTS = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+
+/**
+ * Dígito verificador de los 10 primeros dígitos.
+ * rucCheckDigit('2010005345') → 5
+ */
+export function rucCheckDigit(first10: string): number {
+  const sum = CHECK_WEIGHTS.reduce((acc, w, i) => acc + w * Number(first10[i]), 0);
+  const digit = 11 - (sum % 11);
+  return digit === 10 ? 0 : digit === 11 ? 1 : digit;
+}
+
+/**
+ * isValidRuc('20100053455') → true
+ * isValidRuc('20100053454') → false (dígito verificador)
+ * isValidRuc('30100053455') → false (prefijo)
+ */
+export function isValidRuc(ruc: string): boolean {
+  return /^\d{11}$/.test(ruc) && ruc.slice(0, 2) in RUC_PREFIXES && rucCheckDigit(ruc) === Number(ruc[10]);
+}
+
+/** Tipo de contribuyente según el prefijo (null si el prefijo no existe) */
+export function rucTaxpayerType(ruc: string): RucTaxpayerType | null {
+  return RUC_PREFIXES[ruc.slice(0, 2)] ?? null;
+}
+
+// ── Candidatos en una página ──────────────────────────────────
+
+const RUC_IN_TEXT = /\b(?:10|15|17|20)\d{9}\b/g;
+
+const SCRIPT = /<script\b[^>]*>[\s\S]*?<\/script>/gi;
+
+/** Límites de bloque: el contexto de un RUC no cruza párrafos, celdas ni ítems */
+const BLOCK_TAG = /<\/?(?:p|div|li|td|th|tr|section|article|header|footer|main|h[1-6]|br)\b[^>]*>/gi;
+
+/** "RUC", "R.U.C.", "RUC N°" justo antes del número */
+const RUC_LABEL = /\bR\.?\s?U\.?\s?C\.?\s*(?:N[°ºo]?\.?|:|-|\s)*$/i;
+
+/** Inicio del pie de página: <footer> o un contenedor con id/class "footer" */
+export const FOOTER_START = /<footer\b|<[a-z][^>]*\b(?:id|class)=["'][^"']*footer/i;
+
+/** Texto legal alrededor: razón social, ©, derechos reservados, términos... */
+const LEGAL_CONTEXT =
+  /raz[oó]n social|©|&copy;|derechos reservados|\bs\.a\.a?\.|\bs\.a\.c\.|\bs\.r\.l\.|\be\.i\.r\.l\.|libro de reclamaciones|t[eé]rminos y condiciones|pol[ií]tica de privacidad|domicilio fiscal/i;
+
+/** Páginas legales: el RUC que publican es el de la empresa */
+const LEGAL_PAGE = /t[eé]rminos|condiciones|privacidad|legal|reclamaciones|aviso/i;
+
+/** RUCs de terceros: proveedores, clientes, consorcios, licitaciones */
+const THIRD_PARTY_CONTEXT = /proveedor|client[ea]s?\b|consorcio|socio estrat|aliado|partner|adjudica|contratista|licitaci[oó]n/i;
+
+const SIGNAL_WEIGHTS: Record<RucSignal, number> = {
+  'json-ld': 0.65,
+  label: 0.3,
+  footer: 0.15,
+  legal: 0.15,
+  'legal-page': 0.1,
+  'third-party': -0.25,
+};
+
+/**
+ * RUCs válidos (dígito verificador) de una página, de mayor a menor puntaje.
+ * Puntaje base 0.3 (+0.05 si es persona jurídica) más el peso de cada indicio,
+ * acotado a 0.05-0.9: solo el JSON-LD llega a 0.95.
+ *
+ * findRucCandidates('<footer>© 2025 Acme S.A.C. - RUC 20100053455</footer>', url)
+ *   → [{ ruc: '20100053455', score: 0.9, signals: ['label', 'footer', 'legal'], ... }]
+ */
+export function findRucCandidates(html: string, pageUrl: string): RucCandidate[] {
+  // El JSON-LD se puntúa aparte: su taxID no cuenta como aparición en el texto
+  const page = html.replace(SCRIPT, (m) => ' '.repeat(m.length));
+  const footerAt = page.search(FOOTER_START);
+  let path = '';
+  try {
+    path = decodeURIComponent(new URL(pageUrl).pathname);
+  } catch {
+    // URL inválida: sin indicio de página legal
+  }
+
+  const byRuc = new Map<string, RucCandidate>();
+  for (const match of page.matchAll(RUC_IN_TEXT)) {
+    const ruc = match[0];
+    if (!isValidRuc(ruc)) continue;
+
+    // Contexto: el bloque (párrafo, celda, ítem) que contiene el número
+    const index = match.index ?? 0;
+    const before = textOf(lastBlock(page.slice(Math.max(0, index - 200), index)));
+    const after = textOf(firstBlock(page.slice(index + ruc.length, index + ruc.length + 200)));
+    const around = `${before} ${after}`;
+
+    const signals: RucSignal[] = [];
+    if (RUC_LABEL.test(before.slice(-30))) signals.push('label');
+    if (footerAt >= 0 && index > footerAt) signals.push('footer');
+    if (LEGAL_CONTEXT.test(around)) signals.push('legal');
+    if (LEGAL_PAGE.test(path)) signals.push('legal-page');
+    if (THIRD_PARTY_CONTEXT.test(around)) signals.push('third-party');
+
+    const candidate = buildCandidate(ruc, signals, pageUrl);
+    const existing = byRuc.get(ruc);
+    if (!existing) {
+      byRuc.set(ruc, candidate);
+    } else {
+      existing.occurrences++;
+      if (candidate.score > existing.score) {
+        existing.score = candidate.score;
+        existing.signals = candidate.signals;
+      }
+    }
+  }
+
+  return [...byRuc.values()].sort((a, b) => b.score - a.score);
+}
+
+/** Candidato con su puntaje a partir de los indicios */
+export function buildCandidate(ruc: string, signals: RucSignal[], sourceUrl: string): RucCandidate {
+  const base = rucTaxpayerType(ruc) === 'legal-entity' ? 0.35 : 0.3;
+  const raw = signals.reduce((acc, s) => acc + SIGNAL_WEIGHTS[s], base);
+  const max = signals.includes('json-ld') ? 0.95 : 0.9;
+  return {
+    ruc,
+    score: Math.round(Math.min(max, Math.max(0.05, raw)) * 100) / 100,
+    signals,
+    occurrences: 1,
+    sourceUrl,
+  };
+}
+
+/**
+ * Compara el RUC pedido con lo que publica la web.
+ * checkRuc('20100053455', { ruc: '20100053455', rucCandidates }) → { status: 'match', ... }
+ */
+export function checkRuc(
+  requested: string,
+  profile: { ruc: string | null; rucCandidates: RucCandidate[] },
+): RucCheck {
+  const found = profile.ruc;
+  if (!found) return { requested, found: null, status: 'not-found' };
+  if (found === requested) return { requested, found, status: 'match' };
+  const status = profile.rucCandidates.some((c) => c.ruc === requested) ? 'candidate' : 'mismatch';
+  return { requested, found, status };
+}
+
+function lastBlock(html: string): string {
+  const tags = [...html.matchAll(BLOCK_TAG)];
+  const last = tags[tags.length - 1];
+  return last ? html.slice((last.index ?? 0) + last[0].length) : html;
+}
+
+function firstBlock(html: string): string {
+  const first = html.search(new RegExp(BLOCK_TAG.source, 'i'));
+  return first >= 0 ? html.slice(0, first) : html;
+}
+
+function textOf(html: string): string {
+  return html
+    .replace(/^[^<>]*>/, ' ') // tag cortado al inicio
+    .replace(/<[^>]*$/, ' ') // tag cortado al final
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/\s+/g, ' ');
+}
@@ -0,0 +1,48 @@
+/**
+ * Parser de sitemaps (sitemaps.org): <urlset>, <sitemapindex> y sitemaps en texto plano.
+ *
+ * Regex en vez de un parser XML: los sitemaps reales vienen con namespaces,
+ * CDATA y a veces XML inválido, y solo interesan los <loc>.
+ */
+
+export interface ParsedSitemap {
+  /** index = lista de otros sitemaps; urlset = lista de páginas */
+  kind: 'index' | 'urlset';
+  /** URLs absolutas http(s), sin duplicados, en el orden del archivo */
+  urls: string[];
+}
+
+/**
+ * parseSitemap('<sitemapindex><sitemap><loc>https://acme.pe/page-sitemap.xml</loc></sitemap></sitemapindex>')
+ *   → { kind: 'index', urls: ['https://acme.pe/page-sitemap.xml'] }
+ */
+export function parseSitemap(body: string): ParsedSitemap {
+  const kind = /<sitemapindex[\s>]/i.test(body) ? 'index' : 'urlset';
+  const urls = new Set<string>();
+
+  if (/<loc[\s>]/i.test(body)) {
+    const pattern = /<loc[^>]*>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body)) !== null) {
+      const url = decodeXmlEntities(match[1]);
+      if (/^https?:\/\//i.test(url)) urls.add(url);
+    }
+  } else if (!/<[a-z!?]/i.test(body)) {
+    // Sitemap en texto plano: una URL por línea
+    for (const line of body.split(/\r?\n/)) {
+      const url = line.trim();
+      if (/^https?:\/\/\S+$/i.test(url)) urls.add(url);
+    }
+  }
+
+  return { kind, urls: [...urls] };
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'");
+}
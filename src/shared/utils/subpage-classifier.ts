@@ -0,0 +1,49 @@
+/**
+ * Taxonomía de sub-páginas corporativas que el scraper sabe aprovechar.
+ * El orden es la prioridad de visita (con maxSubpages=3 se visitan las 3 primeras).
+ */
+export const SUBPAGE_TYPES = [
+  'about',
+  'contact',
+  'history',
+  'leadership',
+  'careers',
+  'investors',
+  'sustainability',
+] as const;
+
+export type SubpageType = (typeof SUBPAGE_TYPES)[number];
+
+/**
+ * Un segmento del path identifica el tipo: /nosotros, /es/contacto/, /about-us?x=1.
+ * Gana el primer patrón que coincide: careers va primero porque
+ * /nosotros/trabaja-con-nosotros es la bolsa de trabajo, no "quiénes somos";
+ * leadership antes que about e investors por /nosotros/directorio y /inversionistas/directorio.
+ */
+const SUBPAGE_PATTERNS: Array<{ pattern: RegExp; type: SubpageType }> = [
+  { pattern: /\/(trabaja-con-nosotros|trabaja-en-[\w-]+|bolsa-de-trabajo|empleos?|careers?|jobs|unete(-a-[\w-]+)?|talento|convocatorias)(\/|$|\?|#)/i, type: 'careers' },
+  { pattern: /\/(directorio|equipo-gerencial|equipo-directivo|plana-gerencial|plana-ejecutiva|alta-direccion|nuestros-lideres|liderazgo|leadership|management-team|board-of-directors|nuestro-equipo|our-team)(\/|$|\?|#)/i, type: 'leadership' },
+  { pattern: /\/(nosotros|about-us|about|quienes-somos|acerca-de|sobre-nosotros|quien-somos|conocenos)(\/|$|\?|#)/i, type: 'about' },
+  { pattern: /\/(contacto|contactanos|contact|contact-us)(\/|$|\?|#)/i, type: 'contact' },
+  { pattern: /\/(historia|history|nuestra-historia|our-history|trayectoria)(\/|$|\?|#)/i, type: 'history' },
+  { pattern: /\/(inversionistas|relacion-con-inversionistas|investors?|investor-relations|accionistas|gobierno-corporativo|memorias?-anual(es)?)(\/|$|\?|#)/i, type: 'investors' },
+  { pattern: /\/(sostenibilidad|sustentabilidad|sustainability|responsabilidad-social([\w-]*)?|rse|esg)(\/|$|\?|#)/i, type: 'sustainability' },
+];
+
+/**
+ * Tipo de sub-página según el path, o null si no interesa.
+ *
+ * classifySubpage('/es/nosotros/') → 'about'
+ * classifySubpage('/trabaja-con-nosotros') → 'careers'
+ */
+export function classifySubpage(pathname: string): SubpageType | null {
+  for (const { pattern, type } of SUBPAGE_PATTERNS) {
+    if (pattern.test(pathname)) return type;
+  }
+  return null;
+}
+
+/** Prioridad de visita (menor = antes) */
+export function subpagePriority(type: SubpageType): number {
+  return SUBPAGE_TYPES.indexOf(type);
+}
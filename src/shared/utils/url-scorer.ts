@@ -179,7 +179,7 @@ export function scoreResult(
  * "bcpzonasegura.viabcp.com" → "viabcp.com"
  * "www.alicorp.com.pe" → "alicorp.com.pe"
  */
-function getRootDomain(hostname: string): string {
+export function getRootDomain(hostname: string): string {
   const parts = hostname.split('.');
   // .com.pe, .org.pe, .gob.pe → necesitan 3 partes mínimo
   if (parts.length >= 3 && /^(com|org|gob|net|edu)$/.test(parts[parts.length - 2])) {
@@ -0,0 +1,113 @@
+import { WebsiteEvidence } from '../../domain/entities/search-result.entity';
+import { cleanCompanyName } from './company-name-cleaner';
+import { cleanEmail, isCompanyEmail } from './email-address';
+import { FOOTER_START, findRucCandidates } from './ruc';
+
+/**
+ * Verificación de una web candidata contra la empresa buscada:
+ * RUC, razón social y emails del propio dominio en la página y su pie legal.
+ */
+
+/** Razón social normalizada más corta que esto no se busca */
+const MIN_NAME_LENGTH = 4;
+
+/**
+ * Indicios de que `pageUrl` es la web de la empresa `legalName` con RUC `ruc`.
+ * Sin `legalName` (razón social desconocida) solo se buscan el RUC y los emails.
+ *
+ * findWebsiteEvidence(html, 'https://interbank.pe/', { ruc: '20100053455', legalName: 'BANCO INTERNACIONAL DEL PERU S.A.A.' })
+ *   → [{ type: 'ruc', location: 'footer', ... }, { type: 'legal-name', location: 'footer', ... }]
+ */
+export function findWebsiteEvidence(
+  html: string,
+  pageUrl: string,
+  company: { ruc: string; legalName: string | null },
+): WebsiteEvidence[] {
+  const evidence: WebsiteEvidence[] = [];
+  const footerAt = html.search(FOOTER_START);
+  const pageText = textOf(html);
+  const footerText = footerAt >= 0 ? textOf(html.slice(footerAt)) : '';
+
+  // RUC: en el texto (con su contexto) o en el JSON-LD (taxID)
+  const candidate = findRucCandidates(html, pageUrl).find((c) => c.ruc === company.ruc);
+  if (candidate) {
+    const inFooter = candidate.signals.includes('footer') || candidate.signals.includes('legal');
+    evidence.push({
+      type: 'ruc',
+      location: inFooter ? 'footer' : 'page',
+      snippet: around(inFooter && footerText.includes(company.ruc) ? footerText : pageText, company.ruc),
+    });
+  } else if (html.includes(company.ruc)) {
+    evidence.push({ type: 'ruc', location: 'page', snippet: around(html, company.ruc) });
+  }
+
+  // Razón social completa ("Banco Internacional del Perú S.A.A."), si se conoce. Una marca suelta
+  // ("INTERBANK") no sirve: cualquier dominio parecido la menciona
+  const legalName = normalize(company.legalName ?? '');
+  if (
+    company.legalName &&
+    legalName.length >= MIN_NAME_LENGTH &&
+    legalName !== normalize(cleanCompanyName(company.legalName))
+  ) {
+    const location = includesWords(normalize(footerText), legalName)
+      ? 'footer'
+      : includesWords(normalize(pageText), legalName)
+        ? 'page'
+        : null;
+    if (location) evidence.push({ type: 'legal-name', location, snippet: legalName });
+  }
+
+  // Emails del propio dominio: la web se opera con ese dominio (no es un directorio ni un espejo)
+  for (const match of html.matchAll(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g)) {
+    const address = cleanEmail(match[0]);
+    if (address && isCompanyEmail(address, pageUrl)) {
+      const location = footerAt >= 0 && (match.index ?? 0) > footerAt ? 'footer' : 'page';
+      evidence.push({ type: 'domain', location, snippet: address });
+      break;
+    }
+  }
+
+  return evidence;
+}
+
+/**
+ * Verificada: el RUC pedido, o la razón social en el pie legal junto con emails del dominio.
+ * Los emails solos no alcanzan: un dominio parecido también tiene los suyos.
+ */
+export function isVerified(evidence: WebsiteEvidence[]): boolean {
+  if (evidence.some((e) => e.type === 'ruc')) return true;
+  return (
+    evidence.some((e) => e.type === 'legal-name' && e.location === 'footer') &&
+    evidence.some((e) => e.type === 'domain')
+  );
+}
+
+function textOf(html: string): string {
+  return html
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;|&#160;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Minúsculas, sin tildes ni puntuación: "Perú S.A.A." → "peru s a a" */
+function normalize(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .trim();
+}
+
+function includesWords(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+function around(text: string, needle: string, radius = 60): string {
+  const idx = text.indexOf(needle);
+  if (idx < 0) return needle;
+  return text.slice(Math.max(0, idx - radius), idx + needle.length + radius).replace(/\s+/g, ' ').trim();
+}
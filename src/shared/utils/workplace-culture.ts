@@ -0,0 +1,85 @@
+import { BenefitCategory, CultureStatement } from '../../domain/entities/company-profile.entity';
+
+/**
+ * Vocabulario para el perfil de empleador: beneficios, certificaciones y
+ * declaraciones de diversidad / sostenibilidad (español peruano + inglés).
+ */
+
+/** Headings de secciones de beneficios: "Beneficios", "¿Qué te ofrecemos?", "Why work with us" */
+export const BENEFITS_HEADING =
+  /(beneficios|benefits|perks|(qu[eé] )?te ofrecemos|lo que ofrecemos|por qu[eé] trabajar|why (work|join)|ventajas de trabajar)/i;
+
+/** Gana la primera categoría que coincide ("seguro de vida" es salud, no familia) */
+const BENEFIT_PATTERNS: Array<{ pattern: RegExp; category: BenefitCategory }> = [
+  { pattern: /(\beps\b|seguro (de salud|m[eé]dico|oncol[oó]gico|de vida)|plan de salud|atenci[oó]n m[eé]dica|health insurance)/i, category: 'health' },
+  { pattern: /(home office|trabajo remoto|teletrabajo|remote|h[ií]brid[oa]|horarios? flexibles?|flexibilidad horaria|flexible hours)/i, category: 'flexibility' },
+  { pattern: /(l[ií]nea de carrera|desarrollo profesional|crecimiento profesional|capacitaci[oó]n|formaci[oó]n|becas?\b|mentor[ií]a|career|training)/i, category: 'career' },
+  { pattern: /(licencia (de )?(paternidad|maternidad|parental)|lactario|guarder[ií]a|\bcuna\b|hijos|parental leave)/i, category: 'family' },
+  { pattern: /(gimnasio|\bgym\b|bienestar|pausas? activas?|d[ií]as? libres?|cumplea[nñ]os|vacaciones adicionales|wellness|wellbeing)/i, category: 'wellbeing' },
+  { pattern: /(bonos? (por desempe[nñ]o|anual|de productividad)|utilidades|remuneraci[oó]n competitiva|salario competitivo|descuentos? (corporativos|exclusivos|en)|movilidad|vales? de alimentos|bonus)/i, category: 'compensation' },
+];
+
+/** Certificaciones: nombre canónico + cómo aparece en texto, alt o nombre de archivo */
+const CERTIFICATION_PATTERNS: Array<{ name: string | ((match: RegExpMatchArray) => string); pattern: RegExp }> = [
+  { name: 'Great Place to Work', pattern: /(great[\s_-]*place[\s_-]*to[\s_-]*work|\bgptw\b)/i },
+  { name: 'Top Employer', pattern: /top[\s_-]*employers?\b/i },
+  { name: 'Empresa Socialmente Responsable', pattern: /(empresa socialmente responsable|distintivo esr|\besr\b)/i },
+  { name: 'Empresa B', pattern: /(empresa b certificada|certified b corp|\bb corp\b|sistema b\b)/i },
+  { name: 'Buenos Empleadores (ABE)', pattern: /(asociaci[oó]n de buenos empleadores|buenos empleadores|\babe\b)/i },
+  { name: 'Merco Talento', pattern: /merco[\s_-]*talento/i },
+  { name: (m) => `ISO ${m[1]}`, pattern: /\biso[\s_-]?(9001|14001|45001|27001|37001|22301|50001)\b/i },
+];
+
+/** "Inclusión financiera" es un producto de la banca, no diversidad */
+const NOT_DIVERSITY = /inclusi[oó]n (financiera|digital)/i;
+
+const STATEMENT_KEYWORDS: Record<CultureStatement['topic'], RegExp> = {
+  diversity: /(diversidad|inclusi[oó]n|equidad de g[eé]nero|igualdad de (oportunidades|g[eé]nero)|lgbt|personas con discapacidad|diversity|inclusion|gender equality)/i,
+  sustainability: /(sostenib|sustentab|medio ambiente|ambiental|huella de carbono|carbono neutral|emisiones|energ[ií]a renovable|econom[ií]a circular|responsabilidad social|impacto social|\besg\b|sustainab)/i,
+};
+
+/**
+ * classifyBenefit('Seguro EPS 100% cubierto') → 'health'
+ * classifyBenefit('Trabajamos en Miraflores') → null
+ */
+export function classifyBenefit(text: string): BenefitCategory | null {
+  return BENEFIT_PATTERNS.find(({ pattern }) => pattern.test(text))?.category ?? null;
+}
+
+/**
+ * Certificaciones mencionadas en un texto, con el año si aparece cerca
+ * ("Great Place to Work 2023", "certificados ISO 9001:2015").
+ */
+export function findCertifications(
+  text: string,
+): Array<{ name: string; year: number | null; match: string }> {
+  const found: Array<{ name: string; year: number | null; match: string }> = [];
+
+  for (const { name, pattern } of CERTIFICATION_PATTERNS) {
+    // Todas las ocurrencias: "ISO 9001 e ISO 14001"
+    for (const match of text.matchAll(new RegExp(pattern.source, 'gi'))) {
+      const canonical = typeof name === 'string' ? name : name(match);
+      if (found.some((f) => f.name === canonical)) continue;
+
+      // El año va pegado ("GPTW 2023") o en la misma frase; ISO 9001:2015 es la versión de la norma
+      const start = match.index ?? 0;
+      const around = text.slice(Math.max(0, start - 40), start + match[0].length + 40);
+      const year = around.replace(/:\s?(19|20)\d{2}/g, '').match(/\b(20[0-4]\d)\b/);
+
+      found.push({ name: canonical, year: year ? parseInt(year[1], 10) : null, match: match[0] });
+    }
+  }
+  return found;
+}
+
+/**
+ * Tema de una declaración (o del heading de su sección), o null.
+ *
+ * statementTopic('Promovemos la equidad de género') → 'diversity'
+ * statementTopic('Inclusión financiera para todos') → null
+ */
+export function statementTopic(text: string): CultureStatement['topic'] | null {
+  if (STATEMENT_KEYWORDS.diversity.test(text.replace(NOT_DIVERSITY, ''))) return 'diversity';
+  if (STATEMENT_KEYWORDS.sustainability.test(text)) return 'sustainability';
+  return null;
+}
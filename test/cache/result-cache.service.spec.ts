@@ -0,0 +1,195 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ResultCacheService } from '../../src/application/services/result-cache.service';
+import { ResultCachePort } from '../../src/domain/ports/result-cache.port';
+import { MemoryCacheAdapter } from '../../src/infrastructure/adapters/memory-cache.adapter';
+import { FileCacheAdapter } from '../../src/infrastructure/adapters/file-cache.adapter';
+import { SearchResult, SearchResultItem } from '../../src/domain/entities/search-result.entity';
+import { DatosPeruProfile } from '../../src/domain/entities/datos-peru-profile.entity';
+import { CompanyProfile } from '../../src/domain/entities/company-profile.entity';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { testConfig } from '../helpers/fixtures';
+
+/** Entidad con getter: solo sobrevive al caché si `revive` la reconstruye */
+class Profile {
+  constructor(
+    readonly ruc: string,
+    readonly fields: number,
+  ) {}
+
+  get useful(): boolean {
+    return this.fields > 0;
+  }
+
+  static fromSnapshot(snapshot: Record<string, unknown>): Profile {
+    return new Profile(snapshot.ruc as string, snapshot.fields as number);
+  }
+}
+
+const OPTS = { revive: Profile.fromSnapshot, shouldStore: (p: Profile) => p.useful };
+
+const dirs: string[] = [];
+async function tempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  dirs.push(dir);
+  return dir;
+}
+
+afterAll(async () => {
+  await Promise.all(dirs.map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe.each([
+  ['memory', () => Promise.resolve(new MemoryCacheAdapter(testConfig()))],
+  ['file', async () => new FileCacheAdapter(testConfig({ 'scraper.cache.dir': await tempDir() }))],
+])('ResultCacheService (%s)', (_driver, makeAdapter) => {
+  let adapter: ResultCachePort;
+  let cache: ResultCacheService;
+  let loads: number;
+  const load = (profile: Profile) => async () => {
+    loads++;
+    return profile;
+  };
+
+  beforeEach(async () => {
+    adapter = await makeAdapter();
+    cache = new ResultCacheService(adapter, testConfig({ 'scraper.cache.ttlSeconds.datosPeru': 60 }));
+    loads = 0;
+  });
+
+  it('miss carga y guarda; el hit devuelve la entidad reconstruida', async () => {
+    const key = ResultCacheService.datosPeruKey('20100047218');
+
+    const miss = await cache.getOrLoad('datosPeru', key, load(new Profile('20100047218', 5)), OPTS);
+    expect(miss.cache).toMatchObject({ hit: false, key });
+    expect(Date.parse(miss.cache.expiresAt!) - Date.parse(miss.cache.storedAt!)).toBe(60000);
+
+    const hit = await cache.getOrLoad('datosPeru', key, load(new Profile('x', 0)), OPTS);
+    expect(hit.cache).toMatchObject({ hit: true, key });
+    expect(hit.value).toBeInstanceOf(Profile);
+    expect(hit.value.useful).toBe(true);
+    expect(loads).toBe(1);
+  });
+
+  it('no guarda lo que shouldStore rechaza', async () => {
+    const key = ResultCacheService.datosPeruKey('20100130204');
+
+    const first = await cache.getOrLoad('datosPeru', key, load(new Profile('20100130204', 0)), OPTS);
+    expect(first.cache).toEqual({ hit: false, key, storedAt: null, expiresAt: null });
+    await cache.getOrLoad('datosPeru', key, load(new Profile('20100130204', 0)), OPTS);
+
+    expect(loads).toBe(2);
+    expect(await adapter.get(key)).toBeNull();
+  });
+
+  it('fresh ignora el hit pero guarda el resultado nuevo', async () => {
+    const key = ResultCacheService.datosPeruKey('20100055237');
+    await cache.getOrLoad('datosPeru', key, load(new Profile('20100055237', 1)), OPTS);
+
+    const refreshed = await cache.getOrLoad('datosPeru', key, load(new Profile('20100055237', 7)), {
+      ...OPTS,
+      fresh: true,
+    });
+    expect(refreshed.cache.hit).toBe(false);
+
+    const hit = await cache.getOrLoad('datosPeru', key, load(new Profile('x', 0)), OPTS);
+    expect(hit.value.fields).toBe(7);
+    expect(loads).toBe(2);
+  });
+
+  it('las entradas vencidas no se devuelven', async () => {
+    await adapter.set('k', { a: 1 }, 1);
+    await new Promise((r) => setTimeout(r, 5));
+    expect(await adapter.get('k')).toBeNull();
+  });
+});
+
+describe('MemoryCacheAdapter', () => {
+  it('al pasar maxEntries descarta la entrada más antigua', async () => {
+    const adapter = new MemoryCacheAdapter(testConfig({ 'scraper.cache.maxEntries': 2 }));
+    await adapter.set('a', 1, 60000);
+    await adapter.set('b', 2, 60000);
+    await adapter.set('a', 3, 60000); // re-guardar la renueva
+    await adapter.set('c', 4, 60000);
+
+    expect(await adapter.get('b')).toBeNull();
+    expect((await adapter.get('a'))!.value).toBe(3);
+    expect((await adapter.get('c'))!.value).toBe(4);
+  });
+});
+
+describe('FileCacheAdapter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await tempDir();
+  });
+
+  it('sobrevive a un reinicio (otra instancia sobre el mismo directorio)', async () => {
+    await new FileCacheAdapter(testConfig({ 'scraper.cache.dir': dir })).set('search:ruc:1', { ok: true }, 60000);
+    const entry = await new FileCacheAdapter(testConfig({ 'scraper.cache.dir': dir })).get('search:ruc:1');
+    expect(entry).toMatchObject({ key: 'search:ruc:1', value: { ok: true } });
+  });
+
+  it('descarta una entrada ilegible', async () => {
+    const adapter = new FileCacheAdapter(testConfig({ 'scraper.cache.dir': dir }));
+    await adapter.set('k', 1, 60000);
+    const [file] = await fs.readdir(dir);
+    await fs.writeFile(path.join(dir, file), '{roto', 'utf-8');
+
+    expect(await adapter.get('k')).toBeNull();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('escrituras simultáneas de la misma clave no chocan', async () => {
+    const adapter = new FileCacheAdapter(testConfig({ 'scraper.cache.dir': dir }));
+    await Promise.all([1, 2, 3].map((n) => adapter.set('k', n, 60000)));
+    expect(await adapter.get('k')).not.toBeNull();
+    expect(await fs.readdir(dir)).toHaveLength(1);
+  });
+});
+
+describe('fromSnapshot de las entidades cacheadas', () => {
+  const roundTrip = (value: object) => JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+
+  it('SearchResult recupera getters, fechas y los candidatos', () => {
+    const original = new SearchResult({
+      company: 'INTERBANK',
+      cleanName: 'INTERBANK',
+      website: 'https://interbank.pe/',
+      score: 22,
+      title: 'Interbank',
+      strategy: SearchStrategy.DDG_HTTP,
+      allResults: [new SearchResultItem('https://interbank.pe/', 'Interbank', 22)],
+    });
+    original.allResults[0].verified = true;
+
+    const revived = SearchResult.fromSnapshot(roundTrip(original));
+
+    expect(revived).toBeInstanceOf(SearchResult);
+    expect(revived.found).toBe(true);
+    expect(revived.timestamp).toEqual(original.timestamp);
+    expect(revived.allResults[0]).toBeInstanceOf(SearchResultItem);
+    expect(revived.allResults[0]).toMatchObject({ url: 'https://interbank.pe/', verified: true, evidence: [] });
+  });
+
+  it('DatosPeruProfile y CompanyProfile completan los campos que faltan en entradas viejas', () => {
+    const datosPeru = roundTrip(new DatosPeruProfile('20100053455', 'https://www.datosperu.org/x'));
+    delete datosPeru.ubigeo;
+    datosPeru.establecimientosAnexos = [{ direccion: 'AV. CARLOS VILLARAN 140' }];
+    const revivedDp = DatosPeruProfile.fromSnapshot(datosPeru);
+    expect(revivedDp.ruc).toBe('20100053455');
+    expect(revivedDp.ubigeo).toBeNull();
+    expect(revivedDp.establecimientosAnexos).toEqual([
+      { direccion: 'AV. CARLOS VILLARAN 140', direccionNormalizada: null },
+    ]);
+
+    const website = roundTrip(new CompanyProfile('https://interbank.pe'));
+    delete website.leadership;
+    const revivedWeb = CompanyProfile.fromSnapshot(website);
+    expect(revivedWeb.sourceUrl).toBe('https://interbank.pe');
+    expect(revivedWeb.leadership).toEqual([]);
+    expect(revivedWeb.scrapedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,148 @@
+import { CrawlSchedulerService } from '../../src/application/services/crawl-scheduler.service';
+import { HttpClientPort, HttpRequest, HttpRequestError } from '../../src/domain/ports/http-client.port';
+import { testConfig, testEgress } from '../helpers/fixtures';
+
+/** Cliente falso: sirve robots.txt por origen y cuenta las descargas */
+function fakeClient(robots: Record<string, string | number | Error>) {
+  const requests: HttpRequest[] = [];
+  const client: HttpClientPort = {
+    async request(req) {
+      requests.push(req);
+      const entry = robots[new URL(req.url).origin];
+      if (entry instanceof Error) throw entry;
+      if (typeof entry === 'number' || entry === undefined) {
+        return { status: typeof entry === 'number' ? entry : 404, url: req.url, headers: {}, body: '' };
+      }
+      return { status: 200, url: req.url, headers: {}, body: entry };
+    },
+  };
+  return { client, requests };
+}
+
+function scheduler(client: HttpClientPort, values: Record<string, unknown> = {}) {
+  return new CrawlSchedulerService(testEgress(client), testConfig({ 'scraper.crawl.minDelayMs': 0, ...values }));
+}
+
+describe('CrawlSchedulerService', () => {
+  describe('check', () => {
+    it('rechaza con el motivo lo que prohíbe robots.txt', async () => {
+      const { client } = fakeClient({ 'https://acme.pe': 'User-agent: *\nDisallow: /contacto' });
+      const crawler = scheduler(client);
+
+      expect(await crawler.check('https://acme.pe/nosotros')).toEqual({ allowed: true });
+      expect(await crawler.check('https://acme.pe/contacto?x=1')).toEqual({
+        allowed: false,
+        reason: 'robots.txt: Disallow /contacto',
+      });
+    });
+
+    it('descarga robots.txt una sola vez por origen, aunque se consulte en paralelo', async () => {
+      const { client, requests } = fakeClient({ 'https://acme.pe': 'User-agent: *\nDisallow: /x' });
+      const crawler = scheduler(client);
+
+      await Promise.all([
+        crawler.check('https://acme.pe/a'),
+        crawler.check('https://acme.pe/b'),
+        crawler.check('https://acme.pe/c'),
+      ]);
+
+      expect(requests.map((r) => r.url)).toEqual(['https://acme.pe/robots.txt']);
+    });
+
+    it('sin robots.txt (404) o con error de red permite todo', async () => {
+      const { client } = fakeClient({
+        'https://acme.pe': 404,
+        'https://caido.pe': new HttpRequestError('ECONNRESET', 'https://caido.pe/robots.txt', 'network'),
+      });
+      const crawler = scheduler(client);
+
+      expect((await crawler.check('https://acme.pe/contacto')).allowed).toBe(true);
+      expect((await crawler.check('https://caido.pe/contacto')).allowed).toBe(true);
+    });
+
+    it('CRAWL_RESPECT_ROBOTS=false no consulta robots.txt', async () => {
+      const { client, requests } = fakeClient({ 'https://acme.pe': 'User-agent: *\nDisallow: /' });
+      const crawler = scheduler(client, { 'scraper.crawl.respectRobots': false });
+
+      expect((await crawler.check('https://acme.pe/')).allowed).toBe(true);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('schedule', () => {
+    it('limita las requests simultáneas por host entre scrapes distintos', async () => {
+      const { client } = fakeClient({});
+      const crawler = scheduler(client, { 'scraper.crawl.maxPerHost': 2 });
+      let active = 0;
+      let maxActive = 0;
+
+      const task = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((r) => setTimeout(r, 20));
+        active--;
+      };
+
+      await Promise.all([
+        ...[1, 2, 3, 4, 5].map((i) => crawler.schedule(`https://acme.pe/p${i}`, task)),
+        crawler.schedule('https://otro.pe/', task),
+      ]);
+
+      // 2 de acme.pe + 1 de otro.pe como máximo a la vez
+      expect(maxActive).toBeLessThanOrEqual(3);
+      expect(maxActive).toBeGreaterThanOrEqual(2);
+    });
+
+    it('con maxPerHost 1 no se salta el límite quien llega justo al liberarse el slot', async () => {
+      const { client } = fakeClient({});
+      const crawler = scheduler(client, { 'scraper.crawl.maxPerHost': 1 });
+      let active = 0;
+      let maxActive = 0;
+      const late: Promise<void>[] = [];
+
+      // Cada tarea, al terminar, dispara una request nueva al mismo host: llega
+      // mientras el slot pasa a la que ya estaba esperando en la cola
+      const task = (spawn: boolean) => async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((r) => setTimeout(r, 5));
+        active--;
+        if (spawn) late.push(crawler.schedule('https://acme.pe/tarde', task(false)));
+      };
+
+      await Promise.all([1, 2, 3].map((i) => crawler.schedule(`https://acme.pe/p${i}`, task(true))));
+      await Promise.all(late);
+
+      expect(late).toHaveLength(3);
+      expect(maxActive).toBe(1);
+    });
+
+    it('espacia las requests al mismo host según Crawl-delay', async () => {
+      const { client } = fakeClient({ 'https://acme.pe': 'User-agent: *\nCrawl-delay: 0.1' });
+      const crawler = scheduler(client);
+      const starts: number[] = [];
+
+      await Promise.all(
+        [1, 2, 3].map((i) =>
+          crawler.schedule(`https://acme.pe/p${i}`, async () => {
+            starts.push(Date.now());
+          }),
+        ),
+      );
+
+      expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(90);
+      expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(90);
+    });
+
+    it('acota los Crawl-delay exagerados', async () => {
+      const { client } = fakeClient({ 'https://acme.pe': 'User-agent: *\nCrawl-delay: 3600' });
+      const crawler = scheduler(client, { 'scraper.crawl.maxCrawlDelayMs': 50 });
+      const started = Date.now();
+
+      await crawler.schedule('https://acme.pe/a', async () => undefined);
+      await crawler.schedule('https://acme.pe/b', async () => undefined);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { EnrichmentService } from '../../src/application/services/enrichment.service';
+import { ResultCacheService } from '../../src/application/services/result-cache.service';
+import { MemoryCacheAdapter } from '../../src/infrastructure/adapters/memory-cache.adapter';
+import { DatosPeruEnrichmentPort } from '../../src/domain/ports/datos-peru-enrichment.port';
+import { DatosPeruProfile } from '../../src/domain/entities/datos-peru-profile.entity';
+import { Result, ok, fail } from '../../src/domain/entities/result.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { testConfig } from '../helpers/fixtures';
+
+const OK = '20100053455';
+const NOT_FOUND = '20100047218';
+const FLAKY = '20100130204';
+const BLOCKED = '20100055237';
+
+function profileFor(ruc: string): DatosPeruProfile {
+  const profile = new DatosPeruProfile(ruc, `https://www.datosperu.org/empresa-${ruc}.php`);
+  profile.nombre = `EMPRESA ${ruc}`;
+  return profile;
+}
+
+/** DatosPeru falso: FLAKY se bloquea una vez, BLOCKED siempre */
+class FakeDatosPeru implements DatosPeruEnrichmentPort {
+  calls: string[] = [];
+  running = 0;
+  maxRunning = 0;
+
+  constructor(private readonly poolSize: number) {}
+
+  async enrich(ruc: string): Promise<Result<DatosPeruProfile>> {
+    this.calls.push(ruc);
+    this.running++;
+    this.maxRunning = Math.max(this.maxRunning, this.running);
+    await new Promise((r) => setTimeout(r, 5));
+    this.running--;
+
+    if (ruc === NOT_FOUND) return fail(FailureCode.NOT_FOUND, `RUC ${ruc} no encontrado`);
+    if (ruc === BLOCKED || (ruc === FLAKY && this.calls.filter((c) => c === FLAKY).length === 1)) {
+      return fail(FailureCode.BLOCKED, 'HTTP 403');
+    }
+    return ok(profileFor(ruc));
+  }
+
+  maxConcurrency(): number {
+    return this.poolSize;
+  }
+}
+
+describe('EnrichmentService.enrichBatch', () => {
+  const config = testConfig({
+    'scraper.datosPeruBatch.concurrency': 8,
+    'scraper.datosPeruBatch.retries': 2,
+    'scraper.datosPeruBatch.retryDelayMs': 1,
+  });
+
+  function setup(poolSize = 2) {
+    const datosPeru = new FakeDatosPeru(poolSize);
+    const cache = new ResultCacheService(new MemoryCacheAdapter(config), config);
+    return { datosPeru, service: new EnrichmentService(datosPeru, cache, config) };
+  }
+
+  it('un estado por RUC, en el orden recibido y sin duplicados', async () => {
+    const { service } = setup();
+    const results = await service.enrichBatch([OK, NOT_FOUND, FLAKY, BLOCKED, OK]);
+
+    expect(results.map((r) => [r.ruc, r.status, r.attempts])).toEqual([
+      [OK, 'ok', 1],
+      [NOT_FOUND, 'not_found', 1],
+      [FLAKY, 'ok', 2],
+      [BLOCKED, 'blocked', 3],
+    ]);
+    expect(results[0].profile?.nombre).toBe(`EMPRESA ${OK}`);
+    expect(results[1].failure).toMatchObject({ code: FailureCode.NOT_FOUND, retryable: false });
+    expect(results[3].failure).toEqual({ code: FailureCode.BLOCKED, message: 'HTTP 403', retryable: true });
+  });
+
+  it('la concurrencia no supera el pool de proxies', async () => {
+    const { service, datosPeru } = setup(2);
+    await service.enrichBatch(['r1', 'r2', 'r3', 'r4', 'r5'], { concurrency: 5 });
+    expect(datosPeru.maxRunning).toBe(2);
+  });
+
+  it('los perfiles encontrados salen del caché en el siguiente lote', async () => {
+    const { service, datosPeru } = setup();
+    await service.enrichBatch([OK, NOT_FOUND]);
+    datosPeru.calls = [];
+
+    const results = await service.enrichBatch([OK, NOT_FOUND]);
+    expect(results.map((r) => [r.status, r.attempts, r.cache.hit])).toEqual([
+      ['ok', 0, true],
+      ['not_found', 1, false],
+    ]);
+    expect(datosPeru.calls).toEqual([NOT_FOUND]);
+  });
+});
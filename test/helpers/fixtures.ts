@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { FixtureRequest, fixturePath } from '../../src/shared/utils/http-fixtures';
+import { NodeHttpClientAdapter } from '../../src/infrastructure/adapters/node-http-client.adapter';
+import { ProxyPool } from '../../src/application/services/proxy-pool.service';
+import { EgressService } from '../../src/application/services/egress.service';
+import { HttpClientPort } from '../../src/domain/ports/http-client.port';
+import { ProxyPoolStorePort } from '../../src/domain/ports/proxy-pool-store.port';
+import { ProxyHealthSnapshot } from '../../src/domain/entities/proxy-health.entity';
+
+/** Body grabado para una request (mismo archivo que usa withHttpFixture en replay) */
+export function loadFixture(request: FixtureRequest): string {
+  return fs.readFileSync(fixturePath(request), 'utf-8');
+}
+
+/** Respuesta JSON grabada de una API (test/fixtures/api/<name>.json) */
+export function loadApiFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'api', `${name}.json`), 'utf-8');
+}
+
+/** Servidor local para APIs: `requests` guarda las URLs pedidas, en orden */
+export interface StubServer {
+  base: string;
+  requests: URL[];
+  close(): Promise<void>;
+}
+
+export async function startStubServer(
+  handler: (url: URL, res: http.ServerResponse) => void,
+): Promise<StubServer> {
+  const requests: URL[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+    requests.push(url);
+    handler(url, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    base: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+/** ConfigService mínimo: devuelve `values[key]` o el default que pide el adaptador */
+export function testConfig(values: Record<string, unknown> = {}): ConfigService {
+  return {
+    get: (key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue),
+  } as unknown as ConfigService;
+}
+
+/** Cliente HTTP real: con HTTP_FIXTURES=replay (default en tests) responde desde disco */
+export function testHttpClient(values: Record<string, unknown> = {}): NodeHttpClientAdapter {
+  return new NodeHttpClientAdapter(testConfig(values));
+}
+
+/** Store del pool en memoria: `saved` tiene la última escritura */
+export class MemoryProxyPoolStore implements ProxyPoolStorePort {
+  saved: ProxyHealthSnapshot[] | null = null;
+
+  constructor(private readonly initial: ProxyHealthSnapshot[] = []) {}
+
+  async load(): Promise<ProxyHealthSnapshot[]> {
+    return this.initial;
+  }
+
+  async save(proxies: ProxyHealthSnapshot[]): Promise<void> {
+    this.saved = proxies;
+  }
+}
+
+/** ProxyPool sin disco ni red (salvo que se pase otro cliente) */
+export function testProxyPool(
+  values: Record<string, unknown> = {},
+  store: ProxyPoolStorePort = new MemoryProxyPoolStore(),
+  client: HttpClientPort = testHttpClient(),
+): ProxyPool {
+  return new ProxyPool(store, client, testConfig(values));
+}
+
+/** Salida a la red para los adaptadores: sin política configurada sale directo por `client` */
+export function testEgress(
+  client: HttpClientPort = testHttpClient(),
+  values: Record<string, unknown> = {},
+  pool: ProxyPool = testProxyPool(),
+): EgressService {
+  return new EgressService(client, pool, testConfig(values));
+}
+
+/** Primera query que arman DDG y Bing para "INTERBANK" */
+export const INTERBANK_QUERY =
+  '"INTERBANK" página web oficial peru -site:linkedin.com -site:facebook.com -site:wikipedia.org -site:computrabajo.com -site:glassdoor.com -site:indeed.com';
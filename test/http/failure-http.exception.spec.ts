@@ -0,0 +1,40 @@
+import { HttpStatus } from '@nestjs/common';
+import { FailureHttpException } from '../../src/infrastructure/http/failure-http.exception';
+import { FailureError, failure, failureFromError } from '../../src/domain/entities/result.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+
+describe('FailureHttpException', () => {
+  it.each([
+    [FailureCode.INVALID_INPUT, HttpStatus.BAD_REQUEST, false],
+    [FailureCode.NOT_FOUND, HttpStatus.NOT_FOUND, false],
+    [FailureCode.PARSE_ERROR, HttpStatus.BAD_GATEWAY, false],
+    [FailureCode.UPSTREAM_ERROR, HttpStatus.BAD_GATEWAY, true],
+    [FailureCode.BLOCKED, HttpStatus.SERVICE_UNAVAILABLE, true],
+    [FailureCode.UNAVAILABLE, HttpStatus.SERVICE_UNAVAILABLE, true],
+  ])('%s → %i (retryable=%s)', (code, status, retryable) => {
+    const exception = new FailureHttpException(failure(code, 'x'), { ruc: '20100053455' });
+
+    expect(exception.getStatus()).toBe(status);
+    expect(exception.getResponse()).toEqual({
+      statusCode: status,
+      code,
+      message: 'x',
+      retryable,
+      ruc: '20100053455',
+    });
+  });
+});
+
+describe('failureFromError', () => {
+  it('conserva el código de un FailureError', () => {
+    expect(failureFromError(new FailureError(FailureCode.BLOCKED, 'HTTP 429'))).toEqual({
+      code: FailureCode.BLOCKED,
+      message: 'HTTP 429',
+      retryable: true,
+    });
+  });
+
+  it('cualquier otro error es upstream_error', () => {
+    expect(failureFromError(new Error('ETIMEDOUT')).code).toBe(FailureCode.UPSTREAM_ERROR);
+  });
+});
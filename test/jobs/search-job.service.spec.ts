@@ -0,0 +1,145 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SearchJobService } from '../../src/application/services/search-job.service';
+import { SearchOrchestratorService } from '../../src/application/services/search-orchestrator.service';
+import { FileJobStoreAdapter } from '../../src/infrastructure/adapters/file-job-store.adapter';
+import { SearchJob } from '../../src/domain/entities/search-job.entity';
+import { SearchResult } from '../../src/domain/entities/search-result.entity';
+import { Failure, failure } from '../../src/domain/entities/result.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { JobItemStatus, JobStatus } from '../../src/domain/enums/job-status.enum';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { testConfig } from '../helpers/fixtures';
+
+type Outcome = { result: SearchResult | null; strategyUsed: SearchStrategy; failure: Failure | null };
+
+function found(company: string): Outcome {
+  const result = new SearchResult({
+    company,
+    cleanName: company,
+    website: `https://www.${company.toLowerCase()}.pe`,
+    score: 20,
+    title: company,
+    strategy: SearchStrategy.DDG_HTTP,
+    allResults: [],
+  });
+  return { result, strategyUsed: SearchStrategy.DDG_HTTP, failure: null };
+}
+
+function missing(code: FailureCode): Outcome {
+  return { result: null, strategyUsed: SearchStrategy.DDG_HTTP, failure: failure(code, code) };
+}
+
+/** Orquestador falso: cada búsqueda espera a que el test la libere con `settle` */
+function fakeOrchestrator() {
+  const pending: Array<(outcome: Outcome) => void> = [];
+  const started: string[] = [];
+  const orchestrator = {
+    search: (company: string) =>
+      new Promise<Outcome>((resolve) => {
+        started.push(company);
+        pending.push(resolve);
+      }),
+    getDefaultDelay: () => 0,
+  } as unknown as SearchOrchestratorService;
+
+  const settle = async (outcome: Outcome) => {
+    await waitFor(() => pending.length > 0);
+    pending.shift()!(outcome);
+  };
+  return { orchestrator, started, settle };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  if (!condition()) throw new Error('timeout esperando la condición');
+}
+
+describe('SearchJobService', () => {
+  let dir: string;
+  let store: FileJobStoreAdapter;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    store = new FileJobStoreAdapter(testConfig({ 'scraper.jobs.dir': dir }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('procesa el lote: "no existe" queda hecho, un bloqueo queda fallido', async () => {
+    const { orchestrator, settle } = fakeOrchestrator();
+    const service = new SearchJobService(store, orchestrator);
+    const job = await service.create([{ name: 'INTERBANK' }, { name: 'NOEXISTE' }, { name: 'BLOQUEADA' }]);
+
+    await settle(found('INTERBANK'));
+    await settle(missing(FailureCode.NOT_FOUND));
+    await settle(missing(FailureCode.BLOCKED));
+    await waitFor(() => job.isFinished);
+
+    const saved = (await store.findById(job.id))!;
+    expect(saved.status).toBe(JobStatus.COMPLETED);
+    expect(saved.items.map((i) => [i.status, i.found, i.error])).toEqual([
+      [JobItemStatus.DONE, true, null],
+      [JobItemStatus.DONE, false, null],
+      [JobItemStatus.FAILED, false, '[blocked] blocked'],
+    ]);
+  });
+
+  it('cancelar durante una búsqueda descarta su resultado y queda cancelado en disco', async () => {
+    const { orchestrator, started, settle } = fakeOrchestrator();
+    const service = new SearchJobService(store, orchestrator);
+    const job = await service.create([{ name: 'INTERBANK' }, { name: 'ALICORP' }]);
+
+    await waitFor(() => started.length === 1);
+    const cancelled = await service.cancel(job.id);
+    await settle(found('INTERBANK'));
+
+    expect(cancelled!.status).toBe(JobStatus.CANCELLED);
+    const saved = (await store.findById(job.id))!;
+    expect(saved.status).toBe(JobStatus.CANCELLED);
+    expect(saved.items.map((i) => [i.status, i.found])).toEqual([
+      [JobItemStatus.CANCELLED, false],
+      [JobItemStatus.CANCELLED, false],
+    ]);
+    expect(started).toEqual(['INTERBANK']);
+  });
+
+  it('al arrancar reanuda los jobs pendientes desde la primera empresa sin procesar', async () => {
+    const job = new SearchJob({ id: 'job-1', companies: [{ name: 'INTERBANK' }, { name: 'ALICORP' }] });
+    job.status = JobStatus.RUNNING;
+    job.items[0] = { ...job.items[0], status: JobItemStatus.DONE, found: true };
+    await store.save(job);
+
+    const { orchestrator, started, settle } = fakeOrchestrator();
+    const service = new SearchJobService(store, orchestrator);
+    await service.onModuleInit();
+    await settle(found('ALICORP'));
+
+    const resumed = (await service.get('job-1'))!;
+    await waitFor(() => resumed.isFinished);
+    expect(started).toEqual(['ALICORP']);
+    expect(resumed.foundCount).toBe(2);
+  });
+});
+
+describe('FileJobStoreAdapter', () => {
+  it('saves simultáneos del mismo job no chocan y gana el último estado', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    const store = new FileJobStoreAdapter(testConfig({ 'scraper.jobs.dir': dir }));
+    const job = new SearchJob({ id: 'job-2', companies: [{ name: 'INTERBANK' }] });
+
+    const writes = [store.save(job), store.save(job)];
+    job.cancel();
+    writes.push(store.save(job));
+    await Promise.all(writes);
+
+    expect((await store.findById('job-2'))!.status).toBe(JobStatus.CANCELLED);
+    expect(await fs.readdir(dir)).toEqual(['job-2.json']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  atsBoardRequest,
+  detectAtsLink,
+  normalizePostedDate,
+  parseAtsBoard,
+} from '../../src/shared/utils/ats-links';
+
+describe('detectAtsLink', () => {
+  it.each([
+    ['https://interbank.wd3.myworkdayjobs.com/es/Interbank/job/Lima/Analista_R123', 'workday', 'https://interbank.wd3.myworkdayjobs.com/es/Interbank'],
+    ['https://jobs.lever.co/yape/3f2a-11', 'lever', 'https://jobs.lever.co/yape'],
+    ['https://boards.greenhouse.io/acme/jobs/4001', 'greenhouse', 'https://boards.greenhouse.io/acme'],
+    ['https://jobs.smartrecruiters.com/Acme1/7440-analista', 'smartrecruiters', 'https://jobs.smartrecruiters.com/Acme1'],
+    ['https://career5.successfactors.eu/career?company=acme', 'successfactors', 'https://career5.successfactors.eu/career'],
+    ['https://pe.computrabajo.com/empresas/ofertas-de-trabajo-de-acme-4D0', 'computrabajo', 'https://pe.computrabajo.com/empresas/ofertas-de-trabajo-de-acme-4D0'],
+    ['https://www.bumeran.com.pe/perfiles/empresa_acme_12345.html', 'bumeran', 'https://www.bumeran.com.pe/perfiles/empresa_acme_12345.html'],
+    ['https://www.linkedin.com/company/acme/jobs/', 'linkedin', 'https://www.linkedin.com/company/acme/jobs'],
+  ])('%s → %s', (href, provider, url) => {
+    expect(detectAtsLink(href)).toEqual({ provider, url });
+  });
+
+  it('ignora perfiles y portadas que no son empleos', () => {
+    expect(detectAtsLink('https://www.linkedin.com/company/acme')).toBeNull();
+    expect(detectAtsLink('https://pe.computrabajo.com/')).toBeNull();
+    expect(detectAtsLink('https://www.acme.pe/trabaja-con-nosotros')).toBeNull();
+    expect(detectAtsLink('mailto:rrhh@acme.pe')).toBeNull();
+  });
+});
+
+describe('atsBoardRequest', () => {
+  it('arma la URL de la API pública', () => {
+    expect(atsBoardRequest({ provider: 'lever', url: 'https://jobs.lever.co/yape' })).toEqual({
+      url: 'https://api.lever.co/v0/postings/yape?mode=json',
+      method: 'GET',
+    });
+    expect(atsBoardRequest({ provider: 'greenhouse', url: 'https://boards.greenhouse.io/acme' })?.url).toBe(
+      'https://boards-api.greenhouse.io/v1/boards/acme/jobs',
+    );
+  });
+
+  it('Workday usa el endpoint cxs por POST', () => {
+    const request = atsBoardRequest({ provider: 'workday', url: 'https://interbank.wd3.myworkdayjobs.com/es/Interbank' });
+    expect(request).toMatchObject({
+      url: 'https://interbank.wd3.myworkdayjobs.com/wday/cxs/interbank/Interbank/jobs',
+      method: 'POST',
+    });
+    expect(JSON.parse(request!.body!)).toMatchObject({ limit: 20, offset: 0 });
+  });
+
+  it('plataformas sin API → null', () => {
+    expect(atsBoardRequest({ provider: 'computrabajo', url: 'https://pe.computrabajo.com/empresas/x' })).toBeNull();
+  });
+});
+
+describe('parseAtsBoard', () => {
+  const now = new Date('2026-02-15T12:00:00Z');
+
+  it('Greenhouse', () => {
+    const body = JSON.stringify({
+      jobs: [
+        { title: 'Data Engineer', location: { name: 'Lima' }, absolute_url: 'https://boards.greenhouse.io/acme/jobs/1', updated_at: '2026-02-01T10:00:00-05:00' },
+        { title: '', absolute_url: 'https://boards.greenhouse.io/acme/jobs/2' },
+      ],
+    });
+    expect(parseAtsBoard({ provider: 'greenhouse', url: 'https://boards.greenhouse.io/acme' }, body, now)).toEqual([
+      { title: 'Data Engineer', location: 'Lima', url: 'https://boards.greenhouse.io/acme/jobs/1', postedAt: '2026-02-01', source: 'greenhouse' },
+    ]);
+  });
+
+  it('Workday: fechas relativas y path del aviso', () => {
+    const link = { provider: 'workday' as const, url: 'https://interbank.wd3.myworkdayjobs.com/es/Interbank' };
+    const body = JSON.stringify({
+      jobPostings: [
+        { title: 'Analista de Riesgos', externalPath: '/job/Lima/Analista_R123', locationsText: 'Lima', postedOn: 'Publicado hace 3 días' },
+        { title: 'Cajero', externalPath: '/job/Cusco/Cajero_R124', locationsText: 'Cusco', postedOn: 'Posted 30+ Days Ago' },
+      ],
+    });
+    expect(parseAtsBoard(link, body, now)).toEqual([
+      { title: 'Analista de Riesgos', location: 'Lima', url: `${link.url}/job/Lima/Analista_R123`, postedAt: '2026-02-12', source: 'workday' },
+      { title: 'Cajero', location: 'Cusco', url: `${link.url}/job/Cusco/Cajero_R124`, postedAt: null, source: 'workday' },
+    ]);
+  });
+
+  it('JSON inválido → []', () => {
+    expect(parseAtsBoard({ provider: 'lever', url: 'https://jobs.lever.co/x' }, '<html>', now)).toEqual([]);
+  });
+});
+
+describe('normalizePostedDate', () => {
+  const now = new Date('2026-02-15T12:00:00Z');
+
+  it.each([
+    ['2026-01-20T08:00:00+00:00', '2026-01-20'],
+    ['20/01/2026', '2026-01-20'],
+    ['Posted Today', '2026-02-15'],
+    ['ayer', '2026-02-14'],
+    ['hace 10 días', '2026-02-05'],
+    ['hace un mes', null],
+  ])('%s → %s', (raw, expected) => {
+    expect(normalizePostedDate(raw, now)).toBe(expected);
+  });
+});
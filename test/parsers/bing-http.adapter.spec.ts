@@ -0,0 +1,48 @@
+import { BingHttpAdapter } from '../../src/infrastructure/adapters/bing-http.adapter';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { INTERBANK_QUERY, loadFixture, testEgress } from '../helpers/fixtures';
+
+describe('BingHttpAdapter', () => {
+  const adapter = new BingHttpAdapter(testEgress());
+  const html = loadFixture({
+    url: `https://www.bing.com/search?q=${encodeURIComponent(INTERBANK_QUERY)}&setlang=es&cc=PE`,
+  });
+
+  describe('parseBingResults', () => {
+    it('extrae los resultados orgánicos .b_algo sin links internos de Bing', () => {
+      const results = adapter['parseBingResults'](html);
+
+      expect(results).toEqual([
+        { url: 'https://interbank.pe/', title: 'Interbank | Banca Personal' },
+        { url: 'https://pe.linkedin.com/company/interbank', title: 'Interbank | LinkedIn' },
+        { url: 'https://www.ifs.com.pe/interbank/', title: 'Interbank - Intercorp Financial Services' },
+      ]);
+    });
+
+    it('usa <a><h2> cuando no hay bloques .b_algo', () => {
+      const results = adapter['parseBingResults'](
+        '<div id="b_results"><a href="https://interbank.pe/"><h2>Interbank</h2></a></div>',
+      );
+      expect(results).toEqual([{ url: 'https://interbank.pe/', title: 'Interbank' }]);
+    });
+
+    it('como último recurso toma el dominio de <cite>', () => {
+      const results = adapter['parseBingResults'](
+        '<cite>interbank.pe/personas/cuentas</cite><cite>https://www.bing.com/x</cite>',
+      );
+      expect(results).toEqual([{ url: 'https://interbank.pe', title: '' }]);
+    });
+  });
+
+  describe('search (replay)', () => {
+    it('elige la web oficial', async () => {
+      const searched = await adapter.search('INTERBANK');
+      if (!searched.ok) throw new Error(searched.error.message);
+      const result = searched.value;
+
+      expect(result.website).toBe('https://www.interbank.pe/');
+      expect(result.strategy).toBe(SearchStrategy.BING_HTTP);
+      expect(result.score).toBeGreaterThanOrEqual(20);
+    });
+  });
+});
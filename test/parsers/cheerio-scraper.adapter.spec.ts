@@ -0,0 +1,347 @@
+import { CheerioScraperAdapter } from '../../src/infrastructure/adapters/cheerio-scraper.adapter';
+import { CompanyProfile } from '../../src/domain/entities/company-profile.entity';
+import { CrawlSchedulerService } from '../../src/application/services/crawl-scheduler.service';
+import { SitemapDiscoveryService } from '../../src/application/services/sitemap-discovery.service';
+import { HttpClientPort } from '../../src/domain/ports/http-client.port';
+import { testConfig, testEgress, testHttpClient } from '../helpers/fixtures';
+
+const HOME = 'https://www.interbank.pe/';
+
+/** Adaptador sin delays de cortesía (robots.txt y sitemap no grabados → sin restricciones ni sitemap) */
+function testAdapter(http: HttpClientPort): CheerioScraperAdapter {
+  const config = testConfig({ 'scraper.crawl.minDelayMs': 0 });
+  const egress = testEgress(http);
+  const crawler = new CrawlSchedulerService(egress, config);
+  return new CheerioScraperAdapter(egress, crawler, new SitemapDiscoveryService(egress, crawler, config));
+}
+
+/** Cliente que sirve algunas URLs en memoria y delega el resto al replay */
+function serving(http: HttpClientPort, pages: Record<string, string>): HttpClientPort {
+  return {
+    request: (req) =>
+      req.url in pages
+        ? Promise.resolve({ status: 200, url: req.url, headers: {}, body: pages[req.url] })
+        : http.request(req),
+  };
+}
+
+describe('CheerioScraperAdapter', () => {
+  const http = testHttpClient();
+  const adapter = testAdapter(http);
+  let profile: CompanyProfile;
+
+  beforeAll(async () => {
+    profile = await adapter.scrape(HOME, { followSubpages: true, maxSubpages: 3 });
+  });
+
+  it('visita la home y las sub-páginas /nosotros y /contacto', () => {
+    expect(profile.pagesScraped).toEqual([
+      HOME,
+      'https://www.interbank.pe/nosotros',
+      'https://www.interbank.pe/contacto',
+    ]);
+  });
+
+  it('extractMetaTags: nombre y descripción', () => {
+    expect(profile.name).toBe('Interbank');
+    expect(profile.description).toBe(
+      'Abre tu cuenta, solicita tu tarjeta de crédito y más en la web oficial de Interbank.',
+    );
+    expect(profile.extras['keywords']).toBe('banco, cuentas, tarjetas, préstamos, perú');
+  });
+
+  it('extractJsonLd: RUC, fundación y dirección', () => {
+    expect(profile.ruc).toBe('20100053455');
+    // El mismo RUC en el JSON-LD y en el pie de página
+    expect(profile.rucCandidates).toEqual([
+      expect.objectContaining({ ruc: '20100053455', score: 0.95, signals: ['json-ld'], occurrences: 2 }),
+    ]);
+    expect(profile.foundedDate).toBe('1897-05-01');
+    expect(profile.foundedYear).toBe(1897);
+    expect(profile.headquarters).toBe('Av. Carlos Villarán 140, La Victoria, Lima, PE');
+    expect(profile.headquartersAddress).toMatchObject({
+      streetType: 'Av.',
+      streetName: 'Carlos Villarán',
+      number: '140',
+      ubigeo: { code: '150115', district: 'La Victoria' },
+    });
+  });
+
+  it('extractLogo: prefiere el SVG declarado en JSON-LD', () => {
+    expect(profile.logoUrl).toBe('https://interbank.pe/o/interbank-theme/images/logo-interbank.svg');
+  });
+
+  it('extractContactInfo: teléfonos y emails sin duplicados', () => {
+    // "999 999 999" (wa.me/51999999999) es relleno de plantilla
+    expect(profile.phones).toEqual(['(01) 311-9000', '(01) 219-2000']);
+    expect(profile.normalizedPhones.map((p) => [p.e164, p.lineType, p.region])).toEqual([
+      ['+5113119000', 'landline', 'Lima'],
+      ['+5112192000', 'landline', 'Lima'],
+    ]);
+    expect(profile.emails).toEqual(['atencionalcliente@intercorp.com.pe']);
+    // Buzón del grupo (intercorp.com.pe), no del dominio de la web (interbank.pe)
+    expect(profile.contactEmails).toEqual([
+      { address: 'atencionalcliente@intercorp.com.pe', role: 'generic', companyDomain: false },
+    ]);
+  });
+
+  it('extractSocialLinks: JSON-LD sameAs + links del footer', () => {
+    expect(profile.socialLinks).toEqual({
+      facebook: 'https://www.facebook.com/InterbankPeru',
+      youtube: 'https://www.youtube.com/user/InterbankPeru',
+      instagram: 'https://www.instagram.com/interbankperu/',
+      linkedin: 'https://www.linkedin.com/company/interbank',
+    });
+  });
+
+  it('extractFromText: colaboradores y cobertura', () => {
+    expect(profile.employeeCount).toBe('más de 7,000 colaboradores');
+    expect(profile.coverage).toMatch(/^160 tiendas/);
+  });
+
+  it('extractAboutPage: historia, misión, visión y valores', () => {
+    expect(profile.history).toMatch(/fundado el 1 de mayo de 1897/);
+    expect(profile.mission).toBe(
+      'Ayudar a los peruanos a tener una mejor calidad de vida haciendo realidad sus sueños.',
+    );
+    expect(profile.vision).toBe(
+      'Ser el mejor banco a partir de las mejores personas y de la mejor experiencia para nuestros clientes.',
+    );
+    expect(profile.values).toEqual(['Integridad', 'Vocación de servicio', 'Innovación']);
+  });
+
+  it('registra la procedencia de cada campo', () => {
+    expect(profile.provenance.ruc?.[0]).toMatchObject({
+      sourceUrl: HOME,
+      extractor: 'extractJsonLd',
+    });
+    expect(profile.provenance.mission?.[0]).toMatchObject({
+      sourceUrl: 'https://www.interbank.pe/nosotros',
+      extractor: 'extractAboutPage',
+    });
+  });
+
+  it('devuelve un perfil vacío si la página no está grabada', async () => {
+    const missing = await adapter.scrape('https://no-grabado.example.pe/', { followSubpages: false });
+    expect(missing.pagesScraped).toEqual([]);
+    expect(missing.name).toBeNull();
+  });
+
+  it('omite lo que prohíbe robots.txt y deja el motivo en pagesSkipped', async () => {
+    const polite = testAdapter(
+      serving(http, { 'https://www.interbank.pe/robots.txt': 'User-agent: *\nDisallow: /contacto\n' }),
+    );
+
+    const result = await polite.scrape(HOME, { followSubpages: true, maxSubpages: 3 });
+
+    expect(result.pagesScraped).toEqual([HOME, 'https://www.interbank.pe/nosotros']);
+    expect(result.pagesSkipped).toEqual([
+      { url: 'https://www.interbank.pe/contacto', reason: 'robots.txt: Disallow /contacto' },
+    ]);
+  });
+
+  it('completa con el sitemap los tipos que el HTML no enlaza', async () => {
+    const withSitemap = testAdapter(
+      serving(http, {
+        'https://www.interbank.pe/robots.txt':
+          'User-agent: *\nAllow: /\nSitemap: https://www.interbank.pe/sitemap_index.xml\n',
+        'https://www.interbank.pe/sitemap_index.xml': `<?xml version="1.0"?>
+          <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            <sitemap><loc>https://www.interbank.pe/post-sitemap.xml</loc></sitemap>
+            <sitemap><loc>https://www.interbank.pe/page-sitemap.xml</loc></sitemap>
+          </sitemapindex>`,
+        'https://www.interbank.pe/page-sitemap.xml': `<urlset>
+            <url><loc>https://www.interbank.pe/blog/2021/nuestra-historia</loc></url>
+            <url><loc>https://www.interbank.pe/nuestra-historia</loc></url>
+            <url><loc>https://www.interbank.pe/trabaja-con-nosotros</loc></url>
+          </urlset>`,
+        'https://www.interbank.pe/nuestra-historia':
+          '<html><body><h1>Nuestra historia</h1><p>Interbank fue fundado en 1897 en Lima.</p></body></html>',
+      }),
+    );
+
+    const result = await withSitemap.scrape(HOME, { followSubpages: true, maxSubpages: 3 });
+
+    expect(result.pagesScraped).toEqual([
+      HOME,
+      'https://www.interbank.pe/nosotros',
+      'https://www.interbank.pe/contacto',
+      'https://www.interbank.pe/nuestra-historia',
+    ]);
+  });
+
+  it('sigue "Trabaja con nosotros" y junta las ofertas de la web y del ATS', async () => {
+    const ACME = 'https://www.acme.pe/';
+    const withJobs = testAdapter(
+      serving(http, {
+        [ACME]: `<html><head><title>Acme Perú</title></head><body>
+            <a href="/nosotros">Nosotros</a>
+            <footer><a href="https://talento.acme.pe/">Trabaja con nosotros</a></footer>
+          </body></html>`,
+        'https://talento.acme.pe/': `<html><body>
+            <script type="application/ld+json">{"@context": "https://schema.org", "@graph": [{
+              "@type": "JobPosting", "title": "Analista de Riesgos", "datePosted": "2026-02-10",
+              "url": "/ofertas/analista-riesgos",
+              "jobLocation": {"@type": "Place", "address": {"addressLocality": "Lima", "addressRegion": "Lima"}}
+            }]}</script>
+            <a href="https://jobs.lever.co/acme">Ver todas las ofertas</a>
+            <a href="https://www.linkedin.com/company/acme-peru/jobs/">LinkedIn</a>
+          </body></html>`,
+        'https://api.lever.co/v0/postings/acme?mode=json': JSON.stringify([
+          { text: 'Analista de Riesgos', categories: { location: 'Lima, Lima' }, hostedUrl: 'https://jobs.lever.co/acme/1' },
+          { text: 'Desarrollador Backend', categories: { location: 'Arequipa' }, hostedUrl: 'https://jobs.lever.co/acme/2', createdAt: Date.UTC(2026, 1, 12) },
+        ]),
+      }),
+    );
+
+    const result = await withJobs.scrape(ACME, { followSubpages: true, maxSubpages: 3 });
+
+    expect(result.pagesScraped).toContain('https://talento.acme.pe/');
+    expect(result.jobs.careersUrl).toBe('https://talento.acme.pe/');
+    expect(result.jobs.atsLinks).toEqual([
+      { provider: 'lever', url: 'https://jobs.lever.co/acme' },
+      { provider: 'linkedin', url: 'https://www.linkedin.com/company/acme-peru/jobs' },
+    ]);
+    expect(result.jobs.openings).toEqual([
+      {
+        title: 'Analista de Riesgos',
+        location: 'Lima',
+        url: 'https://talento.acme.pe/ofertas/analista-riesgos',
+        postedAt: '2026-02-10',
+        source: 'website',
+      },
+      {
+        title: 'Desarrollador Backend',
+        location: 'Arequipa',
+        url: 'https://jobs.lever.co/acme/2',
+        postedAt: '2026-02-12',
+        source: 'lever',
+      },
+    ]);
+    expect(result.provenance.jobs?.map((p) => p.extractor)).toEqual(['extractJobs', 'extractAtsBoards']);
+  });
+
+  it('lee listados de empleos sin JSON-LD', async () => {
+    const CAREERS = 'https://www.acme.pe/trabaja-con-nosotros';
+    const withList = testAdapter(
+      serving(http, {
+        'https://www.acme.pe/': `<html><body><a href="/trabaja-con-nosotros">Empleos</a></body></html>`,
+        [CAREERS]: `<html><body>
+            <section class="jobs-list"><h2>Únete a nuestro equipo</h2>
+              <ul>
+                <li class="job-item">
+                  <h3 class="job-title">Ejecutivo de Ventas</h3>
+                  <span class="job-location">Trujillo</span>
+                  <time datetime="2026-01-20">20 de enero</time>
+                  <a class="btn" href="/convocatorias/ejecutivo-ventas">Postular</a>
+                </li>
+                <li class="job-item">
+                  <h3 class="job-title">Practicante de Marketing</h3>
+                  <span class="job-location">Lima</span>
+                  <a href="#">Postular</a>
+                </li>
+              </ul>
+              <a class="jobs-more" href="/convocatorias">Ver todas las convocatorias</a>
+            </section>
+          </body></html>`,
+      }),
+    );
+
+    const result = await withList.scrape('https://www.acme.pe/', { followSubpages: true, maxSubpages: 1 });
+
+    expect(result.jobs.careersUrl).toBe(CAREERS);
+    expect(result.jobs.openings).toEqual([
+      {
+        title: 'Ejecutivo de Ventas',
+        location: 'Trujillo',
+        url: 'https://www.acme.pe/convocatorias/ejecutivo-ventas',
+        postedAt: '2026-01-20',
+        source: 'website',
+      },
+      { title: 'Practicante de Marketing', location: 'Lima', url: CAREERS, postedAt: null, source: 'website' },
+    ]);
+  });
+
+  it('arma el perfil de empleador: beneficios, certificaciones y diversidad', async () => {
+    const CAREERS = 'https://www.acme.pe/trabaja-con-nosotros';
+    const withCulture = testAdapter(
+      serving(http, {
+        'https://www.acme.pe/': `<html><body>
+            <a href="/trabaja-con-nosotros">Trabaja con nosotros</a>
+            <footer><img src="/img/sello-gptw-2024.png" alt="Certificación"></footer>
+          </body></html>`,
+        [CAREERS]: `<html><body><main>
+            <section>
+              <div class="section-title"><h2>¿Qué te ofrecemos?</h2></div>
+              <div class="grid">
+                <div class="card"><h4>Seguro EPS</h4><p>Cubierto al 100% para ti y tu familia.</p></div>
+                <div class="card"><h4>Home office</h4><p>Modalidad híbrida.</p></div>
+                <div class="card"><h4>Programa Talento Joven</h4></div>
+              </div>
+            </section>
+            <p>Además ofrecemos línea de carrera</p>
+            <h2>Diversidad e inclusión</h2>
+            <p>Promovemos la igualdad de oportunidades y la equidad de género en todos nuestros equipos.</p>
+          </main></body></html>`,
+      }),
+    );
+
+    const result = await withCulture.scrape('https://www.acme.pe/', { followSubpages: true, maxSubpages: 1 });
+
+    expect(result.benefits).toEqual([
+      { category: 'health', text: 'Seguro EPS', sourceUrl: CAREERS },
+      { category: 'flexibility', text: 'Home office', sourceUrl: CAREERS },
+      { category: 'other', text: 'Programa Talento Joven', sourceUrl: CAREERS },
+      { category: 'career', text: 'Además ofrecemos línea de carrera', sourceUrl: CAREERS },
+    ]);
+    expect(result.certifications).toEqual([
+      { name: 'Great Place to Work', year: 2024, sourceUrl: 'https://www.acme.pe/' },
+    ]);
+    expect(result.cultureStatements).toEqual([
+      {
+        topic: 'diversity',
+        text: 'Promovemos la igualdad de oportunidades y la equidad de género en todos nuestros equipos.',
+        sourceUrl: CAREERS,
+      },
+    ]);
+    expect(result.provenance.benefits?.[0]).toMatchObject({ sourceUrl: CAREERS, extractor: 'extractWorkplaceCulture' });
+  });
+
+  it('extrae el equipo gerencial (tarjetas, JSON-LD y "Nombre – Cargo")', async () => {
+    const TEAM = 'https://www.acme.pe/nosotros/equipo-gerencial';
+    const withTeam = testAdapter(
+      serving(http, {
+        'https://www.acme.pe/': `<html><body><a href="/nosotros/equipo-gerencial">Equipo gerencial</a></body></html>`,
+        [TEAM]: `<html><head>
+            <script type="application/ld+json">{"@type": "Organization", "name": "Acme",
+              "founder": {"@type": "Person", "name": "Rosa Quispe Mamani", "jobTitle": "Fundadora"}}</script>
+          </head><body>
+            <h1>Equipo Gerencial</h1>
+            <div class="team">
+              <div class="member">
+                <img data-src="/fotos/jperez.jpg" src="/img/placeholder.gif">
+                <h3>Juan Carlos Pérez Salas</h3>
+                <p class="cargo">Gerente General</p>
+              </div>
+              <div class="member">
+                <img src="/fotos/mtorres.jpg">
+                <h3>MARÍA DEL CARMEN TORRES</h3>
+                <span>Gerente de Finanzas (CFO)</span>
+              </div>
+            </div>
+            <h2>Directorio</h2>
+            <ul><li>Luis Felipe Castellanos – Presidente del Directorio</li></ul>
+          </body></html>`,
+      }),
+    );
+
+    const result = await withTeam.scrape('https://www.acme.pe/', { followSubpages: true, maxSubpages: 1 });
+
+    expect(result.leadership).toEqual([
+      { name: 'Rosa Quispe Mamani', role: 'Fundadora', photoUrl: null, sourceUrl: TEAM },
+      { name: 'Juan Carlos Pérez Salas', role: 'Gerente General', photoUrl: 'https://www.acme.pe/fotos/jperez.jpg', sourceUrl: TEAM },
+      { name: 'MARÍA DEL CARMEN TORRES', role: 'Gerente de Finanzas (CFO)', photoUrl: 'https://www.acme.pe/fotos/mtorres.jpg', sourceUrl: TEAM },
+      { name: 'Luis Felipe Castellanos', role: 'Presidente del Directorio', photoUrl: null, sourceUrl: TEAM },
+    ]);
+  });
+});
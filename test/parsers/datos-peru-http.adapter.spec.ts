@@ -0,0 +1,117 @@
+import { DatosPeruHttpAdapter } from '../../src/infrastructure/adapters/datos-peru-http.adapter';
+import { DatosPeruProfile } from '../../src/domain/entities/datos-peru-profile.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { testConfig, testHttpClient, testProxyPool } from '../helpers/fixtures';
+
+const RUC = '20100053455';
+
+describe('DatosPeruHttpAdapter', () => {
+  const adapter = new DatosPeruHttpAdapter(testConfig(), testHttpClient(), testProxyPool());
+  let profile: DatosPeruProfile;
+
+  beforeAll(async () => {
+    const enriched = await adapter.enrich(RUC);
+    if (!enriched.ok) throw new Error(`enrich() falló: ${enriched.error.message}`);
+    profile = enriched.value;
+  });
+
+  it('resuelve la ficha desde el buscador', () => {
+    expect(profile.sourceUrl).toBe(
+      `https://www.datosperu.org/empresa-banco-internacional-del-peru-saa-interbank-${RUC}.php`,
+    );
+  });
+
+  it('parseDatosEmpresa: datos básicos', () => {
+    expect(profile).toMatchObject({
+      ruc: RUC,
+      nombre: 'BANCO INTERNACIONAL DEL PERU-INTERBANK',
+      fechaInicio: '01/05/1897',
+      fechaInscripcion: '07/08/1993',
+      estado: 'ACTIVO',
+      tipo: 'SOCIEDAD ANONIMA ABIERTA',
+      ciiu: '64190',
+      direccion: 'AV. CARLOS VILLARAN NRO. 140 URB. SANTA CATALINA',
+      referencia: 'ALT. CDRA. 7 AV. JAVIER PRADO',
+      departamento: 'LIMA',
+      provincia: 'LIMA',
+      distrito: 'LA VICTORIA',
+      pais: 'PERÚ',
+      telefonos: ['(01) 219-2000'],
+      web: 'https://interbank.pe',
+      proveedorEstado: true,
+    });
+  });
+
+  it('parseDescripcion / parseSectorEconomico / parseComercioExterior / parseLogo', () => {
+    expect(profile.descripcion).toMatch(/^Interbank es uno de los principales bancos del Perú/);
+    expect(profile.sectorEconomico).toBe('OTROS TIPOS DE INTERMEDIACIÓN MONETARIA');
+    expect(profile.marcaComercioExterior).toBe('IMPORTADOR/EXPORTADOR');
+    expect(profile.logoUrl).toBe(`https://www.datosperu.org/top300/logos/${RUC}.jpg`);
+  });
+
+  it('parseEjecutivos: cargo, nombre y fecha', () => {
+    expect(profile.ejecutivos).toEqual([
+      { cargo: 'GERENTE GENERAL', nombre: 'RAMIREZ DEL VILLAR LOPEZ LUIS FELIPE', desde: '01/04/2024' },
+      { cargo: 'DIRECTOR', nombre: 'FELICES VASQUEZ CARLOS', desde: '31/03/2016' },
+      { cargo: 'APODERADO', nombre: 'MARQUEZ PIZARRO HAYDEE', desde: null },
+    ]);
+  });
+
+  it('parseEstablecimientos: dirección y ubicación', () => {
+    expect(profile.establecimientosAnexos).toMatchObject([
+      { direccion: 'AV. LARCO NRO. 690', ubicacion: 'LIMA - LIMA - MIRAFLORES' },
+      { direccion: 'JR. PIEROLA NRO. 501', ubicacion: 'AREQUIPA - AREQUIPA - AREQUIPA' },
+    ]);
+    expect(profile.establecimientosAnexos.map((b) => b.direccionNormalizada)).toMatchObject([
+      { streetType: 'Av.', streetName: 'Larco', number: '690', ubigeo: { code: '150122', district: 'Miraflores' } },
+      { streetType: 'Jr.', streetName: 'Pierola', number: '501', ubigeo: { code: '040101', district: 'Arequipa' } },
+    ]);
+  });
+
+  it('ubigeo y dirección normalizada del domicilio fiscal', () => {
+    expect(profile.ubigeo).toEqual({ code: '150115', department: 'Lima', province: 'Lima', district: 'La Victoria' });
+    expect(profile.direccionNormalizada).toMatchObject({
+      streetType: 'Av.',
+      streetName: 'Carlos Villaran',
+      number: '140',
+      urbanization: 'Santa Catalina',
+      ubigeo: { code: '150115' },
+    });
+  });
+
+  it('parseHistorialTrabajadores: números con separador de miles', () => {
+    expect(profile.historialTrabajadores).toEqual([
+      { periodo: '2025-06', nroTrabajadores: 7104, nroPensionistas: 12, nroPrestadores: 385 },
+      { periodo: '2025-05', nroTrabajadores: 7088, nroPensionistas: 12, nroPrestadores: 371 },
+    ]);
+  });
+
+  it('parseInfoHistorica: condiciones y direcciones', () => {
+    expect(profile.historialCondiciones).toEqual([
+      { condicion: 'HABIDO', desde: '01/01/1993', hasta: null },
+    ]);
+    expect(profile.historialDirecciones).toEqual([
+      { direccion: 'JR. CARABAYA NRO. 529 LIMA', fechaBaja: '15/03/1998' },
+    ]);
+  });
+
+  it('enrich: RUC con dígito verificador inválido → invalid_input sin consultar', async () => {
+    const result = await adapter.enrich('20100053454');
+    expect(result).toEqual({
+      ok: false,
+      error: { code: FailureCode.INVALID_INPUT, message: expect.stringContaining('20100053454'), retryable: false },
+    });
+  });
+
+  it('findCompanyPath: sin el RUC en los resultados no toma el link de otra empresa', () => {
+    const html = '<a href="empresa-otra-empresa-sac-20100130204.php">OTRA EMPRESA SAC</a>';
+    expect(adapter['findCompanyPath'](html, '20100047218')).toBeNull();
+    expect(adapter['findCompanyPath'](html, '20100130204')).toBe('empresa-otra-empresa-sac-20100130204.php');
+  });
+
+  it('parseCompanyPage tolera una página sin secciones', () => {
+    const empty = adapter['parseCompanyPage']('<html><body></body></html>', RUC, 'https://x');
+    expect(empty.nombre).toBeNull();
+    expect(empty.ejecutivos).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import { DdgHttpAdapter } from '../../src/infrastructure/adapters/ddg-http.adapter';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { INTERBANK_QUERY, loadFixture, testEgress } from '../helpers/fixtures';
+
+describe('DdgHttpAdapter', () => {
+  const adapter = new DdgHttpAdapter(testEgress());
+  const html = loadFixture({
+    method: 'POST',
+    url: 'https://html.duckduckgo.com/html/',
+    body: `q=${encodeURIComponent(INTERBANK_QUERY)}`,
+  });
+
+  describe('parseDDGResults', () => {
+    it('resuelve los redirects uddg y limpia los títulos', () => {
+      const results = adapter['parseDDGResults'](html);
+
+      expect(results).toEqual([
+        { url: 'https://interbank.pe/', title: 'Interbank | Banca Personal, Tarjetas de Crédito y Préstamos' },
+        { url: 'https://es.wikipedia.org/wiki/Interbank', title: 'Interbank - Wikipedia, la enciclopedia libre' },
+        { url: 'https://interbank.pe/empresas/cuentas', title: 'Cuentas para Empresas | Interbank' },
+        { url: 'https://www.rankia.pe/bancos/interbank', title: 'Opiniones sobre Interbank - Rankia' },
+      ]);
+    });
+
+    it('descarta anuncios y links relativos', () => {
+      const results = adapter['parseDDGResults'](html);
+      expect(results.some((r) => r.url.includes('y.js'))).toBe(false);
+    });
+
+    it('retorna vacío con HTML sin resultados', () => {
+      expect(adapter['parseDDGResults']('<html><body>No results.</body></html>')).toEqual([]);
+    });
+  });
+
+  describe('search (replay)', () => {
+    it('elige la web oficial y descarta directorios', async () => {
+      const searched = await adapter.search('INTERBANK S.A.A.');
+      if (!searched.ok) throw new Error(searched.error.message);
+      const result = searched.value;
+
+      expect(result.found).toBe(true);
+      expect(result.website).toBe('https://www.interbank.pe/');
+      expect(result.strategy).toBe(SearchStrategy.DDG_HTTP);
+      expect(result.allResults.map((r) => r.url)).toEqual(['https://www.interbank.pe/']);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  classifyEmail,
+  cleanEmail,
+  decodeCfEmail,
+  isCompanyEmail,
+  toContactEmail,
+} from '../../src/shared/utils/email-address';
+
+describe('cleanEmail', () => {
+  it.each([
+    ['mailto:Contacto@Acme.pe?subject=Hola', 'contacto@acme.pe'],
+    ['mailto:ventas%40acme.com.pe', 'ventas@acme.com.pe'],
+    ['<rrhh@acme.pe>.', 'rrhh@acme.pe'],
+    ['j.perez+web@mail.acme.pe', 'j.perez+web@mail.acme.pe'],
+  ])('%s → %s', (raw, address) => {
+    expect(cleanEmail(raw)).toBe(address);
+  });
+
+  it.each([
+    ['logo@2x.png'],
+    ['banner-home@3x.webp'],
+    ['abc123def@sentry.io'],
+    ['605a7baa@sentry-next.wixpress.com'],
+    ['info@example.com'],
+    ['usuario@acme.pe'],
+    ['info@acme'],
+    ['info..ventas@acme.pe'],
+    ['@acme.pe'],
+  ])('descarta %s', (raw) => {
+    expect(cleanEmail(raw)).toBeNull();
+  });
+});
+
+describe('decodeCfEmail', () => {
+  it('decodifica con la llave XOR del primer byte', () => {
+    expect(decodeCfEmail('4234272c3623310223212f276c3227')).toBe('ventas@acme.pe');
+  });
+
+  it('rechaza hex inválido o que no decodifica a un email', () => {
+    expect(decodeCfEmail('xyz')).toBeNull();
+    expect(decodeCfEmail('423')).toBeNull();
+    expect(decodeCfEmail('4234272c')).toBeNull();
+  });
+});
+
+describe('classifyEmail', () => {
+  it.each([
+    ['rrhh@acme.pe', 'hr'],
+    ['seleccion.personal@acme.pe', 'hr'],
+    ['trabajaconnosotros@acme.pe', 'hr'],
+    ['info@acme.pe', 'generic'],
+    ['contacto@acme.pe', 'generic'],
+    ['atencionalcliente@acme.pe', 'generic'],
+    ['mesa_de_partes@acme.pe', 'generic'],
+    ['jperez@acme.pe', 'personal'],
+    ['maria.torres@acme.pe', 'personal'],
+  ])('%s → %s', (address, role) => {
+    expect(classifyEmail(address)).toBe(role);
+  });
+});
+
+describe('isCompanyEmail', () => {
+  it('compara contra el dominio raíz de la web, incluidos subdominios', () => {
+    expect(isCompanyEmail('info@acme.com.pe', 'https://www.acme.com.pe/contacto')).toBe(true);
+    expect(isCompanyEmail('rrhh@corp.acme.com.pe', 'https://tienda.acme.com.pe')).toBe(true);
+    expect(isCompanyEmail('acme@gmail.com', 'https://www.acme.com.pe')).toBe(false);
+    expect(isCompanyEmail('info@acme.pe', 'no es una url')).toBe(false);
+  });
+
+  it('toContactEmail combina rol y dominio', () => {
+    expect(toContactEmail('rrhh@acme.pe', 'https://acme.pe')).toEqual({
+      address: 'rrhh@acme.pe',
+      role: 'hr',
+      companyDomain: true,
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { GoogleCseApiAdapter } from '../../src/infrastructure/adapters/google-cse-api.adapter';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { StubServer, loadApiFixture, startStubServer, testConfig, testHttpClient } from '../helpers/fixtures';
+
+/**
+ * Contra un servidor local que sirve la respuesta JSON grabada
+ * (sin fixtures HTTP: HTTP_FIXTURES=off en este archivo).
+ */
+describe('GoogleCseApiAdapter', () => {
+  let stub: StubServer;
+  let adapter: GoogleCseApiAdapter;
+  let fixturesMode: string | undefined;
+
+  beforeAll(async () => {
+    fixturesMode = process.env.HTTP_FIXTURES;
+    process.env.HTTP_FIXTURES = 'off';
+
+    stub = await startStubServer((url, res) => {
+      const q = url.searchParams.get('q') ?? '';
+      res.writeHead(q.includes('CUOTA') ? 429 : q.includes('INVALIDA') ? 400 : 200, {
+        'Content-Type': 'application/json',
+      });
+      if (q.includes('CUOTA')) {
+        res.end(JSON.stringify({ error: { code: 429, message: 'Quota exceeded for quota metric' } }));
+      } else if (q.includes('INVALIDA')) {
+        res.end(JSON.stringify({ error: { code: 400, message: 'API key not valid' } }));
+      } else if (q.includes('NOEXISTE')) {
+        res.end(JSON.stringify({ kind: 'customsearch#search', searchInformation: { totalResults: '0' } }));
+      } else {
+        res.end(loadApiFixture('google-cse-search'));
+      }
+    });
+  });
+
+  afterAll(async () => {
+    process.env.HTTP_FIXTURES = fixturesMode;
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    adapter = new GoogleCseApiAdapter(
+      testConfig({
+        'scraper.googleCse.apiKey': 'clave-test',
+        'scraper.googleCse.cx': 'cx-test',
+        'scraper.googleCse.url': `${stub.base}/customsearch/v1`,
+      }),
+      testHttpClient(),
+    );
+    adapter.getStatus().maxPerSession = 50;
+  });
+
+  it('elige la web oficial de la respuesta grabada con una sola query', async () => {
+    const searched = await adapter.search('INTERBANK');
+    if (!searched.ok) throw new Error(searched.error.message);
+
+    expect(searched.value).toMatchObject({
+      website: 'https://www.interbank.pe/',
+      strategy: SearchStrategy.GOOGLE_CSE_API,
+    });
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].pathname).toBe('/customsearch/v1');
+    expect(stub.requests[0].searchParams.get('key')).toBe('clave-test');
+    expect(stub.requests[0].searchParams.get('cx')).toBe('cx-test');
+  });
+
+  it('sin items → not_found tras las 2 queries', async () => {
+    const searched = await adapter.search('NOEXISTE SAC');
+
+    expect(searched).toMatchObject({ ok: false, error: { code: FailureCode.NOT_FOUND } });
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('429 agota la cuota de la sesión sin reintentar', async () => {
+    const searched = await adapter.search('CUOTA SAC');
+
+    expect(searched).toMatchObject({ ok: false, error: { code: FailureCode.UNAVAILABLE } });
+    expect(stub.requests).toHaveLength(1);
+    expect(adapter.isAvailable()).toBe(false);
+  });
+
+  it('un error de la API se reporta con su mensaje', async () => {
+    const searched = await adapter.search('INVALIDA SAC');
+
+    expect(searched).toMatchObject({
+      ok: false,
+      error: { code: FailureCode.UPSTREAM_ERROR, message: 'Google CSE HTTP 400: API key not valid' },
+    });
+  });
+
+  it('sin API key / CX no está disponible y no sale a la red', async () => {
+    const unconfigured = new GoogleCseApiAdapter(testConfig({ 'scraper.googleCse.apiKey': 'clave-test' }), testHttpClient());
+
+    expect(unconfigured.isAvailable()).toBe(false);
+    expect(await unconfigured.search('INTERBANK')).toMatchObject({
+      ok: false,
+      error: { code: FailureCode.UNAVAILABLE },
+    });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  looksLikePersonName,
+  reconcileLeadership,
+  samePerson,
+} from '../../src/shared/utils/leadership';
+
+describe('looksLikePersonName', () => {
+  it.each([
+    'Juan Pérez',
+    'Dra. María del Carmen Torres',
+    'Juan C. de la Puente',
+    'Carlos Rodríguez-Pastor',
+    'LUIS FELIPE CASTELLANOS',
+  ])('"%s" es un nombre', (text) => {
+    expect(looksLikePersonName(text)).toBe(true);
+  });
+
+  it.each([
+    'Equipo Gerencial',
+    'Nuestro Directorio',
+    'Gerente General',
+    'Av. Carlos Villarán 140',
+    'Juan',
+    'Conoce más sobre nosotros',
+  ])('"%s" no es un nombre', (text) => {
+    expect(looksLikePersonName(text)).toBe(false);
+  });
+});
+
+describe('samePerson', () => {
+  it('ignora orden, tildes, mayúsculas y guiones', () => {
+    expect(samePerson('Carlos Rodríguez-Pastor', 'RODRIGUEZ PASTOR PERSIVALE CARLOS')).toBe(true);
+    expect(samePerson('Luis Felipe Castellanos', 'CASTELLANOS LOPEZ TORRES LUIS FELIPE')).toBe(true);
+  });
+
+  it('no basta un solo token en común', () => {
+    expect(samePerson('Carlos Pérez', 'RODRIGUEZ PASTOR PERSIVALE CARLOS')).toBe(false);
+    expect(samePerson('Carlos', 'CARLOS')).toBe(false);
+  });
+});
+
+describe('reconcileLeadership', () => {
+  it('une web + SUNAT y agrega solo cargos directivos de SUNAT', () => {
+    const leaders = reconcileLeadership(
+      [
+        { name: 'Luis Felipe Castellanos', role: 'CEO', photoUrl: 'https://acme.pe/lfc.jpg', sourceUrl: 'https://acme.pe/directorio' },
+        { name: 'Rosa Quispe', role: null, photoUrl: null, sourceUrl: 'https://acme.pe/directorio' },
+      ],
+      [
+        { cargo: 'GERENTE GENERAL', nombre: 'CASTELLANOS LOPEZ TORRES LUIS FELIPE', desde: '01/04/2008' },
+        { cargo: 'DIRECTOR', nombre: 'SALAS VEGA ANA', desde: '15/03/2020' },
+        { cargo: 'APODERADO', nombre: 'MARQUEZ PIZARRO HAYDEE', desde: '23/01/2025' },
+      ],
+    );
+
+    expect(leaders).toEqual([
+      {
+        name: 'Luis Felipe Castellanos',
+        role: 'CEO',
+        registeredRole: 'GERENTE GENERAL',
+        since: '01/04/2008',
+        photoUrl: 'https://acme.pe/lfc.jpg',
+        sources: ['website', 'datosperu'],
+      },
+      { name: 'Rosa Quispe', role: null, registeredRole: null, since: null, photoUrl: null, sources: ['website'] },
+      { name: 'SALAS VEGA ANA', role: 'DIRECTOR', registeredRole: 'DIRECTOR', since: '15/03/2020', photoUrl: null, sources: ['datosperu'] },
+    ]);
+  });
+});
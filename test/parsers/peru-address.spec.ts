@@ -0,0 +1,141 @@
+import {
+  findUbigeo,
+  parsePeruAddress,
+  parseUbicacion,
+  resolveUbigeo,
+} from '../../src/shared/utils/peru-address';
+
+describe('resolveUbigeo', () => {
+  it('resuelve los campos de SUNAT sin importar tildes ni mayúsculas', () => {
+    expect(resolveUbigeo({ department: 'LIMA', province: 'LIMA', district: 'LA VICTORIA' })).toEqual({
+      code: '150115',
+      department: 'Lima',
+      province: 'Lima',
+      district: 'La Victoria',
+    });
+    expect(resolveUbigeo({ department: 'ANCASH', province: 'HUARAZ', district: 'HUARAZ' })?.department).toBe('Áncash');
+  });
+
+  it('se queda en el nivel más profundo que coincide', () => {
+    expect(resolveUbigeo({ department: 'ANCASH', province: 'SANTA', district: 'NO EXISTE' })?.code).toBe('0218');
+    expect(resolveUbigeo({ department: 'CUSCO', province: null, district: null })?.code).toBe('08');
+    expect(resolveUbigeo({ department: null, province: null, district: null })).toBeNull();
+  });
+
+  it('acepta los nombres oficiales del Callao', () => {
+    expect(resolveUbigeo({ department: 'CALLAO', province: 'CALLAO', district: 'BELLAVISTA' })?.code).toBe('070102');
+    expect(resolveUbigeo({ department: 'PROV. CONST. DEL CALLAO', province: 'CALLAO', district: 'LA PERLA' })?.code).toBe(
+      '070104',
+    );
+  });
+
+  it('busca el distrito solo dentro de su provincia', () => {
+    // Miraflores existe en Lima y en Arequipa
+    expect(resolveUbigeo({ department: 'AREQUIPA', province: 'AREQUIPA', district: 'MIRAFLORES' })?.code).toBe('040110');
+  });
+});
+
+describe('parseUbicacion', () => {
+  it('"DEPARTAMENTO - PROVINCIA - DISTRITO"', () => {
+    expect(parseUbicacion('ANCASH - SANTA - CHIMBOTE')).toEqual({
+      code: '021801',
+      department: 'Áncash',
+      province: 'Santa',
+      district: 'Chimbote',
+    });
+    expect(parseUbicacion(null)).toBeNull();
+  });
+});
+
+describe('findUbigeo', () => {
+  it('gana el distrito respaldado por su provincia o departamento', () => {
+    expect(findUbigeo(['San Isidro', 'Lima', 'Perú'])?.code).toBe('150131');
+    expect(findUbigeo(['La Victoria', 'Lima'])?.code).toBe('150115');
+  });
+
+  it('nombres de uso común', () => {
+    expect(findUbigeo(['Surco'])?.code).toBe('150140');
+    expect(findUbigeo(['Cercado de Lima'])?.code).toBe('150101');
+  });
+
+  it('ante la ambigüedad se queda con el ancestro común o nada', () => {
+    expect(findUbigeo(['Lima'])?.code).toBe('15');
+    expect(findUbigeo(['San Juan'])).toBeNull();
+    expect(findUbigeo(['Perú'])).toBeNull();
+  });
+});
+
+describe('parsePeruAddress', () => {
+  it('formato SUNAT: NRO., INT. y URB.', () => {
+    expect(parsePeruAddress('CAL. LOS NOGALES NRO. 249 INT. 501 URB. EL PINO')).toEqual({
+      raw: 'CAL. LOS NOGALES NRO. 249 INT. 501 URB. EL PINO',
+      streetType: 'Calle',
+      streetName: 'Los Nogales',
+      number: '249',
+      interior: 'Int. 501',
+      block: null,
+      lot: null,
+      urbanization: 'El Pino',
+      ubigeo: null,
+    });
+  });
+
+  it('formato SUNAT con la ubicación al final', () => {
+    expect(parsePeruAddress('AV. JAVIER PRADO ESTE NRO. 1066 URB. CORPAC LIMA - LIMA - SAN ISIDRO')).toMatchObject({
+      streetType: 'Av.',
+      streetName: 'Javier Prado Este',
+      number: '1066',
+      urbanization: 'Corpac',
+      ubigeo: { code: '150131' },
+    });
+  });
+
+  it('usa el ubigeo conocido y no lo repite en la urbanización', () => {
+    const location = resolveUbigeo({ department: 'LIMA', province: 'LIMA', district: 'SAN ISIDRO' });
+    expect(parsePeruAddress('AV. JAVIER PRADO ESTE NRO. 1066 URB. CORPAC SAN ISIDRO', location)).toMatchObject({
+      urbanization: 'Corpac',
+      ubigeo: { code: '150131' },
+    });
+  });
+
+  it('manzana, lote y asentamiento humano', () => {
+    expect(parsePeruAddress('MZA. A LOTE. 5 A.H. VILLA SOL')).toMatchObject({
+      streetType: null,
+      streetName: null,
+      block: 'A',
+      lot: '5',
+      urbanization: 'Villa Sol',
+    });
+  });
+
+  it('kilómetro de carretera', () => {
+    expect(parsePeruAddress('CAR. PANAMERICANA NORTE KM. 1140')).toMatchObject({
+      streetType: 'Carretera',
+      streetName: 'Panamericana Norte',
+      number: 'Km 1140',
+    });
+  });
+
+  it('formato web: número sin "Nro.", piso y distrito separados por comas', () => {
+    expect(parsePeruAddress('Calle Las Begonias 415, Piso 9, San Isidro, Lima - Perú')).toMatchObject({
+      streetType: 'Calle',
+      streetName: 'Las Begonias',
+      number: '415',
+      interior: 'Piso 9',
+      ubigeo: { code: '150131', district: 'San Isidro' },
+    });
+  });
+
+  it('no confunde los números del nombre de la vía', () => {
+    expect(parsePeruAddress('Dirección: Av. 28 de Julio 1234 Of. 201')).toMatchObject({
+      streetType: 'Av.',
+      streetName: '28 de Julio',
+      number: '1234',
+      interior: 'Of. 201',
+    });
+  });
+
+  it('texto vacío → null', () => {
+    expect(parsePeruAddress('   ')).toBeNull();
+  });
+});
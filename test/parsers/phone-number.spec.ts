@@ -0,0 +1,74 @@
+import { normalizePhone, normalizePhones, phoneKey } from '../../src/shared/utils/phone-number';
+
+describe('normalizePhone', () => {
+  it.each([
+    ['(01) 315-0800', '+5113150800'],
+    ['+51 1 3150800', '+5113150800'],
+    ['51 1 315 0800', '+5113150800'],
+    ['315-0800', '+5113150800'],
+    ['tel:+5113150800', '+5113150800'],
+  ])('fijo de Lima: %s → %s', (raw, e164) => {
+    expect(normalizePhone(raw)).toMatchObject({
+      e164,
+      lineType: 'landline',
+      areaCode: '1',
+      region: 'Lima',
+      regionCode: '15',
+    });
+  });
+
+  it('fijo de provincia: el código de área da la región', () => {
+    expect(normalizePhone('(054) 381-234')).toMatchObject({
+      e164: '+5154381234',
+      lineType: 'landline',
+      areaCode: '54',
+      region: 'Arequipa',
+      regionCode: '04',
+    });
+    expect(normalizePhone('+51 44 234567')?.region).toBe('La Libertad');
+  });
+
+  it('móviles', () => {
+    expect(normalizePhone('987 123 456')).toMatchObject({ e164: '+51987123456', lineType: 'mobile', areaCode: null, region: null });
+    expect(normalizePhone('+51 987-123-456')?.e164).toBe('+51987123456');
+  });
+
+  it('0800 y extranjeros', () => {
+    expect(normalizePhone('0800-00-700')).toMatchObject({ e164: '+5180000700', lineType: 'tollfree' });
+    expect(normalizePhone('+1 (305) 555-0142')).toMatchObject({ e164: '+13055550142', lineType: 'foreign' });
+  });
+
+  it('anexos', () => {
+    expect(normalizePhone('(01) 219-2000 anexo 123')).toMatchObject({ e164: '+5112192000', extension: '123' });
+    expect(normalizePhone('(01) 219-2000, Anx. 45')?.extension).toBe('45');
+    expect(normalizePhone('+51 1 219 2000 ext 7')?.extension).toBe('7');
+  });
+
+  it.each([
+    ['999 999 999', 'relleno'],
+    ['987 654 321', 'escalera'],
+    ['123 4567', 'secuencia'],
+    ['20100053455', 'RUC'],
+    ['45871236', 'DNI (8 dígitos sin prefijo)'],
+    ['01/05/1897', 'fecha'],
+    ['054 12345', 'muy corto'],
+    ['S/ 1,500', 'monto'],
+  ])('descarta %s (%s)', (raw) => {
+    expect(normalizePhone(raw)).toBeNull();
+  });
+});
+
+describe('normalizePhones / phoneKey', () => {
+  it('deduplica por E.164 + anexo y conserva el orden', () => {
+    const phones = normalizePhones([
+      '(01) 219-2000',
+      '+51 1 219-2000',
+      '(01) 219-2000 anexo 5',
+      'no es teléfono',
+      '987 123 456',
+    ]);
+
+    expect(phones.map(phoneKey)).toEqual(['+5112192000', '+5112192000;ext=5', '+51987123456']);
+    expect(phones[0].raw).toBe('(01) 219-2000');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  CONSENSUS_BONUS,
+  RRF_K,
+  consensusScore,
+  fuseRankings,
+} from '../../src/shared/utils/result-fusion';
+
+const r = (url: string, score: number, title = '') => ({ url, title, score });
+
+describe('fuseRankings', () => {
+  it('suma 1 / (k + rank) por motor: 2 votos en posiciones medias superan a un #1 solitario', () => {
+    const fused = fuseRankings([
+      { source: 'ddg_http', results: [r('https://rpp.pe/nota', 30), r('https://www.interbank.pe/', 20)] },
+      { source: 'bing_http', results: [r('https://elcomercio.pe/', 25), r('https://interbank.pe/personas', 12)] },
+    ]);
+
+    expect(fused.map((c) => c.domain)).toEqual(['interbank.pe', 'rpp.pe', 'elcomercio.pe']);
+    expect(fused[0].fusedScore).toBeCloseTo(2 / (RRF_K + 2));
+    expect(fused[0].votes).toEqual([
+      { source: 'ddg_http', rank: 2, score: 20 },
+      { source: 'bing_http', rank: 2, score: 12 },
+    ]);
+    expect(fused[2].fusedScore).toBeCloseTo(1 / (RRF_K + 1));
+  });
+
+  it('un motor vota una sola vez por dominio, con su mejor posición', () => {
+    const fused = fuseRankings([
+      {
+        source: 'ddg_http',
+        results: [r('https://interbank.pe/', 20), r('https://www.interbank.pe/contacto', 25), r('https://bcp.pe/', 9)],
+      },
+    ]);
+
+    expect(fused[0]).toMatchObject({ domain: 'interbank.pe', bestScore: 20, url: 'https://interbank.pe/' });
+    expect(fused[0].votes).toEqual([{ source: 'ddg_http', rank: 1, score: 20 }]);
+    // el duplicado no corre la posición de los siguientes
+    expect(fused[1].votes).toEqual([{ source: 'ddg_http', rank: 3, score: 9 }]);
+  });
+
+  it('a igual RRF desempata por bestScore', () => {
+    const fused = fuseRankings([
+      { source: 'ddg_http', results: [r('https://bajo.pe/', 8)] },
+      { source: 'bing_http', results: [r('https://alto.pe/', 22)] },
+    ]);
+
+    expect(fused.map((c) => c.domain)).toEqual(['alto.pe', 'bajo.pe']);
+  });
+
+  it('se queda con la URL del mejor score y el título más descriptivo', () => {
+    const [candidate] = fuseRankings([
+      { source: 'ddg_http', results: [r('https://interbank.pe/personas', 12, 'Interbank | Banca Personal')] },
+      { source: 'bing_http', results: [r('https://interbank.pe/', 20, 'Interbank')] },
+    ]);
+
+    expect(candidate).toMatchObject({
+      url: 'https://interbank.pe/',
+      title: 'Interbank | Banca Personal',
+      bestScore: 20,
+    });
+  });
+
+  it('ignora URLs inválidas y listas vacías', () => {
+    expect(fuseRankings([{ source: 'ddg_http', results: [r('no-es-url', 30)] }, { source: 'bing_http', results: [] }])).toEqual([]);
+  });
+});
+
+describe('consensusScore', () => {
+  it(`suma ${CONSENSUS_BONUS} por cada motor extra que votó el dominio`, () => {
+    const [shared, single] = fuseRankings([
+      { source: 'ddg_http', results: [r('https://interbank.pe/', 12), r('https://rpp.pe/', 30)] },
+      { source: 'bing_http', results: [r('https://interbank.pe/', 10)] },
+      { source: 'searxng_api', results: [r('https://www.interbank.pe/', 9)] },
+    ]);
+
+    expect(consensusScore(shared)).toBe(12 + 2 * CONSENSUS_BONUS);
+    expect(consensusScore(single)).toBe(30);
+    expect(consensusScore(shared, 0)).toBe(12);
+  });
+});
@@ -0,0 +1,72 @@
+import { isAllowedByRobots, matchRobots, parseRobotsTxt } from '../../src/shared/utils/robots-txt';
+
+const ROBOTS = `
+# Sitio corporativo (Liferay)
+User-agent: *
+Disallow: /o/
+Disallow: /buscar
+Allow: /o/interbank-theme/
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: Googlebot
+User-agent: empliq-scraper
+Disallow: /privado
+`;
+
+describe('parseRobotsTxt', () => {
+  it('usa el grupo "*" si ningún User-agent coincide', () => {
+    const policy = parseRobotsTxt(ROBOTS, 'otro-bot');
+
+    expect(policy.crawlDelaySec).toBe(2);
+    expect(policy.rules).toHaveLength(4);
+  });
+
+  it('prefiere el grupo de nuestro token (varias líneas User-agent comparten grupo)', () => {
+    const policy = parseRobotsTxt(ROBOTS, 'empliq-scraper');
+
+    expect(policy.rules).toEqual([{ allow: false, pattern: '/privado' }]);
+    expect(policy.crawlDelaySec).toBeNull();
+  });
+
+  it('sin grupos aplicables permite todo', () => {
+    expect(parseRobotsTxt('User-agent: Googlebot\nDisallow: /', 'empliq-scraper').rules).toEqual([]);
+    expect(parseRobotsTxt('', 'empliq-scraper').rules).toEqual([]);
+  });
+
+  it('recoge las líneas Sitemap sin importar el grupo', () => {
+    const text = 'Sitemap: https://acme.pe/sitemap_index.xml\nUser-agent: Googlebot\nSitemap: https://acme.pe/news.xml\n';
+    expect(parseRobotsTxt(text, 'empliq-scraper').sitemaps).toEqual([
+      'https://acme.pe/sitemap_index.xml',
+      'https://acme.pe/news.xml',
+    ]);
+  });
+
+  it('ignora "Disallow:" vacío y comentarios', () => {
+    const policy = parseRobotsTxt('User-agent: * # todos\nDisallow:\n', 'x');
+    expect(policy.rules).toEqual([]);
+  });
+});
+
+describe('matchRobots / isAllowedByRobots', () => {
+  const policy = parseRobotsTxt(ROBOTS, 'otro-bot');
+
+  it('gana la regla más larga', () => {
+    expect(isAllowedByRobots(policy, '/o/interbank-theme/logo.svg')).toBe(true);
+    expect(isAllowedByRobots(policy, '/o/portal/layout')).toBe(false);
+  });
+
+  it('los prefijos incluyen query string', () => {
+    expect(matchRobots(policy, '/buscar?q=tarjetas')).toEqual({ allow: false, pattern: '/buscar' });
+  });
+
+  it('soporta * y $', () => {
+    expect(isAllowedByRobots(policy, '/memoria/2023.pdf')).toBe(false);
+    expect(isAllowedByRobots(policy, '/memoria/2023.pdf?v=2')).toBe(true);
+  });
+
+  it('sin regla aplicable → permitido', () => {
+    expect(matchRobots(policy, '/nosotros')).toBeNull();
+    expect(isAllowedByRobots(policy, '/nosotros')).toBe(true);
+  });
+});
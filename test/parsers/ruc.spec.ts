@@ -0,0 +1,86 @@
+import {
+  buildCandidate,
+  checkRuc,
+  findRucCandidates,
+  isValidRuc,
+  rucCheckDigit,
+  rucTaxpayerType,
+} from '../../src/shared/utils/ruc';
+
+describe('isValidRuc', () => {
+  it.each([['20100053455'], ['20100047218'], ['20100130204'], ['20100055237']])('%s es válido', (ruc) => {
+    expect(isValidRuc(ruc)).toBe(true);
+  });
+
+  it.each([
+    ['20100053454', 'dígito verificador'],
+    ['30100053455', 'prefijo'],
+    ['2010005345', 'largo'],
+    ['2010005345a', 'no numérico'],
+  ])('%s no es válido (%s)', (ruc) => {
+    expect(isValidRuc(ruc)).toBe(false);
+  });
+
+  it('el dígito verificador 10 → 0 y 11 → 1', () => {
+    // Suma ponderada con resto 1 → 11 - 1 = 10 → 0; con resto 0 → 11 → 1
+    expect(rucCheckDigit('2010000005')).toBe(0);
+    expect(rucCheckDigit('2010000013')).toBe(1);
+    expect(rucCheckDigit('2010005345')).toBe(5);
+  });
+
+  it('tipo de contribuyente según el prefijo', () => {
+    expect(rucTaxpayerType('20100053455')).toBe('legal-entity');
+    expect(rucTaxpayerType('10456789012')).toBe('natural-person');
+    expect(rucTaxpayerType('15123456789')).toBe('natural-person-other-id');
+    expect(rucTaxpayerType('99123456789')).toBeNull();
+  });
+});
+
+describe('findRucCandidates', () => {
+  const URL = 'https://acme.com.pe/';
+
+  it('prefiere el RUC del pie de página sobre el de un proveedor', () => {
+    const html = `
+      <main><p>Trabajamos con nuestro proveedor logístico (RUC 20100130204).</p></main>
+      <footer><p>© 2025 Acme S.A.C. - RUC: 20100053455</p></footer>`;
+    const [best, other] = findRucCandidates(html, URL);
+    expect(best).toMatchObject({ ruc: '20100053455', signals: ['label', 'footer', 'legal'], score: 0.9 });
+    expect(other.ruc).toBe('20100130204');
+    expect(other.signals).toContain('third-party');
+    expect(other.score).toBeLessThan(best.score);
+  });
+
+  it('descarta números con dígito verificador inválido', () => {
+    expect(findRucCandidates('<p>RUC 20100053454</p>', URL)).toEqual([]);
+  });
+
+  it('cuenta apariciones y marca las páginas legales', () => {
+    const html = '<p>20100053455</p><p>Razón social: Acme S.A.C., RUC 20100053455</p>';
+    const [candidate] = findRucCandidates(html, 'https://acme.com.pe/terminos-y-condiciones');
+    expect(candidate.occurrences).toBe(2);
+    expect(candidate.signals).toEqual(['label', 'legal', 'legal-page']);
+  });
+
+  it('el JSON-LD tiene el puntaje más alto', () => {
+    expect(buildCandidate('20100053455', ['json-ld'], URL).score).toBe(0.95);
+  });
+});
+
+describe('checkRuc', () => {
+  const candidates = [
+    buildCandidate('20100053455', ['label', 'footer'], 'https://acme.com.pe/'),
+    buildCandidate('20100130204', [], 'https://acme.com.pe/'),
+  ];
+
+  it('match, candidate, mismatch y not-found', () => {
+    const profile = { ruc: '20100053455', rucCandidates: candidates };
+    expect(checkRuc('20100053455', profile).status).toBe('match');
+    expect(checkRuc('20100130204', profile)).toEqual({
+      requested: '20100130204',
+      found: '20100053455',
+      status: 'candidate',
+    });
+    expect(checkRuc('20100047218', profile).status).toBe('mismatch');
+    expect(checkRuc('20100047218', { ruc: null, rucCandidates: [] }).status).toBe('not-found');
+  });
+});
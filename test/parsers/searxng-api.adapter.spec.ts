@@ -0,0 +1,94 @@
+import { SearxngApiAdapter } from '../../src/infrastructure/adapters/searxng-api.adapter';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { StubServer, loadApiFixture, startStubServer, testConfig, testHttpClient } from '../helpers/fixtures';
+
+/**
+ * Contra un servidor local que sirve la respuesta JSON grabada
+ * (sin fixtures HTTP: HTTP_FIXTURES=off en este archivo).
+ */
+describe('SearxngApiAdapter', () => {
+  let stub: StubServer;
+  let adapter: SearxngApiAdapter;
+  let fixturesMode: string | undefined;
+
+  beforeAll(async () => {
+    fixturesMode = process.env.HTTP_FIXTURES;
+    process.env.HTTP_FIXTURES = 'off';
+
+    stub = await startStubServer((url, res) => {
+      const q = url.searchParams.get('q') ?? '';
+      if (q.includes('NOEXISTE')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ query: q, results: [] }));
+      } else if (q.includes('LIMITADA')) {
+        res.writeHead(429);
+        res.end('Too Many Requests');
+      } else if (q.includes('SINJSON')) {
+        res.writeHead(403);
+        res.end('Forbidden');
+      } else if (q.includes('ROTA')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{roto');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(loadApiFixture('searxng-search'));
+      }
+    });
+  });
+
+  afterAll(async () => {
+    process.env.HTTP_FIXTURES = fixturesMode;
+    await stub.close();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    adapter = new SearxngApiAdapter(
+      testConfig({ 'scraper.searxng.url': `${stub.base}/` }),
+      testHttpClient({ 'scraper.http.retries': 0 }),
+    );
+  });
+
+  it('elige la web oficial de la respuesta grabada y pide JSON en es-PE', async () => {
+    const searched = await adapter.search('INTERBANK');
+    if (!searched.ok) throw new Error(searched.error.message);
+
+    expect(searched.value).toMatchObject({
+      website: 'https://www.interbank.pe/',
+      strategy: SearchStrategy.SEARXNG_API,
+    });
+    expect(searched.value.allResults.map((r) => r.url)).not.toContain('ftp://archivo.interbank.pe/');
+    expect(stub.requests[0].pathname).toBe('/search');
+    expect(stub.requests[0].searchParams.get('format')).toBe('json');
+    expect(stub.requests[0].searchParams.get('language')).toBe('es-PE');
+    expect(adapter.getStatus().successCount).toBe(1);
+  });
+
+  it('sin resultados en ninguna query → not_found', async () => {
+    const searched = await adapter.search('NOEXISTE SAC');
+
+    expect(searched).toMatchObject({ ok: false, error: { code: FailureCode.NOT_FOUND } });
+    expect(stub.requests.length).toBeGreaterThan(1);
+  });
+
+  it.each([
+    ['LIMITADA', FailureCode.BLOCKED],
+    ['SINJSON', FailureCode.UPSTREAM_ERROR],
+    ['ROTA', FailureCode.PARSE_ERROR],
+  ])('%s → %s', async (company, code) => {
+    const searched = await adapter.search(company);
+    expect(searched).toMatchObject({ ok: false, error: { code } });
+  });
+
+  it('sin SEARXNG_URL no está disponible y no sale a la red', async () => {
+    const unconfigured = new SearxngApiAdapter(testConfig(), testHttpClient());
+
+    expect(unconfigured.isAvailable()).toBe(false);
+    expect(await unconfigured.search('INTERBANK')).toMatchObject({
+      ok: false,
+      error: { code: FailureCode.UNAVAILABLE },
+    });
+    expect(stub.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,69 @@
+import { parseSitemap } from '../../src/shared/utils/sitemap';
+import { classifySubpage } from '../../src/shared/utils/subpage-classifier';
+
+describe('parseSitemap', () => {
+  it('lee un urlset con namespaces, CDATA y entidades', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+        <url><loc>https://acme.pe/</loc><lastmod>2024-01-01</lastmod></url>
+        <url><loc><![CDATA[https://acme.pe/nosotros]]></loc></url>
+        <url><loc> https://acme.pe/buscar?q=a&amp;p=2 </loc></url>
+        <url><loc>https://acme.pe/</loc></url>
+        <url><loc>/relativa</loc></url>
+      </urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      kind: 'urlset',
+      urls: ['https://acme.pe/', 'https://acme.pe/nosotros', 'https://acme.pe/buscar?q=a&p=2'],
+    });
+  });
+
+  it('distingue un sitemap index', () => {
+    const xml = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://acme.pe/page-sitemap.xml</loc></sitemap>
+      <sitemap><loc>https://acme.pe/post-sitemap.xml</loc></sitemap>
+    </sitemapindex>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      kind: 'index',
+      urls: ['https://acme.pe/page-sitemap.xml', 'https://acme.pe/post-sitemap.xml'],
+    });
+  });
+
+  it('acepta sitemaps en texto plano', () => {
+    expect(parseSitemap('https://acme.pe/\nhttps://acme.pe/contacto\n\nbasura').urls).toEqual([
+      'https://acme.pe/',
+      'https://acme.pe/contacto',
+    ]);
+  });
+
+  it('HTML (p. ej. un 200 de página de error) no produce URLs', () => {
+    expect(parseSitemap('<html><body><a href="https://acme.pe/x">x</a></body></html>').urls).toEqual([]);
+  });
+});
+
+describe('classifySubpage', () => {
+  it.each([
+    ['/nosotros', 'about'],
+    ['/es/quienes-somos/', 'about'],
+    ['/contactanos', 'contact'],
+    ['/nuestra-historia', 'history'],
+    ['/trabaja-con-nosotros', 'careers'],
+    ['/nosotros/trabaja-con-nosotros', 'careers'],
+    ['/careers/', 'careers'],
+    ['/nosotros/directorio', 'leadership'],
+    ['/inversionistas/directorio/', 'leadership'],
+    ['/equipo-gerencial', 'leadership'],
+    ['/inversionistas/memoria-anual', 'investors'],
+    ['/investor-relations', 'investors'],
+    ['/sostenibilidad', 'sustainability'],
+    ['/responsabilidad-social-empresarial', 'sustainability'],
+  ])('%s → %s', (path, type) => {
+    expect(classifySubpage(path)).toBe(type);
+  });
+
+  it('ignora paths que solo contienen la palabra', () => {
+    expect(classifySubpage('/blog/nosotros-celebramos-25-anos')).toBeNull();
+    expect(classifySubpage('/productos/tarjetas')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import * as querystring from 'querystring';
+import { UniversidadPeruHttpAdapter } from '../../src/infrastructure/adapters/universidad-peru-http.adapter';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { loadFixture, testEgress } from '../helpers/fixtures';
+
+describe('UniversidadPeruHttpAdapter', () => {
+  const adapter = new UniversidadPeruHttpAdapter(testEgress());
+  const html = loadFixture({
+    method: 'POST',
+    url: 'https://www.universidadperu.com/empresas/busqueda/',
+    body: querystring.stringify({ buscaempresa: '20100053455' }),
+  });
+
+  describe('extractCanonicalUrl', () => {
+    it('lee <link rel="canonical">', () => {
+      expect(adapter['extractCanonicalUrl'](html)).toBe(
+        'https://www.universidadperu.com/empresas/interbank.php',
+      );
+    });
+
+    it('cae a og:url', () => {
+      expect(
+        adapter['extractCanonicalUrl'](
+          '<meta property="og:url" content="https://www.universidadperu.com/empresas/alicorp.php">',
+        ),
+      ).toBe('https://www.universidadperu.com/empresas/alicorp.php');
+    });
+
+    it('normaliza el alternate móvil a www', () => {
+      expect(
+        adapter['extractCanonicalUrl'](
+          '<link rel="alternate" media="only screen" href="https://m.universidadperu.com/empresas/alicorp.php">',
+        ),
+      ).toBe('https://www.universidadperu.com/empresas/alicorp.php');
+    });
+
+    it('retorna null sin URL canónica', () => {
+      expect(adapter['extractCanonicalUrl']('<html></html>')).toBeNull();
+    });
+  });
+
+  describe('extractTitle', () => {
+    it('usa el <h1> de la ficha', () => {
+      expect(adapter['extractTitle'](html)).toBe('BANCO INTERNACIONAL DEL PERU-INTERBANK');
+    });
+
+    it('ignora títulos genéricos del portal', () => {
+      expect(adapter['extractTitle']('<h1>Universidad Peru - Portal de Estudios</h1>')).toBe('');
+    });
+  });
+
+  describe('search (replay)', () => {
+    it('encuentra la ficha por RUC', async () => {
+      const searched = await adapter.search('INTERBANK', '20100053455');
+      if (!searched.ok) throw new Error(searched.error.message);
+      const result = searched.value;
+
+      expect(result.website).toBe('https://www.universidadperu.com/empresas/interbank.php');
+      expect(result.title).toBe('BANCO INTERNACIONAL DEL PERU-INTERBANK');
+      expect(result.strategy).toBe(SearchStrategy.UNIV_PERU_HTTP);
+      expect(result.found).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { findWebsiteEvidence, isVerified } from '../../src/shared/utils/website-evidence';
+import { WebsiteVerificationService } from '../../src/application/services/website-verification.service';
+import { CompanyPersistenceService } from '../../src/application/services/company-persistence.service';
+import { CrawlSchedulerService } from '../../src/application/services/crawl-scheduler.service';
+import { SearchResult, SearchResultItem } from '../../src/domain/entities/search-result.entity';
+import { DatosPeruProfile } from '../../src/domain/entities/datos-peru-profile.entity';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { HttpClientPort } from '../../src/domain/ports/http-client.port';
+import { MemoryCompanyRawStoreAdapter } from '../../src/infrastructure/adapters/memory-company-raw-store.adapter';
+import { loadFixture, testConfig, testEgress } from '../helpers/fixtures';
+
+const HOME = 'https://www.interbank.pe/';
+const RUC = '20100053455';
+
+describe('findWebsiteEvidence', () => {
+  const html = loadFixture({ url: HOME });
+
+  it('RUC y razón social en el pie legal', () => {
+    const evidence = findWebsiteEvidence(html, HOME, {
+      ruc: RUC,
+      legalName: 'BANCO INTERNACIONAL DEL PERU S.A.A.',
+    });
+    expect(evidence).toEqual([
+      { type: 'ruc', location: 'footer', snippet: expect.stringContaining(`Interbank. RUC ${RUC}`) },
+      { type: 'legal-name', location: 'footer', snippet: 'banco internacional del peru s a a' },
+    ]);
+    expect(isVerified(evidence)).toBe(true);
+  });
+
+  it('un dominio parecido que solo menciona la marca no queda verificado', () => {
+    const lookalike = `
+      <main><h1>Interbank Club</h1><p>Escríbenos: hola@interbankclub.pe</p></main>
+      <footer>© 2025 Interbank Club</footer>`;
+    const evidence = findWebsiteEvidence(lookalike, 'https://interbankclub.pe/', { ruc: RUC, legalName: 'INTERBANK' });
+    // "INTERBANK" es una marca, no una razón social: no cuenta como legal-name
+    expect(evidence.map((e) => e.type)).toEqual(['domain']);
+    expect(isVerified(evidence)).toBe(false);
+  });
+
+  it('razón social en el pie + emails del dominio verifican sin RUC', () => {
+    const html = `
+      <main><p>Contacto: ventas@acme.com.pe</p></main>
+      <footer>© 2025 Acme Perú S.A.C. Todos los derechos reservados.</footer>`;
+    const evidence = findWebsiteEvidence(html, 'https://www.acme.com.pe/', {
+      ruc: RUC,
+      legalName: 'ACME PERU S.A.C.',
+    });
+    expect(evidence).toEqual([
+      { type: 'legal-name', location: 'footer', snippet: 'acme peru s a c' },
+      { type: 'domain', location: 'page', snippet: 'ventas@acme.com.pe' },
+    ]);
+    expect(isVerified(evidence)).toBe(true);
+  });
+});
+
+describe('WebsiteVerificationService', () => {
+  const pages: Record<string, string> = {
+    'https://interbankclub.pe/': '<footer>© 2025 Interbank Club</footer>',
+    [HOME]: loadFixture({ url: HOME }),
+  };
+  const client: HttpClientPort = {
+    async request(req) {
+      if (req.url.endsWith('/robots.txt')) return { status: 404, url: req.url, headers: {}, body: '' };
+      const body = pages[req.url];
+      return { status: body ? 200 : 404, url: req.url, headers: {}, body: body ?? '' };
+    },
+  };
+  const config = testConfig({ 'scraper.crawl.minDelayMs': 0 });
+  const egress = testEgress(client);
+  const store = new MemoryCompanyRawStoreAdapter(config);
+  const service = new WebsiteVerificationService(egress, new CrawlSchedulerService(egress, config), config, store);
+
+  function result(company = 'INTERBANK'): SearchResult {
+    return new SearchResult({
+      company,
+      cleanName: 'INTERBANK',
+      website: 'https://interbankclub.pe/',
+      score: 20,
+      title: 'Interbank Club',
+      strategy: SearchStrategy.DDG_HTTP,
+      allResults: [
+        new SearchResultItem('https://interbankclub.pe/', 'Interbank Club', 20),
+        new SearchResultItem(HOME, 'Interbank', 12),
+        new SearchResultItem('https://no-existe.pe/', 'Otro', 5),
+      ],
+    });
+  }
+
+  it('sube la web verificada sobre el dominio parecido', async () => {
+    const verified = await service.verify(result(), RUC);
+
+    expect(verified.website).toBe(HOME);
+    expect(verified.verified).toBe(true);
+    expect(verified.score).toBe(22);
+    expect(verified.evidence[0]).toMatchObject({ type: 'ruc', location: 'footer' });
+    expect(verified.allResults.map((r) => [r.url, r.verified])).toEqual([
+      [HOME, true],
+      ['https://interbankclub.pe/', false],
+      ['https://no-existe.pe/', false],
+    ]);
+  });
+
+  it('sin ningún candidato verificado deja la web elegida y marca verified=false', async () => {
+    const verified = await service.verify(result(), '20100047218');
+
+    expect(verified.website).toBe('https://interbankclub.pe/');
+    expect(verified.verified).toBe(false);
+    expect(verified.score).toBe(20);
+  });
+
+  it('busca la razón social guardada para el RUC, no el nombre buscado', async () => {
+    const legalName = (r: SearchResult) => r.evidence.filter((e) => e.type === 'legal-name');
+
+    // Sin fila en companies_raw: el nombre de la búsqueda no cuenta como razón social
+    const unknown = await service.verify(result('BANCO INTERNACIONAL DEL PERU S.A.A.'), RUC);
+    expect(legalName(unknown)).toEqual([]);
+
+    await store.upsert(RUC, 'datosperu', { nombre: 'BANCO INTERNACIONAL DEL PERU S.A.A.' }, null);
+    const fromDatosPeru = await service.verify(result(), RUC);
+    expect(legalName(fromDatosPeru)).toEqual([
+      { type: 'legal-name', location: 'footer', snippet: 'banco internacional del peru s a a' },
+    ]);
+  });
+
+  it('una fila creada por una búsqueda solo aporta razón social tras enriquecerla con DatosPeru', async () => {
+    const rowStore = new MemoryCompanyRawStoreAdapter(config);
+    const persistence = new CompanyPersistenceService(rowStore);
+    const verifier = new WebsiteVerificationService(egress, new CrawlSchedulerService(egress, config), config, rowStore);
+    const legalName = (r: SearchResult) => r.evidence.filter((e) => e.type === 'legal-name');
+
+    // Fila vieja: la búsqueda dejó el nombre buscado en razon_social
+    await rowStore.upsert(RUC, 'search', { query: 'BANCO INTERNACIONAL DEL PERU S.A.A.' }, 'BANCO INTERNACIONAL DEL PERU S.A.A.');
+    await persistence.persistSearch(RUC, 'INTERBANK', result(), SearchStrategy.DDG_HTTP);
+    expect(legalName(await verifier.verify(result(), RUC))).toEqual([]);
+
+    const profile = new DatosPeruProfile(RUC, `https://www.datosperu.org/${RUC}`);
+    profile.nombre = 'BANCO INTERNACIONAL DEL PERU S.A.A.';
+    await persistence.persistDatosPeru(profile);
+    expect(legalName(await verifier.verify(result(), RUC))).toEqual([
+      { type: 'legal-name', location: 'footer', snippet: 'banco internacional del peru s a a' },
+    ]);
+  });
+});
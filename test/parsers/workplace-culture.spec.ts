@@ -0,0 +1,55 @@
+import {
+  classifyBenefit,
+  findCertifications,
+  statementTopic,
+} from '../../src/shared/utils/workplace-culture';
+
+describe('classifyBenefit', () => {
+  it.each([
+    ['Seguro EPS al 100%', 'health'],
+    ['Seguro de vida ley desde el primer día', 'health'],
+    ['Home office 2 veces por semana', 'flexibility'],
+    ['Horarios flexibles', 'flexibility'],
+    ['Línea de carrera', 'career'],
+    ['Programas de capacitación continua', 'career'],
+    ['Licencia de paternidad extendida', 'family'],
+    ['Día libre por tu cumpleaños', 'wellbeing'],
+    ['Descuentos corporativos', 'compensation'],
+  ])('%s → %s', (text, category) => {
+    expect(classifyBenefit(text)).toBe(category);
+  });
+
+  it('texto sin beneficios → null', () => {
+    expect(classifyBenefit('Nuestras oficinas están en San Isidro')).toBeNull();
+  });
+});
+
+describe('findCertifications', () => {
+  it('nombre canónico y año cercano', () => {
+    expect(findCertifications('Somos Great Place to Work 2023 y Empresa Socialmente Responsable')).toEqual([
+      { name: 'Great Place to Work', year: 2023, match: 'Great Place to Work' },
+      { name: 'Empresa Socialmente Responsable', year: 2023, match: 'Empresa Socialmente Responsable' },
+    ]);
+  });
+
+  it('todas las normas ISO; la versión de la norma no es el año', () => {
+    expect(findCertifications('Certificados ISO 9001:2015 e ISO 14001:2015')).toEqual([
+      { name: 'ISO 9001', year: null, match: 'ISO 9001' },
+      { name: 'ISO 14001', year: null, match: 'ISO 14001' },
+    ]);
+  });
+
+  it('lee sellos por nombre de archivo', () => {
+    expect(findCertifications('/img/sello-gptw-2024.png').map((c) => [c.name, c.year])).toEqual([
+      ['Great Place to Work', 2024],
+    ]);
+  });
+});
+
+describe('statementTopic', () => {
+  it('diversidad, sostenibilidad o nada', () => {
+    expect(statementTopic('Promovemos la equidad de género en todos los niveles')).toBe('diversity');
+    expect(statementTopic('Reducimos nuestra huella de carbono cada año')).toBe('sustainability');
+    expect(statementTopic('Impulsamos la inclusión financiera de millones de peruanos')).toBeNull();
+  });
+});
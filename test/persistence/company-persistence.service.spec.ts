@@ -0,0 +1,113 @@
+import { CompanyPersistenceService } from '../../src/application/services/company-persistence.service';
+import { MemoryCompanyRawStoreAdapter } from '../../src/infrastructure/adapters/memory-company-raw-store.adapter';
+import { CompanyRawStorePort } from '../../src/domain/ports/company-raw-store.port';
+import { SearchResult } from '../../src/domain/entities/search-result.entity';
+import { CompanyProfile } from '../../src/domain/entities/company-profile.entity';
+import { DatosPeruProfile } from '../../src/domain/entities/datos-peru-profile.entity';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { testConfig } from '../helpers/fixtures';
+
+const RUC = '20100053455';
+
+function searchResult(website: string): SearchResult {
+  return new SearchResult({
+    company: 'BANCO INTERNACIONAL DEL PERU',
+    cleanName: 'INTERBANK',
+    website,
+    score: 24,
+    title: 'Interbank',
+    strategy: SearchStrategy.DDG_HTTP,
+    allResults: [],
+  });
+}
+
+function datosPeru(nombre: string): DatosPeruProfile {
+  const profile = new DatosPeruProfile(RUC, `https://www.datosperu.org/${RUC}`);
+  profile.nombre = nombre;
+  profile.estado = 'ACTIVO';
+  return profile;
+}
+
+describe('CompanyPersistenceService (companies_raw en memoria)', () => {
+  let store: MemoryCompanyRawStoreAdapter;
+  let persistence: CompanyPersistenceService;
+
+  beforeEach(() => {
+    store = new MemoryCompanyRawStoreAdapter(testConfig({ 'scraper.persistence.source': 'test' }));
+    persistence = new CompanyPersistenceService(store);
+  });
+
+  it('cada fuente va a su clave de data sin pisar las demás; la misma fuente se reemplaza', async () => {
+    await persistence.persistSearch(RUC, 'INTERBANK', searchResult('https://old.interbank.pe'), SearchStrategy.DDG_HTTP);
+    const website = new CompanyProfile('https://interbank.pe');
+    website.name = 'Interbank';
+    await persistence.persistWebsite(RUC, website);
+    await persistence.persistSearch(RUC, 'INTERBANK', searchResult('https://interbank.pe'), SearchStrategy.BING_HTTP);
+
+    const row = (await store.findByRuc(RUC))!;
+    expect(Object.keys(row.data).sort()).toEqual(['search', 'website']);
+    expect(row.data.search).toMatchObject({ website: 'https://interbank.pe', strategy: 'bing_http', found: true });
+    expect(row.data.website).toMatchObject({ name: 'Interbank', sourceUrl: 'https://interbank.pe' });
+    expect(row.source).toBe('test');
+    expect(row.updatedAt.getTime()).toBeGreaterThanOrEqual(row.createdAt.getTime());
+  });
+
+  it('razon_social solo la escribe DatosPeru: ni la búsqueda ni la web la tocan', async () => {
+    await persistence.persistSearch(RUC, 'INTERBANK', searchResult('https://interbank.pe'), SearchStrategy.DDG_HTTP);
+    const website = new CompanyProfile('https://interbank.pe');
+    website.name = 'Interbank';
+    await persistence.persistWebsite(RUC, website);
+    expect((await store.findByRuc(RUC))!.razonSocial).toBeNull();
+
+    await persistence.persistDatosPeru(datosPeru('BANCO INTERNACIONAL DEL PERU-INTERBANK'));
+    await persistence.persistSearch(RUC, 'INTERBANK', searchResult('https://interbank.pe'), SearchStrategy.BING_HTTP);
+    expect((await store.findByRuc(RUC))!.razonSocial).toBe('BANCO INTERNACIONAL DEL PERU-INTERBANK');
+  });
+
+  it('DatosPeru reemplaza una razon_social anterior', async () => {
+    await store.upsert(RUC, 'search', { query: 'INTERBANK' }, 'INTERBANK');
+
+    await persistence.persistDatosPeru(datosPeru('BANCO INTERNACIONAL DEL PERU-INTERBANK'));
+
+    const row = (await store.findByRuc(RUC))!;
+    expect(row.razonSocial).toBe('BANCO INTERNACIONAL DEL PERU-INTERBANK');
+    expect(row.data.datosperu).toMatchObject({ nombre: 'BANCO INTERNACIONAL DEL PERU-INTERBANK', fieldsExtracted: 2 });
+  });
+
+  it('sin RUC usa el que se extrajo de la web', async () => {
+    const website = new CompanyProfile('https://interbank.pe');
+    website.ruc = RUC;
+
+    expect(await persistence.persistWebsite(undefined, website)).toEqual({
+      persisted: true,
+      ruc: RUC,
+      key: 'website',
+      error: null,
+    });
+  });
+
+  it('sin RUC válido no persiste y lo reporta', async () => {
+    expect(await persistence.persistSearch(undefined, 'INTERBANK', null, SearchStrategy.DDG_HTTP)).toEqual({
+      persisted: false,
+      ruc: null,
+      key: 'search',
+      error: 'Se requiere un RUC para persistir en companies_raw',
+    });
+    expect(await persistence.persistSearch(' 2010005 ', 'INTERBANK', null, SearchStrategy.DDG_HTTP)).toMatchObject({
+      persisted: false,
+      ruc: '2010005',
+      error: 'RUC inválido: "2010005" (debe tener 11 dígitos)',
+    });
+  });
+
+  it('un fallo de la base de datos se reporta en vez de lanzar', async () => {
+    const broken: CompanyRawStorePort = {
+      upsert: async () => {
+        throw new Error('connection refused');
+      },
+      findByRuc: async () => null,
+    };
+    const info = await new CompanyPersistenceService(broken).persistDatosPeru(datosPeru('INTERBANK'));
+    expect(info).toEqual({ persisted: false, ruc: RUC, key: 'datosperu', error: 'connection refused' });
+  });
+});
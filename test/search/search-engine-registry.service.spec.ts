@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test } from '@nestjs/testing';
+import {
+  SearchEngine,
+  SearchEngineRegistry,
+} from '../../src/application/services/search-engine-registry.service';
+import { SearchEnginePort } from '../../src/domain/ports/search-engine.port';
+import { StrategyStatus } from '../../src/domain/entities/strategy-status.entity';
+import { SearchResult } from '../../src/domain/entities/search-result.entity';
+import { Result, fail } from '../../src/domain/entities/result.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { testConfig } from '../helpers/fixtures';
+
+/** Motor mínimo: solo importa cómo se registra */
+abstract class FakeEngine implements SearchEnginePort {
+  abstract readonly strategy: SearchStrategy;
+  private status?: StrategyStatus;
+
+  async search(): Promise<Result<SearchResult>> {
+    return fail(FailureCode.NOT_FOUND, 'sin resultados');
+  }
+  getStatus(): StrategyStatus {
+    if (!this.status) this.status = new StrategyStatus({ strategy: this.strategy });
+    return this.status;
+  }
+  isAvailable(): boolean {
+    return this.getStatus().isAvailable;
+  }
+  reset(): void {
+    this.getStatus().reset();
+  }
+  async dispose(): Promise<void> {}
+}
+
+@Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 20,
+  delay: { min: 10, max: 20 },
+  limits: { maxPerSession: 150 },
+  configKey: 'bingHttp',
+})
+class FakeBing extends FakeEngine {
+  readonly strategy = SearchStrategy.BING_HTTP;
+}
+
+@Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 10,
+  delay: { min: 10, max: 20 },
+  limits: { maxPerSession: 200 },
+  configKey: 'ddgHttp',
+})
+class FakeDdg extends FakeEngine {
+  readonly strategy = SearchStrategy.DDG_HTTP;
+}
+
+@Injectable()
+@SearchEngine({
+  phase: 'directory',
+  priority: 10,
+  delay: { min: 1, max: 1 },
+  limits: { maxPerSession: 100 },
+})
+class FakeDirectory extends FakeEngine {
+  readonly strategy = SearchStrategy.UNIV_PERU_HTTP;
+}
+
+@Injectable()
+@SearchEngine({
+  phase: 'direct',
+  priority: 30,
+  delay: { min: 1, max: 1 },
+  limits: { maxPerSession: 500 },
+  requires: ['scraper.searxng.url'],
+})
+class FakeSearxng extends FakeEngine {
+  readonly strategy = SearchStrategy.SEARXNG_API;
+}
+
+/** Provider sin decorador: no debe registrarse */
+@Injectable()
+class NotAnEngine {}
+
+async function registry(values: Record<string, unknown> = {}): Promise<SearchEngineRegistry> {
+  const moduleRef = await Test.createTestingModule({
+    imports: [DiscoveryModule],
+    providers: [
+      SearchEngineRegistry,
+      FakeDirectory,
+      FakeBing,
+      FakeDdg,
+      FakeSearxng,
+      NotAnEngine,
+      { provide: ConfigService, useValue: testConfig(values) },
+    ],
+  }).compile();
+  return moduleRef.get(SearchEngineRegistry);
+}
+
+const order = (r: SearchEngineRegistry) => r.list().map((e) => e.engine.strategy);
+
+describe('SearchEngineRegistry', () => {
+  it('descubre los motores decorados y los ordena por fase y prioridad', async () => {
+    const engines = await registry();
+
+    expect(order(engines)).toEqual([SearchStrategy.DDG_HTTP, SearchStrategy.BING_HTTP, SearchStrategy.UNIV_PERU_HTTP]);
+    expect(engines.list('directory').map((e) => e.engine.strategy)).toEqual([SearchStrategy.UNIV_PERU_HTTP]);
+    expect(engines.get(SearchStrategy.SEARXNG_API)).toBeUndefined();
+  });
+
+  it('no registra los motores a los que les falta config (requires)', async () => {
+    const engines = await registry();
+    expect(engines.get(SearchStrategy.SEARXNG_API)).toBeUndefined();
+    expect(engines.missingConfig(SearchStrategy.SEARXNG_API)).toEqual(['scraper.searxng.url']);
+    expect(engines.missingConfig(SearchStrategy.GOOGLE_CSE_API)).toEqual([]);
+
+    const configured = await registry({ 'scraper.searxng.url': 'http://searxng:8080' });
+    expect(order(configured)).toEqual([
+      SearchStrategy.DDG_HTTP,
+      SearchStrategy.BING_HTTP,
+      SearchStrategy.SEARXNG_API,
+      SearchStrategy.UNIV_PERU_HTTP,
+    ]);
+    expect(configured.missingConfig(SearchStrategy.SEARXNG_API)).toEqual([]);
+  });
+
+  it('aplica los límites del descriptor, o los de scraper.limits si están configurados', async () => {
+    const engines = await registry({ 'scraper.limits.bingHttp': 5 });
+
+    expect(engines.get(SearchStrategy.DDG_HTTP)!.getStatus().maxPerSession).toBe(200);
+    expect(engines.get(SearchStrategy.BING_HTTP)!.getStatus().maxPerSession).toBe(5);
+    expect(engines.list().find((e) => e.engine.strategy === SearchStrategy.BING_HTTP)!.limits).toEqual({
+      maxPerSession: 5,
+    });
+  });
+
+  it('scraper.delays sobrescribe el delay del descriptor', async () => {
+    const engines = await registry({ 'scraper.delays.ddgHttp': { min: 7, max: 7 } });
+    expect(engines.getDelay(SearchStrategy.DDG_HTTP)).toBe(7);
+    expect(engines.getDelay(SearchStrategy.UNIV_PERU_HTTP)).toBe(1);
+  });
+
+  it('SEARCH_ENGINE_PRIORITY reordena dentro de cada fase e ignora motores desconocidos', async () => {
+    const engines = await registry({ 'scraper.engines.priority': ['bing_http', 'nope'] });
+    expect(order(engines)).toEqual([SearchStrategy.BING_HTTP, SearchStrategy.DDG_HTTP, SearchStrategy.UNIV_PERU_HTTP]);
+  });
+
+  it('setPriorityOrder rechaza motores no registrados', async () => {
+    const engines = await registry();
+    expect(() => engines.setPriorityOrder([SearchStrategy.GOOGLE_CSE_API])).toThrow(
+      'Motores no registrados: google_cse_api',
+    );
+    expect(order(engines)[0]).toBe(SearchStrategy.DDG_HTTP);
+  });
+});
@@ -0,0 +1,181 @@
+import { DiscoveryService } from '@nestjs/core';
+import { SearchOrchestratorService } from '../../src/application/services/search-orchestrator.service';
+import { SearchEngineRegistry } from '../../src/application/services/search-engine-registry.service';
+import { ResultCacheService } from '../../src/application/services/result-cache.service';
+import { WebsiteVerificationService } from '../../src/application/services/website-verification.service';
+import { MemoryCacheAdapter } from '../../src/infrastructure/adapters/memory-cache.adapter';
+import { SearchEnginePhase, SearchEnginePort } from '../../src/domain/ports/search-engine.port';
+import { StrategyStatus } from '../../src/domain/entities/strategy-status.entity';
+import { SearchResult, SearchResultItem } from '../../src/domain/entities/search-result.entity';
+import { Result, fail, ok } from '../../src/domain/entities/result.entity';
+import { FailureCode } from '../../src/domain/enums/failure-code.enum';
+import { SearchStrategy } from '../../src/domain/enums/search-strategy.enum';
+import { CONSENSUS_BONUS } from '../../src/shared/utils/result-fusion';
+import { testConfig } from '../helpers/fixtures';
+
+/** Motor con respuesta fija; `searches` cuenta cuántas veces buscó */
+class FixedEngine implements SearchEnginePort {
+  searches = 0;
+  private readonly status: StrategyStatus;
+
+  constructor(
+    readonly strategy: SearchStrategy,
+    private readonly answer: Result<SearchResult>,
+    available = true,
+  ) {
+    this.status = new StrategyStatus({ strategy });
+    this.status.available = available;
+  }
+
+  async search(): Promise<Result<SearchResult>> {
+    this.searches++;
+    return this.answer;
+  }
+  getStatus(): StrategyStatus {
+    return this.status;
+  }
+  isAvailable(): boolean {
+    return this.status.isAvailable;
+  }
+  reset(): void {
+    this.status.reset();
+  }
+  async dispose(): Promise<void> {}
+}
+
+const notFound = fail(FailureCode.NOT_FOUND, 'sin resultados');
+
+function found(strategy: SearchStrategy, website: string, score: number): Result<SearchResult> {
+  return ok(
+    new SearchResult({
+      company: 'INTERBANK',
+      cleanName: 'INTERBANK',
+      website,
+      score,
+      title: 'Interbank',
+      strategy,
+      allResults: [new SearchResultItem(website, 'Interbank', score)],
+    }),
+  );
+}
+
+function orchestrator(engines: Array<[SearchEnginePhase, FixedEngine]>): SearchOrchestratorService {
+  const registry = new SearchEngineRegistry(
+    { getProviders: () => [] } as unknown as DiscoveryService,
+    testConfig(),
+  );
+  engines.forEach(([phase, engine], i) =>
+    registry.register(engine, {
+      phase,
+      priority: i,
+      delay: { min: 0, max: 0 },
+      limits: { maxPerSession: 100 },
+    }),
+  );
+  const cache = new ResultCacheService(new MemoryCacheAdapter(testConfig()), testConfig());
+  return new SearchOrchestratorService(registry, cache, {} as WebsiteVerificationService);
+}
+
+describe('SearchOrchestratorService (agregación de fallos)', () => {
+  it('not_found si todos los que buscaron respondieron sin resultados, aunque haya motores agotados', async () => {
+    const exhausted = new FixedEngine(SearchStrategy.SEARXNG_API, notFound, false);
+    const search = orchestrator([
+      ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, notFound)],
+      ['direct', exhausted],
+      ['directory', new FixedEngine(SearchStrategy.UNIV_PERU_HTTP, notFound)],
+    ]);
+
+    const { result, failure } = await search.search('NOEXISTE SAC');
+
+    expect(result).toBeNull();
+    expect(failure).toMatchObject({ code: FailureCode.NOT_FOUND });
+    expect(failure!.message).not.toContain('searxng_api');
+    expect(exhausted.searches).toBe(0);
+  });
+
+  it('un motor bloqueado hace el fallo reintentable', async () => {
+    const search = orchestrator([
+      ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, fail(FailureCode.BLOCKED, 'captcha'))],
+      ['direct', new FixedEngine(SearchStrategy.BING_HTTP, fail(FailureCode.UPSTREAM_ERROR, 'ECONNRESET'))],
+      ['directory', new FixedEngine(SearchStrategy.UNIV_PERU_HTTP, notFound)],
+    ]);
+
+    const { failure } = await search.search('INTERBANK');
+
+    expect(failure).toMatchObject({ code: FailureCode.BLOCKED });
+    expect(failure!.message).toContain('ddg_http: captcha; bing_http: ECONNRESET');
+  });
+
+  it('unavailable solo si no buscó ningún motor', async () => {
+    const search = orchestrator([
+      ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, notFound, false)],
+      ['directory', new FixedEngine(SearchStrategy.UNIV_PERU_HTTP, notFound, false)],
+    ]);
+
+    const { failure } = await search.search('INTERBANK');
+
+    expect(failure).toMatchObject({
+      code: FailureCode.UNAVAILABLE,
+      message: 'Ningún motor disponible para "INTERBANK" (agotados/cooldown: ddg_http, univ_peru_http)',
+    });
+  });
+
+  it('un resultado con score bajo no es un fallo', async () => {
+    const search = orchestrator([
+      ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, found(SearchStrategy.DDG_HTTP, 'https://x.pe', 2))],
+      ['direct', new FixedEngine(SearchStrategy.BING_HTTP, notFound, false)],
+    ]);
+
+    const { failure } = await search.search('INTERBANK');
+
+    expect(failure).toMatchObject({ code: FailureCode.NOT_FOUND });
+  });
+
+  describe('fan-out', () => {
+    it('gana el dominio con consenso y su score lleva el bonus', async () => {
+      const search = orchestrator([
+        ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, found(SearchStrategy.DDG_HTTP, 'https://interbank.pe/', 12))],
+        ['direct', new FixedEngine(SearchStrategy.BING_HTTP, found(SearchStrategy.BING_HTTP, 'https://www.interbank.pe/', 10))],
+      ]);
+
+      const { result, strategyUsed, failure } = await search.searchFanout('INTERBANK');
+
+      expect(failure).toBeNull();
+      expect(result).toMatchObject({ website: 'https://interbank.pe/', score: 12 + CONSENSUS_BONUS });
+      expect(strategyUsed).toBe(SearchStrategy.DDG_HTTP);
+    });
+
+    it('not_found con motores saltados y los demás sin resultados', async () => {
+      const search = orchestrator([
+        ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, notFound)],
+        ['direct', new FixedEngine(SearchStrategy.GOOGLE_CSE_API, notFound, false)],
+        ['directory', new FixedEngine(SearchStrategy.UNIV_PERU_HTTP, notFound)],
+      ]);
+
+      const { result, failure, fanout } = await search.searchFanout('NOEXISTE SAC');
+
+      expect(result).toBeNull();
+      expect(failure).toMatchObject({ code: FailureCode.NOT_FOUND });
+      expect(fanout.engines.map((e) => e.strategy)).toEqual([SearchStrategy.DDG_HTTP]);
+    });
+
+    it('un motor caído con los demás sin resultados es reintentable', async () => {
+      const search = orchestrator([
+        ['direct', new FixedEngine(SearchStrategy.DDG_HTTP, notFound)],
+        ['direct', new FixedEngine(SearchStrategy.BING_HTTP, fail(FailureCode.UPSTREAM_ERROR, 'timeout'))],
+      ]);
+
+      const { failure } = await search.searchFanout('INTERBANK');
+
+      expect(failure).toMatchObject({ code: FailureCode.UPSTREAM_ERROR });
+    });
+
+    it('unavailable si todos los motores estaban saltados', async () => {
+      const search = orchestrator([['direct', new FixedEngine(SearchStrategy.DDG_HTTP, notFound, false)]]);
+
+      const { failure } = await search.searchFanout('INTERBANK');
+
+      expect(failure).toMatchObject({ code: FailureCode.UNAVAILABLE });
+    });
+  });
+});
@@ -0,0 +1,9 @@
+import { Logger } from '@nestjs/common';
+import * as path from 'path';
+
+// Los tests nunca salen a la red: toda request se sirve desde test/fixtures/http.
+// Para re-grabar contra los sitios reales: HTTP_FIXTURES=record npm test
+process.env.HTTP_FIXTURES = process.env.HTTP_FIXTURES || 'replay';
+process.env.HTTP_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'http');
+
+Logger.overrideLogger(false);